@@ -2,7 +2,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 import express from 'express';
 import cors from 'cors';
-import { handleOpenPhoneWebhook } from './webhooks/openphone.js';
+import { allowUnsignedWebhooks, handleOpenPhoneWebhook } from './webhooks/openphone.js';
 import { messageProcessor } from './services/messageProcessor.js';
 import { OpenAIService } from './services/openai.js';
 import webhookController from './controllers/webhookController.js';
@@ -49,7 +49,13 @@ app.use(cors({
     credentials: true
 }));
 
-app.use(express.json({ limit: '1mb' }));
+// Keep the raw body; the webhook signature covers the exact bytes OpenPhone sent
+app.use(express.json({
+    limit: '1mb',
+    verify: (req, res, buf) => {
+        req.rawBody = buf;
+    }
+}));
 app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
 // Health check endpoint - optimized for Render
@@ -384,6 +390,11 @@ const server = app.listen(PORT, '0.0.0.0', async () => {
     console.log(`✅ ShopSenseAI webhook server deployed successfully!`);
     console.log(`🎯 Tagline: Instant quotes. Automated booking. More wrench time.`);
     console.log(`🌐 Allowed origins: shopsenseai.app, shopsenseai.netlify.app`);
+    if (!process.env.OPENPHONE_WEBHOOK_SECRET) {
+        console.warn(allowUnsignedWebhooks()
+            ? '⚠️ OPENPHONE_WEBHOOK_SECRET is not set - accepting UNSIGNED webhooks (ALLOW_UNSIGNED_WEBHOOKS=true)'
+            : '⚠️ OPENPHONE_WEBHOOK_SECRET is not set - all webhooks will be rejected');
+    }
     
     // Initialize messageProcessor on startup
     try {
@@ -1,12 +1,49 @@
+import crypto from 'crypto';
 import { messageProcessor } from '../services/messageProcessor.js';
 
+// Reject signed requests older (or newer) than this to stop replays
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Verifies an `openphone-signature` header of the form
+ * `hmac;1;<timestamp ms>;<base64 digest>`. The digest is an HMAC-SHA256 of
+ * `<timestamp>.<raw body>` keyed with the base64-decoded signing secret.
+ */
+export function verifyOpenPhoneSignature(header, rawBody, signingSecret, now = Date.now()) {
+    if (!header) return { valid: false, reason: 'missing openphone-signature header' };
+    if (!rawBody) return { valid: false, reason: 'raw request body unavailable' };
+
+    const [scheme, version, timestamp, digest] = header.split(';');
+    if (scheme !== 'hmac' || version !== '1' || !timestamp || !digest) {
+        return { valid: false, reason: 'malformed openphone-signature header' };
+    }
+
+    const signedAt = parseInt(timestamp);
+    if (isNaN(signedAt) || Math.abs(now - signedAt) > SIGNATURE_TOLERANCE_MS) {
+        return { valid: false, reason: 'timestamp outside tolerance' };
+    }
+
+    const expected = crypto
+        .createHmac('sha256', Buffer.from(signingSecret, 'base64'))
+        .update(`${timestamp}.${rawBody.toString('utf8')}`)
+        .digest();
+    const received = Buffer.from(digest, 'base64');
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+        return { valid: false, reason: 'signature mismatch' };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Unsigned webhooks are only accepted when explicitly allowed for local
+ * development, where there is no OpenPhone signing secret to check against
+ */
+export const allowUnsignedWebhooks = () => process.env.ALLOW_UNSIGNED_WEBHOOKS === 'true';
+
 export async function handleOpenPhoneWebhook(req, res) {
     try {
         console.log('🔔 OpenPhone webhook received');
-        console.log('📋 Request method:', req.method);
-        console.log('📋 Request URL:', req.url);
-        console.log('📋 Request headers:', JSON.stringify(req.headers, null, 2));
-        console.log('📋 Request body:', JSON.stringify(req.body, null, 2));
 
         // Handle GET requests (for webhook verification)
         if (req.method === 'GET') {
@@ -18,6 +55,19 @@ export async function handleOpenPhoneWebhook(req, res) {
             });
         }
 
+        // Only OpenPhone can sign with the webhook's secret
+        const signingSecret = process.env.OPENPHONE_WEBHOOK_SECRET;
+        if (signingSecret) {
+            const check = verifyOpenPhoneSignature(req.get('openphone-signature'), req.rawBody, signingSecret);
+            if (!check.valid) {
+                console.warn(`🚫 Rejected OpenPhone webhook from ${req.ip}: ${check.reason}`);
+                return res.status(401).json({ error: 'Invalid webhook signature' });
+            }
+        } else if (!allowUnsignedWebhooks()) {
+            console.error(`🚫 Rejected OpenPhone webhook from ${req.ip}: OPENPHONE_WEBHOOK_SECRET is not set`);
+            return res.status(503).json({ error: 'Webhook signing secret is not configured' });
+        }
+
         // Handle empty or malformed requests
         if (!req.body) {
             console.log('⚠️ Empty request body');
@@ -96,7 +146,7 @@ export async function handleOpenPhoneWebhook(req, res) {
         const phoneNumberId = payload.data.object.phoneNumberId || null;
         const conversationId = payload.data.object.conversationId || null;
         
-        console.log(`📱 Processing incoming message from ${phoneNumber}: "${messageBody}"`);
+        console.log(`📱 Processing incoming message from ${phoneNumber}`);
         if (phoneNumberId) {
             console.log(`📋 OpenPhone IDs - PhoneNumberId: ${phoneNumberId}, ConversationId: ${conversationId}`);
         }
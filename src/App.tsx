@@ -4,6 +4,7 @@ import Layout from './components/Layout'
 import Dashboard from './pages/Dashboard'
 import Messages from './pages/Messages'
 import Customers from './pages/Customers'
+import Vehicles from './pages/Vehicles'
 import Quotes from './pages/Quotes'
 import Calendar from './pages/Calendar'
 import Invoices from './pages/Invoices'
@@ -17,6 +18,7 @@ function App() {
         <Route path="/" element={<Dashboard />} />
         <Route path="/messages" element={<Messages />} />
         <Route path="/customers" element={<Customers />} />
+        <Route path="/vehicles" element={<Vehicles />} />
         <Route path="/quotes" element={<Quotes />} />
         <Route path="/calendar" element={<Calendar />} />
         <Route path="/tech-sheets" element={<TechSheets />} />
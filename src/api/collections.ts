@@ -0,0 +1,80 @@
+import { Router, type Request, type Response } from 'express'
+import type { Repository } from '../services/storage'
+
+/**
+ * Builds a CRUD router for a stored collection:
+ *
+ * - GET    /      list all items, as `{ [responseKey]: items }`
+ * - GET    /:id   fetch one item
+ * - POST   /      create or replace an item (the client supplies the id)
+ * - PUT    /:id   create or replace an item by id
+ * - DELETE /:id   remove an item
+ *
+ * `prepare` can adjust an item before it is saved.
+ */
+export function createCollectionRouter<T extends { id: string }>(
+  getRepository: () => Promise<Repository<T>>,
+  responseKey: string,
+  prepare?: (item: T) => Promise<T>
+): Router {
+  const router = Router()
+
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const repository = await getRepository()
+      const items = await repository.list()
+      res.json({ [responseKey]: items })
+    } catch (error) {
+      console.error(`Error fetching ${responseKey}:`, error)
+      res.status(500).json({ error: `Failed to fetch ${responseKey}`, [responseKey]: [] })
+    }
+  })
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const repository = await getRepository()
+      const item = await repository.get(req.params.id)
+      if (!item) {
+        return res.status(404).json({ error: 'Not found' })
+      }
+      res.json(item)
+    } catch (error) {
+      console.error(`Error fetching ${responseKey} item:`, error)
+      res.status(500).json({ error: 'Failed to fetch item' })
+    }
+  })
+
+  const save = async (req: Request, res: Response) => {
+    try {
+      const item = { ...req.body, ...(req.params.id ? { id: req.params.id } : {}) } as T
+      if (!item.id) {
+        return res.status(400).json({ error: 'Item id is required' })
+      }
+      const repository = await getRepository()
+      const saved = await repository.upsert(prepare ? await prepare(item) : item)
+      res.json(saved)
+    } catch (error) {
+      console.error(`Error saving ${responseKey} item:`, error)
+      res.status(500).json({ error: 'Failed to save item' })
+    }
+  }
+
+  router.post('/', save)
+  router.put('/:id', save)
+
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const repository = await getRepository()
+      const removed = await repository.remove(req.params.id)
+      if (!removed) {
+        return res.status(404).json({ error: 'Not found' })
+      }
+      res.json({ success: true })
+    } catch (error) {
+      console.error(`Error deleting ${responseKey} item:`, error)
+      res.status(500).json({ error: 'Failed to delete item' })
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,53 @@
+import type { Request, Response } from 'express'
+import { messageProcessor } from '../services/messageProcessor'
+import type { ConsentStatus } from '../types'
+
+const STATUSES: ConsentStatus[] = ['opted_in', 'opted_out']
+
+/**
+ * Lists every number with a consent record, most recently changed first.
+ * Numbers without one have never opted out.
+ */
+export async function getConsents(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const consents = await messageProcessor.getConsents()
+    res.json({ consents })
+  } catch (error) {
+    console.error('Error fetching consents:', error)
+    res.status(500).json({ error: 'Failed to fetch consents', consents: [] })
+  }
+}
+
+export async function getConsent(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const consent = await messageProcessor.getConsent(req.params.phone)
+    res.json({ consent, can_text: consent?.status !== 'opted_out' })
+  } catch (error) {
+    console.error('Error fetching consent:', error)
+    res.status(500).json({ error: 'Failed to fetch consent' })
+  }
+}
+
+/**
+ * Records an opt-out or opt-in staff took down, with an optional note
+ */
+export async function updateConsent(req: Request, res: Response) {
+  const { status, note } = req.body || {}
+  if (!STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` })
+  }
+  if (note !== undefined && typeof note !== 'string') {
+    return res.status(400).json({ error: 'note must be text' })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const consent = await messageProcessor.setConsent(req.params.phone, status, note?.trim() || undefined)
+    res.json({ success: true, consent })
+  } catch (error) {
+    console.error('Error updating consent:', error)
+    res.status(500).json({ error: 'Failed to update consent' })
+  }
+}
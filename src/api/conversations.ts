@@ -0,0 +1,106 @@
+import type { Request, Response } from 'express'
+import { messageProcessor } from '../services/messageProcessor'
+import type { ConversationStatus } from '../types'
+
+const STATUSES: ConversationStatus[] = ['open', 'snoozed', 'closed']
+
+/**
+ * Lists conversation threads, newest activity first.
+ * `?status=open|snoozed|closed` narrows the list.
+ */
+export async function getConversations(req: Request, res: Response) {
+  const status = req.query.status as ConversationStatus | undefined
+  if (status && !STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}`, conversations: [] })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const conversations = await messageProcessor.getConversationList()
+    res.json({ conversations: status ? conversations.filter(c => c.status === status) : conversations })
+  } catch (error) {
+    console.error('Error fetching conversations:', error)
+    res.status(500).json({ error: 'Failed to fetch conversations', conversations: [] })
+  }
+}
+
+export async function closeConversation(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const conversation = await messageProcessor.closeConversation(req.params.id)
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+    res.json({ success: true, conversation })
+  } catch (error) {
+    console.error('Error closing conversation:', error)
+    res.status(500).json({ error: 'Failed to close conversation' })
+  }
+}
+
+/**
+ * Snoozes a thread until `until` (a future date or date-time)
+ */
+export async function snoozeConversation(req: Request, res: Response) {
+  const until = new Date(req.body?.until)
+  if (!req.body?.until || isNaN(until.getTime())) {
+    return res.status(400).json({ error: 'A valid snooze date is required' })
+  }
+  if (until.getTime() <= Date.now()) {
+    return res.status(400).json({ error: 'Snooze date must be in the future' })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const conversation = await messageProcessor.snoozeConversation(req.params.id, until.toISOString())
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+    res.json({ success: true, conversation })
+  } catch (error) {
+    console.error('Error snoozing conversation:', error)
+    res.status(500).json({ error: 'Failed to snooze conversation' })
+  }
+}
+
+export async function reopenConversation(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const conversation = await messageProcessor.reopenConversation(req.params.id)
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+    res.json({ success: true, conversation })
+  } catch (error) {
+    console.error('Error reopening conversation:', error)
+    res.status(500).json({ error: 'Failed to reopen conversation' })
+  }
+}
+
+/**
+ * Changes a thread's assignee and/or tags
+ */
+export async function updateConversation(req: Request, res: Response) {
+  const { assignee, tags } = req.body || {}
+  if (assignee !== undefined && typeof assignee !== 'string') {
+    return res.status(400).json({ error: 'assignee must be a string' })
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+    return res.status(400).json({ error: 'tags must be a list of strings' })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const conversation = await messageProcessor.updateConversation(req.params.id, {
+      assignee: assignee?.trim(),
+      tags: tags ? Array.from(new Set<string>(tags.map((tag: string) => tag.trim()).filter(Boolean))) : undefined
+    })
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+    res.json({ success: true, conversation })
+  } catch (error) {
+    console.error('Error updating conversation:', error)
+    res.status(500).json({ error: 'Failed to update conversation' })
+  }
+}
@@ -0,0 +1,239 @@
+import type { Request, Response } from 'express'
+import { z } from 'zod'
+import { messageProcessor } from '../services/messageProcessor'
+import type { CustomerDetails } from '../services/customers'
+import { normalizePhoneNumber } from '../utils/phone'
+
+const optionalText = (max: number, label: string) =>
+  z.string().trim().max(max, `${label} must be under ${max} characters`).optional()
+
+const vehicleSchema = z.object({
+  year: z.string().trim().regex(/^(\d{4})?$/, 'Use a 4-digit year').optional(),
+  make: optionalText(50, 'Make'),
+  model: optionalText(50, 'Model'),
+  details: z.string().trim().min(1, 'Describe the vehicle').max(200, 'Vehicle must be under 200 characters'),
+  added_at: z.string().optional()
+})
+
+const customerSchema = z.object({
+  phone_number: z.string().trim().min(10, 'Enter a full phone number'),
+  first_name: optionalText(50, 'First name'),
+  last_name: optionalText(50, 'Last name'),
+  email: z.string().trim().email('Enter a valid email').or(z.literal('')).optional(),
+  address: optionalText(200, 'Address'),
+  preferred_contact_method: z.enum(['sms', 'call', 'email']).optional(),
+  is_repeat_customer: z.boolean().optional(),
+  notes: z.array(z.string().trim().min(1, 'Notes cannot be empty')).optional(),
+  vehicles: z.array(vehicleSchema).optional()
+})
+
+const describeIssue = (error: z.ZodError) => {
+  const issue = error.issues[0]
+  return `Invalid ${issue.path.join('.')}: ${issue.message}`
+}
+
+/**
+ * Email can only be the preferred contact method when there is an email
+ */
+const checkContactMethod = (details: Partial<CustomerDetails>): string | null => {
+  return details.preferred_contact_method === 'email' && !details.email
+    ? 'Invalid email: add an email address to prefer email'
+    : null
+}
+
+/**
+ * Lists customers, most recently updated first
+ */
+export async function getCustomers(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const customers = await messageProcessor.getCustomerList()
+    res.json({ customers })
+  } catch (error) {
+    console.error('Error fetching customers:', error)
+    res.status(500).json({ error: 'Failed to fetch customers', customers: [] })
+  }
+}
+
+/**
+ * Lists pairs of customers that may be the same person (same number, name
+ * or vehicle), strongest first
+ */
+export async function getCustomerDuplicates(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const duplicates = await messageProcessor.findCustomerDuplicates()
+    res.json({ duplicates })
+  } catch (error) {
+    console.error('Error finding duplicate customers:', error)
+    res.status(500).json({ error: 'Failed to find duplicate customers', duplicates: [] })
+  }
+}
+
+export async function getCustomer(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const customer = await messageProcessor.getCustomer(req.params.id)
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' })
+    }
+    res.json(customer)
+  } catch (error) {
+    console.error('Error fetching customer:', error)
+    res.status(500).json({ error: 'Failed to fetch customer' })
+  }
+}
+
+export async function createCustomer(req: Request, res: Response) {
+  const parsed = customerSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: describeIssue(parsed.error) })
+  }
+  const details = parsed.data as CustomerDetails
+  const invalid = checkContactMethod(details)
+  if (invalid) {
+    return res.status(400).json({ error: invalid })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const existing = await messageProcessor.findCustomerByPhone(details.phone_number)
+    if (existing) {
+      return res.status(409).json({ error: `${details.phone_number} already belongs to ${existing.full_name || 'another customer'}`, customer: existing })
+    }
+    const customer = await messageProcessor.createCustomer(details)
+    res.json({ success: true, customer })
+  } catch (error) {
+    console.error('Error creating customer:', error)
+    res.status(500).json({ error: 'Failed to create customer' })
+  }
+}
+
+/**
+ * Saves edits to a customer. Only the fields sent are changed.
+ */
+export async function updateCustomer(req: Request, res: Response) {
+  const parsed = customerSchema.partial().safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: describeIssue(parsed.error) })
+  }
+  const details = parsed.data as Partial<CustomerDetails>
+
+  try {
+    await messageProcessor.initialize()
+    const current = await messageProcessor.getCustomer(req.params.id)
+    if (!current) {
+      return res.status(404).json({ error: 'Customer not found' })
+    }
+    const invalid = checkContactMethod({ ...current, ...details })
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+    if (details.phone_number) {
+      const existing = await messageProcessor.findCustomerByPhone(details.phone_number)
+      if (existing && existing.id !== current.id) {
+        return res.status(409).json({ error: `${details.phone_number} already belongs to ${existing.full_name || 'another customer'}`, customer: existing })
+      }
+    }
+
+    const customer = await messageProcessor.updateCustomer(req.params.id, details)
+    res.json({ success: true, customer })
+  } catch (error) {
+    console.error('Error updating customer:', error)
+    res.status(500).json({ error: 'Failed to update customer' })
+  }
+}
+
+/**
+ * Folds the duplicate `{ sourceId }` into this customer and deletes it
+ */
+export async function mergeCustomer(req: Request, res: Response) {
+  const sourceId = req.body?.sourceId
+  if (typeof sourceId !== 'string' || !sourceId) {
+    return res.status(400).json({ error: 'sourceId is required' })
+  }
+  if (sourceId === req.params.id) {
+    return res.status(400).json({ error: 'A customer cannot be merged into itself' })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const customer = await messageProcessor.mergeCustomers(req.params.id, sourceId)
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' })
+    }
+    res.json({ success: true, customer })
+  } catch (error) {
+    console.error('Error merging customers:', error)
+    res.status(500).json({ error: 'Failed to merge customers' })
+  }
+}
+
+export async function deleteCustomer(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const removed = await messageProcessor.deleteCustomer(req.params.id)
+    if (!removed) {
+      return res.status(404).json({ error: 'Customer not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting customer:', error)
+    res.status(500).json({ error: 'Failed to delete customer' })
+  }
+}
+
+/**
+ * Applies or dismisses details picked up from a text that were held for review
+ */
+const resolveExtractionReview = (accept: boolean) => async (req: Request, res: Response) => {
+  try {
+    await messageProcessor.initialize()
+    const customer = await messageProcessor.resolveExtractionReview(req.params.id, req.params.reviewId, accept)
+    if (!customer) {
+      return res.status(404).json({ error: 'Review not found' })
+    }
+    res.json({ success: true, customer })
+  } catch (error) {
+    console.error('Error resolving extraction review:', error)
+    res.status(500).json({ error: 'Failed to update customer' })
+  }
+}
+
+export const acceptExtraction = resolveExtractionReview(true)
+export const dismissExtraction = resolveExtractionReview(false)
+
+/**
+ * Marks `{ otherId }` as a different person, so the pair is no longer
+ * reported as a duplicate
+ */
+export async function markNotDuplicate(req: Request, res: Response) {
+  const otherId = req.body?.otherId
+  if (typeof otherId !== 'string' || !otherId) {
+    return res.status(400).json({ error: 'otherId is required' })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const customer = await messageProcessor.markCustomersDistinct(req.params.id, otherId)
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' })
+    }
+    res.json({ success: true, customer })
+  } catch (error) {
+    console.error('Error marking customers as distinct:', error)
+    res.status(500).json({ error: 'Failed to update customer' })
+  }
+}
+
+/**
+ * Normalizes the customer number on a quote, appointment or invoice being
+ * saved and links it to the customer with that number
+ */
+export async function linkCustomerRecord<T extends { customer_phone?: string; customer_id?: string }>(item: T): Promise<T> {
+  if (!item.customer_phone) return item
+  const customerPhone = normalizePhoneNumber(item.customer_phone)
+  await messageProcessor.initialize()
+  const customer = await messageProcessor.findCustomerByPhone(customerPhone)
+  return { ...item, customer_phone: customerPhone, customer_id: customer?.id || item.customer_id }
+}
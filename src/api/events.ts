@@ -0,0 +1,65 @@
+import type { Request, Response } from 'express'
+import { eventBus, type ChangeEvent } from '../services/eventBus'
+
+// Comment line sent periodically so proxies don't close an idle stream
+const HEARTBEAT_MS = 25 * 1000
+
+const parseCursor = (value: unknown): number | null => {
+  const cursor = parseInt(String(value ?? ''))
+  return isNaN(cursor) ? null : cursor
+}
+
+const writeEvent = (res: Response, event: ChangeEvent) => {
+  res.write(`id: ${event.seq}\nevent: change\ndata: ${JSON.stringify(event)}\n\n`)
+}
+
+/**
+ * Server-sent event stream of data changes.
+ * A reconnecting browser sends `Last-Event-ID` (or `?since=`) and first
+ * receives everything it missed, or a `reset` event if that's no longer known.
+ */
+export function streamEvents(req: Request, res: Response) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+  res.flushHeaders()
+
+  // Tells the browser how long to wait before reconnecting on its own
+  res.write('retry: 3000\n\n')
+
+  const since = parseCursor(req.get('last-event-id') ?? req.query.since)
+  if (since === null) {
+    res.write(`event: ready\ndata: ${JSON.stringify({ cursor: eventBus.cursor })}\n\n`)
+  } else {
+    const missed = eventBus.getChangesSince(since)
+    if (missed.reset) {
+      res.write(`event: reset\ndata: ${JSON.stringify({ cursor: missed.cursor })}\n\n`)
+    } else {
+      missed.events.forEach(event => writeEvent(res, event))
+      res.write(`event: ready\ndata: ${JSON.stringify({ cursor: missed.cursor })}\n\n`)
+    }
+  }
+
+  const unsubscribe = eventBus.subscribe(event => writeEvent(res, event))
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+  })
+}
+
+/**
+ * Incremental polling for browsers that can't hold a stream open:
+ * returns the changes after `?since=` and the cursor to send next time
+ */
+export function getChanges(req: Request, res: Response) {
+  const since = parseCursor(req.query.since)
+  if (since === null) {
+    return res.json({ events: [], cursor: eventBus.cursor, reset: true })
+  }
+  res.json(eventBus.getChangesSince(since))
+}
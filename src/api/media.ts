@@ -0,0 +1,31 @@
+import type { Request, Response } from 'express'
+import { saveMediaFile } from '../services/mediaCache'
+import type { MessageMedia } from '../types'
+
+// Attachment types customers' phones can reliably display
+export const UPLOADABLE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf']
+
+/**
+ * Stores a file attached to an outgoing reply. The body is the raw file
+ * and Content-Type its MIME type. The returned `url` is public so
+ * OpenPhone can fetch it when sending the MMS.
+ */
+export async function uploadMedia(req: Request, res: Response) {
+  try {
+    const type = (req.get('content-type') || '').split(';')[0]
+    if (!UPLOADABLE_MEDIA_TYPES.includes(type)) {
+      return res.status(415).json({ error: `Unsupported attachment type: ${type || 'unknown'}` })
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Attachment is empty' })
+    }
+
+    const cachedUrl = await saveMediaFile(`upload-${Date.now()}`, type, req.body)
+    const baseUrl = process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`
+    const media: MessageMedia = { url: `${baseUrl}${cachedUrl}`, type, cached_url: cachedUrl }
+    res.json({ media })
+  } catch (error) {
+    console.error('Error uploading media:', error)
+    res.status(500).json({ error: 'Failed to upload attachment' })
+  }
+}
@@ -0,0 +1,140 @@
+import type { Request, Response } from 'express'
+import { z } from 'zod'
+import { messageProcessor } from '../services/messageProcessor'
+import { MAX_PAGE_SIZE, type MessageQuery } from '../utils/messageQuery'
+import type { MessageMedia } from '../types'
+
+// Attachments allowed on one manual reply
+export const MAX_REPLY_MEDIA = 10
+
+const isDate = (value: string) => !isNaN(new Date(value).getTime())
+
+// Query parameters are strings; empty ones are treated as not set
+const optionalText = z.string().trim().optional().transform(value => value || undefined)
+const optionalDate = optionalText.refine(value => !value || isDate(value), 'Invalid date')
+
+const messageQuerySchema = z.object({
+  cursor: optionalText,
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  search: optionalText,
+  phone: optionalText,
+  intent: optionalText,
+  direction: z.enum(['inbound', 'outbound']).optional(),
+  read: z.enum(['true', 'false']).optional().transform(value => (value === undefined ? undefined : value === 'true')),
+  from: optionalDate,
+  to: optionalDate
+})
+
+const replySchema = z.object({
+  phoneNumber: z.string().trim().min(1, 'Phone number is required'),
+  message: z.string().default(''),
+  media: z.array(z.object({
+    url: z.string().url(),
+    type: z.string(),
+    cached_url: z.string().optional()
+  })).max(MAX_REPLY_MEDIA, `At most ${MAX_REPLY_MEDIA} attachments`).default([])
+}).refine(data => data.message || data.media.length > 0, {
+  message: 'A message or attachment is required',
+  path: ['message']
+})
+
+/**
+ * Lists messages newest first, one page at a time. Supports `search`
+ * (words in the body), `phone`, `intent`, `direction`, `read` and a
+ * `from`/`to` date range; pass the returned `nextCursor` as `cursor` to get
+ * the next page.
+ */
+export async function getMessages(req: Request, res: Response) {
+  const parsed = messageQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return res.status(400).json({ error: `Invalid ${issue.path.join('.')}: ${issue.message}`, messages: [] })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const page = await messageProcessor.getMessages(parsed.data as MessageQuery)
+    res.json(page)
+  } catch (error) {
+    console.error('Error fetching messages:', error)
+    res.status(500).json({ error: 'Failed to fetch messages', messages: [] })
+  }
+}
+
+export async function markMessageAsRead(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const found = await messageProcessor.markMessageAsRead(req.params.id)
+    if (!found) {
+      return res.status(404).json({ error: 'Message not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error marking message as read:', error)
+    res.status(500).json({ error: 'Failed to mark message as read' })
+  }
+}
+
+export async function sendReply(req: Request, res: Response) {
+  const parsed = replySchema.safeParse(req.body)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return res.status(400).json({ error: `Invalid ${issue.path.join('.')}: ${issue.message}` })
+  }
+
+  try {
+    const { phoneNumber, message, media } = parsed.data
+    await messageProcessor.initialize()
+    if (!(await messageProcessor.canText(phoneNumber))) {
+      return res.status(403).json({ error: 'This number has opted out of texts' })
+    }
+    const sent = await messageProcessor.sendManualReply(phoneNumber, message, media as MessageMedia[])
+    res.json({ success: true, message: sent })
+  } catch (error) {
+    console.error('Error sending manual reply:', error)
+    res.status(500).json({ error: 'Failed to send reply' })
+  }
+}
+
+export async function approveDraft(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const sent = await messageProcessor.approveDraft(req.params.id, req.body?.body)
+    if (!sent) {
+      return res.status(404).json({ error: 'No pending draft for this message' })
+    }
+    res.json({ success: true, message: sent })
+  } catch (error) {
+    console.error('Error approving draft:', error)
+    res.status(500).json({ error: 'Failed to send draft' })
+  }
+}
+
+export async function discardDraft(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const discarded = await messageProcessor.discardDraft(req.params.id)
+    if (!discarded) {
+      return res.status(404).json({ error: 'No pending draft for this message' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error discarding draft:', error)
+    res.status(500).json({ error: 'Failed to discard draft' })
+  }
+}
+
+export async function acknowledgeEmergency(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const acknowledgedBy = req.body?.acknowledgedBy || 'Dashboard'
+    const acknowledged = await messageProcessor.acknowledgeEmergency(req.params.id, acknowledgedBy)
+    if (!acknowledged) {
+      return res.status(404).json({ error: 'No open emergency for this message' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error acknowledging emergency:', error)
+    res.status(500).json({ error: 'Failed to acknowledge emergency' })
+  }
+}
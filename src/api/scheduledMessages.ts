@@ -0,0 +1,111 @@
+import type { Request, Response } from 'express'
+import { z } from 'zod'
+import { messageProcessor } from '../services/messageProcessor'
+import type { MessageMedia } from '../types'
+
+const sendAtSchema = z.string()
+  .refine(value => !isNaN(new Date(value).getTime()), 'Invalid date')
+  .refine(value => new Date(value).getTime() > Date.now(), 'Send time must be in the future')
+
+const mediaSchema = z.array(z.object({
+  url: z.string().url(),
+  type: z.string(),
+  cached_url: z.string().optional()
+}))
+
+const createSchema = z.object({
+  phoneNumber: z.string().trim().min(1, 'Phone number is required'),
+  message: z.string().default(''),
+  media: mediaSchema.default([]),
+  sendAt: sendAtSchema
+}).refine(data => data.message.trim() || data.media.length > 0, {
+  message: 'A message or attachment is required',
+  path: ['message']
+})
+
+const updateSchema = z.object({
+  message: z.string().trim().min(1, 'Message cannot be empty').optional(),
+  sendAt: sendAtSchema.optional()
+})
+
+const describeIssue = (error: z.ZodError) => {
+  const issue = error.issues[0]
+  return `Invalid ${issue.path.join('.')}: ${issue.message}`
+}
+
+/**
+ * Lists scheduled texts, soonest first. `?phone=` limits it to one conversation.
+ */
+export async function getScheduledMessages(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const scheduled = await messageProcessor.getScheduledMessages(req.query.phone as string | undefined)
+    res.json({ scheduled })
+  } catch (error) {
+    console.error('Error fetching scheduled messages:', error)
+    res.status(500).json({ error: 'Failed to fetch scheduled messages', scheduled: [] })
+  }
+}
+
+export async function scheduleMessage(req: Request, res: Response) {
+  const parsed = createSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: describeIssue(parsed.error) })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    if (!(await messageProcessor.canText(parsed.data.phoneNumber))) {
+      return res.status(403).json({ error: 'This number has opted out of texts' })
+    }
+    const scheduled = await messageProcessor.scheduleMessage({
+      phoneNumber: parsed.data.phoneNumber,
+      body: parsed.data.message.trim(),
+      media: parsed.data.media as MessageMedia[],
+      sendAt: new Date(parsed.data.sendAt)
+    })
+    res.json({ success: true, scheduled })
+  } catch (error) {
+    console.error('Error scheduling message:', error)
+    res.status(500).json({ error: 'Failed to schedule message' })
+  }
+}
+
+/**
+ * Edits the text or send time of a scheduled text that hasn't gone out
+ */
+export async function updateScheduledMessage(req: Request, res: Response) {
+  const parsed = updateSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: describeIssue(parsed.error) })
+  }
+
+  try {
+    await messageProcessor.initialize()
+    const scheduled = await messageProcessor.updateScheduledMessage(req.params.id, {
+      body: parsed.data.message,
+      sendAt: parsed.data.sendAt ? new Date(parsed.data.sendAt) : undefined
+    })
+    if (!scheduled) {
+      return res.status(404).json({ error: 'No scheduled message waiting to be sent with this id' })
+    }
+    res.json({ success: true, scheduled })
+  } catch (error) {
+    console.error('Error updating scheduled message:', error)
+    res.status(500).json({ error: 'Failed to update scheduled message' })
+  }
+}
+
+export async function cancelScheduledMessage(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const scheduled = await messageProcessor.cancelScheduledMessage(req.params.id)
+    if (!scheduled) {
+      return res.status(404).json({ error: 'No scheduled message waiting to be sent with this id' })
+    }
+    res.json({ success: true, scheduled })
+  } catch (error) {
+    console.error('Error cancelling scheduled message:', error)
+    res.status(500).json({ error: 'Failed to cancel scheduled message' })
+  }
+}
@@ -0,0 +1,35 @@
+import type { Request, Response } from 'express'
+import { getDataStore, SHOP_PREFERENCES_ID } from '../services/storage'
+import type { BusinessSettings } from '../types'
+
+// API keys stay in the server environment or the browser that entered them
+const SECRET_FIELDS: (keyof BusinessSettings)[] = ['openai_api_key', 'openphone_api_key']
+
+export async function getPreferences(req: Request, res: Response) {
+  try {
+    const store = await getDataStore()
+    const preferences = await store.settings.get(SHOP_PREFERENCES_ID)
+    res.json({ preferences })
+  } catch (error) {
+    console.error('Error fetching shop preferences:', error)
+    res.status(500).json({ error: 'Failed to fetch shop preferences' })
+  }
+}
+
+export async function updatePreferences(req: Request, res: Response) {
+  try {
+    const preferences = { ...req.body } as BusinessSettings
+    SECRET_FIELDS.forEach(field => delete preferences[field])
+
+    const store = await getDataStore()
+    const saved = await store.settings.upsert({
+      ...preferences,
+      id: SHOP_PREFERENCES_ID,
+      updated_at: new Date().toISOString()
+    })
+    res.json({ preferences: saved })
+  } catch (error) {
+    console.error('Error saving shop preferences:', error)
+    res.status(500).json({ error: 'Failed to save shop preferences' })
+  }
+}
@@ -0,0 +1,166 @@
+import type { Request, Response } from 'express'
+import { z } from 'zod'
+import { messageProcessor } from '../services/messageProcessor'
+import type { VehicleDetails } from '../services/vehicles'
+import { decodeVin } from '../utils/vin'
+
+const optionalText = (max: number, label: string) =>
+  z.string().trim().max(max, `${label} must be under ${max} characters`).optional()
+
+const vehicleSchema = z.object({
+  customer_id: z.string().trim().transform(id => id || undefined).optional(), // empty clears the owner
+  vin: z.string().trim().optional(),
+  year: z.string().trim().regex(/^(\d{4})?$/, 'Use a 4-digit year').optional(),
+  make: optionalText(50, 'Make'),
+  model: optionalText(50, 'Model'),
+  engine: optionalText(50, 'Engine'),
+  trim: optionalText(50, 'Trim'),
+  mileage: z.number().int('Mileage must be a whole number').min(0, 'Mileage cannot be negative').optional(),
+  plate: optionalText(15, 'Plate'),
+  notes: optionalText(500, 'Notes')
+})
+
+const describeIssue = (error: z.ZodError) => {
+  const issue = error.issues[0]
+  return `Invalid ${issue.path.join('.')}: ${issue.message}`
+}
+
+/**
+ * Checks the VIN, owner and that the vehicle describes something. Returns
+ * the status and error to send, or null when the details can be saved.
+ */
+const checkVehicle = async (details: Partial<VehicleDetails>, id?: string): Promise<[number, string] | null> => {
+  if (details.vin) {
+    const decoded = decodeVin(details.vin)
+    if (!decoded.valid) {
+      return [400, `Invalid vin: ${decoded.error}`]
+    }
+    const existing = await messageProcessor.findVehicleByVin(decoded.vin)
+    if (existing && existing.id !== id) {
+      return [409, `VIN ${decoded.vin} is already on file`]
+    }
+  }
+  if (details.customer_id && !(await messageProcessor.getCustomer(details.customer_id))) {
+    return [400, 'Invalid customer_id: customer not found']
+  }
+  if (!details.vin && !details.make && !details.model && !details.plate) {
+    return [400, 'Enter a VIN, plate, make or model']
+  }
+  return null
+}
+
+/**
+ * Lists vehicles, optionally only one customer's (`?customer_id=` or `?phone=`)
+ */
+export async function getVehicles(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    let customerId = typeof req.query.customer_id === 'string' ? req.query.customer_id : undefined
+    if (typeof req.query.phone === 'string') {
+      const customer = await messageProcessor.findCustomerByPhone(req.query.phone)
+      if (!customer) {
+        return res.json({ vehicles: [] })
+      }
+      customerId = customer.id
+    }
+    const vehicles = await messageProcessor.getVehicleList(customerId)
+    res.json({ vehicles })
+  } catch (error) {
+    console.error('Error fetching vehicles:', error)
+    res.status(500).json({ error: 'Failed to fetch vehicles', vehicles: [] })
+  }
+}
+
+export async function getVehicle(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const vehicle = await messageProcessor.getVehicle(req.params.id)
+    if (!vehicle) {
+      return res.status(404).json({ error: 'Vehicle not found' })
+    }
+    res.json(vehicle)
+  } catch (error) {
+    console.error('Error fetching vehicle:', error)
+    res.status(500).json({ error: 'Failed to fetch vehicle' })
+  }
+}
+
+/**
+ * The vehicle's quotes, appointments, tech sheets and invoices, newest first
+ */
+export async function getVehicleHistory(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const history = await messageProcessor.getVehicleHistory(req.params.id)
+    if (!history) {
+      return res.status(404).json({ error: 'Vehicle not found' })
+    }
+    res.json(history)
+  } catch (error) {
+    console.error('Error fetching vehicle history:', error)
+    res.status(500).json({ error: 'Failed to fetch vehicle history' })
+  }
+}
+
+export async function createVehicle(req: Request, res: Response) {
+  const parsed = vehicleSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: describeIssue(parsed.error) })
+  }
+  const details = parsed.data as VehicleDetails
+
+  try {
+    await messageProcessor.initialize()
+    const invalid = await checkVehicle(details)
+    if (invalid) {
+      return res.status(invalid[0]).json({ error: invalid[1] })
+    }
+    const vehicle = await messageProcessor.createVehicle(details)
+    res.json({ success: true, vehicle })
+  } catch (error) {
+    console.error('Error creating vehicle:', error)
+    res.status(500).json({ error: 'Failed to create vehicle' })
+  }
+}
+
+/**
+ * Saves edits to a vehicle. Only the fields sent are changed.
+ */
+export async function updateVehicle(req: Request, res: Response) {
+  const parsed = vehicleSchema.partial().safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: describeIssue(parsed.error) })
+  }
+  const details = parsed.data as Partial<VehicleDetails>
+
+  try {
+    await messageProcessor.initialize()
+    const current = await messageProcessor.getVehicle(req.params.id)
+    if (!current) {
+      return res.status(404).json({ error: 'Vehicle not found' })
+    }
+    const invalid = await checkVehicle({ ...current, ...details }, current.id)
+    if (invalid) {
+      return res.status(invalid[0]).json({ error: invalid[1] })
+    }
+    const vehicle = await messageProcessor.updateVehicle(req.params.id, details)
+    res.json({ success: true, vehicle })
+  } catch (error) {
+    console.error('Error updating vehicle:', error)
+    res.status(500).json({ error: 'Failed to update vehicle' })
+  }
+}
+
+export async function deleteVehicle(req: Request, res: Response) {
+  try {
+    await messageProcessor.initialize()
+    const removed = await messageProcessor.deleteVehicle(req.params.id)
+    if (!removed) {
+      return res.status(404).json({ error: 'Vehicle not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting vehicle:', error)
+    res.status(500).json({ error: 'Failed to delete vehicle' })
+  }
+}
@@ -0,0 +1,25 @@
+import type { Request, Response } from 'express'
+import { openPhoneQueue } from './openphone'
+
+export async function getDeadLetters(req: Request, res: Response) {
+  try {
+    const jobs = await openPhoneQueue.getDeadLetters()
+    res.json({ jobs })
+  } catch (error) {
+    console.error('Error fetching dead-letter jobs:', error)
+    res.status(500).json({ error: 'Failed to fetch failed webhook jobs', jobs: [] })
+  }
+}
+
+export async function retryJob(req: Request, res: Response) {
+  try {
+    const job = await openPhoneQueue.retry(req.params.id)
+    if (!job) {
+      return res.status(404).json({ error: 'No failed job with this id' })
+    }
+    res.json({ success: true, job })
+  } catch (error) {
+    console.error('Error retrying webhook job:', error)
+    res.status(500).json({ error: 'Failed to retry webhook job' })
+  }
+}
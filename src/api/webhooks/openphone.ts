@@ -1,47 +1,270 @@
+import crypto from 'crypto'
 import type { Request, Response } from 'express'
 import { messageProcessor } from '../../services/messageProcessor'
+import { JobQueue } from '../../services/jobQueue'
+import { cacheMessageMedia } from '../../services/mediaCache'
+import { getDataStore } from '../../services/storage'
+import type { DeliveryStatus, WebhookJob } from '../../types'
+
+// Reject signed requests older (or newer) than this to stop replays
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000
+
+/**
+ * Request with the unparsed body kept by the JSON parser's `verify` hook,
+ * since the signature covers the exact bytes OpenPhone sent
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer
+}
+
+export interface SignatureCheck {
+  valid: boolean
+  reason?: string
+}
+
+export type OpenPhoneEventType =
+  | 'message.received'
+  | 'message.delivered'
+  | 'call.completed'
+  | 'call.summary.completed'
+
+export interface OpenPhoneMessageData {
+  id: string
+  object: 'message'
+  createdAt: string
+  direction: 'inbound' | 'outbound'
+  to: string
+  from: string
+  body: string
+  media?: { url: string; type: string }[]
+  status?: string // queued, sent, delivered, undelivered or failed
+  phoneNumberId: string
+  userId: string
+}
+
+export interface OpenPhoneCallData {
+  id: string
+  object: 'call'
+  createdAt: string
+  direction: 'inbound' | 'outbound'
+  to: string
+  from: string
+  status: string // completed, missed, no-answer, busy, ...
+  duration?: number
+  voicemail?: {
+    url: string
+    duration?: number
+    transcript?: string
+  }
+  phoneNumberId: string
+  userId: string
+}
+
+export interface OpenPhoneCallSummaryData {
+  object: 'callSummary'
+  callId: string
+  status: string
+  summary: string[]
+  nextSteps: string[]
+}
 
 export interface OpenPhoneWebhookPayload {
   id: string
   object: string
+  type?: OpenPhoneEventType // older deliveries only identify the event by data.object
   createdAt: string
-  data: {
-    id: string
-    object: string
-    createdAt: string
-    direction: 'inbound' | 'outbound'
-    to: string
-    from: string
-    body: string
-    media: any[]
-    phoneNumberId: string
-    userId: string
+  data: OpenPhoneMessageData | OpenPhoneCallData | OpenPhoneCallSummaryData
+}
+
+const SUPPORTED_EVENTS: OpenPhoneEventType[] = ['message.received', 'message.delivered', 'call.completed', 'call.summary.completed']
+
+// The `data.object` each event carries
+const EVENT_DATA_OBJECTS: Record<OpenPhoneEventType, OpenPhoneWebhookPayload['data']['object']> = {
+  'message.received': 'message',
+  'message.delivered': 'message',
+  'call.completed': 'call',
+  'call.summary.completed': 'callSummary'
+}
+
+/**
+ * Checks a queued payload carries the data its event type is handled with
+ */
+export function isOpenPhonePayload(value: unknown, eventType: OpenPhoneEventType): value is OpenPhoneWebhookPayload {
+  if (!value || typeof value !== 'object') return false
+  const { data } = value as { data?: unknown }
+  return !!data && typeof data === 'object' && (data as { object?: unknown }).object === EVENT_DATA_OBJECTS[eventType]
+}
+
+/**
+ * Works out which event a payload is, or null for events we don't handle
+ */
+export function getEventType(payload: OpenPhoneWebhookPayload): OpenPhoneEventType | null {
+  if (payload.object !== 'event' || !payload.data) return null
+  if (payload.type) return SUPPORTED_EVENTS.includes(payload.type) ? payload.type : null
+
+  switch (payload.data.object) {
+    case 'message':
+      return 'message.received'
+    case 'call':
+      return 'call.completed'
+    case 'callSummary':
+      return 'call.summary.completed'
+    default:
+      return null
   }
 }
 
-export async function handleOpenPhoneWebhook(req: Request, res: Response) {
-  try {
-    const payload: OpenPhoneWebhookPayload = req.body
+/**
+ * Maps OpenPhone's message status onto the statuses shown in the thread
+ */
+export function toDeliveryStatus(status?: string): DeliveryStatus {
+  switch (status) {
+    case 'queued':
+      return 'queued'
+    case 'delivered':
+      return 'delivered'
+    case 'undelivered':
+    case 'failed':
+      return 'failed'
+    default:
+      return 'sent'
+  }
+}
 
-    // Verify this is a message event
-    if (payload.object !== 'event' || !payload.data || payload.data.object !== 'message') {
-      return res.status(200).json({ received: true })
+/**
+ * Verifies an `openphone-signature` header of the form
+ * `hmac;1;<timestamp ms>;<base64 digest>`. The digest is an HMAC-SHA256 of
+ * `<timestamp>.<raw body>` keyed with the base64-decoded signing secret.
+ */
+export function verifyOpenPhoneSignature(
+  header: string | undefined,
+  rawBody: Buffer | undefined,
+  signingSecret: string,
+  now: number = Date.now()
+): SignatureCheck {
+  if (!header) return { valid: false, reason: 'missing openphone-signature header' }
+  if (!rawBody) return { valid: false, reason: 'raw request body unavailable' }
+
+  const [scheme, version, timestamp, digest] = header.split(';')
+  if (scheme !== 'hmac' || version !== '1' || !timestamp || !digest) {
+    return { valid: false, reason: 'malformed openphone-signature header' }
+  }
+
+  const signedAt = parseInt(timestamp)
+  if (isNaN(signedAt) || Math.abs(now - signedAt) > SIGNATURE_TOLERANCE_MS) {
+    return { valid: false, reason: 'timestamp outside tolerance' }
+  }
+
+  const expected = crypto
+    .createHmac('sha256', Buffer.from(signingSecret, 'base64'))
+    .update(`${timestamp}.${rawBody.toString('utf8')}`)
+    .digest()
+  const received = Buffer.from(digest, 'base64')
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return { valid: false, reason: 'signature mismatch' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Runs a queued OpenPhone event. Throwing makes the queue retry it.
+ */
+async function processOpenPhoneJob(job: WebhookJob): Promise<void> {
+  const eventType = job.event_type as OpenPhoneEventType
+  if (!isOpenPhonePayload(job.payload, eventType)) {
+    throw new Error(`Payload is not a valid ${job.event_type} event`)
+  }
+  const payload = job.payload
+
+  // initialize loads settings and the data store
+  await messageProcessor.initialize()
+
+  switch (eventType) {
+    case 'message.received':
+    case 'message.delivered': {
+      const message = payload.data as OpenPhoneMessageData
+      if (message.direction === 'inbound') {
+        // OpenPhone's media links expire, so keep our own copy of customer photos
+        const media = message.media?.length ? await cacheMessageMedia(message.id, message.media) : []
+        // The OpenPhone message id keeps a retried job from storing the message twice
+        await messageProcessor.processIncomingMessage(message.from, message.body || '', message.id, media)
+      } else {
+        // Every delivery update repeats the media, so outbound attachments aren't downloaded again
+        const media = (message.media || []).map(item => ({ url: item.url, type: item.type }))
+        await messageProcessor.recordOutboundMessage(
+          message.id,
+          message.to,
+          message.body || '',
+          toDeliveryStatus(message.status),
+          message.createdAt || payload.createdAt,
+          media
+        )
+      }
+      return
     }
 
-    // Only process inbound messages
-    if (payload.data.direction !== 'inbound') {
-      return res.status(200).json({ received: true })
+    case 'call.completed': {
+      const call = payload.data as OpenPhoneCallData
+      await messageProcessor.recordCall({
+        callId: call.id,
+        phoneNumber: call.direction === 'inbound' ? call.from : call.to,
+        direction: call.direction,
+        status: call.status,
+        duration: call.duration,
+        createdAt: call.createdAt || payload.createdAt,
+        voicemailUrl: call.voicemail?.url,
+        voicemailTranscript: call.voicemail?.transcript
+      })
+      return
     }
 
-    // Extract message data
-    const phoneNumber = payload.data.from
-    const messageBody = payload.data.body
+    case 'call.summary.completed': {
+      const summary = payload.data as OpenPhoneCallSummaryData
+      const attached = await messageProcessor.attachCallSummary(summary.callId, summary.summary || [], summary.nextSteps || [])
+      if (!attached) {
+        // The summary can beat the call.completed event; retrying gives that time to arrive
+        throw new Error(`Call ${summary.callId} has not been recorded yet`)
+      }
+      return
+    }
+  }
+}
 
-    // Process the message
-    await messageProcessor.processIncomingMessage(phoneNumber, messageBody)
+/**
+ * Unsigned webhooks are only accepted when explicitly allowed for local
+ * development, where there is no OpenPhone signing secret to check against
+ */
+export const allowUnsignedWebhooks = (): boolean => process.env.ALLOW_UNSIGNED_WEBHOOKS === 'true'
+
+export const openPhoneQueue = new JobQueue(async () => (await getDataStore()).webhookJobs, processOpenPhoneJob)
+
+export async function handleOpenPhoneWebhook(req: RawBodyRequest, res: Response) {
+  try {
+    const signingSecret = process.env.OPENPHONE_WEBHOOK_SECRET
+    if (signingSecret) {
+      const check = verifyOpenPhoneSignature(req.get('openphone-signature'), req.rawBody, signingSecret)
+      if (!check.valid) {
+        console.warn(`🚫 Rejected OpenPhone webhook from ${req.ip}: ${check.reason}`)
+        return res.status(401).json({ error: 'Invalid webhook signature' })
+      }
+    } else if (!allowUnsignedWebhooks()) {
+      console.error(`🚫 Rejected OpenPhone webhook from ${req.ip}: OPENPHONE_WEBHOOK_SECRET is not set`)
+      return res.status(503).json({ error: 'Webhook signing secret is not configured' })
+    }
+
+    const payload: OpenPhoneWebhookPayload = req.body
+
+    const eventType = getEventType(payload)
+    if (!eventType) {
+      return res.status(200).json({ received: true })
+    }
 
-    // Respond to OpenPhone
-    res.status(200).json({ received: true })
+    // Record the event and reply straight away; the work runs in the job queue
+    // so a slow OpenAI call never makes OpenPhone retry the delivery
+    const eventId = payload.id || (payload.data as OpenPhoneMessageData | OpenPhoneCallData).id
+    const queued = await openPhoneQueue.enqueue(eventId, 'openphone', eventType, payload)
+    res.status(200).json({ received: true, duplicate: !queued })
   } catch (error) {
     console.error('Webhook processing error:', error)
     res.status(500).json({ error: 'Internal server error' })
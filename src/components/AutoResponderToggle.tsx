@@ -0,0 +1,39 @@
+import React from 'react'
+import { Bot } from 'lucide-react'
+import { useBusinessSettings } from '../hooks/useBusinessSettings'
+import { AUTO_RESPONDER_MODES, getAutoResponderPolicy, isAutoResponderActive } from '../utils/autoResponder'
+import type { AutoResponderPolicy } from '../types'
+
+/**
+ * Quick switch for when the AI replies to texts.
+ * Hours, schedule and vacation dates are edited in Settings.
+ */
+const AutoResponderToggle: React.FC = () => {
+  const { settings, setAutoResponderMode } = useBusinessSettings()
+  const policy = getAutoResponderPolicy(settings)
+  const isActive = isAutoResponderActive(policy)
+
+  return (
+    <div className="flex items-center space-x-3">
+      <Bot className={`h-5 w-5 ${isActive ? 'text-primary-600' : 'text-gray-400'}`} />
+      <label htmlFor="auto-responder-mode" className="text-sm font-medium text-gray-700">
+        AI Auto-Reply
+      </label>
+      <select
+        id="auto-responder-mode"
+        value={policy.mode}
+        onChange={(e) => setAutoResponderMode(e.target.value as AutoResponderPolicy['mode'])}
+        className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+      >
+        {AUTO_RESPONDER_MODES.map(mode => (
+          <option key={mode.value} value={mode.value}>{mode.label}</option>
+        ))}
+      </select>
+      <span className={`text-xs ${isActive ? 'text-primary-600 font-medium' : 'text-gray-500'}`}>
+        {isActive ? 'Replying now' : 'Not replying now'}
+      </span>
+    </div>
+  )
+}
+
+export default AutoResponderToggle
@@ -0,0 +1,251 @@
+import React from 'react'
+import { useForm, useFieldArray } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Plus, Trash2 } from 'lucide-react'
+import type { ContactMethod, Customer } from '../types'
+import type { CustomerDetails } from '../services/customers'
+
+const customerFormSchema = z.object({
+  first_name: z.string().trim().max(50, 'First name must be under 50 characters'),
+  last_name: z.string().trim().max(50, 'Last name must be under 50 characters'),
+  phone_number: z.string().trim().min(10, 'Enter a full phone number'),
+  email: z.string().trim().email('Enter a valid email').or(z.literal('')),
+  address: z.string().trim().max(200, 'Address must be under 200 characters'),
+  preferred_contact_method: z.enum(['', 'sms', 'call', 'email']),
+  customer_type: z.enum(['unknown', 'new', 'repeat']),
+  vehicles: z.array(z.object({
+    year: z.string().trim().regex(/^(\d{4})?$/, 'Use a 4-digit year'),
+    make: z.string().trim().max(50, 'Make must be under 50 characters'),
+    model: z.string().trim().max(50, 'Model must be under 50 characters'),
+    details: z.string().trim().min(1, 'Describe the vehicle').max(200, 'Vehicle must be under 200 characters'),
+    added_at: z.string().optional()
+  })),
+  notes: z.array(z.object({
+    text: z.string().trim().min(1, 'Notes cannot be empty')
+  }))
+}).refine(
+  form => form.preferred_contact_method !== 'email' || !!form.email,
+  { message: 'Add an email address to prefer email', path: ['email'] }
+)
+
+type CustomerFormData = z.infer<typeof customerFormSchema>
+
+const CONTACT_METHODS: { value: ContactMethod, label: string }[] = [
+  { value: 'sms', label: 'Text' },
+  { value: 'call', label: 'Phone call' },
+  { value: 'email', label: 'Email' }
+]
+
+const toFormData = (customer?: Customer): CustomerFormData => ({
+  first_name: customer?.first_name || '',
+  last_name: customer?.last_name || '',
+  phone_number: customer?.phone_number || '',
+  email: customer?.email || '',
+  address: customer?.address || '',
+  preferred_contact_method: customer?.preferred_contact_method || '',
+  customer_type: customer?.is_repeat_customer === true ? 'repeat' : customer?.is_repeat_customer === false ? 'new' : 'unknown',
+  vehicles: (customer?.vehicles || []).map(vehicle => ({
+    year: vehicle.year || '',
+    make: vehicle.make || '',
+    model: vehicle.model || '',
+    details: vehicle.details,
+    added_at: vehicle.added_at
+  })),
+  notes: (customer?.notes || []).map(text => ({ text }))
+})
+
+const toDetails = (data: CustomerFormData): CustomerDetails => ({
+  phone_number: data.phone_number,
+  first_name: data.first_name,
+  last_name: data.last_name,
+  email: data.email,
+  address: data.address,
+  preferred_contact_method: (data.preferred_contact_method || undefined) as ContactMethod,
+  is_repeat_customer: data.customer_type === 'unknown' ? undefined : data.customer_type === 'repeat',
+  vehicles: data.vehicles.map(vehicle => ({
+    year: vehicle.year || undefined,
+    make: vehicle.make || undefined,
+    model: vehicle.model || undefined,
+    details: vehicle.details,
+    added_at: vehicle.added_at
+  })),
+  notes: data.notes.map(note => note.text)
+})
+
+interface CustomerFormProps {
+  customer?: Customer // omitted when adding a customer
+  onSubmit: (details: CustomerDetails) => Promise<unknown>
+  onCancel: () => void
+}
+
+/**
+ * CustomerForm Component
+ *
+ * Add or edit a customer's profile: contact info, how they'd like to be
+ * reached, vehicles and staff notes.
+ */
+const CustomerForm: React.FC<CustomerFormProps> = ({ customer, onSubmit, onCancel }) => {
+  const { register, control, handleSubmit, formState: { errors, isSubmitting } } = useForm<CustomerFormData>({
+    resolver: zodResolver(customerFormSchema),
+    defaultValues: toFormData(customer)
+  })
+  const { fields: vehicleFields, append: appendVehicle, remove: removeVehicle } = useFieldArray({ control, name: 'vehicles' })
+  const { fields: noteFields, append: appendNote, remove: removeNote } = useFieldArray({ control, name: 'notes' })
+
+  const inputClassName = 'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm'
+
+  return (
+    <form onSubmit={handleSubmit(data => onSubmit(toDetails(data as CustomerFormData)))} className="space-y-6">
+      <div>
+        <h4 className="font-medium text-gray-900 mb-2">Contact Information</h4>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">First Name</label>
+            <input {...register('first_name')} type="text" className={inputClassName} />
+            {errors.first_name && <p className="mt-1 text-sm text-red-600">{errors.first_name.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Last Name</label>
+            <input {...register('last_name')} type="text" className={inputClassName} />
+            {errors.last_name && <p className="mt-1 text-sm text-red-600">{errors.last_name.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Phone Number</label>
+            <input {...register('phone_number')} type="tel" placeholder="+1 (555) 123-4567" className={inputClassName} />
+            {errors.phone_number && <p className="mt-1 text-sm text-red-600">{errors.phone_number.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Email</label>
+            <input {...register('email')} type="email" className={inputClassName} />
+            {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">Address</label>
+            <input {...register('address')} type="text" className={inputClassName} />
+            {errors.address && <p className="mt-1 text-sm text-red-600">{errors.address.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Preferred Contact Method</label>
+            <select {...register('preferred_contact_method')} className={inputClassName}>
+              <option value="">No preference</option>
+              {CONTACT_METHODS.map(method => (
+                <option key={method.value} value={method.value}>{method.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Customer Type</label>
+            <select {...register('customer_type')} className={inputClassName}>
+              <option value="unknown">Unknown</option>
+              <option value="new">New Customer</option>
+              <option value="repeat">Repeat Customer</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-medium text-gray-900">Vehicles</h4>
+          <button
+            type="button"
+            onClick={() => appendVehicle({ year: '', make: '', model: '', details: '' })}
+            className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Vehicle
+          </button>
+        </div>
+        {vehicleFields.length === 0 && <p className="text-sm text-gray-500">No vehicles on file</p>}
+        <div className="space-y-3">
+          {vehicleFields.map((field, index) => (
+            <div key={field.id} className="p-3 bg-gray-50 rounded-md">
+              <div className="grid grid-cols-3 gap-2">
+                <input {...register(`vehicles.${index}.year`)} type="text" placeholder="Year" className={inputClassName} />
+                <input {...register(`vehicles.${index}.make`)} type="text" placeholder="Make" className={inputClassName} />
+                <input {...register(`vehicles.${index}.model`)} type="text" placeholder="Model" className={inputClassName} />
+              </div>
+              <div className="flex items-start mt-2 space-x-2">
+                <input
+                  {...register(`vehicles.${index}.details`)}
+                  type="text"
+                  placeholder="2015 Honda Civic, grey, 180k km"
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeVehicle(index)}
+                  className="mt-2 text-gray-400 hover:text-red-600"
+                  aria-label="Remove vehicle"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              {errors.vehicles?.[index] && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.vehicles[index].year?.message || errors.vehicles[index].make?.message
+                    || errors.vehicles[index].model?.message || errors.vehicles[index].details?.message}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-medium text-gray-900">Notes</h4>
+          <button
+            type="button"
+            onClick={() => appendNote({ text: '' })}
+            className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Note
+          </button>
+        </div>
+        {noteFields.length === 0 && <p className="text-sm text-gray-500">No notes</p>}
+        <div className="space-y-2">
+          {noteFields.map((field, index) => (
+            <div key={field.id}>
+              <div className="flex items-start space-x-2">
+                <textarea {...register(`notes.${index}.text`)} rows={2} className={inputClassName} />
+                <button
+                  type="button"
+                  onClick={() => removeNote(index)}
+                  className="mt-2 text-gray-400 hover:text-red-600"
+                  aria-label="Remove note"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              {errors.notes?.[index]?.text && (
+                <p className="mt-1 text-sm text-red-600">{errors.notes[index].text.message}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700 disabled:opacity-50"
+        >
+          {customer ? 'Save Customer' : 'Add Customer'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default CustomerForm
@@ -0,0 +1,92 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import { Bot, Check, Edit3, X } from 'lucide-react'
+import type { Message } from '../types'
+
+interface DraftReplyCardProps {
+  message: Message
+  onApprove: (messageId: string, body?: string) => Promise<void>
+  onDiscard: (messageId: string) => void
+  isSending?: boolean
+}
+
+/**
+ * AI-drafted reply waiting for approval.
+ * The draft can be sent as-is, edited before sending, or discarded.
+ */
+const DraftReplyCard: React.FC<DraftReplyCardProps> = ({ message, onApprove, onDiscard, isSending = false }) => {
+  const draft = message.draft
+  const [isEditing, setIsEditing] = useState(false)
+  const [body, setBody] = useState(draft?.body || '')
+
+  if (!draft || draft.status !== 'pending') return null
+
+  const handleApprove = async () => {
+    const edited = isEditing && body.trim() !== draft.body ? body.trim() : undefined
+    try {
+      await onApprove(message.id, edited)
+      setIsEditing(false)
+    } catch {
+      // The hook already reported the error
+    }
+  }
+
+  return (
+    <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg text-gray-900">
+      <div className="flex items-center justify-between mb-2">
+        <span className="inline-flex items-center text-xs font-medium text-blue-800">
+          <Bot className="h-3 w-3 mr-1" />
+          AI draft reply
+        </span>
+        {draft.auto_send_at && (
+          <span className="text-xs text-blue-700">
+            Auto-sends at {format(new Date(draft.auto_send_at), 'h:mm a')}
+          </span>
+        )}
+      </div>
+
+      {isEditing ? (
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={3}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+          disabled={isSending}
+        />
+      ) : (
+        <p className="text-sm whitespace-pre-wrap">{draft.body}</p>
+      )}
+
+      <div className="flex justify-end space-x-2 mt-2">
+        <button
+          onClick={() => onDiscard(message.id)}
+          disabled={isSending}
+          className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <X className="h-3 w-3 mr-1" />
+          Discard
+        </button>
+        {!isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            disabled={isSending}
+            className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Edit3 className="h-3 w-3 mr-1" />
+            Edit
+          </button>
+        )}
+        <button
+          onClick={handleApprove}
+          disabled={isSending || !body.trim()}
+          className="inline-flex items-center px-2 py-1 border border-transparent rounded-md text-xs font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+        >
+          <Check className="h-3 w-3 mr-1" />
+          {isEditing ? 'Send Edited' : 'Approve & Send'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default DraftReplyCard
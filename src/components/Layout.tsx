@@ -12,7 +12,8 @@ import {
   Wrench,
   ClipboardList,
   ExternalLink,
-  Users
+  Users,
+  Car
 } from 'lucide-react'
 
 interface LayoutProps {
@@ -34,6 +35,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { name: 'Dashboard', href: '/', icon: Home },
     { name: 'Messages', href: '/messages', icon: MessageSquare },
     { name: 'Customers', href: '/customers', icon: Users },
+    { name: 'Vehicles', href: '/vehicles', icon: Car },
     { name: 'Quotes', href: '/quotes', icon: FileText },
     { name: 'Calendar', href: '/calendar', icon: Calendar },
     { name: 'Tech Sheets', href: '/tech-sheets', icon: ClipboardList },
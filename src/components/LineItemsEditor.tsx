@@ -0,0 +1,235 @@
+import React from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import type { CatalogPart, LineItem, PricingRules } from '../types'
+import { createLineItem, getLineItemTotal } from '../utils/lineItems'
+import { getPartPrice, getPartsMarkupPercent } from '../utils/pricing'
+
+interface LineItemsEditorProps {
+  items: LineItem[]
+  onChange: (items: LineItem[]) => void
+  defaultLaborRate?: number
+  disabled?: boolean
+  // When given, part lines can be priced from cost and markup
+  pricingRules?: PricingRules
+  catalog?: CatalogPart[]
+}
+
+const typeLabels: Record<LineItem['type'], string> = {
+  labor: 'Labor',
+  part: 'Part',
+  fee: 'Fee',
+  discount: 'Discount'
+}
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  return value.trim() === '' ? undefined : parseFloat(value) || 0
+}
+
+/**
+ * Editable table of labor, part, fee and discount lines.
+ * New labor lines start at the shop's labor rate. With pricing rules, part
+ * lines take a part number, cost and markup, and picking a part number from
+ * the catalog fills them in.
+ */
+const LineItemsEditor: React.FC<LineItemsEditorProps> = ({
+  items,
+  onChange,
+  defaultLaborRate = 80,
+  disabled = false,
+  pricingRules,
+  catalog = []
+}) => {
+  // Part lines priced from cost show the marked-up price
+  const withPartPrice = (item: LineItem): LineItem => {
+    if (!pricingRules || item.type !== 'part' || item.unit_cost === undefined) return item
+    const markupPercent = item.markup_percent ?? getPartsMarkupPercent(item.unit_cost, pricingRules)
+    return { ...item, unit_price: getPartPrice(item.unit_cost, markupPercent) }
+  }
+
+  const updateItem = (id: string, updates: Partial<LineItem>) => {
+    onChange(items.map(item => (item.id === id ? withPartPrice({ ...item, ...updates }) : item)))
+  }
+
+  const fromCatalog = (part: CatalogPart): Partial<LineItem> => ({
+    description: part.description,
+    part_number: part.part_number,
+    unit_cost: part.unit_cost,
+    markup_percent: part.markup_percent,
+    catalog_part_id: part.id
+  })
+
+  /**
+   * Fills the line in from the catalog when the part number matches a part
+   */
+  const updatePartNumber = (item: LineItem, partNumber: string) => {
+    const part = catalog.find(p => p.part_number.toUpperCase() === partNumber.trim().toUpperCase())
+    updateItem(item.id, part ? fromCatalog(part) : { part_number: partNumber, catalog_part_id: undefined })
+  }
+
+  const addCatalogPart = (partId: string) => {
+    const part = catalog.find(p => p.id === partId)
+    if (!part) return
+    onChange([
+      ...items,
+      withPartPrice(createLineItem({
+        type: 'part',
+        quantity: 1,
+        unit_price: 0,
+        ...fromCatalog(part)
+      } as Omit<LineItem, 'id'>))
+    ])
+  }
+
+  const addItem = (type: LineItem['type']) => {
+    onChange([
+      ...items,
+      createLineItem({
+        type,
+        description: '',
+        quantity: 1,
+        unit_price: type === 'labor' ? defaultLaborRate : 0
+      })
+    ])
+  }
+
+  const removeItem = (id: string) => {
+    onChange(items.filter(item => item.id !== id))
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.length === 0 && (
+        <p className="text-sm text-gray-500">No line items yet</p>
+      )}
+      {catalog.length > 0 && (
+        <datalist id="line-items-catalog">
+          {catalog.map(part => (
+            <option key={part.id} value={part.part_number}>{part.description}</option>
+          ))}
+        </datalist>
+      )}
+      {items.map((item) => (
+        <div key={item.id} className="space-y-1">
+          <div className="grid grid-cols-12 gap-2 items-center">
+            <select
+              value={item.type}
+              onChange={(e) => updateItem(item.id, { type: e.target.value as LineItem['type'] })}
+              disabled={disabled}
+              className="col-span-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+            >
+              {Object.entries(typeLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={item.description}
+              placeholder="Description"
+              onChange={(e) => updateItem(item.id, { description: e.target.value })}
+              disabled={disabled}
+              className="col-span-4 border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+            />
+            <input
+              type="number"
+              step={item.type === 'labor' ? '0.25' : '1'}
+              min="0"
+              value={item.quantity}
+              title={item.type === 'labor' ? 'Hours' : 'Quantity'}
+              onChange={(e) => updateItem(item.id, { quantity: parseFloat(e.target.value) || 0 })}
+              disabled={disabled}
+              className="col-span-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+            />
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={item.unit_price}
+              title={item.type === 'labor' ? 'Rate' : item.type === 'discount' ? 'Amount off' : 'Unit price'}
+              onChange={(e) => updateItem(item.id, { unit_price: parseFloat(e.target.value) || 0 })}
+              disabled={disabled}
+              readOnly={!!pricingRules && item.type === 'part' && item.unit_cost !== undefined}
+              className="col-span-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+            />
+            <span className={`col-span-1 text-sm text-right ${item.type === 'discount' ? 'text-green-700' : 'text-gray-900'}`}>
+              {getLineItemTotal(item) < 0 ? '-' : ''}${Math.abs(getLineItemTotal(item)).toFixed(2)}
+            </span>
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => removeItem(item.id)}
+                className="col-span-1 flex justify-center text-gray-400 hover:text-red-600"
+                aria-label="Remove line item"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+          {pricingRules && item.type === 'part' && (
+            <div className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="text"
+                value={item.part_number || ''}
+                placeholder="Part #"
+                list={catalog.length > 0 ? 'line-items-catalog' : undefined}
+                onChange={(e) => updatePartNumber(item, e.target.value)}
+                disabled={disabled}
+                className="col-start-3 col-span-4 border-gray-300 rounded-md shadow-sm text-sm font-mono focus:ring-primary-500 focus:border-primary-500"
+              />
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={item.unit_cost ?? ''}
+                placeholder="Cost"
+                title="Cost to the shop. Leave blank to enter the price directly."
+                onChange={(e) => updateItem(item.id, { unit_cost: parseOptionalNumber(e.target.value) })}
+                disabled={disabled}
+                className="col-span-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={item.markup_percent ?? ''}
+                placeholder={item.unit_cost !== undefined ? `${getPartsMarkupPercent(item.unit_cost, pricingRules)}%` : 'Markup %'}
+                title="Markup %. Leave blank to use the pricing rules."
+                onChange={(e) => updateItem(item.id, { markup_percent: parseOptionalNumber(e.target.value) })}
+                disabled={disabled || item.unit_cost === undefined}
+                className="col-span-2 border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          )}
+        </div>
+      ))}
+      {!disabled && (
+        <div className="flex space-x-2 pt-1">
+          {(Object.keys(typeLabels) as LineItem['type'][]).map(type => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => addItem(type)}
+              className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              {typeLabels[type]}
+            </button>
+          ))}
+          {catalog.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => addCatalogPart(e.target.value)}
+              className="border-gray-300 rounded-md shadow-sm text-xs py-1 focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">Add from catalog…</option>
+              {catalog.map(part => (
+                <option key={part.id} value={part.id}>{part.part_number} - {part.description}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LineItemsEditor
@@ -1,35 +1,162 @@
-import React, { useState } from 'react'
-import { format } from 'date-fns'
-import { MessageSquare, Bot, User, AlertTriangle, Reply, Phone, Check } from 'lucide-react'
+import React, { useState, useRef, useEffect } from 'react'
+import { format, addHours, addDays, startOfDay, setHours } from 'date-fns'
+import { MessageSquare, Bot, User, AlertTriangle, Reply, Phone, Check, Paperclip, X, FileText, Search, Archive, Clock, RotateCcw, Tag, CalendarClock, Pencil, Ban } from 'lucide-react'
 import { useMessages } from '../hooks/useMessages'
+import { useConversations } from '../hooks/useConversations'
+import { useReplyTemplates } from '../hooks/useReplyTemplates'
+import { useQuotes } from '../hooks/useQuotes'
+import { useScheduledMessages } from '../hooks/useScheduledMessages'
+import { useConsents } from '../hooks/useConsents'
 import { useBusinessSettings } from '../hooks/useBusinessSettings'
-import type { Message } from '../types'
+import DraftReplyCard from './DraftReplyCard'
+import type { ConversationStatus, Customer, DeliveryStatus, Message, MessageMedia } from '../types'
+import { getMediaUrl, isImageMedia } from '../utils/media'
+import { MAX_PAGE_SIZE, type MessageQuery } from '../utils/messageQuery'
+import { AI_INTENTS } from '../services/openai'
+import { buildTemplateValues, renderTemplate } from '../utils/replyTemplates'
+import { API_BASE_URL } from '../utils/api'
 import toast from 'react-hot-toast'
 
+const deliveryStatusLabels: Record<DeliveryStatus, string> = {
+  queued: 'Queued',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  failed: 'Not delivered'
+}
+
+const statusTabs: { status: ConversationStatus; label: string }[] = [
+  { status: 'open', label: 'Open' },
+  { status: 'snoozed', label: 'Snoozed' },
+  { status: 'closed', label: 'Closed' }
+]
+
+const snoozeOptions: { label: string; getDate: () => Date }[] = [
+  { label: '3 hours', getDate: () => addHours(new Date(), 3) },
+  { label: 'Tomorrow morning', getDate: () => setHours(startOfDay(addDays(new Date(), 1)), 8) },
+  { label: 'Next week', getDate: () => setHours(startOfDay(addDays(new Date(), 7)), 8) }
+]
+
+// Value format for datetime-local inputs
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm"
+
+const byNewest = (a: Message, b: Message) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+
+interface MessageFilters {
+  search: string
+  direction: '' | Message['direction']
+  intent: string
+  unreadOnly: boolean
+  from: string
+  to: string
+}
+
+const emptyFilters: MessageFilters = { search: '', direction: '', intent: '', unreadOnly: false, from: '', to: '' }
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300
+
+const toMessageQuery = (filters: MessageFilters): MessageQuery => ({
+  search: filters.search.trim() || undefined,
+  direction: filters.direction || undefined,
+  intent: filters.intent || undefined,
+  read: filters.unreadOnly ? false : undefined,
+  from: filters.from || undefined,
+  to: filters.to || undefined
+})
+
 /**
  * MessageList Component
  * 
  * A comprehensive message management interface that displays customer conversations
  * in a two-panel layout similar to modern messaging apps. Features include:
  * 
- * - Conversation list with unread counts and emergency indicators
+ * - Conversation list with unread counts and emergency indicators, split into
+ *   open, snoozed and closed threads
+ * - Closing, snoozing, reopening, assigning and tagging threads
+ * - Search across every message body, with filters for direction, intent,
+ *   unread and date range; matches load from the server a page at a time
  * - Detailed conversation view with message history
  * - Real-time message status and AI response tracking
- * - Manual reply capability with SMS integration
+ * - Delivery status on outgoing texts, including texts sent from the OpenPhone app
+ * - Manual reply capability with SMS integration and photo attachments
+ * - Saved reply templates, filled in for the customer being texted
+ * - Sending a reply later, with the conversation's pending scheduled texts
+ *   listed above the reply box to edit or cancel
+ * - Replies blocked to numbers that opted out of texts
+ * - Thumbnails for photos customers text in (MMS)
+ * - Approval queue for AI-drafted replies (approve, edit or discard)
  * - Emergency message highlighting and alerts
  * - Professional conversation management for business use
  * 
- * The component automatically groups messages by phone number and provides
- * a clean interface for managing customer communications.
+ * Threads come from the server's Conversation records; opening one loads its
+ * full message history.
  */
 const MessageList: React.FC = () => {
-  const { messages, isLoading, sendMessage, isSending, markAsRead } = useMessages()
+  const { messages, isLoading, sendMessage, uploadMedia, searchMessages, isSending, markAsRead, approveDraft, discardDraft } = useMessages()
+  const {
+    conversations,
+    isLoading: isLoadingConversations,
+    closeConversation,
+    snoozeConversation,
+    reopenConversation,
+    updateConversation,
+    getConversationForPhone
+  } = useConversations()
   const { settings } = useBusinessSettings()
-  const [selectedMessage, setSelectedMessage] = useState<Message | null>(null)
+  const { templates } = useReplyTemplates()
+  const { getQuotesForCustomer } = useQuotes()
+  const { scheduleMessage, updateScheduledMessage, cancelScheduledMessage, getPendingForPhone } = useScheduledMessages()
+  const { getConsent } = useConsents()
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null)
+  const [statusTab, setStatusTab] = useState<ConversationStatus>('open')
+  const [customSnooze, setCustomSnooze] = useState('')
+  const [tagInput, setTagInput] = useState('')
+  // Customer record for the open thread, used to fill in reply templates
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
+  // "Send later" time for the reply, empty to send now
+  const [sendLaterAt, setSendLaterAt] = useState('')
+  const [showSendLater, setShowSendLater] = useState(false)
+  const [editingScheduled, setEditingScheduled] = useState<{ id: string; body: string; sendAt: string } | null>(null)
   const [replyText, setReplyText] = useState('')
+  const [attachments, setAttachments] = useState<MessageMedia[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [filters, setFilters] = useState<MessageFilters>(emptyFilters)
+  const [results, setResults] = useState<Message[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [totalResults, setTotalResults] = useState(0)
+  const [isSearching, setIsSearching] = useState(false)
+  // Full history of the open conversation, which may go back further than the main list
+  const [threadMessages, setThreadMessages] = useState<Message[]>([])
+  // Ignores responses from searches that were replaced by a newer one
+  const searchIdRef = useRef(0)
+
+  const isFiltering = JSON.stringify(filters) !== JSON.stringify(emptyFilters)
+
+  useEffect(() => {
+    if (!isFiltering) {
+      setResults([])
+      setNextCursor(null)
+      setTotalResults(0)
+      return
+    }
+
+    const searchId = ++searchIdRef.current
+    setIsSearching(true)
+    const timer = setTimeout(async () => {
+      const page = await searchMessages(toMessageQuery(filters))
+      if (searchId !== searchIdRef.current) return
+      setResults(page?.messages || [])
+      setNextCursor(page?.nextCursor || null)
+      setTotalResults(page?.total || 0)
+      setIsSearching(false)
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [filters])
 
   // Loading state with spinner
-  if (isLoading) {
+  if (isLoading || (isLoadingConversations && conversations.length === 0)) {
     return (
       <div className="flex items-center justify-center py-8">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
@@ -38,7 +165,7 @@ const MessageList: React.FC = () => {
   }
 
   // Empty state when no messages exist
-  if (messages.length === 0) {
+  if (messages.length === 0 && conversations.length === 0) {
     return (
       <div className="text-center py-12">
         <MessageSquare className="mx-auto h-12 w-12 text-gray-400" />
@@ -65,14 +192,110 @@ const MessageList: React.FC = () => {
   }
 
   /**
-   * Handles clicking on a message/conversation
-   * Automatically marks inbound messages as read when selected
+   * Opens a conversation and loads its full history
+   * Automatically marks its unread inbound messages as read
+   */
+  const openConversation = async (phoneNumber: string) => {
+    setSelectedPhone(phoneNumber)
+    setThreadMessages([])
+    setTagInput('')
+    setSelectedCustomer(null)
+    messages
+      .filter(m => m.phone_number === phoneNumber && m.direction === 'inbound' && !m.read)
+      .forEach(m => markAsRead(m.id))
+
+    const customerId = getConversationForPhone(phoneNumber)?.customer_id
+    if (customerId) {
+      loadCustomer(customerId)
+    }
+
+    const page = await searchMessages({ phone: phoneNumber, limit: MAX_PAGE_SIZE })
+    if (page) {
+      setThreadMessages(page.messages.filter(m => m.phone_number === phoneNumber))
+    }
+  }
+
+  const loadCustomer = async (customerId: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/customers/${customerId}`)
+      if (response.ok) {
+        setSelectedCustomer(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading customer:', error)
+    }
+  }
+
+  /**
+   * Adds a saved reply to the reply box, filled in for this customer
+   */
+  const handleInsertTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId)
+    if (!template || !selectedPhone) return
+
+    const values = buildTemplateValues({
+      phoneNumber: selectedPhone,
+      customer: selectedCustomer,
+      quotes: getQuotesForCustomer(selectedPhone),
+      settings
+    })
+    const { text, missing } = renderTemplate(template.body, values)
+    setReplyText(current => (current.trim() ? `${current.trimEnd()} ${text}` : text))
+    if (missing.length > 0) {
+      toast(`Fill in ${missing.map(name => `{${name}}`).join(', ')} before sending`, { icon: '✏️' })
+    }
+  }
+
+  const updateFilter = <K extends keyof MessageFilters>(key: K, value: MessageFilters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }))
+  }
+
+  /**
+   * Appends the next page of search results
+   */
+  const handleLoadMore = async () => {
+    if (!nextCursor) return
+    const searchId = searchIdRef.current
+    setIsSearching(true)
+    const page = await searchMessages({ ...toMessageQuery(filters), cursor: nextCursor })
+    if (searchId !== searchIdRef.current) return
+    if (page) {
+      setResults(current => [...current, ...page.messages])
+      setNextCursor(page.nextCursor)
+    }
+    setIsSearching(false)
+  }
+
+  /**
+   * Snoozes the open thread until a preset or custom time
    */
-  const handleMessageClick = (message: Message) => {
-    setSelectedMessage(message)
-    if (message.direction === 'inbound' && !message.read) {
-      markAsRead(message.id)
+  const handleSnooze = (until: Date) => {
+    if (!selectedThread) return
+    if (isNaN(until.getTime()) || until.getTime() <= Date.now()) {
+      toast.error('Pick a time in the future')
+      return
     }
+    snoozeConversation(selectedThread.id, until)
+    setCustomSnooze('')
+  }
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim()
+    if (!selectedThread || !tag) return
+    if (!selectedThread.tags.includes(tag)) {
+      updateConversation(selectedThread.id, { tags: [...selectedThread.tags, tag] })
+    }
+    setTagInput('')
+  }
+
+  const handleRemoveTag = (tag: string) => {
+    if (!selectedThread) return
+    updateConversation(selectedThread.id, { tags: selectedThread.tags.filter(t => t !== tag) })
+  }
+
+  const handleAssign = (assignee: string) => {
+    if (!selectedThread || assignee.trim() === (selectedThread.assignee || '')) return
+    updateConversation(selectedThread.id, { assignee: assignee.trim() })
   }
 
   /**
@@ -80,17 +303,39 @@ const MessageList: React.FC = () => {
    * Integrates with the SMS system to deliver messages via OpenPhone
    */
   const handleReply = async () => {
-    if (!selectedMessage || !replyText.trim()) {
+    if (!selectedPhone || (!replyText.trim() && attachments.length === 0)) {
       toast.error('Please enter a message to send')
       return
     }
+    if (getConsent(selectedPhone)?.status === 'opted_out') {
+      toast.error('This number has opted out of texts')
+      return
+    }
+
+    if (sendLaterAt) {
+      const scheduled = await scheduleMessage({
+        phoneNumber: selectedPhone,
+        message: replyText.trim(),
+        media: attachments,
+        sendAt: new Date(sendLaterAt)
+      })
+      if (scheduled) {
+        setReplyText('')
+        setAttachments([])
+        setSendLaterAt('')
+        setShowSendLater(false)
+      }
+      return
+    }
 
     try {
       await sendMessage({
-        phoneNumber: selectedMessage.phone_number,
-        message: replyText.trim()
+        phoneNumber: selectedPhone,
+        message: replyText.trim(),
+        media: attachments
       })
       setReplyText('')
+      setAttachments([])
       toast.success('Reply sent successfully!')
     } catch (error) {
       console.error('Reply error:', error)
@@ -98,6 +343,41 @@ const MessageList: React.FC = () => {
     }
   }
 
+  /**
+   * Saves edits to a scheduled text that hasn't gone out yet
+   */
+  const handleSaveScheduled = async () => {
+    if (!editingScheduled) return
+    const updated = await updateScheduledMessage(editingScheduled.id, {
+      message: editingScheduled.body.trim(),
+      sendAt: new Date(editingScheduled.sendAt)
+    })
+    if (updated) {
+      setEditingScheduled(null)
+    }
+  }
+
+  /**
+   * Uploads the chosen files so they can be sent with the reply as an MMS
+   */
+  const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    setIsUploading(true)
+    try {
+      for (const file of files) {
+        const media = await uploadMedia(file)
+        if (media) {
+          setAttachments(current => [...current, media])
+        }
+      }
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
   /**
    * Opens the device's phone dialer with the customer's number
    * Provides quick access to make voice calls when needed
@@ -117,8 +397,8 @@ const MessageList: React.FC = () => {
     }
   }
 
-  // Group messages by phone number to create conversation threads
-  const groupedMessages = messages.reduce((groups, message) => {
+  // Group loaded messages by phone number for thread indicators
+  const messagesByPhone = messages.reduce((groups, message) => {
     const phone = message.phone_number
     if (!groups[phone]) {
       groups[phone] = []
@@ -127,194 +407,713 @@ const MessageList: React.FC = () => {
     return groups
   }, {} as Record<string, Message[]>)
 
-  // Create conversation summaries for the left panel
-  const conversations = Object.entries(groupedMessages).map(([phone, msgs]) => {
-    const sortedMsgs = msgs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-    const latestMessage = sortedMsgs[0]
-    const unreadCount = msgs.filter(m => m.direction === 'inbound' && !m.read).length
-    const hasEmergency = msgs.some(m => m.intent?.toLowerCase().includes('emergency'))
-    
-    return {
-      phone,
-      latestMessage,
-      unreadCount,
-      hasEmergency,
-      messages: sortedMsgs
-    }
-  }).sort((a, b) => new Date(b.latestMessage.timestamp).getTime() - new Date(a.latestMessage.timestamp).getTime())
+  const hasEmergency = (phone: string) =>
+    (messagesByPhone[phone] || []).some(m => m.intent?.toLowerCase().includes('emergency'))
+  const hasPendingDraft = (phone: string) =>
+    (messagesByPhone[phone] || []).some(m => m.draft?.status === 'pending')
+  const getLatestIntent = (phone: string) =>
+    [...(messagesByPhone[phone] || [])].sort(byNewest).find(m => m.intent)?.intent
+
+  // Threads for the selected tab, most recent activity first
+  const threads = conversations
+    .filter(c => c.status === statusTab)
+    .sort((a, b) => new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime())
+  const countByStatus = (status: ConversationStatus) => conversations.filter(c => c.status === status).length
 
-  // Find the selected conversation for the right panel
-  const selectedConversation = selectedMessage ? 
-    conversations.find(c => c.phone === selectedMessage.phone_number) : null
+  // The selected thread and its messages for the right panel: the loaded
+  // messages plus any older ones fetched when it was opened
+  const selectedThread = selectedPhone ? getConversationForPhone(selectedPhone) : undefined
+  const loadedMessages = selectedPhone ? messagesByPhone[selectedPhone] || [] : []
+  const selectedMessages = [
+    ...loadedMessages,
+    ...threadMessages.filter(m => m.phone_number === selectedPhone && !loadedMessages.some(loaded => loaded.id === m.id))
+  ].sort(byNewest)
+  const selectedConversation = selectedPhone && selectedMessages.length > 0
+    ? { phone: selectedPhone, messages: selectedMessages }
+    : null
 
   return (
-    <div className="flex h-96">
-      {/* Left Panel: Conversation List */}
-      <div className="w-1/2 border-r border-gray-200 overflow-y-auto">
-        <div className="space-y-2 p-4">
-          {conversations.map((conversation) => (
-            <div
-              key={conversation.phone}
-              onClick={() => handleMessageClick(conversation.latestMessage)}
-              className={`p-3 rounded-lg border cursor-pointer transition-colors ${
-                selectedMessage?.phone_number === conversation.phone
-                  ? 'bg-primary-50 border-primary-200'
-                  : 'bg-white border-gray-200 hover:bg-gray-50'
-              }`}
+    <div>
+      {/* Search and Filters */}
+      <div className="p-4 border-b border-gray-200 space-y-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => updateFilter('search', e.target.value)}
+            placeholder="Search messages..."
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={filters.direction}
+            onChange={(e) => updateFilter('direction', e.target.value as MessageFilters['direction'])}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            aria-label="Direction"
+          >
+            <option value="">All messages</option>
+            <option value="inbound">Received</option>
+            <option value="outbound">Sent</option>
+          </select>
+          <select
+            value={filters.intent}
+            onChange={(e) => updateFilter('intent', e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            aria-label="Intent"
+          >
+            <option value="">Any intent</option>
+            {AI_INTENTS.map(intent => (
+              <option key={intent} value={intent}>{intent}</option>
+            ))}
+          </select>
+          <label className="inline-flex items-center space-x-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={filters.unreadOnly}
+              onChange={(e) => updateFilter('unreadOnly', e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>Unread only</span>
+          </label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            aria-label="From date"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            aria-label="To date"
+          />
+          {isFiltering && (
+            <button
+              type="button"
+              onClick={() => setFilters(emptyFilters)}
+              className="inline-flex items-center text-gray-500 hover:text-gray-700"
             >
-              <div className="flex items-start justify-between">
-                <div className="flex items-start space-x-2 flex-1">
-                  <div className="flex-shrink-0 text-gray-600">
-                    <User className="h-4 w-4" />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    {/* Conversation header with phone number and badges */}
-                    <div className="flex items-center space-x-2 mb-1">
-                      <span className="text-sm font-medium text-gray-900 truncate">
-                        {conversation.phone}
-                      </span>
-                      {/* Intent badge */}
-                      {conversation.latestMessage.intent && (
-                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getIntentColor(conversation.latestMessage.intent)}`}>
-                          {conversation.latestMessage.intent}
-                        </span>
-                      )}
-                      {/* Emergency indicator */}
-                      {conversation.hasEmergency && (
-                        <AlertTriangle className="h-3 w-3 text-red-500" />
-                      )}
-                      {/* Unread count badge */}
-                      {conversation.unreadCount > 0 && (
-                        <span className="inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white bg-blue-500 rounded-full">
-                          {conversation.unreadCount}
-                        </span>
-                      )}
-                    </div>
-                    {/* Latest message preview */}
-                    <p className="text-sm text-gray-700 truncate">
-                      {conversation.latestMessage.direction === 'outbound' ? 'You: ' : ''}
-                      {conversation.latestMessage.body}
-                    </p>
-                    {/* Timestamp */}
-                    <p className="text-xs text-gray-500 mt-1">
-                      {format(new Date(conversation.latestMessage.timestamp), 'MMM d, h:mm a')}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </div>
-          ))}
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </button>
+          )}
         </div>
       </div>
 
-      {/* Right Panel: Conversation Detail */}
-      <div className="w-1/2 flex flex-col">
-        {selectedConversation ? (
-          <>
-            {/* Conversation Header */}
-            <div className="p-4 border-b border-gray-200 bg-gray-50">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="text-lg font-medium text-gray-900">
-                    {selectedConversation.phone}
-                  </h3>
-                  <p className="text-sm text-gray-500">
-                    {selectedConversation.messages.length} message{selectedConversation.messages.length !== 1 ? 's' : ''}
+      <div className="flex h-96">
+        {/* Left Panel: Conversation List, or search results while filtering */}
+        <div className="w-1/2 border-r border-gray-200 overflow-y-auto">
+          {isFiltering ? (
+            <div className="space-y-2 p-4">
+              <p className="text-xs text-gray-500">
+                {isSearching && results.length === 0
+                  ? 'Searching...'
+                  : `${totalResults} matching message${totalResults !== 1 ? 's' : ''}`}
+              </p>
+              {results.map((message) => (
+                <div
+                  key={message.id}
+                  onClick={() => openConversation(message.phone_number)}
+                  className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                    selectedPhone === message.phone_number
+                      ? 'bg-primary-50 border-primary-200'
+                      : 'bg-white border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="text-sm font-medium text-gray-900 truncate">
+                      {message.phone_number}
+                    </span>
+                    {message.intent && (
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getIntentColor(message.intent)}`}>
+                        {message.intent}
+                      </span>
+                    )}
+                    {message.direction === 'inbound' && !message.read && (
+                      <span className="h-2 w-2 rounded-full bg-blue-500" />
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700 line-clamp-2">
+                    {message.direction === 'outbound' ? 'You: ' : ''}
+                    {message.body || (message.media?.length ? '📷 Photo' : '')}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {format(new Date(message.timestamp), 'MMM d, yyyy h:mm a')}
                   </p>
                 </div>
-                <div className="flex space-x-2">
+              ))}
+              {nextCursor && (
+                <button
+                  type="button"
+                  onClick={handleLoadMore}
+                  disabled={isSearching}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {isSearching ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="p-4">
+              {/* Open / snoozed / closed tabs */}
+              <div className="flex space-x-1 mb-3">
+                {statusTabs.map(tab => (
                   <button
-                    onClick={() => handleCallCustomer(selectedConversation.phone)}
-                    className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    key={tab.status}
+                    type="button"
+                    onClick={() => setStatusTab(tab.status)}
+                    className={`px-3 py-1 rounded-md text-sm font-medium ${
+                      statusTab === tab.status
+                        ? 'bg-primary-100 text-primary-800'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
                   >
-                    <Phone className="h-4 w-4 mr-1" />
-                    Call
+                    {tab.label} ({countByStatus(tab.status)})
                   </button>
-                </div>
+                ))}
+              </div>
+              {threads.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-6">
+                  No {statusTab} conversations
+                </p>
+              )}
+              <div className="space-y-2">
+                {threads.map((thread) => (
+                  <div
+                    key={thread.id}
+                    onClick={() => openConversation(thread.phone_number)}
+                    className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                      selectedPhone === thread.phone_number
+                        ? 'bg-primary-50 border-primary-200'
+                        : 'bg-white border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start space-x-2 flex-1">
+                        <div className="flex-shrink-0 text-gray-600">
+                          <User className="h-4 w-4" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          {/* Conversation header with customer and badges */}
+                          <div className="flex items-center space-x-2 mb-1">
+                            <span className="text-sm font-medium text-gray-900 truncate">
+                              {thread.customer_name || thread.phone_number}
+                            </span>
+                            {/* Intent badge */}
+                            {getLatestIntent(thread.phone_number) && (
+                              <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getIntentColor(getLatestIntent(thread.phone_number))}`}>
+                                {getLatestIntent(thread.phone_number)}
+                              </span>
+                            )}
+                            {/* Emergency indicator */}
+                            {hasEmergency(thread.phone_number) && (
+                              <AlertTriangle className="h-3 w-3 text-red-500" />
+                            )}
+                            {/* Draft awaiting approval */}
+                            {hasPendingDraft(thread.phone_number) && (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                Draft
+                              </span>
+                            )}
+                            {/* Unread count badge */}
+                            {thread.unread_count > 0 && (
+                              <span className="inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white bg-blue-500 rounded-full">
+                                {thread.unread_count}
+                              </span>
+                            )}
+                          </div>
+                          {thread.customer_name && (
+                            <p className="text-xs text-gray-500">{thread.phone_number}</p>
+                          )}
+                          {/* Latest message preview */}
+                          <p className="text-sm text-gray-700 truncate">
+                            {thread.last_message_direction === 'outbound' ? 'You: ' : ''}
+                            {thread.last_message_preview}
+                          </p>
+                          {/* Assignee and tags */}
+                          {(thread.assignee || thread.tags.length > 0) && (
+                            <div className="flex flex-wrap items-center gap-1 mt-1">
+                              {thread.assignee && (
+                                <span className="text-xs text-gray-600">→ {thread.assignee}</span>
+                              )}
+                              {thread.tags.map(tag => (
+                                <span key={tag} className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {/* Timestamp */}
+                          <p className="text-xs text-gray-500 mt-1">
+                            {format(new Date(thread.last_message_at), 'MMM d, h:mm a')}
+                            {thread.status === 'snoozed' && thread.snoozed_until && (
+                              <> · Snoozed until {format(new Date(thread.snoozed_until), 'MMM d, h:mm a')}</>
+                            )}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
+          )}
+        </div>
 
-            {/* Message Thread */}
-            <div className="flex-1 p-4 overflow-y-auto space-y-4">
-              {selectedConversation.messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex ${message.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}
-                >
-                  <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                    message.direction === 'outbound'
-                      ? 'bg-primary-600 text-white'
-                      : 'bg-gray-100 text-gray-900'
-                  }`}>
-                    <div className="flex items-start space-x-2">
-                      <div className="flex-1">
-                        {/* Message content */}
-                        <p className="text-sm whitespace-pre-wrap">{message.body}</p>
-                        {/* Timestamp */}
-                        <p className={`text-xs mt-1 ${
-                          message.direction === 'outbound' ? 'text-primary-100' : 'text-gray-500'
-                        }`}>
-                          {format(new Date(message.timestamp), 'h:mm a')}
-                        </p>
+        {/* Right Panel: Conversation Detail */}
+        <div className="w-1/2 flex flex-col">
+          {selectedConversation ? (
+            <>
+              {/* Conversation Header */}
+              <div className="p-4 border-b border-gray-200 bg-gray-50 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">
+                      {selectedThread?.customer_name || selectedConversation.phone}
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      {selectedThread?.customer_name ? `${selectedConversation.phone} · ` : ''}
+                      {selectedConversation.messages.length} message{selectedConversation.messages.length !== 1 ? 's' : ''}
+                      {selectedThread?.status === 'snoozed' && selectedThread.snoozed_until && (
+                        <> · Snoozed until {format(new Date(selectedThread.snoozed_until), 'MMM d, h:mm a')}</>
+                      )}
+                      {selectedThread?.status === 'closed' && ' · Closed'}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleCallCustomer(selectedConversation.phone)}
+                      className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <Phone className="h-4 w-4 mr-1" />
+                      Call
+                    </button>
+                    {selectedThread && selectedThread.status !== 'open' && (
+                      <button
+                        onClick={() => reopenConversation(selectedThread.id)}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Reopen
+                      </button>
+                    )}
+                    {selectedThread && selectedThread.status !== 'closed' && (
+                      <button
+                        onClick={() => closeConversation(selectedThread.id)}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Archive className="h-4 w-4 mr-1" />
+                        Close
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {selectedThread && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {/* Snooze */}
+                    <Clock className="h-4 w-4 text-gray-400" />
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const option = snoozeOptions.find(o => o.label === e.target.value)
+                        if (option) handleSnooze(option.getDate())
+                      }}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label="Snooze"
+                    >
+                      <option value="">Snooze...</option>
+                      {snoozeOptions.map(option => (
+                        <option key={option.label} value={option.label}>{option.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="datetime-local"
+                      value={customSnooze}
+                      onChange={(e) => setCustomSnooze(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label="Snooze until"
+                    />
+                    {customSnooze && (
+                      <button
+                        type="button"
+                        onClick={() => handleSnooze(new Date(customSnooze))}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        Snooze
+                      </button>
+                    )}
+                    {/* Assignee */}
+                    <input
+                      key={selectedThread.id}
+                      type="text"
+                      defaultValue={selectedThread.assignee || ''}
+                      onBlur={(e) => handleAssign(e.target.value)}
+                      placeholder="Assign to..."
+                      className="w-32 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label="Assignee"
+                    />
+                    {/* Tags */}
+                    <Tag className="h-4 w-4 text-gray-400" />
+                    {selectedThread.tags.map(tag => (
+                      <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-200 text-gray-700">
+                        {tag}
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveTag(tag)}
+                          className="ml-1 text-gray-500 hover:text-gray-700"
+                          aria-label={`Remove tag ${tag}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    <input
+                      type="text"
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          handleAddTag()
+                        }
+                      }}
+                      placeholder="Add tag"
+                      className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label="Add tag"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Message Thread */}
+              <div className="flex-1 p-4 overflow-y-auto space-y-4">
+                {selectedConversation.messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={`flex ${message.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
+                      message.direction === 'outbound'
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-gray-100 text-gray-900'
+                    }`}>
+                      <div className="flex items-start space-x-2">
+                        <div className="flex-1">
+                          {/* Attachments */}
+                          {message.media && message.media.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mb-1">
+                              {message.media.map((media, index) => (
+                                <a
+                                  key={index}
+                                  href={getMediaUrl(media)}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  title="Open attachment"
+                                >
+                                  {isImageMedia(media) ? (
+                                    <img
+                                      src={getMediaUrl(media)}
+                                      alt={`Attachment ${index + 1}`}
+                                      className="h-24 w-24 object-cover rounded border border-gray-200"
+                                    />
+                                  ) : (
+                                    <span className="inline-flex items-center text-xs underline">
+                                      <FileText className="h-4 w-4 mr-1" />
+                                      {media.type}
+                                    </span>
+                                  )}
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                          {/* Message content */}
+                          {message.body && (
+                            <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                          )}
+                          {/* Timestamp */}
+                          <p className={`text-xs mt-1 ${
+                            message.direction === 'outbound' ? 'text-primary-100' : 'text-gray-500'
+                          }`}>
+                            {format(new Date(message.timestamp), 'h:mm a')}
+                            {message.direction === 'outbound' && message.status && (
+                              <span className={message.status === 'failed' ? ' font-semibold text-red-200' : ''}>
+                                {' · '}{deliveryStatusLabels[message.status]}
+                              </span>
+                            )}
+                          </p>
+                        </div>
                       </div>
+                      {/* AI Action indicator for inbound messages */}
+                      {message.action && message.direction === 'inbound' && (
+                        <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-gray-900">
+                          <p className="text-xs">
+                            <strong>Action:</strong> {message.action}
+                          </p>
+                        </div>
+                      )}
+                      {/* AI draft waiting for approval */}
+                      {message.direction === 'inbound' && (
+                        <DraftReplyCard
+                          message={message}
+                          onApprove={approveDraft}
+                          onDiscard={discardDraft}
+                          isSending={isSending}
+                        />
+                      )}
                     </div>
-                    {/* AI Action indicator for inbound messages */}
-                    {message.action && message.direction === 'inbound' && (
-                      <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-gray-900">
-                        <p className="text-xs">
-                          <strong>Action:</strong> {message.action}
-                        </p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Reply Section */}
+              <div className="p-4 border-t border-gray-200 bg-gray-50">
+                {getConsent(selectedConversation.phone)?.status === 'opted_out' && (
+                  <div className="mb-3 p-2 rounded-md bg-red-50 border border-red-200 text-sm text-red-800 flex items-center">
+                    <Ban className="h-4 w-4 mr-2 flex-shrink-0" />
+                    This number opted out of texts on{' '}
+                    {format(new Date(getConsent(selectedConversation.phone)!.updated_at), 'MMM d, yyyy')}.
+                    Nothing can be sent until they text START.
+                  </div>
+                )}
+                {/* Texts waiting to go out later */}
+                {getPendingForPhone(selectedConversation.phone).length > 0 && (
+                  <div className="mb-3 space-y-2">
+                    <p className="text-xs font-medium text-gray-700">Scheduled</p>
+                    {getPendingForPhone(selectedConversation.phone).map(item => (
+                      <div key={item.id} className="p-2 border border-gray-200 rounded-md bg-white text-sm">
+                        {editingScheduled?.id === item.id ? (
+                          <div className="space-y-2">
+                            <textarea
+                              value={editingScheduled.body}
+                              onChange={(e) => setEditingScheduled({ ...editingScheduled, body: e.target.value })}
+                              rows={2}
+                              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            />
+                            <div className="flex items-center space-x-2">
+                              <input
+                                type="datetime-local"
+                                value={editingScheduled.sendAt}
+                                onChange={(e) => setEditingScheduled({ ...editingScheduled, sendAt: e.target.value })}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                                aria-label="Send at"
+                              />
+                              <button
+                                type="button"
+                                onClick={handleSaveScheduled}
+                                disabled={!editingScheduled.body.trim() || !editingScheduled.sendAt}
+                                className="px-2 py-1 rounded-md text-sm text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                              >
+                                Save
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setEditingScheduled(null)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="flex items-start justify-between">
+                            <div className="min-w-0">
+                              <p className="text-xs text-gray-500 flex items-center">
+                                <CalendarClock className="h-3 w-3 mr-1" />
+                                {format(new Date(item.send_at), 'MMM d, h:mm a')}
+                                {item.deferred_for_quiet_hours && ' (after quiet hours)'}
+                                {item.last_error && (
+                                  <span className="ml-1 text-red-600">· Retrying: {item.last_error}</span>
+                                )}
+                              </p>
+                              <p className="text-gray-800 whitespace-pre-wrap">
+                                {item.body || (item.media?.length ? '📷 Photo' : '')}
+                              </p>
+                            </div>
+                            <div className="flex space-x-2 ml-2 flex-shrink-0">
+                              <button
+                                type="button"
+                                onClick={() => setEditingScheduled({
+                                  id: item.id,
+                                  body: item.body,
+                                  sendAt: format(new Date(item.send_at), DATETIME_INPUT_FORMAT)
+                                })}
+                                className="text-gray-400 hover:text-gray-600"
+                                aria-label="Edit scheduled message"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => cancelScheduledMessage(item.id)}
+                                className="text-gray-400 hover:text-red-600"
+                                aria-label="Cancel scheduled message"
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                            </div>
+                          </div>
+                        )}
                       </div>
-                    )}
+                    ))}
+                  </div>
+                )}
+                {attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {attachments.map((media, index) => (
+                      <div key={media.url} className="relative">
+                        {isImageMedia(media) ? (
+                          <img
+                            src={getMediaUrl(media)}
+                            alt={`Attachment ${index + 1}`}
+                            className="h-16 w-16 object-cover rounded border border-gray-300"
+                          />
+                        ) : (
+                          <div className="h-16 w-16 flex items-center justify-center rounded border border-gray-300 bg-white">
+                            <FileText className="h-6 w-6 text-gray-400" />
+                          </div>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => setAttachments(current => current.filter(item => item.url !== media.url))}
+                          className="absolute -top-2 -right-2 rounded-full bg-gray-700 text-white p-0.5 hover:bg-gray-900"
+                          aria-label="Remove attachment"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
                   </div>
+                )}
+                {templates.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => handleInsertTemplate(e.target.value)}
+                    disabled={isSending}
+                    className="mb-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    aria-label="Insert a template"
+                  >
+                    <option value="">Insert template...</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                )}
+                {showSendLater && (
+                  <div className="flex items-center space-x-2 mb-2 text-sm">
+                    <CalendarClock className="h-4 w-4 text-gray-400" />
+                    <span className="text-gray-700">Send at</span>
+                    <input
+                      type="datetime-local"
+                      value={sendLaterAt}
+                      min={format(new Date(), DATETIME_INPUT_FORMAT)}
+                      onChange={(e) => setSendLaterAt(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label="Send at"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSendLaterAt('')
+                        setShowSendLater(false)
+                      }}
+                      className="text-gray-500 hover:text-gray-700"
+                    >
+                      Send now instead
+                    </button>
+                  </div>
+                )}
+                <div className="flex space-x-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/jpeg,image/png,image/gif,application/pdf"
+                    multiple
+                    onChange={handleAttach}
+                    className="hidden"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isSending || isUploading}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    title="Attach a photo"
+                    aria-label="Attach a photo"
+                  >
+                    {isUploading ? (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
+                    ) : (
+                      <Paperclip className="h-4 w-4" />
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowSendLater(true)}
+                    disabled={isSending || showSendLater}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    title="Send later"
+                    aria-label="Send later"
+                  >
+                    <CalendarClock className="h-4 w-4" />
+                  </button>
+                  <textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    placeholder="Type your reply... (Press Enter to send, Shift+Enter for new line)"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500 resize-none"
+                    rows={2}
+                    disabled={isSending || getConsent(selectedConversation.phone)?.status === 'opted_out'}
+                  />
+                  <button
+                    onClick={handleReply}
+                    disabled={
+                      (!replyText.trim() && attachments.length === 0) ||
+                      isSending ||
+                      isUploading ||
+                      getConsent(selectedConversation.phone)?.status === 'opted_out'
+                    }
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSending ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-1"></div>
+                        Sending...
+                      </>
+                    ) : sendLaterAt ? (
+                      <>
+                        <CalendarClock className="h-4 w-4 mr-1" />
+                        Schedule
+                      </>
+                    ) : (
+                      <>
+                        <Reply className="h-4 w-4 mr-1" />
+                        Send
+                      </>
+                    )}
+                  </button>
                 </div>
-              ))}
-            </div>
-
-            {/* Reply Section */}
-            <div className="p-4 border-t border-gray-200 bg-gray-50">
-              <div className="flex space-x-2">
-                <textarea
-                  value={replyText}
-                  onChange={(e) => setReplyText(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  placeholder="Type your reply... (Press Enter to send, Shift+Enter for new line)"
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500 resize-none"
-                  rows={2}
-                  disabled={isSending}
-                />
-                <button
-                  onClick={handleReply}
-                  disabled={!replyText.trim() || isSending}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isSending ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-1"></div>
-                      Sending...
-                    </>
-                  ) : (
-                    <>
-                      <Reply className="h-4 w-4 mr-1" />
-                      Send
-                    </>
-                  )}
-                </button>
+                <p className="text-xs text-gray-500 mt-1">
+                  {sendLaterAt
+                    ? `Your reply will be sent via SMS to ${selectedConversation.phone} on ${format(new Date(sendLaterAt), 'MMM d, h:mm a')}`
+                    : `Your reply will be sent via SMS to ${selectedConversation.phone}`}
+                </p>
+              </div>
+            </>
+          ) : (
+            // Empty state when no conversation is selected
+            <div className="flex-1 flex items-center justify-center text-gray-500">
+              <div className="text-center">
+                <MessageSquare className="mx-auto h-12 w-12 text-gray-400" />
+                <p className="mt-2 text-sm">Select a conversation to view messages</p>
               </div>
-              <p className="text-xs text-gray-500 mt-1">
-                Your reply will be sent via SMS to {selectedConversation.phone}
-              </p>
-            </div>
-          </>
-        ) : (
-          // Empty state when no conversation is selected
-          <div className="flex-1 flex items-center justify-center text-gray-500">
-            <div className="text-center">
-              <MessageSquare className="mx-auto h-12 w-12 text-gray-400" />
-              <p className="mt-2 text-sm">Select a conversation to view messages</p>
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
     </div>
   )
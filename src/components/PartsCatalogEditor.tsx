@@ -0,0 +1,195 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Package, Plus, Pencil, Trash2 } from 'lucide-react'
+import { usePartsCatalog } from '../hooks/usePartsCatalog'
+import { useBusinessSettings } from '../hooks/useBusinessSettings'
+import { getPartPrice, getPartsMarkupPercent, getPricingRules } from '../utils/pricing'
+import type { CatalogPart } from '../types'
+
+const partSchema = z.object({
+  part_number: z.string().trim().min(1, 'Part number is required').max(40, 'Part number must be under 40 characters'),
+  description: z.string().trim().min(1, 'Description is required').max(120, 'Description must be under 120 characters'),
+  brand: z.string().trim().max(40, 'Brand must be under 40 characters'),
+  unit_cost: z.number({ invalid_type_error: 'Enter the cost' }).min(0, 'Cost cannot be negative'),
+  // Blank uses the pricing rules
+  markup_percent: z.string().trim().regex(/^(\d+(\.\d+)?)?$/, 'Enter a percent or leave blank')
+})
+
+type PartFormData = z.infer<typeof partSchema>
+
+const emptyPart: PartFormData = { part_number: '', description: '', brand: '', unit_cost: 0, markup_percent: '' }
+
+/**
+ * PartsCatalogEditor Component
+ *
+ * Settings section for the shop's parts catalog: add, edit and delete the
+ * parts quotes are built from. Each part shows the price a customer is
+ * charged with its own markup or the shop's markup tiers.
+ */
+const PartsCatalogEditor: React.FC = () => {
+  const { parts, createPart, updatePart, deletePart } = usePartsCatalog()
+  const { settings } = useBusinessSettings()
+  const pricingRules = getPricingRules(settings)
+  // null when the form is closed, 'new' when adding
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<PartFormData>({
+    resolver: zodResolver(partSchema),
+    defaultValues: emptyPart
+  })
+
+  const startEditing = (part?: CatalogPart) => {
+    reset(part
+      ? {
+          part_number: part.part_number,
+          description: part.description,
+          brand: part.brand || '',
+          unit_cost: part.unit_cost,
+          markup_percent: part.markup_percent !== undefined ? String(part.markup_percent) : ''
+        }
+      : emptyPart
+    )
+    setEditingId(part?.id || 'new')
+  }
+
+  const onSubmit = (data: PartFormData) => {
+    const details = {
+      part_number: data.part_number.toUpperCase(),
+      description: data.description,
+      brand: data.brand || undefined,
+      unit_cost: data.unit_cost,
+      markup_percent: data.markup_percent ? Number(data.markup_percent) : undefined
+    }
+    if (editingId === 'new') {
+      if (!createPart(details)) return
+    } else if (editingId) {
+      updatePart(editingId, details)
+    }
+    setEditingId(null)
+  }
+
+  const handleDelete = (part: CatalogPart) => {
+    if (window.confirm(`Remove ${part.part_number} from the catalog?`)) {
+      deletePart(part.id)
+    }
+  }
+
+  const inputClassName = 'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm'
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-medium text-gray-900">Parts Catalog</h3>
+        {editingId === null && (
+          <button
+            type="button"
+            onClick={() => startEditing()}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Part
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Parts you can add to quotes by part number. Prices are the cost plus the part's markup, or the Parts Markup in Pricing Rules below.
+      </p>
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-3 mb-4 p-4 border border-gray-200 rounded-md bg-gray-50">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Part Number</label>
+              <input {...register('part_number')} type="text" placeholder="BP-1234" className={`${inputClassName} font-mono uppercase`} />
+              {errors.part_number && <p className="mt-1 text-sm text-red-600">{errors.part_number.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Brand</label>
+              <input {...register('brand')} type="text" className={inputClassName} />
+              {errors.brand && <p className="mt-1 text-sm text-red-600">{errors.brand.message}</p>}
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <input {...register('description')} type="text" placeholder="Front brake pads, ceramic" className={inputClassName} />
+              {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Cost ($)</label>
+              <input {...register('unit_cost', { valueAsNumber: true })} type="number" step="0.01" min="0" className={inputClassName} />
+              {errors.unit_cost && <p className="mt-1 text-sm text-red-600">{errors.unit_cost.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Markup (%)</label>
+              <input {...register('markup_percent')} type="text" inputMode="decimal" placeholder="Pricing rules" className={inputClassName} />
+              {errors.markup_percent && <p className="mt-1 text-sm text-red-600">{errors.markup_percent.message}</p>}
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700"
+            >
+              Save Part
+            </button>
+          </div>
+        </form>
+      )}
+
+      {parts.length === 0 ? (
+        <p className="text-sm text-gray-500">No parts yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {parts.map(part => {
+            const markupPercent = part.markup_percent ?? getPartsMarkupPercent(part.unit_cost, pricingRules)
+            return (
+              <li key={part.id} className="py-3 flex items-start justify-between">
+                <div className="flex items-start space-x-2 min-w-0">
+                  <Package className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      <span className="font-mono">{part.part_number}</span> {part.description}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {part.brand ? `${part.brand} · ` : ''}
+                      Cost ${part.unit_cost.toFixed(2)} + {markupPercent}%{part.markup_percent === undefined ? ' (default)' : ''}
+                      {' = '}${getPartPrice(part.unit_cost, markupPercent).toFixed(2)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-2 ml-4 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => startEditing(part)}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label={`Edit ${part.part_number}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(part)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${part.part_number}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default PartsCatalogEditor
@@ -0,0 +1,178 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { FileText, Plus, Pencil, Trash2, Bot } from 'lucide-react'
+import { useReplyTemplates } from '../hooks/useReplyTemplates'
+import { TEMPLATE_VARIABLES } from '../utils/replyTemplates'
+import type { ReplyTemplate } from '../types'
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  body: z.string().trim().min(1, 'Template text is required').max(1600, 'Keep templates under 1600 characters'),
+  use_in_ai: z.boolean()
+})
+
+type TemplateFormData = z.infer<typeof templateSchema>
+
+const emptyTemplate: TemplateFormData = { name: '', body: '', use_in_ai: true }
+
+/**
+ * ReplyTemplatesEditor Component
+ *
+ * Settings section for the shop's saved replies: add, edit and delete
+ * templates, with the list of `{variables}` they can use. Templates marked
+ * for the AI are given to it as approved answers.
+ */
+const ReplyTemplatesEditor: React.FC = () => {
+  const { templates, createTemplate, updateTemplate, deleteTemplate } = useReplyTemplates()
+  // null when the form is closed, 'new' when adding
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: emptyTemplate
+  })
+
+  const startEditing = (template?: ReplyTemplate) => {
+    reset(template ? { name: template.name, body: template.body, use_in_ai: template.use_in_ai } : emptyTemplate)
+    setEditingId(template?.id || 'new')
+  }
+
+  const onSubmit = (data: TemplateFormData) => {
+    const template = data as Pick<ReplyTemplate, 'name' | 'body' | 'use_in_ai'>
+    if (editingId === 'new') {
+      createTemplate(template)
+    } else if (editingId) {
+      updateTemplate(editingId, template)
+    }
+    setEditingId(null)
+  }
+
+  const handleDelete = (template: ReplyTemplate) => {
+    if (window.confirm(`Delete the "${template.name}" template?`)) {
+      deleteTemplate(template.id)
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-medium text-gray-900">Reply Templates</h3>
+        {editingId === null && (
+          <button
+            type="button"
+            onClick={() => startEditing()}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Template
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Saved answers you can insert from the reply box. Variables are filled in for the customer you're texting:{' '}
+        {TEMPLATE_VARIABLES.map((variable, index) => (
+          <span key={variable.name} title={variable.description}>
+            <code className="text-xs bg-gray-100 px-1 rounded">{`{${variable.name}}`}</code>
+            {index < TEMPLATE_VARIABLES.length - 1 ? ' ' : ''}
+          </span>
+        ))}
+      </p>
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-3 mb-4 p-4 border border-gray-200 rounded-md bg-gray-50">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              {...register('name')}
+              type="text"
+              placeholder="Shop hours"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            />
+            {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Text</label>
+            <textarea
+              {...register('body')}
+              rows={3}
+              placeholder="Hi {customer_first_name}, we're open Monday to Friday 8-5. Book anytime at {booking_link}"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            />
+            {errors.body && <p className="mt-1 text-sm text-red-600">{errors.body.message}</p>}
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              {...register('use_in_ai')}
+              type="checkbox"
+              className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+            />
+            Let the AI use this as an approved answer
+          </label>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700"
+            >
+              Save Template
+            </button>
+          </div>
+        </form>
+      )}
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500">No templates yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {templates.map(template => (
+            <li key={template.id} className="py-3 flex items-start justify-between">
+              <div className="flex items-start space-x-2 min-w-0">
+                <FileText className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 flex items-center">
+                    {template.name}
+                    {template.use_in_ai && (
+                      <span className="ml-2 inline-flex items-center text-xs text-blue-700" title="Used by the AI">
+                        <Bot className="h-3 w-3 mr-0.5" />
+                        AI
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600 whitespace-pre-wrap">{template.body}</p>
+                </div>
+              </div>
+              <div className="flex space-x-2 ml-4 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => startEditing(template)}
+                  className="text-gray-400 hover:text-gray-600"
+                  aria-label={`Edit ${template.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(template)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={`Delete ${template.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default ReplyTemplatesEditor
@@ -0,0 +1,199 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Search } from 'lucide-react'
+import type { Customer, Vehicle } from '../types'
+import type { VehicleDetails } from '../services/vehicles'
+import { decodeVin, type VinDecodeResult } from '../utils/vin'
+import { formatPhoneNumber } from '../utils/phone'
+
+const vehicleFormSchema = z.object({
+  customer_id: z.string(),
+  vin: z.string().trim().refine(
+    vin => !vin || decodeVin(vin).valid,
+    vin => ({ message: decodeVin(vin).error || 'Enter a valid VIN' })
+  ),
+  year: z.string().trim().regex(/^(\d{4})?$/, 'Use a 4-digit year'),
+  make: z.string().trim().max(50, 'Make must be under 50 characters'),
+  model: z.string().trim().max(50, 'Model must be under 50 characters'),
+  engine: z.string().trim().max(50, 'Engine must be under 50 characters'),
+  trim: z.string().trim().max(50, 'Trim must be under 50 characters'),
+  mileage: z.string().trim().regex(/^\d*$/, 'Enter mileage in whole km'),
+  plate: z.string().trim().max(15, 'Plate must be under 15 characters'),
+  notes: z.string().trim().max(500, 'Notes must be under 500 characters')
+}).refine(
+  form => !!(form.vin || form.make || form.model || form.plate),
+  { message: 'Enter a VIN, plate, make or model', path: ['vin'] }
+)
+
+type VehicleFormData = z.infer<typeof vehicleFormSchema>
+
+const toFormData = (vehicle?: Vehicle, customerId?: string): VehicleFormData => ({
+  customer_id: vehicle ? vehicle.customer_id || '' : customerId || '',
+  vin: vehicle?.vin || '',
+  year: vehicle?.year || '',
+  make: vehicle?.make || '',
+  model: vehicle?.model || '',
+  engine: vehicle?.engine || '',
+  trim: vehicle?.trim || '',
+  mileage: vehicle?.mileage !== undefined ? String(vehicle.mileage) : '',
+  plate: vehicle?.plate || '',
+  notes: vehicle?.notes || ''
+})
+
+// Blank fields are sent empty so edits can clear them
+const toDetails = (data: VehicleFormData): VehicleDetails => ({
+  customer_id: data.customer_id,
+  vin: data.vin,
+  year: data.year,
+  make: data.make,
+  model: data.model,
+  engine: data.engine,
+  trim: data.trim,
+  mileage: data.mileage ? Number(data.mileage) : undefined,
+  plate: data.plate.toUpperCase(),
+  notes: data.notes
+})
+
+interface VehicleFormProps {
+  vehicle?: Vehicle // omitted when adding a vehicle
+  customers: Customer[]
+  defaultCustomerId?: string
+  onSubmit: (details: VehicleDetails) => Promise<unknown>
+  onCancel: () => void
+}
+
+/**
+ * VehicleForm Component
+ *
+ * Add or edit a vehicle and its owner. Decoding the VIN checks it and
+ * fills in the year and make, offline.
+ */
+const VehicleForm: React.FC<VehicleFormProps> = ({ vehicle, customers, defaultCustomerId, onSubmit, onCancel }) => {
+  const { register, handleSubmit, getValues, setValue, formState: { errors, isSubmitting } } = useForm<VehicleFormData>({
+    resolver: zodResolver(vehicleFormSchema),
+    defaultValues: toFormData(vehicle, defaultCustomerId)
+  })
+  const [decoded, setDecoded] = useState<VinDecodeResult | null>(null)
+
+  const inputClassName = 'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm'
+
+  /**
+   * Checks the VIN and fills in the year and make it decodes to
+   */
+  const handleDecode = () => {
+    const result = decodeVin(getValues('vin'))
+    setDecoded(result)
+    setValue('vin', result.vin)
+    if (!result.valid) return
+    if (result.model_year) setValue('year', String(result.model_year))
+    if (result.make) setValue('make', result.make)
+  }
+
+  return (
+    <form onSubmit={handleSubmit(data => onSubmit(toDetails(data as VehicleFormData)))} className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Owner</label>
+        <select {...register('customer_id')} className={inputClassName}>
+          <option value="">No owner on file</option>
+          {customers.map(customer => (
+            <option key={customer.id} value={customer.id}>
+              {customer.full_name || formatPhoneNumber(customer.phone_number)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">VIN</label>
+        <div className="flex items-start space-x-2">
+          <input {...register('vin')} type="text" placeholder="17 characters" className={`${inputClassName} font-mono uppercase`} />
+          <button
+            type="button"
+            onClick={handleDecode}
+            className="mt-1 inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <Search className="h-4 w-4 mr-1" />
+            Decode
+          </button>
+        </div>
+        {errors.vin && <p className="mt-1 text-sm text-red-600">{errors.vin.message}</p>}
+        {decoded && !errors.vin && (
+          decoded.valid ? (
+            <p className="mt-1 text-sm text-gray-600">
+              {[decoded.model_year, decoded.make || `Maker ${decoded.wmi}`].filter(Boolean).join(' ')}
+              {decoded.country || decoded.region ? `, built in ${decoded.country || decoded.region}` : ''}
+              {decoded.warning && <span className="block text-yellow-700">{decoded.warning}</span>}
+            </p>
+          ) : (
+            <p className="mt-1 text-sm text-red-600">{decoded.error}</p>
+          )
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Year</label>
+          <input {...register('year')} type="text" className={inputClassName} />
+          {errors.year && <p className="mt-1 text-sm text-red-600">{errors.year.message}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Make</label>
+          <input {...register('make')} type="text" className={inputClassName} />
+          {errors.make && <p className="mt-1 text-sm text-red-600">{errors.make.message}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Model</label>
+          <input {...register('model')} type="text" className={inputClassName} />
+          {errors.model && <p className="mt-1 text-sm text-red-600">{errors.model.message}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Engine</label>
+          <input {...register('engine')} type="text" placeholder="3.5L V6" className={inputClassName} />
+          {errors.engine && <p className="mt-1 text-sm text-red-600">{errors.engine.message}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Trim</label>
+          <input {...register('trim')} type="text" placeholder="XLT" className={inputClassName} />
+          {errors.trim && <p className="mt-1 text-sm text-red-600">{errors.trim.message}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Mileage (km)</label>
+          <input {...register('mileage')} type="text" inputMode="numeric" className={inputClassName} />
+          {errors.mileage && <p className="mt-1 text-sm text-red-600">{errors.mileage.message}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Plate</label>
+          <input {...register('plate')} type="text" className={`${inputClassName} uppercase`} />
+          {errors.plate && <p className="mt-1 text-sm text-red-600">{errors.plate.message}</p>}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Notes</label>
+        <textarea {...register('notes')} rows={2} className={inputClassName} />
+        {errors.notes && <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700 disabled:opacity-50"
+        >
+          {vehicle ? 'Save Vehicle' : 'Add Vehicle'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default VehicleForm
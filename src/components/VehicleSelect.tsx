@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react'
+import type { Vehicle } from '../types'
+import { describeVehicle } from '../services/vehicles'
+import { API_BASE_URL } from '../utils/api'
+import { normalizePhoneNumber } from '../utils/phone'
+
+interface VehicleSelectProps {
+  customerPhone: string
+  value?: string // the linked vehicle's id
+  onChange: (vehicle: Vehicle | null) => void
+  className?: string
+}
+
+/**
+ * VehicleSelect Component
+ *
+ * Picks one of the customer's vehicles on file, looked up by phone number,
+ * so the quote, appointment or invoice is added to that vehicle's history.
+ * Shows nothing until the number belongs to a customer with vehicles.
+ */
+const VehicleSelect: React.FC<VehicleSelectProps> = ({ customerPhone, value, onChange, className }) => {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([])
+  const phoneNumber = normalizePhoneNumber(customerPhone)
+
+  useEffect(() => {
+    if (!/^\+\d{8,15}$/.test(phoneNumber)) {
+      setVehicles([])
+      return
+    }
+
+    let cancelled = false
+    fetch(`${API_BASE_URL}/api/vehicles?phone=${encodeURIComponent(phoneNumber)}`)
+      .then(response => response.ok ? response.json() : { vehicles: [] })
+      .then(data => {
+        if (!cancelled) setVehicles(data.vehicles || [])
+      })
+      .catch(error => console.error('Error loading customer vehicles:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [phoneNumber])
+
+  if (vehicles.length === 0) return null
+
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(vehicles.find(vehicle => vehicle.id === e.target.value) || null)}
+      className={className}
+    >
+      <option value="">Not a vehicle on file</option>
+      {vehicles.map(vehicle => (
+        <option key={vehicle.id} value={vehicle.id}>
+          {describeVehicle(vehicle)}{vehicle.plate ? ` (${vehicle.plate})` : ''}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export default VehicleSelect
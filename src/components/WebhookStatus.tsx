@@ -1,12 +1,26 @@
 import React, { useState, useEffect } from 'react'
-import { Globe, Copy, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react'
+import { Globe, Copy, CheckCircle, AlertCircle, ExternalLink, RotateCcw } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { API_BASE_URL } from '../utils/api'
+import type { WebhookJob } from '../types'
+
+/**
+ * Sender and text of a failed message event, when the payload has them
+ */
+const describeJob = (job: WebhookJob) => {
+  const data = (job.payload as { data?: { from?: unknown; body?: unknown } } | null)?.data
+  return {
+    from: typeof data?.from === 'string' ? data.from : job.event_type,
+    body: typeof data?.body === 'string' ? data.body.substring(0, 80) : ''
+  }
+}
 
 const WebhookStatus: React.FC = () => {
   const [webhookUrl] = useState(`${API_BASE_URL}/api/webhooks/openphone`)
   const [isServerRunning, setIsServerRunning] = useState(false)
   const [isChecking, setIsChecking] = useState(true)
+  const [deadJobs, setDeadJobs] = useState<WebhookJob[]>([])
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null)
 
   useEffect(() => {
     // Check if webhook server is running
@@ -19,6 +33,9 @@ const WebhookStatus: React.FC = () => {
       const healthUrl = `${API_BASE_URL}/health`
       const response = await fetch(healthUrl)
       setIsServerRunning(response.ok)
+      if (response.ok) {
+        await loadDeadJobs()
+      }
     } catch {
       setIsServerRunning(false)
     } finally {
@@ -26,6 +43,35 @@ const WebhookStatus: React.FC = () => {
     }
   }
 
+  const loadDeadJobs = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/webhooks/jobs/dead`)
+      if (response.ok) {
+        const data = await response.json()
+        setDeadJobs(data.jobs || [])
+      }
+    } catch (error) {
+      console.error('Error loading failed webhook jobs:', error)
+    }
+  }
+
+  const retryJob = async (jobId: string) => {
+    setRetryingJobId(jobId)
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/webhooks/jobs/${encodeURIComponent(jobId)}/retry`, { method: 'POST' })
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`)
+      }
+      setDeadJobs(jobs => jobs.filter(job => job.id !== jobId))
+      toast.success('Webhook event queued for another try')
+    } catch (error) {
+      console.error('Error retrying webhook job:', error)
+      toast.error('Failed to retry webhook event')
+    } finally {
+      setRetryingJobId(null)
+    }
+  }
+
   const copyWebhookUrl = () => {
     navigator.clipboard.writeText(webhookUrl)
     toast.success('Webhook URL copied to clipboard')
@@ -96,7 +142,7 @@ const WebhookStatus: React.FC = () => {
                 <li>Click "Open OpenPhone Settings" below</li>
                 <li>Navigate to Settings → Webhooks</li>
                 <li>Add a new webhook with the URL above</li>
-                <li>Select "Message Received" as the trigger event</li>
+                <li>Select the message received, message delivered, call completed and call summary events</li>
                 <li>Save the webhook configuration</li>
               </ol>
             </div>
@@ -112,6 +158,41 @@ const WebhookStatus: React.FC = () => {
           </div>
         </div>
 
+        {deadJobs.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <h4 className="text-sm font-medium text-red-900 mb-1">
+              Failed Webhook Events ({deadJobs.length})
+            </h4>
+            <p className="text-xs text-red-700 mb-3">
+              These events could not be processed after several retries. Unanswered texts are listed by sender.
+            </p>
+            <ul className="space-y-3">
+              {deadJobs.map(job => (
+                <li key={job.id} className="flex items-start justify-between text-sm">
+                  <div className="mr-4 min-w-0">
+                    <p className="text-red-900">
+                      <span className="font-medium">{describeJob(job).from}:</span>{' '}
+                      {describeJob(job).body}
+                    </p>
+                    <p className="text-xs text-red-700 truncate">
+                      {job.attempts} attempts · last error: {job.last_error || 'unknown'}
+                    </p>
+                    <p className="text-xs text-red-600">{new Date(job.created_at).toLocaleString()}</p>
+                  </div>
+                  <button
+                    onClick={() => retryJob(job.id)}
+                    disabled={retryingJobId === job.id}
+                    className="flex-shrink-0 inline-flex items-center px-3 py-1 border border-red-300 rounded-md text-xs font-medium text-red-700 bg-white hover:bg-red-100 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    {retryingJobId === job.id ? 'Retrying...' : 'Retry'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {!isServerRunning && !isChecking && (
           <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
             <p className="text-sm text-yellow-800">
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react'
-import type { BusinessSettings, ServerSettings } from '../types'
+import type { AutoResponderPolicy, BusinessSettings, ServerSettings } from '../types'
 import toast from 'react-hot-toast'
 import { API_BASE_URL } from '../utils/api'
+import { DEFAULT_PRICING_RULES } from '../utils/pricing'
+import { DEFAULT_AUTO_RESPONDER_POLICY, getAutoResponderPolicy } from '../utils/autoResponder'
+import { DEFAULT_ESCALATION_SETTINGS } from '../services/escalation'
+import { fetchPreferences, savePreferences } from '../utils/serverSync'
 
 /**
  * useBusinessSettings Hook
@@ -13,9 +17,10 @@ import { API_BASE_URL } from '../utils/api'
  * Key Features:
  * - Server settings synchronization for persistent API keys
  * - Local storage for user preferences and business details
+ * - Shop preferences (auto-responder, pricing, taxes) shared through the server
  * - Automatic fallback when server is unavailable
  * - Real-time settings refresh capability
- * - DND (Do Not Disturb) toggle with default ON setting
+ * - Auto-responder policy deciding when the AI replies to texts
  * - Masked API key display for security
  * 
  * The hook automatically detects when API keys are configured on the server
@@ -23,7 +28,7 @@ import { API_BASE_URL } from '../utils/api'
  * This prevents users from having to re-enter API keys after deployments.
  */
 
-// Default settings with DND enabled by default (as per recent changes)
+// Default settings with the AI auto-responder on by default
 const defaultSettings: BusinessSettings = {
   id: '1',
   business_name: 'Pink Chicken Speed Shop',
@@ -31,9 +36,16 @@ const defaultSettings: BusinessSettings = {
   phone_number: '',
   business_number: '',
   gst_setting: 'parts',
+  province: 'AB',
+  apply_provincial_tax: false,
+  pricing_rules: DEFAULT_PRICING_RULES,
   openai_api_key: '',
   openphone_api_key: '',
-  dnd_enabled: true, // Default to ON as per recent changes
+  auto_responder: DEFAULT_AUTO_RESPONDER_POLICY,
+  reply_mode: 'auto',
+  draft_auto_send_minutes: 0,
+  ai_image_analysis: true,
+  escalation: DEFAULT_ESCALATION_SETTINGS,
   created_at: new Date().toISOString(),
   updated_at: new Date().toISOString()
 }
@@ -84,25 +96,40 @@ export const useBusinessSettings = () => {
 
       // Load from localStorage for user preferences
       const savedSettings = localStorage.getItem('business-settings')
+      let mergedSettings: BusinessSettings = defaultSettings
       if (savedSettings) {
         const localSettings = JSON.parse(savedSettings)
         
-        // Merge server settings with local settings
-        // Server API keys take precedence, but local preferences are preserved
-        const mergedSettings = {
+        // Merge defaults with local settings, migrating the old DND flag
+        mergedSettings = {
           ...defaultSettings,
           ...localSettings,
-          // If DND setting doesn't exist, default to true (ON)
-          dnd_enabled: localSettings.dnd_enabled !== undefined ? localSettings.dnd_enabled : true
+          auto_responder: getAutoResponderPolicy(localSettings)
         }
-        
-        setSettings(mergedSettings)
         console.log('📱 Local settings loaded and merged')
       } else {
-        // No local settings found, use defaults
-        setSettings(defaultSettings)
         console.log('🆕 Using default settings')
       }
+
+      // Shop preferences saved on the server are shared by every browser and
+      // take precedence; API keys entered in this browser are kept
+      const preferences = await fetchPreferences()
+      if (preferences) {
+        mergedSettings = {
+          ...mergedSettings,
+          ...preferences,
+          id: mergedSettings.id,
+          openai_api_key: mergedSettings.openai_api_key,
+          openphone_api_key: mergedSettings.openphone_api_key
+        }
+        localStorage.setItem('business-settings', JSON.stringify(mergedSettings))
+        console.log('☁️ Shop preferences loaded from server')
+      } else if (preferences === null && savedSettings) {
+        // First browser to connect shares its preferences
+        savePreferences(mergedSettings)
+      }
+
+      setSettings(mergedSettings)
     } catch (error) {
       console.error('❌ Error loading settings:', error)
       setSettings(defaultSettings)
@@ -131,7 +158,13 @@ export const useBusinessSettings = () => {
 
       localStorage.setItem('business-settings', JSON.stringify(updatedSettings))
       setSettings(updatedSettings)
-      toast.success('Settings updated successfully')
+
+      const synced = await savePreferences(updatedSettings)
+      if (synced) {
+        toast.success('Settings updated successfully')
+      } else {
+        toast.success('Settings saved on this device (server unavailable)')
+      }
       
       // Log API key updates for debugging
       if (newSettings.openai_api_key) {
@@ -149,31 +182,30 @@ export const useBusinessSettings = () => {
   }
 
   /**
-   * Toggles the Do Not Disturb setting
+   * Changes when the AI auto-responds to incoming texts
    * 
-   * DND controls whether the AI automatically responds to incoming messages.
-   * When enabled (default), the system processes messages with AI and sends
-   * automatic responses. When disabled, messages are stored but no automatic
-   * responses are sent.
+   * Only the mode changes; business hours, schedule and vacation dates
+   * are kept so switching back restores them.
    * 
-   * @param enabled - Whether DND should be enabled
+   * @param mode - The auto-responder mode to switch to
    */
-  const toggleDnd = async (enabled: boolean) => {
+  const setAutoResponderMode = async (mode: AutoResponderPolicy['mode']) => {
     try {
       const updatedSettings = {
         ...settings,
-        dnd_enabled: enabled,
+        auto_responder: { ...getAutoResponderPolicy(settings), mode },
         updated_at: new Date().toISOString()
-      } as BusinessSettings & { dnd_enabled: boolean }
+      } as BusinessSettings
 
       localStorage.setItem('business-settings', JSON.stringify(updatedSettings))
       setSettings(updatedSettings)
+      await savePreferences(updatedSettings)
       
-      console.log(`🔕 DND ${enabled ? 'enabled' : 'disabled'}`)
-      toast.success(`Do Not Disturb ${enabled ? 'enabled' : 'disabled'}`)
+      console.log(`🤖 Auto-responder set to ${mode}`)
+      toast.success(mode === 'off' ? 'AI auto-responder turned off' : 'AI auto-responder updated')
     } catch (error) {
-      console.error('DND toggle error:', error)
-      toast.error('Failed to update Do Not Disturb setting')
+      console.error('Auto-responder update error:', error)
+      toast.error('Failed to update auto-responder')
     }
   }
 
@@ -207,7 +239,7 @@ export const useBusinessSettings = () => {
     error: null,
     updateSettings,
     isUpdating,
-    toggleDnd,
+    setAutoResponderMode,
     refreshSettings,
     getEffectiveApiKeys
   }
@@ -1,11 +1,18 @@
 import { useState, useEffect } from 'react'
 import toast from 'react-hot-toast'
+import { refreshCollection, syncCollection } from '../utils/serverSync'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import { normalizePhoneNumber } from '../utils/phone'
+import type { AppointmentReminder, AppointmentReminderReply } from '../types'
 
 export interface Appointment {
   id: string
   customer_name: string
   customer_phone: string
+  customer_id?: string
   vehicle_info: string
+  vehicle_id?: string
   service_type: string
   date: string
   time: string
@@ -14,6 +21,8 @@ export interface Appointment {
   notes?: string
   created_at: string
   quote_id?: string
+  reminders?: AppointmentReminder[]
+  reminder_reply?: AppointmentReminderReply
 }
 
 export interface TimeSlot {
@@ -48,6 +57,17 @@ export const useCalendar = () => {
     loadAppointments()
   }, [])
 
+  // Appointments saved in other browsers are pushed live
+  useServerEvents(
+    'appointments',
+    event => setAppointments(current => {
+      const updated = applyChange(current, event)
+      localStorage.setItem('appointments', JSON.stringify(updated))
+      return updated
+    }),
+    () => loadAppointments()
+  )
+
   /**
    * Loads appointments from localStorage
    */
@@ -58,12 +78,15 @@ export const useCalendar = () => {
         const parsedAppointments = JSON.parse(saved)
         setAppointments(parsedAppointments)
         console.log(`📅 Loaded ${parsedAppointments.length} appointments from storage`)
+        refreshCollection('/api/appointments', 'appointments', 'appointments', parsedAppointments, setAppointments)
       } else {
         // Create some sample appointments for demo
         const sampleAppointments = createSampleAppointments()
         setAppointments(sampleAppointments)
         localStorage.setItem('appointments', JSON.stringify(sampleAppointments))
         console.log('📅 Created sample appointments for demo')
+        // Never upload demo data; the server's appointments replace it once it's reachable
+        refreshCollection('/api/appointments', 'appointments', 'appointments', [], setAppointments)
       }
     } catch (error) {
       console.error('Error loading appointments:', error)
@@ -133,6 +156,7 @@ export const useCalendar = () => {
   const saveAppointments = (newAppointments: Appointment[]) => {
     try {
       localStorage.setItem('appointments', JSON.stringify(newAppointments))
+      syncCollection('/api/appointments', appointments, newAppointments)
       setAppointments(newAppointments)
       console.log(`📅 Saved ${newAppointments.length} appointments`)
     } catch (error) {
@@ -192,6 +216,7 @@ export const useCalendar = () => {
 
     const newAppointment: Appointment = {
       ...appointmentData,
+      customer_phone: normalizePhoneNumber(appointmentData.customer_phone),
       id: Date.now().toString(),
       status: 'scheduled',
       created_at: new Date().toISOString()
@@ -301,6 +326,7 @@ export const useCalendar = () => {
       customer_name: quote.customer_name,
       customer_phone: quote.customer_phone,
       vehicle_info: quote.vehicle_info,
+      vehicle_id: quote.vehicle_id,
       service_type: quote.description,
       date: preferredDate || '', // Will need to be filled by customer
       time: preferredTime || '',
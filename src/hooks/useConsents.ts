@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react'
+import type { ConsentStatus, SmsConsent } from '../types'
+import { API_BASE_URL } from '../utils/api'
+import { applyChange } from '../utils/eventStream'
+import { getConsentId } from '../services/consent'
+import { useServerEvents } from './useServerEvents'
+import toast from 'react-hot-toast'
+
+/**
+ * useConsents Hook
+ *
+ * The server's registry of numbers that opted out of texts (by texting STOP
+ * or through staff). Opted-out numbers can't be texted from anywhere in the
+ * app. Changes are pushed live.
+ */
+export const useConsents = () => {
+  const [consents, setConsents] = useState<SmsConsent[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadConsents()
+  }, [])
+
+  useServerEvents(
+    'consents',
+    event => setConsents(current => applyChange(current, event)),
+    () => loadConsents()
+  )
+
+  const loadConsents = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/consents`)
+      if (response.ok) {
+        const data = await response.json()
+        setConsents(data.consents || [])
+      } else {
+        console.error('Failed to load consents:', response.status)
+      }
+    } catch (error) {
+      console.error('Error loading consents:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const getConsent = (phoneNumber: string) => {
+    return consents.find(consent => consent.id === getConsentId(phoneNumber)) || null
+  }
+
+  const isOptedOut = (phoneNumber: string) => getConsent(phoneNumber)?.status === 'opted_out'
+
+  /**
+   * Records an opt-out or opt-in the customer asked for outside of texts
+   */
+  const setConsent = async (phoneNumber: string, status: ConsentStatus, note?: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/consents/${encodeURIComponent(phoneNumber)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, note })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Server responded with status: ${response.status}`)
+      }
+
+      const consent: SmsConsent = data.consent
+      setConsents(current => [consent, ...current.filter(item => item.id !== consent.id)])
+      toast.success(status === 'opted_out' ? 'Number opted out of texts' : 'Number opted back in to texts')
+      return consent
+    } catch (error) {
+      console.error('Error updating consent:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update consent')
+      return null
+    }
+  }
+
+  return {
+    consents,
+    isLoading,
+    getConsent,
+    isOptedOut,
+    setConsent,
+    refreshConsents: loadConsents
+  }
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react'
+import type { Conversation } from '../types'
+import { API_BASE_URL } from '../utils/api'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import toast from 'react-hot-toast'
+
+/**
+ * useConversations Hook
+ *
+ * Text threads, one per phone number, maintained by the webhook server as
+ * messages arrive and are read. Closing, snoozing, reopening, assigning and
+ * tagging go through the server so every browser sees the same state;
+ * changes are pushed live. localStorage keeps a copy for offline viewing.
+ */
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadConversations()
+  }, [])
+
+  useServerEvents(
+    'conversations',
+    event => setConversations(current => {
+      const updated = applyChange(current, event)
+      localStorage.setItem('conversations', JSON.stringify(updated))
+      return updated
+    }),
+    () => loadConversations()
+  )
+
+  const loadConversations = async () => {
+    const saved = localStorage.getItem('conversations')
+    if (saved) {
+      setConversations(JSON.parse(saved))
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/conversations`)
+      if (response.ok) {
+        const data = await response.json()
+        localStorage.setItem('conversations', JSON.stringify(data.conversations || []))
+        setConversations(data.conversations || [])
+      } else {
+        console.error('Failed to load conversations from server:', response.status)
+      }
+    } catch (error) {
+      console.error('Error loading conversations from server:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Sends a thread action and applies the updated thread right away
+   */
+  const runAction = async (conversationId: string, path: string, init: RequestInit, successMessage?: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/conversations/${conversationId}${path}`, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Server responded with status: ${response.status}`)
+      }
+
+      setConversations(current => current.map(c => (c.id === conversationId ? data.conversation : c)))
+      if (successMessage) toast.success(successMessage)
+    } catch (error) {
+      console.error('Error updating conversation:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update conversation')
+    }
+  }
+
+  const closeConversation = (conversationId: string) =>
+    runAction(conversationId, '/close', { method: 'POST' }, 'Conversation closed')
+
+  /**
+   * Hides a thread until the given date; it reopens then, or sooner if the customer texts
+   */
+  const snoozeConversation = (conversationId: string, until: Date) =>
+    runAction(conversationId, '/snooze', { method: 'POST', body: JSON.stringify({ until: until.toISOString() }) }, 'Conversation snoozed')
+
+  const reopenConversation = (conversationId: string) =>
+    runAction(conversationId, '/reopen', { method: 'POST' }, 'Conversation reopened')
+
+  const updateConversation = (conversationId: string, updates: { assignee?: string; tags?: string[] }) =>
+    runAction(conversationId, '', { method: 'PATCH', body: JSON.stringify(updates) })
+
+  const getConversationForPhone = (phoneNumber: string) => {
+    return conversations.find(c => c.phone_number === phoneNumber)
+  }
+
+  return {
+    conversations,
+    isLoading,
+    closeConversation,
+    snoozeConversation,
+    reopenConversation,
+    updateConversation,
+    getConversationForPhone,
+    refreshConversations: loadConversations
+  }
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react'
+import type { Customer } from '../types'
+import type { CustomerDetails } from '../services/customers'
+import { API_BASE_URL } from '../utils/api'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import toast from 'react-hot-toast'
+
+/**
+ * useCustomers Hook
+ *
+ * The customer database kept on the webhook server. Customers texting or
+ * calling in for the first time are added automatically; staff can add,
+ * edit, merge duplicates and delete here. Changes are pushed live.
+ */
+export const useCustomers = () => {
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadCustomers()
+  }, [])
+
+  // New customers and call summaries are pushed live by the server
+  useServerEvents(
+    'customers',
+    event => setCustomers(current => applyChange(current, event)),
+    () => loadCustomers()
+  )
+
+  const loadCustomers = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/customers`)
+      if (response.ok) {
+        const data = await response.json()
+        setCustomers(data.customers || [])
+      } else {
+        console.error('Failed to load customers from server')
+        setCustomers([])
+      }
+    } catch (error) {
+      console.error('Error loading customers:', error)
+      setCustomers([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Sends a request and returns the customer from the response,
+   * or null if it failed (the server's reason is shown)
+   */
+  const request = async (path: string, init: RequestInit, successMessage: string): Promise<Customer | null> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/customers${path}`, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Server responded with status: ${response.status}`)
+      }
+
+      const customer: Customer = data.customer
+      setCustomers(current => [customer, ...current.filter(item => item.id !== customer.id)])
+      toast.success(successMessage)
+      return customer
+    } catch (error) {
+      console.error('Error saving customer:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save customer')
+      return null
+    }
+  }
+
+  const createCustomer = (details: CustomerDetails) =>
+    request('', { method: 'POST', body: JSON.stringify(details) }, 'Customer added')
+
+  const updateCustomer = (id: string, details: Partial<CustomerDetails>) =>
+    request(`/${id}`, { method: 'PATCH', body: JSON.stringify(details) }, 'Customer saved')
+
+  /**
+   * Folds the duplicate into the customer being kept, then drops the duplicate
+   */
+  const mergeCustomers = async (targetId: string, sourceId: string) => {
+    const merged = await request(`/${targetId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ sourceId })
+    }, 'Customers merged')
+    if (merged) {
+      setCustomers(current => current.filter(item => item.id !== sourceId))
+    }
+    return merged
+  }
+
+  /**
+   * Stops reporting two customers as possible duplicates
+   */
+  const markNotDuplicate = (id: string, otherId: string) =>
+    request(`/${id}/not-duplicate`, {
+      method: 'POST',
+      body: JSON.stringify({ otherId })
+    }, 'Marked as different customers')
+
+  /**
+   * Applies or dismisses details picked up from a text that were held for review
+   */
+  const resolveExtractionReview = (customerId: string, reviewId: string, accept: boolean) =>
+    request(
+      `/${customerId}/extractions/${reviewId}/${accept ? 'accept' : 'dismiss'}`,
+      { method: 'POST' },
+      accept ? 'Details saved to customer' : 'Details dismissed'
+    )
+
+  const deleteCustomer = async (id: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/customers/${id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error(`Server responded with status: ${response.status}`)
+      }
+      setCustomers(current => current.filter(item => item.id !== id))
+      toast.success('Customer deleted')
+      return true
+    } catch (error) {
+      console.error('Error deleting customer:', error)
+      toast.error('Failed to delete customer')
+      return false
+    }
+  }
+
+  return {
+    customers,
+    isLoading,
+    createCustomer,
+    updateCustomer,
+    mergeCustomers,
+    markNotDuplicate,
+    deleteCustomer,
+    resolveExtractionReview,
+    refreshCustomers: loadCustomers
+  }
+}
@@ -0,0 +1,365 @@
+import { useState, useEffect } from 'react'
+import type { Invoice, InvoicePayment, LineItem } from '../types'
+import { getQuoteBilledItems, type Quote } from './useQuotes'
+import type { Appointment } from './useCalendar'
+import { useBusinessSettings } from './useBusinessSettings'
+import { createLineItem, getTaxableAmounts, roundCurrency } from '../utils/lineItems'
+import { calculateTaxes, DEFAULT_TAX_SETTINGS, type TaxSettings } from '../utils/tax'
+import { refreshCollection, syncCollection } from '../utils/serverSync'
+import { normalizePhoneNumber } from '../utils/phone'
+import toast from 'react-hot-toast'
+
+// Number of days a customer has to pay before an invoice is overdue
+export const DEFAULT_PAYMENT_TERMS_DAYS = 14
+
+type InvoiceInput = Omit<
+  Invoice,
+  'id' | 'invoice_number' | 'subtotal' | 'taxes' | 'tax_total' | 'total' | 'tax_settings' | 'amount_paid' | 'payments' | 'status' | 'created_at' | 'updated_at'
+>
+
+/**
+ * Works out the payment status from recorded payments.
+ * Voided invoices stay void regardless of payments.
+ */
+const getPaymentStatus = (invoice: Pick<Invoice, 'status' | 'total' | 'amount_paid'>): Invoice['status'] => {
+  if (invoice.status === 'void') return 'void'
+  if (invoice.amount_paid <= 0) return 'unpaid'
+  if (invoice.amount_paid >= invoice.total) return 'paid'
+  return 'partial'
+}
+
+/**
+ * Calculates subtotal, taxes and total for a set of line items
+ */
+export const calculateInvoiceTotals = (lineItems: LineItem[], taxSettings: TaxSettings = DEFAULT_TAX_SETTINGS) => {
+  return calculateTaxes(getTaxableAmounts(lineItems), taxSettings)
+}
+
+/**
+ * The tax settings an invoice is taxed with: the ones stored when it was
+ * issued, or the shop's current settings for invoices issued before they
+ * were stored
+ */
+export const getInvoiceTaxSettings = (invoice: Pick<Invoice, 'tax_settings'>, taxSettings: TaxSettings): TaxSettings => {
+  return invoice.tax_settings || taxSettings
+}
+
+/**
+ * Recalculates amount paid and status after a payment. Totals and taxes
+ * are left as issued.
+ */
+const withPayments = (invoice: Invoice): Invoice => {
+  const amountPaid = roundCurrency(invoice.payments.reduce((sum, p) => sum + p.amount, 0))
+  const recalculated = { ...invoice, amount_paid: amountPaid }
+  return { ...recalculated, status: getPaymentStatus(recalculated) }
+}
+
+/**
+ * Recalculates derived fields (totals, taxes, amount paid, status) after an
+ * edit, using the tax settings the invoice was issued with
+ */
+const withTotals = (invoice: Invoice, taxSettings: TaxSettings): Invoice => {
+  const invoiceTaxSettings = getInvoiceTaxSettings(invoice, taxSettings)
+  const totals = calculateInvoiceTotals(invoice.line_items, invoiceTaxSettings)
+  return withPayments({
+    ...invoice,
+    subtotal: totals.subtotal,
+    taxes: totals.taxes,
+    tax_total: totals.tax_total,
+    total: totals.total,
+    tax_settings: {
+      gst_setting: invoiceTaxSettings.gst_setting,
+      province: invoiceTaxSettings.province,
+      apply_provincial_tax: invoiceTaxSettings.apply_provincial_tax
+    }
+  })
+}
+
+const formatInvoiceNumber = (sequence: number) => `INV-${sequence.toString().padStart(4, '0')}`
+
+/**
+ * useInvoices Hook
+ *
+ * Invoice management for completed work. Invoices are stored next to
+ * quotes in localStorage, synced to the server, and can be created:
+ * - From an accepted quote (its line items carried over)
+ * - From a completed appointment (labor billed at the shop rate)
+ * - Manually from the Invoices page
+ *
+ * Features:
+ * - Sequential invoice numbers (INV-0001, INV-0002, ...)
+ * - Line items for labor, parts, fees and discounts
+ * - Payment recording with automatic unpaid/partial/paid status
+ * - Taxes fixed when issued, so changing the shop's tax settings later
+ *   doesn't change invoices already sent
+ * - Due dates with overdue detection
+ * - Voiding instead of deleting, so numbering never has gaps
+ */
+export const useInvoices = () => {
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const { settings } = useBusinessSettings()
+  const taxSettings: TaxSettings = settings || DEFAULT_TAX_SETTINGS
+
+  useEffect(() => {
+    loadInvoices()
+  }, [])
+
+  const loadInvoices = () => {
+    try {
+      const savedInvoices = localStorage.getItem('invoices')
+      const localInvoices: Invoice[] = savedInvoices ? JSON.parse(savedInvoices) : []
+      setInvoices(localInvoices)
+      refreshCollection('/api/invoices', 'invoices', 'invoices', localInvoices, setInvoices)
+    } catch (error) {
+      console.error('Error loading invoices:', error)
+      setInvoices([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const saveInvoices = (newInvoices: Invoice[]) => {
+    try {
+      localStorage.setItem('invoices', JSON.stringify(newInvoices))
+      syncCollection('/api/invoices', invoices, newInvoices)
+      setInvoices(newInvoices)
+    } catch (error) {
+      console.error('Error saving invoices:', error)
+      toast.error('Failed to save invoice')
+    }
+  }
+
+  /**
+   * Reserves the next invoice number.
+   * The counter is stored separately so numbers are never reused,
+   * even if the invoice list is edited by hand.
+   */
+  const getNextInvoiceNumber = () => {
+    const storedSequence = parseInt(localStorage.getItem('invoice-sequence') || '0')
+    const highestExisting = invoices.reduce((max, invoice) => {
+      const sequence = parseInt(invoice.invoice_number.replace(/\D/g, '')) || 0
+      return Math.max(max, sequence)
+    }, 0)
+    const next = Math.max(storedSequence, highestExisting) + 1
+    localStorage.setItem('invoice-sequence', next.toString())
+    return formatInvoiceNumber(next)
+  }
+
+  /**
+   * Creates an invoice from the given details and line items
+   */
+  const createInvoice = (invoiceData: InvoiceInput): Invoice => {
+    const now = new Date().toISOString()
+    const newInvoice = withTotals({
+      ...invoiceData,
+      customer_phone: normalizePhoneNumber(invoiceData.customer_phone),
+      id: Date.now().toString(),
+      invoice_number: getNextInvoiceNumber(),
+      subtotal: 0,
+      taxes: [],
+      tax_total: 0,
+      total: 0,
+      amount_paid: 0,
+      payments: [],
+      status: 'unpaid',
+      created_at: now,
+      updated_at: now
+    }, taxSettings)
+
+    saveInvoices([newInvoice, ...invoices])
+
+    console.log('🧾 Invoice created:', newInvoice.invoice_number)
+    toast.success(`Invoice ${newInvoice.invoice_number} created`)
+    return newInvoice
+  }
+
+  /**
+   * Default issue and due dates for a new invoice
+   */
+  const getDefaultDates = () => {
+    const issuedAt = new Date()
+    const dueDate = new Date(issuedAt.getTime() + DEFAULT_PAYMENT_TERMS_DAYS * 24 * 60 * 60 * 1000)
+    return {
+      issued_at: issuedAt.toISOString(),
+      due_date: dueDate.toISOString().split('T')[0]
+    }
+  }
+
+  /**
+   * Creates an invoice from an accepted quote
+   */
+  const createFromQuote = (quote: Quote): Invoice | null => {
+    const existing = getInvoiceForQuote(quote.id)
+    if (existing) {
+      toast.error(`Quote already invoiced as ${existing.invoice_number}`)
+      return null
+    }
+
+    const lineItems: LineItem[] = getQuoteBilledItems(quote).map(({ id, ...item }) => createLineItem(item))
+    if (quote.diagnostic_fee) {
+      lineItems.push(createLineItem({
+        type: 'fee',
+        description: 'Diagnostic fee',
+        quantity: 1,
+        unit_price: quote.diagnostic_fee
+      }))
+    }
+    if (quote.shop_supplies) {
+      lineItems.push(createLineItem({
+        type: 'fee',
+        description: 'Shop supplies',
+        quantity: 1,
+        unit_price: quote.shop_supplies
+      }))
+    }
+
+    return createInvoice({
+      ...getDefaultDates(),
+      customer_name: quote.customer_name,
+      customer_phone: quote.customer_phone,
+      vehicle_info: quote.vehicle_info,
+      vehicle_id: quote.vehicle_id,
+      description: quote.description,
+      line_items: lineItems,
+      quote_id: quote.id
+    })
+  }
+
+  /**
+   * Creates an invoice from a completed appointment, billing its
+   * duration at the given labor rate
+   */
+  const createFromAppointment = (appointment: Appointment, laborRate: number): Invoice | null => {
+    const existing = getInvoiceForAppointment(appointment.id)
+    if (existing) {
+      toast.error(`Appointment already invoiced as ${existing.invoice_number}`)
+      return null
+    }
+
+    return createInvoice({
+      ...getDefaultDates(),
+      customer_name: appointment.customer_name,
+      customer_phone: appointment.customer_phone,
+      vehicle_info: appointment.vehicle_info,
+      vehicle_id: appointment.vehicle_id,
+      description: appointment.service_type,
+      line_items: [
+        createLineItem({
+          type: 'labor',
+          description: appointment.service_type || 'Labor',
+          quantity: appointment.duration,
+          unit_price: laborRate
+        })
+      ],
+      notes: appointment.notes,
+      quote_id: appointment.quote_id,
+      appointment_id: appointment.id
+    })
+  }
+
+  /**
+   * Updates invoice details or line items and recalculates totals
+   */
+  const updateInvoice = (invoiceId: string, updates: Partial<InvoiceInput>) => {
+    const updatedInvoices = invoices.map(invoice =>
+      invoice.id === invoiceId
+        ? withTotals({ ...invoice, ...updates, updated_at: new Date().toISOString() }, taxSettings)
+        : invoice
+    )
+    saveInvoices(updatedInvoices)
+    toast.success('Invoice updated')
+  }
+
+  /**
+   * Records a payment against an invoice
+   */
+  const recordPayment = (invoiceId: string, payment: Omit<InvoicePayment, 'id'>) => {
+    const invoice = invoices.find(i => i.id === invoiceId)
+    if (!invoice) return
+    if (invoice.status === 'void') {
+      toast.error('Cannot record a payment on a void invoice')
+      return
+    }
+    if (payment.amount <= 0) {
+      toast.error('Payment amount must be greater than 0')
+      return
+    }
+
+    const updated = withPayments({
+      ...invoice,
+      payments: [...invoice.payments, { ...payment, id: Date.now().toString() }],
+      updated_at: new Date().toISOString()
+    })
+    saveInvoices(invoices.map(i => (i.id === invoiceId ? updated : i)))
+    toast.success(updated.status === 'paid' ? 'Invoice paid in full' : 'Payment recorded')
+  }
+
+  /**
+   * Voids an invoice. Voided invoices keep their number for the audit trail.
+   */
+  const voidInvoice = (invoiceId: string) => {
+    const updatedInvoices = invoices.map(invoice =>
+      invoice.id === invoiceId
+        ? { ...invoice, status: 'void' as const, updated_at: new Date().toISOString() }
+        : invoice
+    )
+    saveInvoices(updatedInvoices)
+    toast.success('Invoice voided')
+  }
+
+  /**
+   * Checks if an invoice is past its due date with a balance remaining
+   */
+  const isOverdue = (invoice: Invoice) => {
+    if (invoice.status === 'paid' || invoice.status === 'void') return false
+    const today = new Date().toISOString().split('T')[0]
+    return invoice.due_date < today
+  }
+
+  const getBalanceDue = (invoice: Invoice) => {
+    if (invoice.status === 'void') return 0
+    return roundCurrency(Math.max(invoice.total - invoice.amount_paid, 0))
+  }
+
+  const getInvoiceForQuote = (quoteId: string) => {
+    return invoices.find(invoice => invoice.quote_id === quoteId && invoice.status !== 'void')
+  }
+
+  const getInvoiceForAppointment = (appointmentId: string) => {
+    return invoices.find(invoice => invoice.appointment_id === appointmentId && invoice.status !== 'void')
+  }
+
+  /**
+   * Gets invoice statistics
+   */
+  const getInvoiceStats = () => {
+    const active = invoices.filter(i => i.status !== 'void')
+    return {
+      total: invoices.length,
+      unpaid: active.filter(i => i.status === 'unpaid').length,
+      partial: active.filter(i => i.status === 'partial').length,
+      paid: active.filter(i => i.status === 'paid').length,
+      overdue: active.filter(isOverdue).length,
+      outstanding: roundCurrency(active.reduce((sum, i) => sum + getBalanceDue(i), 0)),
+      collected: roundCurrency(active.reduce((sum, i) => sum + i.amount_paid, 0))
+    }
+  }
+
+  return {
+    invoices,
+    isLoading,
+    createInvoice,
+    createFromQuote,
+    createFromAppointment,
+    updateInvoice,
+    recordPayment,
+    voidInvoice,
+    isOverdue,
+    getBalanceDue,
+    getInvoiceForQuote,
+    getInvoiceForAppointment,
+    getInvoiceStats,
+    refreshInvoices: loadInvoices
+  }
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react'
-import type { Message } from '../types'
+import type { Message, MessageMedia } from '../types'
 import toast from 'react-hot-toast'
 import { API_BASE_URL } from '../utils/api'
+import { applyChange } from '../utils/eventStream'
+import { MAX_PAGE_SIZE, type MessageQuery, type MessagePage } from '../utils/messageQuery'
+import { useServerEvents } from './useServerEvents'
 
 /**
  * useMessages Hook
@@ -9,11 +12,12 @@ import { API_BASE_URL } from '../utils/api'
  * A comprehensive React hook for managing customer messages and SMS communication.
  * This hook provides real-time message management with the following capabilities:
  * 
- * - Automatic message polling from the API
- * - SMS sending via OpenPhone integration
+ * - Live updates pushed from the server as messages arrive or change
+ * - SMS sending via OpenPhone integration, with photo attachments (MMS)
  * - Message status tracking (read/unread)
+ * - Searching and filtering the full message history, page by page
+ * - Approving, editing or discarding AI-drafted replies
  * - Emergency message detection and filtering
- * - Real-time updates with 5-second polling interval
  * 
  * The hook connects to the appropriate server based on environment:
  * - Development: localhost:10000
@@ -27,30 +31,43 @@ export const useMessages = () => {
 
   useEffect(() => {
     loadMessages()
-    
-    // Set up polling to check for new messages every 5 seconds
-    // This ensures real-time updates when new SMS messages arrive
-    const interval = setInterval(loadMessages, 5000)
-    
-    return () => clearInterval(interval)
   }, [])
 
+  // New and updated messages are pushed by the server; a reset means some
+  // were missed, so the list is reloaded
+  useServerEvents(
+    'messages',
+    event => setMessages(current => applyChange(current, event)),
+    () => loadMessages()
+  )
+
   /**
    * Loads messages from the API
    * 
    * This function fetches messages from the server using the dynamic API URL
    * that automatically selects between development and production endpoints.
+   * The API returns one page at a time, so every page is loaded to keep
+   * unread counts and emergencies complete.
    */
   const loadMessages = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/messages`)
-      if (response.ok) {
-        const data = await response.json()
-        setMessages(data.messages || [])
-      } else {
-        console.error('Failed to load messages from server:', response.status)
-        setMessages([])
-      }
+      const loaded: Message[] = []
+      let cursor: string | null = null
+      do {
+        const params = new URLSearchParams({ limit: String(MAX_PAGE_SIZE) })
+        if (cursor) params.set('cursor', cursor)
+
+        const response = await fetch(`${API_BASE_URL}/api/messages?${params.toString()}`)
+        if (!response.ok) {
+          console.error('Failed to load messages from server:', response.status)
+          setMessages([])
+          return
+        }
+        const page: MessagePage = await response.json()
+        loaded.push(...(page.messages || []))
+        cursor = page.nextCursor
+      } while (cursor)
+      setMessages(loaded)
     } catch (error) {
       console.error('Error loading messages from server:', error)
       setMessages([])
@@ -59,6 +76,34 @@ export const useMessages = () => {
     }
   }
 
+  /**
+   * Searches messages on the server
+   * 
+   * Returns one page of matches, newest first. Pass the page's `nextCursor`
+   * back as `cursor` to load the next one. Returns null if the search failed.
+   * 
+   * @param query - Search text and filters, see MessageQuery
+   */
+  const searchMessages = async (query: MessageQuery): Promise<MessagePage | null> => {
+    const params = new URLSearchParams()
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value))
+    })
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/messages?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Server responded with status: ${response.status}`)
+      }
+      return data
+    } catch (error) {
+      console.error('Error searching messages:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to search messages')
+      return null
+    }
+  }
+
   /**
    * Sends a manual SMS message to a customer
    * 
@@ -67,8 +112,9 @@ export const useMessages = () => {
    * 
    * @param phoneNumber - The customer's phone number
    * @param message - The message content to send
+   * @param media - Attachments already uploaded with uploadMedia
    */
-  const sendMessage = async ({ phoneNumber, message }: { phoneNumber: string; message: string }) => {
+  const sendMessage = async ({ phoneNumber, message, media = [] }: { phoneNumber: string; message: string; media?: MessageMedia[] }) => {
     setIsSending(true)
     try {
       const response = await fetch(`${API_BASE_URL}/api/messages/reply`, {
@@ -76,7 +122,7 @@ export const useMessages = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ phoneNumber, message }),
+        body: JSON.stringify({ phoneNumber, message, media }),
       })
 
       if (response.ok) {
@@ -84,17 +130,40 @@ export const useMessages = () => {
         await loadMessages()
         toast.success('Message sent successfully')
       } else {
-        throw new Error(`Server responded with status: ${response.status}`)
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Server responded with status: ${response.status}`)
       }
     } catch (error) {
       console.error('Error sending message:', error)
-      toast.error('Failed to send message')
+      toast.error(error instanceof Error ? error.message : 'Failed to send message')
       throw error
     } finally {
       setIsSending(false)
     }
   }
 
+  /**
+   * Uploads a file to attach to a reply. Returns null if the upload failed.
+   */
+  const uploadMedia = async (file: File): Promise<MessageMedia | null> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/media`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Server responded with status: ${response.status}`)
+      }
+      return data.media
+    } catch (error) {
+      console.error('Error uploading attachment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to upload attachment')
+      return null
+    }
+  }
+
   /**
    * Marks a message as read
    * 
@@ -110,15 +179,110 @@ export const useMessages = () => {
       })
       
       // Update local state
-      const updatedMessages = messages.map(msg => 
+      setMessages(current => current.map(msg =>
         msg.id === messageId ? { ...msg, read: true } : msg
-      )
-      setMessages(updatedMessages)
+      ))
     } catch (error) {
       console.error('Error marking message as read:', error)
     }
   }
 
+  /**
+   * Approves an AI-drafted reply and sends it
+   * 
+   * @param messageId - The inbound message the draft is attached to
+   * @param body - Edited reply text; the original draft is sent when omitted
+   */
+  const approveDraft = async (messageId: string, body?: string) => {
+    setIsSending(true)
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/messages/${messageId}/draft/approve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Server responded with status: ${response.status}`)
+      }
+
+      await loadMessages()
+      toast.success('Reply approved and sent')
+    } catch (error) {
+      console.error('Error approving draft:', error)
+      toast.error('Failed to send drafted reply')
+      throw error
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  /**
+   * Discards an AI-drafted reply without sending it
+   * 
+   * @param messageId - The inbound message the draft is attached to
+   */
+  const discardDraft = async (messageId: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/messages/${messageId}/draft/discard`, {
+        method: 'POST',
+      })
+
+      if (!response.ok) {
+        throw new Error(`Server responded with status: ${response.status}`)
+      }
+
+      await loadMessages()
+      toast.success('Draft discarded')
+    } catch (error) {
+      console.error('Error discarding draft:', error)
+      toast.error('Failed to discard draft')
+    }
+  }
+
+  /**
+   * Acknowledges an emergency so the on-call list stops being alerted
+   * 
+   * @param messageId - The emergency message being handled
+   */
+  const acknowledgeEmergency = async (messageId: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/messages/${messageId}/acknowledge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ acknowledgedBy: 'Dashboard' }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Server responded with status: ${response.status}`)
+      }
+
+      await loadMessages()
+      toast.success('Emergency acknowledged')
+    } catch (error) {
+      console.error('Error acknowledging emergency:', error)
+      toast.error('Failed to acknowledge emergency')
+    }
+  }
+
+  /**
+   * Gets emergencies that nobody has acknowledged yet
+   */
+  const getUnacknowledgedEmergencies = () => {
+    return messages.filter(msg => msg.escalation && msg.escalation.status !== 'acknowledged')
+  }
+
+  /**
+   * Gets inbound messages with an AI reply waiting for approval
+   */
+  const getPendingDrafts = () => {
+    return messages.filter(msg => msg.draft?.status === 'pending')
+  }
+
   /**
    * Gets the count of unread inbound messages
    * 
@@ -132,12 +296,12 @@ export const useMessages = () => {
   /**
    * Filters messages to find emergency communications
    * 
-   * Emergency messages are identified by their AI-detected intent
-   * and are used for priority alerts and dashboard warnings.
+   * Emergency messages are identified by their AI-detected intent or an
+   * on-call escalation and are used for priority alerts and dashboard warnings.
    */
   const getEmergencyMessages = () => {
     return messages.filter(msg => 
-      msg.intent?.toLowerCase().includes('emergency') && 
+      (msg.escalation || msg.intent?.toLowerCase().includes('emergency')) && 
       msg.direction === 'inbound'
     )
   }
@@ -147,8 +311,15 @@ export const useMessages = () => {
     isLoading,
     error: null,
     sendMessage,
+    uploadMedia,
+    searchMessages,
     isSending,
     markAsRead,
+    approveDraft,
+    discardDraft,
+    getPendingDrafts,
+    acknowledgeEmergency,
+    getUnacknowledgedEmergencies,
     getUnreadCount,
     getEmergencyMessages,
     refreshMessages: loadMessages
@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react'
+import type { CatalogPart } from '../types'
+import { refreshCollection, syncCollection } from '../utils/serverSync'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import toast from 'react-hot-toast'
+
+type CatalogPartDetails = Pick<CatalogPart, 'part_number' | 'description' | 'brand' | 'unit_cost' | 'markup_percent'>
+
+/**
+ * usePartsCatalog Hook
+ *
+ * Parts the shop stocks or orders often, with what they cost the shop.
+ * Managed in Settings and picked from when adding part lines to a quote.
+ * The catalog is shared through the server; localStorage keeps a copy for
+ * offline use.
+ */
+export const usePartsCatalog = () => {
+  const [parts, setParts] = useState<CatalogPart[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadParts()
+  }, [])
+
+  useServerEvents(
+    'parts',
+    event => setParts(current => {
+      const updated = applyChange(current, event)
+      localStorage.setItem('parts-catalog', JSON.stringify(updated))
+      return updated
+    }),
+    () => loadParts()
+  )
+
+  const loadParts = () => {
+    try {
+      const savedParts = localStorage.getItem('parts-catalog')
+      const localParts: CatalogPart[] = savedParts ? JSON.parse(savedParts) : []
+      setParts(localParts)
+      refreshCollection('/api/parts', 'parts', 'parts-catalog', localParts, setParts)
+    } catch (error) {
+      console.error('Error loading parts catalog:', error)
+      setParts([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const saveParts = (newParts: CatalogPart[]) => {
+    try {
+      localStorage.setItem('parts-catalog', JSON.stringify(newParts))
+      syncCollection('/api/parts', parts, newParts)
+      setParts(newParts)
+    } catch (error) {
+      console.error('Error saving parts catalog:', error)
+      toast.error('Failed to save part')
+    }
+  }
+
+  /**
+   * Finds a part by its number, ignoring case and spacing
+   */
+  const findPart = (partNumber: string) => {
+    const normalized = partNumber.replace(/\s+/g, '').toUpperCase()
+    if (!normalized) return undefined
+    return parts.find(part => part.part_number.replace(/\s+/g, '').toUpperCase() === normalized)
+  }
+
+  const createPart = (data: CatalogPartDetails) => {
+    if (findPart(data.part_number)) {
+      toast.error(`Part ${data.part_number} is already in the catalog`)
+      return null
+    }
+
+    const now = new Date().toISOString()
+    const part: CatalogPart = {
+      ...data,
+      id: Date.now().toString() + '_part',
+      created_at: now,
+      updated_at: now
+    }
+    saveParts([part, ...parts])
+    toast.success('Part added to catalog')
+    return part
+  }
+
+  const updatePart = (partId: string, updates: Partial<CatalogPartDetails>) => {
+    const duplicate = updates.part_number ? findPart(updates.part_number) : undefined
+    if (duplicate && duplicate.id !== partId) {
+      toast.error(`Part ${updates.part_number} is already in the catalog`)
+      return
+    }
+
+    saveParts(parts.map(part =>
+      part.id === partId
+        ? { ...part, ...updates, updated_at: new Date().toISOString() }
+        : part
+    ))
+    toast.success('Part updated')
+  }
+
+  const deletePart = (partId: string) => {
+    saveParts(parts.filter(part => part.id !== partId))
+    toast.success('Part removed from catalog')
+  }
+
+  return {
+    parts,
+    isLoading,
+    findPart,
+    createPart,
+    updatePart,
+    deletePart,
+    refreshParts: loadParts
+  }
+}
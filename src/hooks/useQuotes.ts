@@ -1,6 +1,16 @@
 import { useState, useEffect } from 'react'
 import { useCalendar } from './useCalendar'
 import { useTechSheets } from './useTechSheets'
+import { useBusinessSettings } from './useBusinessSettings'
+import { calculateTaxes, formatTaxLabel, DEFAULT_TAX_SETTINGS } from '../utils/tax'
+import { calculateQuotePricing, getPricingRules, type QuotePricingInput } from '../utils/pricing'
+import { createLineItem, getLineItemTotal, getTaxableAmounts } from '../utils/lineItems'
+import { refreshCollection, syncCollection } from '../utils/serverSync'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import { API_BASE_URL } from '../utils/api'
+import { isSamePhoneNumber, normalizePhoneNumber } from '../utils/phone'
+import type { LineItem, TaxLine } from '../types'
 import toast from 'react-hot-toast'
 
 export interface Quote {
@@ -8,10 +18,18 @@ export interface Quote {
   customer_name: string
   customer_phone: string
   vehicle_info: string
+  vehicle_id?: string
   description: string
+  line_items?: LineItem[]
   labor_hours: number
   labor_rate: number
   parts_cost: number
+  minimum_labor?: LineItem
+  diagnostic_fee?: number
+  shop_supplies?: number
+  subtotal?: number
+  taxes?: TaxLine[]
+  tax_total?: number
   total_cost: number
   status: 'draft' | 'sent' | 'accepted' | 'declined'
   created_at: string
@@ -20,6 +38,49 @@ export interface Quote {
   source?: 'manual' | 'sms_conversation'
 }
 
+type QuoteInput = Omit<
+  Quote,
+  'id' | 'created_at' | 'expires_at' | 'line_items' | 'labor_hours' | 'parts_cost' | 'minimum_labor' | 'diagnostic_fee' | 'shop_supplies' | 'subtotal' | 'taxes' | 'tax_total' | 'total_cost'
+> & {
+  line_items: LineItem[]
+  include_diagnostic_fee?: boolean
+}
+
+/**
+ * The lines a quote is billed from. Quotes saved before line items were
+ * tracked are shown as one labor line and one parts line.
+ */
+export const getQuoteLineItems = (quote: Quote): LineItem[] => {
+  if (quote.line_items?.length) return quote.line_items
+
+  const lineItems: LineItem[] = [{
+    id: `${quote.id}_labor`,
+    type: 'labor',
+    description: quote.description || 'Labor',
+    quantity: quote.labor_hours,
+    unit_price: quote.labor_rate
+  }]
+  if (quote.parts_cost > 0) {
+    lineItems.push({
+      id: `${quote.id}_parts`,
+      type: 'part',
+      description: 'Parts',
+      quantity: 1,
+      unit_price: quote.parts_cost
+    })
+  }
+  return lineItems
+}
+
+/**
+ * Everything the customer is billed for as lines, including any time added
+ * to reach the minimum
+ */
+export const getQuoteBilledItems = (quote: Quote): LineItem[] => {
+  const lineItems = getQuoteLineItems(quote)
+  return quote.minimum_labor ? [...lineItems, quote.minimum_labor] : lineItems
+}
+
 /**
  * useQuotes Hook
  * 
@@ -39,19 +100,29 @@ export const useQuotes = () => {
   const [quotes, setQuotes] = useState<Quote[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const { bookFromQuote } = useCalendar()
+  const { settings } = useBusinessSettings()
 
   useEffect(() => {
     loadQuotes()
   }, [])
 
+  // Quotes saved in other browsers are pushed live
+  useServerEvents(
+    'quotes',
+    event => setQuotes(current => {
+      const updated = applyChange(current, event)
+      localStorage.setItem('quotes', JSON.stringify(updated))
+      return updated
+    }),
+    () => loadQuotes()
+  )
+
   const loadQuotes = () => {
     try {
       const savedQuotes = localStorage.getItem('quotes')
-      if (savedQuotes) {
-        setQuotes(JSON.parse(savedQuotes))
-      } else {
-        setQuotes([])
-      }
+      const localQuotes: Quote[] = savedQuotes ? JSON.parse(savedQuotes) : []
+      setQuotes(localQuotes)
+      refreshCollection('/api/quotes', 'quotes', 'quotes', localQuotes, setQuotes)
     } catch (error) {
       console.error('Error loading quotes:', error)
       setQuotes([])
@@ -63,6 +134,7 @@ export const useQuotes = () => {
   const saveQuotes = (newQuotes: Quote[]) => {
     try {
       localStorage.setItem('quotes', JSON.stringify(newQuotes))
+      syncCollection('/api/quotes', quotes, newQuotes)
       setQuotes(newQuotes)
     } catch (error) {
       console.error('Error saving quotes:', error)
@@ -71,11 +143,52 @@ export const useQuotes = () => {
   }
 
   /**
-   * Creates a quote manually or from AI conversation
+   * Prices the line items with the shop's pricing rules, then
+   * calculates taxes using the GST setting and province.
+   * Diagnostic fees and shop supplies are taxed as fees.
    */
-  const createQuote = (quoteData: Omit<Quote, 'id' | 'created_at' | 'expires_at'>) => {
+  const calculateQuoteTotals = (input: QuotePricingInput) => {
+    const pricing = calculateQuotePricing(input, getPricingRules(settings))
+    const taxable = getTaxableAmounts(
+      pricing.minimum_labor ? [...pricing.line_items, pricing.minimum_labor] : pricing.line_items
+    )
+    const totals = calculateTaxes({
+      ...taxable,
+      fees: (taxable.fees ?? 0) + pricing.diagnostic_fee + pricing.shop_supplies
+    }, settings || DEFAULT_TAX_SETTINGS)
+    return { ...pricing, ...totals }
+  }
+
+  /**
+   * Fields derived from the line items, kept on the quote so the list,
+   * texts and older screens don't need to reprice it
+   */
+  const getPricedFields = (lineItems: LineItem[], includeDiagnosticFee?: boolean) => {
+    const totals = calculateQuoteTotals({ line_items: lineItems, include_diagnostic_fee: includeDiagnosticFee })
+    return {
+      line_items: totals.line_items,
+      labor_hours: totals.billable_hours,
+      parts_cost: totals.parts_cost,
+      minimum_labor: totals.minimum_labor || undefined,
+      diagnostic_fee: totals.diagnostic_fee,
+      shop_supplies: totals.shop_supplies,
+      subtotal: totals.subtotal,
+      taxes: totals.taxes,
+      tax_total: totals.tax_total,
+      total_cost: totals.total
+    }
+  }
+
+  /**
+   * Creates a quote manually or from AI conversation.
+   * Pricing rules and taxes are always applied here so every quote is priced the same way.
+   */
+  const createQuote = (quoteData: QuoteInput) => {
+    const { include_diagnostic_fee, line_items, ...details } = quoteData
     const newQuote: Quote = {
-      ...quoteData,
+      ...details,
+      ...getPricedFields(line_items, include_diagnostic_fee),
+      customer_phone: normalizePhoneNumber(details.customer_phone),
       id: Date.now().toString(),
       created_at: new Date().toISOString(),
       expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() // 7 days from now
@@ -90,7 +203,29 @@ export const useQuotes = () => {
   }
 
   /**
-   * Creates a quote automatically from AI conversation analysis
+   * Replaces the lines on a draft quote and reprices it.
+   * Quotes already sent to the customer keep the price they were given.
+   */
+  const updateQuoteLineItems = (quoteId: string, lineItems: LineItem[], includeDiagnosticFee?: boolean) => {
+    const quote = quotes.find(q => q.id === quoteId)
+    if (!quote) return null
+    if (quote.status !== 'draft') {
+      toast.error('Only draft quotes can be changed')
+      return null
+    }
+
+    const updatedQuote: Quote = {
+      ...quote,
+      ...getPricedFields(lineItems, includeDiagnosticFee ?? !!quote.diagnostic_fee)
+    }
+    saveQuotes(quotes.map(q => q.id === quoteId ? updatedQuote : q))
+    toast.success('Quote updated')
+    return updatedQuote
+  }
+
+  /**
+   * Creates a quote automatically from AI conversation analysis.
+   * Parts are added to the draft once they are identified.
    */
   const createQuoteFromConversation = (conversationData: {
     customerName: string
@@ -100,21 +235,23 @@ export const useQuotes = () => {
     estimatedHours?: number
     laborRate?: number
   }): Quote => {
-    const laborRate = conversationData.laborRate || 80
+    const laborRate = conversationData.laborRate || settings?.labor_rate || 80
     const estimatedHours = conversationData.estimatedHours || 1
-    const laborCost = estimatedHours * laborRate
-    const partsCost = 0 // Will be updated when parts are identified
-    const totalCost = laborCost + partsCost
 
     const quote = createQuote({
       customer_name: conversationData.customerName,
       customer_phone: conversationData.customerPhone,
       vehicle_info: conversationData.vehicleInfo,
       description: conversationData.serviceDescription,
-      labor_hours: estimatedHours,
+      line_items: [
+        createLineItem({
+          type: 'labor',
+          description: conversationData.serviceDescription || 'Labor',
+          quantity: estimatedHours,
+          unit_price: laborRate
+        })
+      ],
       labor_rate: laborRate,
-      parts_cost: partsCost,
-      total_cost: totalCost,
       status: 'draft',
       ai_generated: true,
       source: 'sms_conversation'
@@ -239,7 +376,7 @@ export const useQuotes = () => {
    * Finds quotes for a specific customer
    */
   const getQuotesForCustomer = (phoneNumber: string) => {
-    return quotes.filter(quote => quote.customer_phone === phoneNumber)
+    return quotes.filter(quote => isSamePhoneNumber(quote.customer_phone, phoneNumber))
   }
 
   /**
@@ -250,6 +387,37 @@ export const useQuotes = () => {
     if (!quote) return false
 
     try {
+      // Never text a quote to a number that opted out
+      const consentResponse = await fetch(`${API_BASE_URL}/api/consents/${encodeURIComponent(quote.customer_phone)}`)
+      if (!consentResponse.ok) {
+        throw new Error(`Server responded with status: ${consentResponse.status}`)
+      }
+      if (!(await consentResponse.json()).can_text) {
+        toast.error('This customer has opted out of texts')
+        return false
+      }
+
+      // Quotes saved before taxes were tracked have no breakdown
+      const taxLines = (quote.taxes || [])
+        .map(tax => `${formatTaxLabel(tax)}: $${tax.amount.toFixed(2)}`)
+        .join('\n')
+
+      const itemLines = getQuoteBilledItems(quote)
+        .map(item => {
+          const total = getLineItemTotal(item)
+          const amount = total < 0 ? `-$${(-total).toFixed(2)}` : `$${total.toFixed(2)}`
+          if (item.type === 'labor') {
+            return `${item.description}: ${item.quantity} hrs × $${item.unit_price}/hr = ${amount}`
+          }
+          return `${item.description}${item.quantity !== 1 ? ` (×${item.quantity})` : ''}: ${amount}`
+        })
+        .join('\n')
+
+      const feeLines = [
+        quote.diagnostic_fee ? `Diagnostic fee: $${quote.diagnostic_fee.toFixed(2)}` : '',
+        quote.shop_supplies ? `Shop supplies: $${quote.shop_supplies.toFixed(2)}` : ''
+      ].filter(Boolean).join('\n')
+
       // Format quote message
       const quoteMessage = `
 🔧 QUOTE FROM PINK CHICKEN SPEED SHOP
@@ -257,9 +425,9 @@ export const useQuotes = () => {
 Vehicle: ${quote.vehicle_info}
 Service: ${quote.description}
 
-Labor: ${quote.labor_hours} hrs × $${quote.labor_rate}/hr = $${(quote.labor_hours * quote.labor_rate).toFixed(2)}
-Parts: $${quote.parts_cost.toFixed(2)}
-TOTAL: $${quote.total_cost.toFixed(2)}
+${itemLines}
+${feeLines ? `${feeLines}\n` : ''}Subtotal: $${(quote.subtotal ?? quote.total_cost).toFixed(2)}
+${taxLines ? `${taxLines}\n` : ''}TOTAL: $${quote.total_cost.toFixed(2)}
 
 Valid until: ${new Date(quote.expires_at).toLocaleDateString()}
 
@@ -286,6 +454,8 @@ Reply "ACCEPT" to book this service or call us with questions!
     isLoading,
     createQuote,
     createQuoteFromConversation,
+    calculateQuoteTotals,
+    updateQuoteLineItems,
     updateQuoteStatus,
     estimateLaborHours,
     getActiveQuotes,
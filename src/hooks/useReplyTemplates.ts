@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react'
+import type { ReplyTemplate } from '../types'
+import { refreshCollection, syncCollection } from '../utils/serverSync'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import toast from 'react-hot-toast'
+
+/**
+ * useReplyTemplates Hook
+ *
+ * The shop's saved reply templates, managed in Settings and inserted from the
+ * reply box. Templates are shared through the server so every browser and
+ * the AI use the same wording; localStorage keeps a copy for offline use.
+ */
+export const useReplyTemplates = () => {
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadTemplates()
+  }, [])
+
+  useServerEvents(
+    'replyTemplates',
+    event => setTemplates(current => {
+      const updated = applyChange(current, event)
+      localStorage.setItem('reply-templates', JSON.stringify(updated))
+      return updated
+    }),
+    () => loadTemplates()
+  )
+
+  const loadTemplates = () => {
+    try {
+      const savedTemplates = localStorage.getItem('reply-templates')
+      const localTemplates: ReplyTemplate[] = savedTemplates ? JSON.parse(savedTemplates) : []
+      setTemplates(localTemplates)
+      refreshCollection('/api/reply-templates', 'templates', 'reply-templates', localTemplates, setTemplates)
+    } catch (error) {
+      console.error('Error loading reply templates:', error)
+      setTemplates([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const saveTemplates = (newTemplates: ReplyTemplate[]) => {
+    try {
+      localStorage.setItem('reply-templates', JSON.stringify(newTemplates))
+      syncCollection('/api/reply-templates', templates, newTemplates)
+      setTemplates(newTemplates)
+    } catch (error) {
+      console.error('Error saving reply templates:', error)
+      toast.error('Failed to save template')
+    }
+  }
+
+  const createTemplate = (data: Pick<ReplyTemplate, 'name' | 'body' | 'use_in_ai'>) => {
+    const now = new Date().toISOString()
+    const template: ReplyTemplate = {
+      ...data,
+      id: Date.now().toString(),
+      created_at: now,
+      updated_at: now
+    }
+    saveTemplates([template, ...templates])
+    toast.success('Template saved')
+    return template
+  }
+
+  const updateTemplate = (templateId: string, updates: Partial<Pick<ReplyTemplate, 'name' | 'body' | 'use_in_ai'>>) => {
+    saveTemplates(templates.map(template =>
+      template.id === templateId
+        ? { ...template, ...updates, updated_at: new Date().toISOString() }
+        : template
+    ))
+    toast.success('Template updated')
+  }
+
+  const deleteTemplate = (templateId: string) => {
+    saveTemplates(templates.filter(template => template.id !== templateId))
+    toast.success('Template deleted')
+  }
+
+  return {
+    templates,
+    isLoading,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    refreshTemplates: loadTemplates
+  }
+}
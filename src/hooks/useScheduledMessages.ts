@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react'
+import type { MessageMedia, ScheduledMessage } from '../types'
+import { API_BASE_URL } from '../utils/api'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import toast from 'react-hot-toast'
+
+/**
+ * useScheduledMessages Hook
+ *
+ * Texts queued on the webhook server to send later. The server sends them
+ * when they're due (outside quiet hours), so they go out even with the app
+ * closed. Until then they can be edited or cancelled. Changes are pushed live.
+ */
+export const useScheduledMessages = () => {
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadScheduledMessages()
+  }, [])
+
+  useServerEvents(
+    'scheduledMessages',
+    event => setScheduledMessages(current => applyChange(current, event)),
+    () => loadScheduledMessages()
+  )
+
+  const loadScheduledMessages = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/scheduled-messages`)
+      if (response.ok) {
+        const data = await response.json()
+        setScheduledMessages(data.scheduled || [])
+      } else {
+        console.error('Failed to load scheduled messages:', response.status)
+      }
+    } catch (error) {
+      console.error('Error loading scheduled messages:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Sends a request and applies the returned scheduled message.
+   * Returns it, or null if the request failed.
+   */
+  const request = async (path: string, init: RequestInit, successMessage: string): Promise<ScheduledMessage | null> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/scheduled-messages${path}`, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Server responded with status: ${response.status}`)
+      }
+
+      const scheduled: ScheduledMessage = data.scheduled
+      setScheduledMessages(current => current.some(item => item.id === scheduled.id)
+        ? current.map(item => (item.id === scheduled.id ? scheduled : item))
+        : [scheduled, ...current])
+      toast.success(scheduled.status === 'scheduled' && scheduled.deferred_for_quiet_hours ? `${successMessage} - moved to after quiet hours` : successMessage)
+      return scheduled
+    } catch (error) {
+      console.error('Error updating scheduled message:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update scheduled message')
+      return null
+    }
+  }
+
+  /**
+   * Queues a text to send at the given time
+   */
+  const scheduleMessage = ({ phoneNumber, message, media = [], sendAt }: {
+    phoneNumber: string
+    message: string
+    media?: MessageMedia[]
+    sendAt: Date
+  }) => request('', {
+    method: 'POST',
+    body: JSON.stringify({ phoneNumber, message, media, sendAt: sendAt.toISOString() })
+  }, 'Message scheduled')
+
+  const updateScheduledMessage = (id: string, updates: { message?: string; sendAt?: Date }) => request(`/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ message: updates.message, sendAt: updates.sendAt?.toISOString() })
+  }, 'Scheduled message updated')
+
+  const cancelScheduledMessage = (id: string) =>
+    request(`/${id}/cancel`, { method: 'POST' }, 'Scheduled message cancelled')
+
+  /**
+   * Texts still waiting to go out to a number, soonest first
+   */
+  const getPendingForPhone = (phoneNumber: string) => {
+    return scheduledMessages
+      .filter(item => item.phone_number === phoneNumber && item.status === 'scheduled')
+      .sort((a, b) => a.send_at.localeCompare(b.send_at))
+  }
+
+  return {
+    scheduledMessages,
+    isLoading,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+    getPendingForPhone,
+    refreshScheduledMessages: loadScheduledMessages
+  }
+}
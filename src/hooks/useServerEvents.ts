@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react'
+import { eventStream } from '../utils/eventStream'
+import type { ChangeEvent } from '../services/eventBus'
+import type { CollectionName } from '../services/storage/datastore'
+
+/**
+ * useServerEvents Hook
+ *
+ * Calls `onChange` for every server-side change to a collection, pushed over
+ * the shared live event stream. `onReset` is called when changes were missed
+ * (e.g. the server restarted while offline) and the collection should be
+ * reloaded in full.
+ */
+export const useServerEvents = (
+  collection: CollectionName,
+  onChange: (event: ChangeEvent) => void,
+  onReset: () => void
+) => {
+  // Keep the latest callbacks without resubscribing on every render
+  const handlers = useRef({ onChange, onReset })
+  handlers.current = { onChange, onReset }
+
+  useEffect(() => {
+    return eventStream.subscribe(
+      collection,
+      event => handlers.current.onChange(event),
+      () => handlers.current.onReset()
+    )
+  }, [collection])
+}
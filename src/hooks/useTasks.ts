@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react'
+import type { FollowUpTask } from '../types'
+import { refreshCollection, syncCollection } from '../utils/serverSync'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import toast from 'react-hot-toast'
+
+/**
+ * useTasks Hook
+ *
+ * Follow-up tasks the webhook server creates for missed calls and
+ * voicemails. Tasks live on the server; localStorage keeps a copy so the
+ * list still shows while offline. New tasks are pushed live as calls come in.
+ */
+export const useTasks = () => {
+  const [tasks, setTasks] = useState<FollowUpTask[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadTasks()
+  }, [])
+
+  useServerEvents(
+    'tasks',
+    event => setTasks(current => {
+      const updated = applyChange(current, event)
+      localStorage.setItem('follow-up-tasks', JSON.stringify(updated))
+      return updated
+    }),
+    () => loadTasks()
+  )
+
+  const loadTasks = () => {
+    try {
+      const savedTasks = localStorage.getItem('follow-up-tasks')
+      const localTasks: FollowUpTask[] = savedTasks ? JSON.parse(savedTasks) : []
+      setTasks(localTasks)
+      refreshCollection('/api/tasks', 'tasks', 'follow-up-tasks', localTasks, setTasks)
+    } catch (error) {
+      console.error('Error loading tasks:', error)
+      setTasks([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const saveTasks = (newTasks: FollowUpTask[]) => {
+    try {
+      localStorage.setItem('follow-up-tasks', JSON.stringify(newTasks))
+      syncCollection('/api/tasks', tasks, newTasks)
+      setTasks(newTasks)
+    } catch (error) {
+      console.error('Error saving tasks:', error)
+      toast.error('Failed to save task')
+    }
+  }
+
+  const completeTask = (taskId: string) => {
+    saveTasks(tasks.map(task =>
+      task.id === taskId
+        ? { ...task, status: 'done' as const, completed_at: new Date().toISOString() }
+        : task
+    ))
+    toast.success('Task completed')
+  }
+
+  const reopenTask = (taskId: string) => {
+    saveTasks(tasks.map(task =>
+      task.id === taskId
+        ? { ...task, status: 'open' as const, completed_at: undefined }
+        : task
+    ))
+  }
+
+  const getOpenTasks = () => {
+    return tasks.filter(task => task.status === 'open')
+  }
+
+  return {
+    tasks,
+    isLoading,
+    completeTask,
+    reopenTask,
+    getOpenTasks,
+    refreshTasks: loadTasks
+  }
+}
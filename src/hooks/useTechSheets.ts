@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { useBusinessSettings } from './useBusinessSettings'
 import { generateTechSheetPDF } from '../utils/pdfGenerator'
 import { API_BASE_URL } from '../utils/api'
+import { refreshCollection, syncCollection } from '../utils/serverSync'
 import type { Quote } from './useQuotes'
 import toast from 'react-hot-toast'
 
@@ -10,6 +11,7 @@ export interface TechSheet {
   title: string
   description: string
   vehicle_info?: string
+  vehicle_id?: string
   customer_name?: string
   estimated_time: number
   difficulty: 'Easy' | 'Medium' | 'Hard'
@@ -55,9 +57,9 @@ export const useTechSheets = () => {
   const loadTechSheets = () => {
     try {
       const saved = localStorage.getItem('tech-sheets')
-      if (saved) {
-        setTechSheets(JSON.parse(saved))
-      }
+      const localSheets: TechSheet[] = saved ? JSON.parse(saved) : []
+      setTechSheets(localSheets)
+      refreshCollection('/api/tech-sheets', 'techSheets', 'tech-sheets', localSheets, setTechSheets)
     } catch (error) {
       console.error('Error loading tech sheets:', error)
       setTechSheets([])
@@ -67,11 +69,12 @@ export const useTechSheets = () => {
   }
 
   /**
-   * Saves tech sheets to localStorage
+   * Saves tech sheets to localStorage and the server
    */
   const saveTechSheets = (sheets: TechSheet[]) => {
     try {
       localStorage.setItem('tech-sheets', JSON.stringify(sheets))
+      syncCollection('/api/tech-sheets', techSheets, sheets)
       setTechSheets(sheets)
     } catch (error) {
       console.error('Error saving tech sheets:', error)
@@ -93,7 +96,7 @@ export const useTechSheets = () => {
   /**
    * Creates a fallback tech sheet when AI generation fails
    */
-  const createFallbackTechSheet = (jobDescription: string, vehicleInfo?: string, customerName?: string, quoteId?: string): TechSheet => {
+  const createFallbackTechSheet = (jobDescription: string, vehicleInfo?: string, customerName?: string, quoteId?: string, vehicleId?: string): TechSheet => {
     // Create a basic tech sheet based on common automotive repair patterns
     const lowerDesc = jobDescription.toLowerCase()
     
@@ -183,7 +186,8 @@ export const useTechSheets = () => {
       created_at: new Date().toISOString(),
       generated_by: 'manual',
       source: customerName ? 'booking' : 'manual',
-      quote_id: quoteId
+      quote_id: quoteId,
+      vehicle_id: vehicleId
     }
   }
 
@@ -194,19 +198,21 @@ export const useTechSheets = () => {
    * @param vehicleInfo - Optional vehicle information
    * @param customerName - Optional customer name for booking-generated sheets
    * @param quoteId - Optional quote ID for linking
+   * @param vehicleId - Optional vehicle the job is for
    * @returns Promise<TechSheet | null> - The generated tech sheet or null if failed
    */
   const generateTechSheet = async (
     jobDescription: string,
     vehicleInfo?: string,
     customerName?: string,
-    quoteId?: string
+    quoteId?: string,
+    vehicleId?: string
   ): Promise<TechSheet | null> => {
     const apiKey = getOpenAIKey()
     
     if (!apiKey) {
       console.log('⚠️ No API key available, creating fallback tech sheet')
-      const fallbackSheet = createFallbackTechSheet(jobDescription, vehicleInfo, customerName, quoteId)
+      const fallbackSheet = createFallbackTechSheet(jobDescription, vehicleInfo, customerName, quoteId, vehicleId)
       const updatedSheets = [fallbackSheet, ...techSheets]
       saveTechSheets(updatedSheets)
       toast.success('Tech sheet created (basic template)')
@@ -310,7 +316,7 @@ Make the instructions detailed and professional for a working mechanic.`
         console.log('AI Response was:', aiResponse)
         
         // Create fallback with AI response as description
-        const fallbackSheet = createFallbackTechSheet(jobDescription, vehicleInfo, customerName, quoteId)
+        const fallbackSheet = createFallbackTechSheet(jobDescription, vehicleInfo, customerName, quoteId, vehicleId)
         const updatedSheets = [fallbackSheet, ...techSheets]
         saveTechSheets(updatedSheets)
         toast.success('Tech sheet created (AI response could not be parsed)')
@@ -320,7 +326,7 @@ Make the instructions detailed and professional for a working mechanic.`
       // Validate required fields
       if (!parsedResponse.title || !parsedResponse.step_by_step) {
         console.warn('AI response missing required fields, using fallback')
-        const fallbackSheet = createFallbackTechSheet(jobDescription, vehicleInfo, customerName, quoteId)
+        const fallbackSheet = createFallbackTechSheet(jobDescription, vehicleInfo, customerName, quoteId, vehicleId)
         const updatedSheets = [fallbackSheet, ...techSheets]
         saveTechSheets(updatedSheets)
         toast.success('Tech sheet created (AI response incomplete)')
@@ -344,7 +350,8 @@ Make the instructions detailed and professional for a working mechanic.`
         created_at: new Date().toISOString(),
         generated_by: 'ai',
         source: customerName ? 'booking' : 'manual',
-        quote_id: quoteId
+        quote_id: quoteId,
+        vehicle_id: vehicleId
       }
 
       // Save to storage
@@ -359,7 +366,7 @@ Make the instructions detailed and professional for a working mechanic.`
       
       // Create fallback tech sheet instead of failing completely
       console.log('🔄 Creating fallback tech sheet due to AI error')
-      const fallbackSheet = createFallbackTechSheet(jobDescription, vehicleInfo, customerName, quoteId)
+      const fallbackSheet = createFallbackTechSheet(jobDescription, vehicleInfo, customerName, quoteId, vehicleId)
       const updatedSheets = [fallbackSheet, ...techSheets]
       saveTechSheets(updatedSheets)
       
@@ -382,7 +389,8 @@ Make the instructions detailed and professional for a working mechanic.`
       jobDescription, 
       quote.vehicle_info, 
       quote.customer_name,
-      quote.id
+      quote.id,
+      quote.vehicle_id
     )
     
     if (result) {
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react'
+import type { Vehicle, VehicleHistory } from '../types'
+import type { VehicleDetails } from '../services/vehicles'
+import { API_BASE_URL } from '../utils/api'
+import { applyChange } from '../utils/eventStream'
+import { useServerEvents } from './useServerEvents'
+import toast from 'react-hot-toast'
+
+/**
+ * useVehicles Hook
+ *
+ * The vehicles kept on the webhook server, each linked to its owner.
+ * Staff add and edit them here; quotes, appointments, tech sheets and
+ * invoices link to them to build each vehicle's service history. Changes
+ * are pushed live.
+ */
+export const useVehicles = () => {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadVehicles()
+  }, [])
+
+  useServerEvents(
+    'vehicles',
+    event => setVehicles(current => applyChange(current, event)),
+    () => loadVehicles()
+  )
+
+  const loadVehicles = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/vehicles`)
+      if (response.ok) {
+        const data = await response.json()
+        setVehicles(data.vehicles || [])
+      } else {
+        console.error('Failed to load vehicles from server')
+        setVehicles([])
+      }
+    } catch (error) {
+      console.error('Error loading vehicles:', error)
+      setVehicles([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Sends a request and returns the vehicle from the response,
+   * or null if it failed (the server's reason is shown)
+   */
+  const request = async (path: string, init: RequestInit, successMessage: string): Promise<Vehicle | null> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/vehicles${path}`, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Server responded with status: ${response.status}`)
+      }
+
+      const vehicle: Vehicle = data.vehicle
+      setVehicles(current => [vehicle, ...current.filter(item => item.id !== vehicle.id)])
+      toast.success(successMessage)
+      return vehicle
+    } catch (error) {
+      console.error('Error saving vehicle:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save vehicle')
+      return null
+    }
+  }
+
+  const createVehicle = (details: VehicleDetails) =>
+    request('', { method: 'POST', body: JSON.stringify(details) }, 'Vehicle added')
+
+  const updateVehicle = (id: string, details: Partial<VehicleDetails>) =>
+    request(`/${id}`, { method: 'PATCH', body: JSON.stringify(details) }, 'Vehicle saved')
+
+  const deleteVehicle = async (id: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/vehicles/${id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error(`Server responded with status: ${response.status}`)
+      }
+      setVehicles(current => current.filter(item => item.id !== id))
+      toast.success('Vehicle deleted')
+      return true
+    } catch (error) {
+      console.error('Error deleting vehicle:', error)
+      toast.error('Failed to delete vehicle')
+      return false
+    }
+  }
+
+  /**
+   * Loads the quotes, appointments, tech sheets and invoices for a vehicle
+   */
+  const getVehicleHistory = async (id: string): Promise<VehicleHistory | null> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/vehicles/${id}/history`)
+      if (!response.ok) {
+        throw new Error(`Server responded with status: ${response.status}`)
+      }
+      return await response.json()
+    } catch (error) {
+      console.error('Error loading vehicle history:', error)
+      toast.error('Failed to load vehicle history')
+      return null
+    }
+  }
+
+  return {
+    vehicles,
+    isLoading,
+    createVehicle,
+    updateVehicle,
+    deleteVehicle,
+    getVehicleHistory,
+    refreshVehicles: loadVehicles
+  }
+}
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react'
-import { Calendar as CalendarIcon, Plus, Clock, User, Phone, Car, CheckCircle, X, Eye, Edit, Trash2 } from 'lucide-react'
+import { Calendar as CalendarIcon, Plus, Clock, User, Phone, Car, CheckCircle, X, Eye, Edit, Trash2, Bell } from 'lucide-react'
 import { useCalendar, type Appointment } from '../hooks/useCalendar'
+import VehicleSelect from '../components/VehicleSelect'
+import { describeVehicle } from '../services/vehicles'
 import { format, addDays, startOfWeek, isSameDay, parseISO } from 'date-fns'
 import toast from 'react-hot-toast'
 
@@ -15,6 +17,7 @@ import toast from 'react-hot-toast'
  * - Customer information tracking
  * - Multiple view modes (week, day, list)
  * - Status management and updates
+ * - Text reminder history and confirm/cancel replies
  */
 const Calendar: React.FC = () => {
   const {
@@ -43,6 +46,7 @@ const Calendar: React.FC = () => {
     customer_name: '',
     customer_phone: '',
     vehicle_info: '',
+    vehicle_id: undefined as string | undefined,
     service_type: '',
     date: selectedDate,
     time: '',
@@ -85,6 +89,7 @@ const Calendar: React.FC = () => {
       customer_name: formData.customer_name,
       customer_phone: formData.customer_phone,
       vehicle_info: formData.vehicle_info,
+      vehicle_id: formData.vehicle_id,
       service_type: formData.service_type,
       date: formData.date,
       time: formData.time,
@@ -98,6 +103,7 @@ const Calendar: React.FC = () => {
         customer_name: '',
         customer_phone: '',
         vehicle_info: '',
+        vehicle_id: undefined,
         service_type: '',
         date: selectedDate,
         time: '',
@@ -118,6 +124,21 @@ const Calendar: React.FC = () => {
     }
   }
 
+  /**
+   * One line per reminder sent (or attempted) for an appointment
+   */
+  const describeReminder = (reminder: NonNullable<Appointment['reminders']>[number]) => {
+    const when = format(parseISO(reminder.sent_at), 'MMM d, h:mm a')
+    switch (reminder.status) {
+      case 'sent':
+        return `${reminder.hours_before}h reminder sent ${when}`
+      case 'failed':
+        return `${reminder.hours_before}h reminder failed ${when}${reminder.error ? `: ${reminder.error}` : ''}`
+      default:
+        return `${reminder.hours_before}h reminder skipped (booked too late)`
+    }
+  }
+
   const handleStatusUpdate = (appointmentId: string, status: Appointment['status']) => {
     updateAppointmentStatus(appointmentId, status)
     loadCalendarData()
@@ -275,6 +296,20 @@ const Calendar: React.FC = () => {
                             <strong>Notes:</strong> {appointment.notes}
                           </p>
                         )}
+                        {appointment.reminder_reply ? (
+                          <p className="text-sm text-green-700 mt-1 flex items-center">
+                            <Bell className="h-4 w-4 mr-2" />
+                            Customer replied {appointment.reminder_reply.keyword
+                              ? `${appointment.reminder_reply.keyword} (opted out of texts)`
+                              : appointment.reminder_reply.action === 'confirmed' ? 'C to confirm' : 'X to cancel'}{' '}
+                            {format(parseISO(appointment.reminder_reply.received_at), 'MMM d, h:mm a')}
+                          </p>
+                        ) : appointment.reminders?.some(r => r.status === 'sent') && (
+                          <p className="text-sm text-gray-600 mt-1 flex items-center">
+                            <Bell className="h-4 w-4 mr-2" />
+                            Reminder sent, no reply yet
+                          </p>
+                        )}
                       </div>
                       <div className="flex space-x-2">
                         <button
@@ -361,6 +396,16 @@ const Calendar: React.FC = () => {
                     onChange={(e) => setFormData({ ...formData, vehicle_info: e.target.value })}
                     className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
                   />
+                  <VehicleSelect
+                    customerPhone={formData.customer_phone}
+                    value={formData.vehicle_id}
+                    onChange={(vehicle) => setFormData({
+                      ...formData,
+                      vehicle_id: vehicle?.id,
+                      vehicle_info: vehicle ? describeVehicle(vehicle) : formData.vehicle_info
+                    })}
+                    className="mt-2 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Service Type</label>
@@ -506,6 +551,28 @@ const Calendar: React.FC = () => {
                     <p className="text-sm text-gray-900">{selectedAppointment.notes}</p>
                   </div>
                 )}
+                {!!selectedAppointment.reminders?.length && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Reminders</label>
+                    <ul className="text-sm text-gray-900 space-y-1">
+                      {selectedAppointment.reminders.map((reminder, index) => (
+                        <li key={index} className={reminder.status === 'failed' ? 'text-red-600' : undefined}>
+                          {describeReminder(reminder)}
+                          {reminder.appointment_time !== `${selectedAppointment.date} ${selectedAppointment.time}` && (
+                            <span className="text-gray-500"> (for the earlier time {reminder.appointment_time})</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {selectedAppointment.reminder_reply && (
+                      <p className="text-sm text-green-700 mt-1">
+                        Customer {selectedAppointment.reminder_reply.action} by text
+                        {selectedAppointment.reminder_reply.keyword && ` (${selectedAppointment.reminder_reply.keyword}, opted out of texts)`}{' '}
+                        {format(parseISO(selectedAppointment.reminder_reply.received_at), 'MMM d, h:mm a')}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="flex justify-between mt-6">
                 <div className="flex space-x-2">
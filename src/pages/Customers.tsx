@@ -1,34 +1,24 @@
-import React, { useState, useEffect } from 'react'
-import { Users, Phone, Car, MapPin, Calendar, Eye, Plus, Search, Filter } from 'lucide-react'
-import { API_BASE_URL } from '../utils/api'
-
-interface Vehicle {
-  year?: string
-  make?: string
-  model?: string
-  details: string
-  added_at: string
-}
+import React, { useState } from 'react'
+import { Users, Phone, Car, MapPin, Calendar, Eye, Plus, Search, Filter, Ban, Mail, Pencil, Trash2, Merge, AlertCircle, Check, X } from 'lucide-react'
+import type { ContactMethod, Customer, DuplicateReason } from '../types'
+import type { CustomerDetails } from '../services/customers'
+import { useConsents } from '../hooks/useConsents'
+import { useCustomers } from '../hooks/useCustomers'
+import { describeExtractedVehicle } from '../services/customerExtraction'
+import { findDuplicateCustomers } from '../services/customerDuplicates'
+import { formatPhoneNumber } from '../utils/phone'
+import CustomerForm from '../components/CustomerForm'
 
-interface ServiceHistory {
-  date: string
-  inquiry: string
-  type: string
+const CONTACT_METHOD_LABELS: Record<ContactMethod, string> = {
+  sms: 'Text',
+  call: 'Phone call',
+  email: 'Email'
 }
 
-interface Customer {
-  id: string
-  phone_number: string
-  first_name?: string
-  last_name?: string
-  full_name?: string
-  address?: string
-  is_repeat_customer?: boolean
-  vehicles: Vehicle[]
-  service_history: ServiceHistory[]
-  notes: string[]
-  created_at: string
-  updated_at: string
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone number',
+  name: 'Same name',
+  vehicle: 'Same vehicle'
 }
 
 /**
@@ -38,64 +28,116 @@ interface Customer {
  * - Customer contact information and history
  * - Vehicle tracking for each customer
  * - Service history and inquiry tracking
+ * - Call log with OpenPhone call summaries
  * - Repeat vs new customer identification
  * - Search and filtering capabilities
  * - Integration with messaging system
- * - Customer profile management
+ * - Customer profile management: add, edit, merge duplicates and delete
+ * - Review of uncertain details the AI picked up from texts
+ * - Possible duplicate customers, with merge or "not the same person"
  */
 const Customers: React.FC = () => {
-  const [customers, setCustomers] = useState<Customer[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
+  const {
+    customers,
+    isLoading,
+    createCustomer,
+    updateCustomer,
+    mergeCustomers,
+    markNotDuplicate,
+    deleteCustomer,
+    resolveExtractionReview,
+    refreshCustomers
+  } = useCustomers()
+  // Looked up from the list so the open profile follows live updates
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null)
+  const selectedCustomer = customers.find(c => c.id === selectedCustomerId) || null
+  // null when the form is closed, 'new' when adding
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [mergeSourceId, setMergeSourceId] = useState('')
   const [searchTerm, setSearchTerm] = useState('')
-  const [filterType, setFilterType] = useState<'all' | 'new' | 'repeat'>('all')
-
-  useEffect(() => {
-    loadCustomers()
-    // Refresh every 30 seconds to get latest data
-    const interval = setInterval(loadCustomers, 30000)
-    return () => clearInterval(interval)
-  }, [])
-
-  /**
-   * Loads customers from the API
-   */
-  const loadCustomers = async () => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/customers`)
-      if (response.ok) {
-        const data = await response.json()
-        setCustomers(data.customers || [])
-      } else {
-        console.error('Failed to load customers from server')
-        setCustomers([])
-      }
-    } catch (error) {
-      console.error('Error loading customers:', error)
-      setCustomers([])
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  const [filterType, setFilterType] = useState<'all' | 'new' | 'repeat' | 'review'>('all')
+  const { getConsent, setConsent } = useConsents()
 
   /**
    * Filters customers based on search term and filter type
    */
+  // Numbers are stored as +15551234567, so phone searches match on digits
+  const searchDigits = searchTerm.replace(/\D/g, '')
   const filteredCustomers = customers.filter(customer => {
     // Search filter
     const matchesSearch = !searchTerm || 
       customer.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      customer.phone_number.includes(searchTerm) ||
+      (!!searchDigits && customer.phone_number.includes(searchDigits)) ||
+      (!!searchDigits && !!customer.alternate_phone_numbers?.some(phone => phone.includes(searchDigits))) ||
+      customer.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       customer.vehicles.some(v => v.details.toLowerCase().includes(searchTerm.toLowerCase()))
 
     // Type filter
     const matchesType = filterType === 'all' ||
       (filterType === 'new' && customer.is_repeat_customer === false) ||
-      (filterType === 'repeat' && customer.is_repeat_customer === true)
+      (filterType === 'repeat' && customer.is_repeat_customer === true) ||
+      (filterType === 'review' && !!customer.extraction_reviews?.length)
 
     return matchesSearch && matchesType
   })
 
+  /**
+   * Records a consent change the customer asked for in person or by phone
+   */
+  const handleConsentChange = (phoneNumber: string, optOut: boolean) => {
+    const note = window.prompt(optOut
+      ? 'Opt this number out of all texts? Add a note (e.g. "asked by phone"):'
+      : 'Only opt back in if the customer asked to receive texts again. Add a note:')
+    if (note === null) return
+    setConsent(phoneNumber, optOut ? 'opted_out' : 'opted_in', note)
+  }
+
+  const handleSave = async (details: CustomerDetails) => {
+    if (!editingId) return
+    const saved = editingId === 'new'
+      ? await createCustomer(details)
+      : await updateCustomer(editingId, details)
+    if (saved) {
+      setEditingId(null)
+    }
+  }
+
+  const handleDelete = async (customer: Customer) => {
+    if (!window.confirm(`Delete ${customer.full_name || customer.phone_number}? Their conversations are kept.`)) return
+    if (await deleteCustomer(customer.id)) {
+      setSelectedCustomerId(null)
+    }
+  }
+
+  const duplicates = findDuplicateCustomers(customers)
+
+  /**
+   * Folds `duplicate` into `customer` once staff confirm
+   */
+  const confirmMerge = async (customer: Customer, duplicate: Customer) => {
+    const confirmed = window.confirm(
+      `Merge ${duplicate.full_name || duplicate.phone_number} into ${customer.full_name || customer.phone_number}? ` +
+      `Their vehicles, history, messages, quotes and appointments move here and ${duplicate.phone_number} is kept as an alternate number. This can't be undone.`
+    )
+    if (!confirmed) return false
+    return !!(await mergeCustomers(customer.id, duplicate.id))
+  }
+
+  /**
+   * Folds the chosen duplicate into the open profile
+   */
+  const handleMerge = async (customer: Customer) => {
+    const duplicate = customers.find(c => c.id === mergeSourceId)
+    if (duplicate && await confirmMerge(customer, duplicate)) {
+      setMergeSourceId('')
+    }
+  }
+
+  const closeProfile = () => {
+    setSelectedCustomerId(null)
+    setMergeSourceId('')
+  }
+
   const getCustomerTypeColor = (isRepeat?: boolean) => {
     if (isRepeat === true) return 'bg-green-100 text-green-800'
     if (isRepeat === false) return 'bg-blue-100 text-blue-800'
@@ -127,11 +169,18 @@ const Customers: React.FC = () => {
         </div>
         <div className="flex space-x-2">
           <button
-            onClick={loadCustomers}
+            onClick={refreshCustomers}
             className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
           >
             Refresh
           </button>
+          <button
+            onClick={() => setEditingId('new')}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Customer
+          </button>
         </div>
       </div>
 
@@ -143,7 +192,7 @@ const Customers: React.FC = () => {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search customers by name, phone, or vehicle..."
+                placeholder="Search customers by name, phone, email, or vehicle..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
@@ -154,12 +203,13 @@ const Customers: React.FC = () => {
             <Filter className="h-4 w-4 text-gray-500" />
             <select
               value={filterType}
-              onChange={(e) => setFilterType(e.target.value as 'all' | 'new' | 'repeat')}
+              onChange={(e) => setFilterType(e.target.value as 'all' | 'new' | 'repeat' | 'review')}
               className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="all">All Customers</option>
               <option value="new">New Customers</option>
               <option value="repeat">Repeat Customers</option>
+              <option value="review">Needs Review</option>
             </select>
           </div>
         </div>
@@ -220,6 +270,57 @@ const Customers: React.FC = () => {
         </div>
       </div>
 
+      {/* Possible Duplicates */}
+      {duplicates.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-4">
+          <h3 className="text-lg font-medium text-gray-900">Possible Duplicates ({duplicates.length})</h3>
+          <p className="text-sm text-gray-500 mb-3">
+            These records may be the same person. Merge them to keep one customer with all their texts, quotes and appointments.
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {duplicates.map(duplicate => {
+              const [first, second] = duplicate.customer_ids.map(id => customers.find(c => c.id === id)!)
+              return (
+                <li key={duplicate.customer_ids.join('-')} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div className="text-sm">
+                    <div className="text-gray-900">
+                      <span className="font-medium">{first.full_name || 'Name Pending'}</span> ({formatPhoneNumber(first.phone_number)})
+                      {' and '}
+                      <span className="font-medium">{second.full_name || 'Name Pending'}</span> ({formatPhoneNumber(second.phone_number)})
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {duplicate.reasons.map(reason => (
+                        <span key={reason} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          {DUPLICATE_REASON_LABELS[reason]}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {[[first, second], [second, first]].map(([keep, other]) => (
+                      <button
+                        key={keep.id}
+                        onClick={() => confirmMerge(keep, other)}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Merge className="h-4 w-4 mr-1" />
+                        Keep {keep.full_name || formatPhoneNumber(keep.phone_number)}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => markNotDuplicate(first.id, second.id)}
+                      className="px-3 py-1 text-sm font-medium text-gray-600 hover:text-gray-800"
+                    >
+                      Not the same
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Customer List */}
       <div className="bg-white shadow rounded-lg">
         <div className="px-4 py-5 sm:p-6">
@@ -231,7 +332,7 @@ const Customers: React.FC = () => {
               </h3>
               <p className="mt-1 text-sm text-gray-500">
                 {customers.length === 0 
-                  ? 'Customer information will be collected automatically through SMS conversations.'
+                  ? 'Customer information will be collected automatically through SMS conversations, or add one yourself.'
                   : 'Try adjusting your search terms or filters.'
                 }
               </p>
@@ -249,12 +350,18 @@ const Customers: React.FC = () => {
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getCustomerTypeColor(customer.is_repeat_customer)}`}>
                           {getCustomerTypeText(customer.is_repeat_customer)}
                         </span>
+                        {!!customer.extraction_reviews?.length && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                            <AlertCircle className="h-3 w-3 mr-1" />
+                            Needs review
+                          </span>
+                        )}
                       </div>
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
                         <div className="flex items-center">
                           <Phone className="h-4 w-4 mr-2" />
-                          {customer.phone_number}
+                          {formatPhoneNumber(customer.phone_number)}
                         </div>
                         {customer.address && (
                           <div className="flex items-center">
@@ -287,7 +394,7 @@ const Customers: React.FC = () => {
                     
                     <div className="flex space-x-2">
                       <button
-                        onClick={() => setSelectedCustomer(customer)}
+                        onClick={() => setSelectedCustomerId(customer.id)}
                         className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
                       >
                         <Eye className="h-4 w-4 mr-1" />
@@ -311,12 +418,28 @@ const Customers: React.FC = () => {
                 <h3 className="text-xl font-medium text-gray-900">
                   {selectedCustomer.full_name || 'Customer Profile'}
                 </h3>
-                <button
-                  onClick={() => setSelectedCustomer(null)}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  ×
-                </button>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setEditingId(selectedCustomer.id)}
+                    className="inline-flex items-center text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(selectedCustomer)}
+                    className="inline-flex items-center text-sm text-gray-600 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </button>
+                  <button
+                    onClick={closeProfile}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    ×
+                  </button>
+                </div>
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -329,13 +452,30 @@ const Customers: React.FC = () => {
                         <span className="font-medium">Name:</span> {selectedCustomer.full_name || 'Not provided'}
                       </div>
                       <div>
-                        <span className="font-medium">Phone:</span> {selectedCustomer.phone_number}
+                        <span className="font-medium">Phone:</span> {formatPhoneNumber(selectedCustomer.phone_number)}
                       </div>
+                      {!!selectedCustomer.alternate_phone_numbers?.length && (
+                        <div>
+                          <span className="font-medium">Other numbers:</span> {selectedCustomer.alternate_phone_numbers.map(formatPhoneNumber).join(', ')}
+                        </div>
+                      )}
+                      {selectedCustomer.email && (
+                        <div className="flex items-center">
+                          <Mail className="h-4 w-4 mr-1 text-gray-400" />
+                          <span className="font-medium">Email:</span>&nbsp;{selectedCustomer.email}
+                        </div>
+                      )}
                       {selectedCustomer.address && (
                         <div>
                           <span className="font-medium">Address:</span> {selectedCustomer.address}
                         </div>
                       )}
+                      <div>
+                        <span className="font-medium">Preferred contact:</span>{' '}
+                        {selectedCustomer.preferred_contact_method
+                          ? CONTACT_METHOD_LABELS[selectedCustomer.preferred_contact_method]
+                          : 'No preference'}
+                      </div>
                       <div>
                         <span className="font-medium">Customer Type:</span>{' '}
                         <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getCustomerTypeColor(selectedCustomer.is_repeat_customer)}`}>
@@ -344,6 +484,40 @@ const Customers: React.FC = () => {
                       </div>
                     </div>
                   </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="font-medium text-gray-900">Text Consent</h4>
+                      <button
+                        onClick={() => handleConsentChange(
+                          selectedCustomer.phone_number,
+                          getConsent(selectedCustomer.phone_number)?.status !== 'opted_out'
+                        )}
+                        className="text-xs text-primary-600 hover:text-primary-700"
+                      >
+                        {getConsent(selectedCustomer.phone_number)?.status === 'opted_out' ? 'Opt back in' : 'Opt out'}
+                      </button>
+                    </div>
+                    {getConsent(selectedCustomer.phone_number)?.status === 'opted_out' ? (
+                      <p className="text-sm text-red-700 flex items-center">
+                        <Ban className="h-4 w-4 mr-1" />
+                        Opted out - no texts can be sent to this number
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-600">Can be texted</p>
+                    )}
+                    {!!getConsent(selectedCustomer.phone_number)?.history.length && (
+                      <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                        {getConsent(selectedCustomer.phone_number)!.history.slice().reverse().map((event, index) => (
+                          <li key={index}>
+                            {new Date(event.at).toLocaleString()} - {event.status === 'opted_out' ? 'Opted out' : 'Opted in'}{' '}
+                            {event.source === 'keyword' ? `by texting ${event.keyword}` : 'by staff'}
+                            {event.note && `: ${event.note}`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
                   
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">Vehicles ({selectedCustomer.vehicles.length})</h4>
@@ -352,6 +526,11 @@ const Customers: React.FC = () => {
                         {selectedCustomer.vehicles.map((vehicle, index) => (
                           <div key={index} className="p-3 bg-gray-50 rounded-md">
                             <div className="font-medium text-sm">{vehicle.details}</div>
+                            {(vehicle.year || vehicle.make || vehicle.model) && (
+                              <div className="text-xs text-gray-600">
+                                {[vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ')}
+                              </div>
+                            )}
                             <div className="text-xs text-gray-500">
                               Added: {new Date(vehicle.added_at).toLocaleDateString()}
                             </div>
@@ -362,10 +541,109 @@ const Customers: React.FC = () => {
                       <p className="text-sm text-gray-500">No vehicles on file</p>
                     )}
                   </div>
+
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Notes ({selectedCustomer.notes.length})</h4>
+                    {selectedCustomer.notes.length > 0 ? (
+                      <ul className="space-y-1 text-sm text-gray-700 list-disc list-inside">
+                        {selectedCustomer.notes.map((note, index) => (
+                          <li key={index} className="whitespace-pre-wrap">{note}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-gray-500">No notes</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Merge a Duplicate</h4>
+                    <p className="text-xs text-gray-500 mb-2">
+                      Fold another record for the same person into this one. Its phone number is kept as an alternate.
+                    </p>
+                    <div className="flex space-x-2">
+                      <select
+                        value={mergeSourceId}
+                        onChange={(e) => setMergeSourceId(e.target.value)}
+                        className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="">Choose a customer...</option>
+                        {customers.filter(c => c.id !== selectedCustomer.id).map(c => (
+                          <option key={c.id} value={c.id}>
+                            {c.full_name || 'Name Pending'} - {c.phone_number}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleMerge(selectedCustomer)}
+                        disabled={!mergeSourceId}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Merge className="h-4 w-4 mr-1" />
+                        Merge
+                      </button>
+                    </div>
+                  </div>
                 </div>
                 
                 {/* Right Column - Service History */}
                 <div className="space-y-4">
+                  {!!selectedCustomer.extraction_reviews?.length && (
+                    <div>
+                      <h4 className="font-medium text-gray-900 mb-2">
+                        Details From Texts ({selectedCustomer.extraction_reviews.length})
+                      </h4>
+                      <p className="text-xs text-gray-500 mb-2">
+                        The AI wasn't sure about these. Save the ones that are right.
+                      </p>
+                      <div className="space-y-2">
+                        {selectedCustomer.extraction_reviews.map(review => (
+                          <div key={review.id} className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                            <p className="text-sm text-gray-700 italic">"{review.message_body}"</p>
+                            <ul className="mt-2 text-sm text-gray-700 space-y-1">
+                              {(review.extraction.first_name || review.extraction.last_name) && (
+                                <li>
+                                  <span className="font-medium">Name:</span>{' '}
+                                  {[review.extraction.first_name, review.extraction.last_name].filter(Boolean).join(' ')}
+                                </li>
+                              )}
+                              {review.extraction.vehicle && (
+                                <li>
+                                  <span className="font-medium">Vehicle:</span> {describeExtractedVehicle(review.extraction.vehicle)}
+                                </li>
+                              )}
+                              {review.extraction.symptoms.length > 0 && (
+                                <li>
+                                  <span className="font-medium">Symptoms:</span> {review.extraction.symptoms.join('; ')}
+                                </li>
+                              )}
+                            </ul>
+                            <div className="flex items-center justify-between mt-2">
+                              <span className="text-xs text-gray-500">
+                                {Math.round(review.extraction.confidence * 100)}% confident - {new Date(review.created_at).toLocaleString()}
+                              </span>
+                              <div className="flex space-x-2">
+                                <button
+                                  onClick={() => resolveExtractionReview(selectedCustomer.id, review.id, true)}
+                                  className="inline-flex items-center text-xs text-green-700 hover:text-green-800"
+                                >
+                                  <Check className="h-3 w-3 mr-1" />
+                                  Save
+                                </button>
+                                <button
+                                  onClick={() => resolveExtractionReview(selectedCustomer.id, review.id, false)}
+                                  className="inline-flex items-center text-xs text-gray-600 hover:text-gray-800"
+                                >
+                                  <X className="h-3 w-3 mr-1" />
+                                  Dismiss
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">
                       Service History ({selectedCustomer.service_history.length})
@@ -387,6 +665,46 @@ const Customers: React.FC = () => {
                       <p className="text-sm text-gray-500">No service history</p>
                     )}
                   </div>
+
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">
+                      Calls ({selectedCustomer.calls?.length || 0})
+                    </h4>
+                    {selectedCustomer.calls && selectedCustomer.calls.length > 0 ? (
+                      <div className="space-y-2 max-h-64 overflow-y-auto">
+                        {selectedCustomer.calls.map(call => (
+                          <div key={call.call_id} className="p-3 bg-gray-50 rounded-md">
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="flex items-center">
+                                <Phone className="h-3 w-3 mr-1 text-gray-400" />
+                                {call.direction === 'inbound' ? 'Incoming' : 'Outgoing'} - {call.status}
+                              </span>
+                              {call.duration ? (
+                                <span className="text-xs text-gray-500">{Math.ceil(call.duration / 60)} min</span>
+                              ) : null}
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1">
+                              {new Date(call.created_at).toLocaleString()}
+                            </div>
+                            {call.summary && call.summary.length > 0 && (
+                              <ul className="mt-2 text-sm text-gray-700 list-disc list-inside space-y-1">
+                                {call.summary.map((point, index) => (
+                                  <li key={index}>{point}</li>
+                                ))}
+                              </ul>
+                            )}
+                            {call.next_steps && call.next_steps.length > 0 && (
+                              <div className="mt-2 text-xs text-gray-600">
+                                <strong>Next steps:</strong> {call.next_steps.join('; ')}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">No calls yet</p>
+                    )}
+                  </div>
                   
                   <div className="bg-gray-50 p-3 rounded-md">
                     <div className="text-sm text-gray-600">
@@ -405,7 +723,7 @@ const Customers: React.FC = () => {
               
               <div className="flex justify-end mt-6">
                 <button
-                  onClick={() => setSelectedCustomer(null)}
+                  onClick={closeProfile}
                   className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
                 >
                   Close
@@ -415,6 +733,31 @@ const Customers: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Add / Edit Customer Modal */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-medium text-gray-900">
+                {editingId === 'new' ? 'Add Customer' : 'Edit Customer'}
+              </h3>
+              <button
+                onClick={() => setEditingId(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ×
+              </button>
+            </div>
+            <CustomerForm
+              key={editingId}
+              customer={editingId === 'new' ? undefined : customers.find(c => c.id === editingId)}
+              onSubmit={handleSave}
+              onCancel={() => setEditingId(null)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -9,15 +9,18 @@ import {
   Clock,
   AlertTriangle,
   CheckCircle,
-  ClipboardList
+  ClipboardList,
+  PhoneMissed,
+  Voicemail
 } from 'lucide-react'
 import { Link } from 'react-router-dom'
 import DashboardCard from '../components/DashboardCard'
-import DoNotDisturbToggle from '../components/DoNotDisturbToggle'
+import AutoResponderToggle from '../components/AutoResponderToggle'
 import { useMessages } from '../hooks/useMessages'
 import { useQuotes } from '../hooks/useQuotes'
 import { useTechSheets } from '../hooks/useTechSheets'
 import { useCalendar } from '../hooks/useCalendar'
+import { useTasks } from '../hooks/useTasks'
 
 /**
  * Dashboard Component
@@ -29,24 +32,31 @@ import { useCalendar } from '../hooks/useCalendar'
  * - Calendar appointments and scheduling
  * - Recent activity feed with priority indicators
  * - Quick action buttons for common tasks
- * - Do Not Disturb toggle for AI response control
+ * - Emergency acknowledgement banner for escalated messages
+ * - Follow-up tasks for missed calls and voicemails
+ * - Auto-responder switch for AI response control
  * 
  * The dashboard automatically updates with real-time data and provides
  * visual indicators for urgent items requiring immediate attention.
  */
 const Dashboard: React.FC = () => {
-  const { messages, getUnreadCount, getEmergencyMessages } = useMessages()
+  const { messages, getUnreadCount, getEmergencyMessages, getUnacknowledgedEmergencies, acknowledgeEmergency } = useMessages()
   const { getQuoteStats } = useQuotes()
   const { getTechSheetStats } = useTechSheets()
   const { getCalendarStats, getTodaysAppointments } = useCalendar()
+  const { getOpenTasks, completeTask } = useTasks()
   
   // Calculate real stats from data
   const unreadMessages = getUnreadCount()
   const emergencyMessages = getEmergencyMessages()
+  const unacknowledgedEmergencies = getUnacknowledgedEmergencies()
+  // Emergencies flagged before escalation existed can't be acknowledged
+  const unescalatedEmergencies = emergencyMessages.filter(msg => !msg.escalation)
   const quoteStats = getQuoteStats()
   const techSheetStats = getTechSheetStats()
   const calendarStats = getCalendarStats()
   const todaysAppointments = getTodaysAppointments()
+  const openTasks = getOpenTasks()
   
   // Mock data for features not yet implemented
   const monthlyRevenue = quoteStats.totalValue
@@ -89,12 +99,53 @@ const Dashboard: React.FC = () => {
           </p>
         </div>
         <div className="mt-4 sm:mt-0">
-          <DoNotDisturbToggle />
+          <AutoResponderToggle />
         </div>
       </div>
 
+      {/* Emergency Acknowledgement */}
+      {unacknowledgedEmergencies.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertTriangle className="h-5 w-5 text-red-400" />
+            </div>
+            <div className="ml-3 flex-1">
+              <h3 className="text-sm font-medium text-red-800">
+                🚨 {unacknowledgedEmergencies.length} Emergenc{unacknowledgedEmergencies.length > 1 ? 'ies' : 'y'} Waiting for Acknowledgement
+              </h3>
+              <ul className="mt-2 space-y-2">
+                {unacknowledgedEmergencies.map(msg => (
+                  <li key={msg.id} className="flex items-start justify-between text-sm text-red-700">
+                    <div className="mr-4">
+                      <p>
+                        <span className="font-medium">{msg.phone_number}:</span> {msg.body.substring(0, 100)}
+                      </p>
+                      <p className="text-xs text-red-600">
+                        {msg.escalation?.status === 'exhausted'
+                          ? `No one acknowledged after ${msg.escalation.attempts} alerts`
+                          : msg.escalation?.status === 'closed'
+                          ? 'No on-call list is set up, so no one was alerted'
+                          : `On-call alerted ${msg.escalation?.attempts || 0} time${msg.escalation?.attempts === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => acknowledgeEmergency(msg.id)}
+                      className="flex-shrink-0 inline-flex items-center px-3 py-1 border border-transparent rounded-md text-xs font-medium text-white bg-red-600 hover:bg-red-700"
+                    >
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Acknowledge
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Emergency Alert */}
-      {emergencyMessages.length > 0 && (
+      {unescalatedEmergencies.length > 0 && (
         <div className="bg-red-50 border border-red-200 rounded-md p-4">
           <div className="flex">
             <div className="flex-shrink-0">
@@ -102,7 +153,7 @@ const Dashboard: React.FC = () => {
             </div>
             <div className="ml-3">
               <h3 className="text-sm font-medium text-red-800">
-                🚨 {emergencyMessages.length} Emergency Message{emergencyMessages.length > 1 ? 's' : ''} Received
+                🚨 {unescalatedEmergencies.length} Emergency Message{unescalatedEmergencies.length > 1 ? 's' : ''} Received
               </h3>
               <div className="mt-2 text-sm text-red-700">
                 <p>
@@ -141,6 +192,61 @@ const Dashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Follow-up Tasks */}
+      {openTasks.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
+              Follow-ups ({openTasks.length})
+            </h3>
+            <ul className="divide-y divide-gray-200">
+              {openTasks.map(task => (
+                <li key={task.id} className="py-3 flex items-start justify-between">
+                  <div className="flex items-start space-x-3 min-w-0">
+                    <div className="flex-shrink-0 text-yellow-500">
+                      {task.type === 'voicemail' ? <Voicemail className="h-5 w-5" /> : <PhoneMissed className="h-5 w-5" />}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{task.title}</p>
+                      {task.details && (
+                        <p className="text-sm text-gray-600 mt-1">"{task.details}"</p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(task.created_at).toLocaleString()}
+                        {task.voicemail_url && (
+                          <>
+                            {' · '}
+                            <a href={task.voicemail_url} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:text-primary-700">
+                              Play voicemail
+                            </a>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex-shrink-0 flex items-center space-x-2 ml-4">
+                    <a
+                      href={`tel:${task.phone_number}`}
+                      className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <Phone className="h-3 w-3 mr-1" />
+                      Call
+                    </a>
+                    <button
+                      onClick={() => completeTask(task.id)}
+                      className="inline-flex items-center px-3 py-1 border border-transparent rounded-md text-xs font-medium text-white bg-primary-600 hover:bg-primary-700"
+                    >
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Done
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
         <DashboardCard
@@ -1,7 +1,196 @@
-import React from 'react'
-import { Receipt, Plus } from 'lucide-react'
+import React, { useState } from 'react'
+import { Receipt, Plus, Eye, Search, Filter, DollarSign, AlertTriangle, CheckCircle, Ban } from 'lucide-react'
+import { format } from 'date-fns'
+import { useInvoices, calculateInvoiceTotals, getInvoiceTaxSettings, DEFAULT_PAYMENT_TERMS_DAYS } from '../hooks/useInvoices'
+import { useQuotes } from '../hooks/useQuotes'
+import { useCalendar } from '../hooks/useCalendar'
+import { useBusinessSettings } from '../hooks/useBusinessSettings'
+import LineItemsEditor from '../components/LineItemsEditor'
+import VehicleSelect from '../components/VehicleSelect'
+import { describeVehicle } from '../services/vehicles'
+import { DEFAULT_TAX_SETTINGS, formatTaxLabel } from '../utils/tax'
+import type { Invoice, InvoicePayment, LineItem } from '../types'
+import toast from 'react-hot-toast'
 
+type StatusFilter = 'all' | Invoice['status'] | 'overdue'
+type InvoiceSource = 'quote' | 'appointment' | 'manual'
+
+const emptyManualForm = {
+  customer_name: '',
+  customer_phone: '',
+  vehicle_info: '',
+  vehicle_id: undefined as string | undefined,
+  description: ''
+}
+
+/**
+ * Invoices Component
+ *
+ * Billing for completed work. Features include:
+ *
+ * - Invoice creation from accepted quotes, completed appointments or by hand
+ * - Sequential invoice numbers and due dates
+ * - Line item editing for labor, parts and fees
+ * - Payment recording with unpaid/partial/paid tracking
+ * - Overdue highlighting, search and status filters
+ */
 const Invoices: React.FC = () => {
+  const {
+    invoices,
+    isLoading,
+    createInvoice,
+    createFromQuote,
+    createFromAppointment,
+    updateInvoice,
+    recordPayment,
+    voidInvoice,
+    isOverdue,
+    getBalanceDue,
+    getInvoiceForQuote,
+    getInvoiceForAppointment,
+    getInvoiceStats
+  } = useInvoices()
+  const { quotes } = useQuotes()
+  const { appointments } = useCalendar()
+  const { settings } = useBusinessSettings()
+  const laborRate = settings?.labor_rate || 80
+  const taxSettings = settings || DEFAULT_TAX_SETTINGS
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [showCreateForm, setShowCreateForm] = useState(false)
+  const [source, setSource] = useState<InvoiceSource>('quote')
+  const [sourceId, setSourceId] = useState('')
+  const [manualForm, setManualForm] = useState(emptyManualForm)
+  const [manualItems, setManualItems] = useState<LineItem[]>([])
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null)
+  const [editItems, setEditItems] = useState<LineItem[]>([])
+  const [editDueDate, setEditDueDate] = useState('')
+  const [editNotes, setEditNotes] = useState('')
+  const [paymentAmount, setPaymentAmount] = useState(0)
+  const [paymentMethod, setPaymentMethod] = useState<InvoicePayment['method']>('card')
+
+  const stats = getInvoiceStats()
+
+  // Only offer work that hasn't been invoiced yet
+  const invoiceableQuotes = quotes.filter(q => q.status === 'accepted' && !getInvoiceForQuote(q.id))
+  const invoiceableAppointments = appointments.filter(a => a.status === 'completed' && !getInvoiceForAppointment(a.id))
+
+  const filteredInvoices = invoices.filter(invoice => {
+    const term = searchTerm.toLowerCase()
+    const matchesSearch = !term ||
+      invoice.invoice_number.toLowerCase().includes(term) ||
+      invoice.customer_name.toLowerCase().includes(term) ||
+      invoice.customer_phone.includes(searchTerm) ||
+      invoice.vehicle_info.toLowerCase().includes(term)
+
+    const matchesStatus = statusFilter === 'all' ||
+      (statusFilter === 'overdue' ? isOverdue(invoice) : invoice.status === statusFilter)
+
+    return matchesSearch && matchesStatus
+  })
+
+  const openInvoice = (invoice: Invoice) => {
+    setSelectedInvoice(invoice)
+    setEditItems(invoice.line_items)
+    setEditDueDate(invoice.due_date)
+    setEditNotes(invoice.notes || '')
+    setPaymentAmount(getBalanceDue(invoice))
+  }
+
+  const closeCreateForm = () => {
+    setShowCreateForm(false)
+    setSourceId('')
+    setManualForm(emptyManualForm)
+    setManualItems([])
+  }
+
+  const handleCreateInvoice = () => {
+    let invoice: Invoice | null = null
+
+    if (source === 'quote') {
+      const quote = quotes.find(q => q.id === sourceId)
+      if (!quote) {
+        toast.error('Please select a quote')
+        return
+      }
+      invoice = createFromQuote(quote)
+    } else if (source === 'appointment') {
+      const appointment = appointments.find(a => a.id === sourceId)
+      if (!appointment) {
+        toast.error('Please select an appointment')
+        return
+      }
+      invoice = createFromAppointment(appointment, laborRate)
+    } else {
+      if (!manualForm.customer_name || manualItems.length === 0) {
+        toast.error('Customer name and at least one line item are required')
+        return
+      }
+      const issuedAt = new Date()
+      invoice = createInvoice({
+        ...manualForm,
+        line_items: manualItems,
+        issued_at: issuedAt.toISOString(),
+        due_date: new Date(issuedAt.getTime() + DEFAULT_PAYMENT_TERMS_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+      })
+    }
+
+    if (invoice) {
+      closeCreateForm()
+    }
+  }
+
+  const handleSaveInvoice = () => {
+    if (!selectedInvoice) return
+    updateInvoice(selectedInvoice.id, {
+      line_items: editItems,
+      due_date: editDueDate,
+      notes: editNotes
+    })
+    setSelectedInvoice(null)
+  }
+
+  const handleRecordPayment = () => {
+    if (!selectedInvoice) return
+    recordPayment(selectedInvoice.id, {
+      amount: paymentAmount,
+      method: paymentMethod,
+      paid_at: new Date().toISOString()
+    })
+    setSelectedInvoice(null)
+  }
+
+  const handleVoidInvoice = () => {
+    if (!selectedInvoice) return
+    if (window.confirm(`Void invoice ${selectedInvoice.invoice_number}? This cannot be undone.`)) {
+      voidInvoice(selectedInvoice.id)
+      setSelectedInvoice(null)
+    }
+  }
+
+  const getStatusColor = (invoice: Invoice) => {
+    if (isOverdue(invoice)) return 'bg-red-100 text-red-800'
+    switch (invoice.status) {
+      case 'unpaid': return 'bg-yellow-100 text-yellow-800'
+      case 'partial': return 'bg-blue-100 text-blue-800'
+      case 'paid': return 'bg-green-100 text-green-800'
+      case 'void': return 'bg-gray-100 text-gray-500'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  const isEditable = selectedInvoice ? selectedInvoice.status === 'unpaid' : false
+  const editTotals = calculateInvoiceTotals(editItems, selectedInvoice ? getInvoiceTaxSettings(selectedInvoice, taxSettings) : taxSettings)
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -11,25 +200,443 @@ const Invoices: React.FC = () => {
             Generate and manage customer invoices
           </p>
         </div>
-        <button className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500">
+        <button
+          onClick={() => setShowCreateForm(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+        >
           <Plus className="h-4 w-4 mr-2" />
           New Invoice
         </button>
       </div>
 
+      {/* Invoice Stats */}
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="p-5 flex items-center">
+            <DollarSign className="h-8 w-8 text-yellow-600" />
+            <dl className="ml-5">
+              <dt className="text-sm font-medium text-gray-500 truncate">Outstanding</dt>
+              <dd className="text-lg font-medium text-gray-900">${stats.outstanding.toFixed(2)}</dd>
+            </dl>
+          </div>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="p-5 flex items-center">
+            <AlertTriangle className="h-8 w-8 text-red-600" />
+            <dl className="ml-5">
+              <dt className="text-sm font-medium text-gray-500 truncate">Overdue</dt>
+              <dd className="text-lg font-medium text-gray-900">{stats.overdue}</dd>
+            </dl>
+          </div>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="p-5 flex items-center">
+            <CheckCircle className="h-8 w-8 text-green-600" />
+            <dl className="ml-5">
+              <dt className="text-sm font-medium text-gray-500 truncate">Collected</dt>
+              <dd className="text-lg font-medium text-gray-900">${stats.collected.toFixed(2)}</dd>
+            </dl>
+          </div>
+        </div>
+      </div>
+
+      {/* Search and Filter */}
+      <div className="bg-white shadow rounded-lg p-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by invoice number, customer, phone, or vehicle..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Filter className="h-4 w-4 text-gray-500" />
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="all">All Invoices</option>
+              <option value="unpaid">Unpaid</option>
+              <option value="partial">Partially Paid</option>
+              <option value="paid">Paid</option>
+              <option value="overdue">Overdue</option>
+              <option value="void">Void</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Invoice List */}
       <div className="bg-white shadow rounded-lg">
         <div className="px-4 py-5 sm:p-6">
-          <div className="text-center py-12">
-            <Receipt className="mx-auto h-12 w-12 text-gray-400" />
-            <h3 className="mt-2 text-sm font-medium text-gray-900">No invoices yet</h3>
-            <p className="mt-1 text-sm text-gray-500">
-              Completed jobs will generate invoices automatically.
-            </p>
-          </div>
+          {filteredInvoices.length === 0 ? (
+            <div className="text-center py-12">
+              <Receipt className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                {invoices.length === 0 ? 'No invoices yet' : 'No invoices match your search'}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {invoices.length === 0
+                  ? 'Create invoices from accepted quotes or completed appointments.'
+                  : 'Try adjusting your search terms or filters.'
+                }
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {filteredInvoices.map((invoice) => (
+                <div key={invoice.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2 mb-2">
+                        <h4 className="text-lg font-medium text-gray-900">{invoice.invoice_number}</h4>
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(invoice)}`}>
+                          {isOverdue(invoice) ? 'overdue' : invoice.status}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-900 mb-1">{invoice.customer_name}</p>
+                      <p className="text-sm text-gray-600 mb-2">{invoice.vehicle_info}</p>
+                      <div className="flex items-center space-x-4 text-sm text-gray-500">
+                        <span>Total: ${invoice.total.toFixed(2)}</span>
+                        <span>Balance: ${getBalanceDue(invoice).toFixed(2)}</span>
+                        <span>Issued: {format(new Date(invoice.issued_at), 'MMM d, yyyy')}</span>
+                        <span>Due: {format(new Date(`${invoice.due_date}T00:00:00`), 'MMM d, yyyy')}</span>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => openInvoice(invoice)}
+                      className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      View
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
+
+      {/* Create Invoice Modal */}
+      {showCreateForm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="mt-3">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Create Invoice</h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Bill for</label>
+                  <select
+                    value={source}
+                    onChange={(e) => {
+                      setSource(e.target.value as InvoiceSource)
+                      setSourceId('')
+                    }}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  >
+                    <option value="quote">Accepted quote</option>
+                    <option value="appointment">Completed appointment</option>
+                    <option value="manual">Other work</option>
+                  </select>
+                </div>
+
+                {source === 'quote' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Quote</label>
+                    <select
+                      value={sourceId}
+                      onChange={(e) => setSourceId(e.target.value)}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    >
+                      <option value="">Select a quote...</option>
+                      {invoiceableQuotes.map(quote => (
+                        <option key={quote.id} value={quote.id}>
+                          {quote.customer_name} - {quote.description} (${quote.total_cost.toFixed(2)})
+                        </option>
+                      ))}
+                    </select>
+                    {invoiceableQuotes.length === 0 && (
+                      <p className="mt-1 text-xs text-gray-500">No accepted quotes waiting to be invoiced</p>
+                    )}
+                  </div>
+                )}
+
+                {source === 'appointment' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Appointment</label>
+                    <select
+                      value={sourceId}
+                      onChange={(e) => setSourceId(e.target.value)}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    >
+                      <option value="">Select an appointment...</option>
+                      {invoiceableAppointments.map(appointment => (
+                        <option key={appointment.id} value={appointment.id}>
+                          {appointment.customer_name} - {appointment.service_type} ({appointment.date})
+                        </option>
+                      ))}
+                    </select>
+                    {invoiceableAppointments.length === 0 && (
+                      <p className="mt-1 text-xs text-gray-500">No completed appointments waiting to be invoiced</p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">Labor is billed at ${laborRate}/hr for the appointment duration.</p>
+                  </div>
+                )}
+
+                {source === 'manual' && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Customer Name</label>
+                        <input
+                          type="text"
+                          value={manualForm.customer_name}
+                          onChange={(e) => setManualForm({ ...manualForm, customer_name: e.target.value })}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Phone Number</label>
+                        <input
+                          type="tel"
+                          value={manualForm.customer_phone}
+                          onChange={(e) => setManualForm({ ...manualForm, customer_phone: e.target.value })}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Vehicle Info</label>
+                        <input
+                          type="text"
+                          placeholder="2020 Honda Civic"
+                          value={manualForm.vehicle_info}
+                          onChange={(e) => setManualForm({ ...manualForm, vehicle_info: e.target.value })}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                        <VehicleSelect
+                          customerPhone={manualForm.customer_phone}
+                          value={manualForm.vehicle_id}
+                          onChange={(vehicle) => setManualForm({
+                            ...manualForm,
+                            vehicle_id: vehicle?.id,
+                            vehicle_info: vehicle ? describeVehicle(vehicle) : manualForm.vehicle_info
+                          })}
+                          className="mt-2 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Description</label>
+                        <input
+                          type="text"
+                          value={manualForm.description}
+                          onChange={(e) => setManualForm({ ...manualForm, description: e.target.value })}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Line Items</label>
+                      <LineItemsEditor items={manualItems} onChange={setManualItems} defaultLaborRate={laborRate} />
+                      <p className="mt-2 text-sm font-medium text-gray-900 text-right">
+                        Total (incl. tax): ${calculateInvoiceTotals(manualItems, taxSettings).total.toFixed(2)}
+                      </p>
+                    </div>
+                  </>
+                )}
+              </div>
+              <div className="flex justify-end space-x-2 mt-6">
+                <button
+                  onClick={closeCreateForm}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleCreateInvoice}
+                  className="px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700"
+                >
+                  Create Invoice
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Invoice Detail Modal */}
+      {selectedInvoice && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="mt-3">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">Invoice {selectedInvoice.invoice_number}</h3>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(selectedInvoice)}`}>
+                  {isOverdue(selectedInvoice) ? 'overdue' : selectedInvoice.status}
+                </span>
+              </div>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Customer</label>
+                    <p className="text-sm text-gray-900">{selectedInvoice.customer_name}</p>
+                    <p className="text-sm text-gray-500">{selectedInvoice.customer_phone}</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Vehicle</label>
+                    <p className="text-sm text-gray-900">{selectedInvoice.vehicle_info || 'Not specified'}</p>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Line Items</label>
+                  <LineItemsEditor
+                    items={editItems}
+                    onChange={setEditItems}
+                    defaultLaborRate={laborRate}
+                    disabled={!isEditable}
+                  />
+                  {!isEditable && selectedInvoice.status !== 'void' && (
+                    <p className="mt-1 text-xs text-gray-500">Line items are locked once a payment is recorded.</p>
+                  )}
+                </div>
+
+                <div className="bg-gray-50 p-3 rounded-md text-sm">
+                  <div className="flex justify-between">
+                    <span>Subtotal:</span>
+                    <span>${editTotals.subtotal.toFixed(2)}</span>
+                  </div>
+                  {editTotals.taxes.map(tax => (
+                    <div key={tax.name} className="flex justify-between">
+                      <span>{formatTaxLabel(tax)}:</span>
+                      <span>${tax.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-medium">
+                    <span>Total:</span>
+                    <span>${editTotals.total.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Paid:</span>
+                    <span>${selectedInvoice.amount_paid.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-medium border-t pt-2 mt-2">
+                    <span>Balance Due:</span>
+                    <span>${getBalanceDue(selectedInvoice).toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Due Date</label>
+                    <input
+                      type="date"
+                      value={editDueDate}
+                      onChange={(e) => setEditDueDate(e.target.value)}
+                      disabled={selectedInvoice.status === 'void'}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Notes</label>
+                    <input
+                      type="text"
+                      value={editNotes}
+                      onChange={(e) => setEditNotes(e.target.value)}
+                      disabled={selectedInvoice.status === 'void'}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                  </div>
+                </div>
+
+                {selectedInvoice.payments.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Payments</label>
+                    <div className="space-y-1">
+                      {selectedInvoice.payments.map(payment => (
+                        <div key={payment.id} className="flex justify-between text-sm text-gray-600">
+                          <span>{format(new Date(payment.paid_at), 'MMM d, yyyy')} - {payment.method}</span>
+                          <span>${payment.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {(selectedInvoice.status === 'unpaid' || selectedInvoice.status === 'partial') && (
+                  <div className="bg-green-50 p-3 rounded-md">
+                    <label className="block text-sm font-medium text-green-800 mb-2">Record Payment</label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={paymentAmount}
+                        onChange={(e) => setPaymentAmount(parseFloat(e.target.value) || 0)}
+                        className="flex-1 border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      />
+                      <select
+                        value={paymentMethod}
+                        onChange={(e) => setPaymentMethod(e.target.value as InvoicePayment['method'])}
+                        className="border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      >
+                        <option value="card">Card</option>
+                        <option value="cash">Cash</option>
+                        <option value="e-transfer">E-Transfer</option>
+                        <option value="cheque">Cheque</option>
+                        <option value="other">Other</option>
+                      </select>
+                      <button
+                        onClick={handleRecordPayment}
+                        className="inline-flex items-center px-3 py-1 border border-transparent rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700"
+                      >
+                        <DollarSign className="h-4 w-4 mr-1" />
+                        Record
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="flex justify-between mt-6">
+                <div>
+                  {selectedInvoice.status !== 'void' && (
+                    <button
+                      onClick={handleVoidInvoice}
+                      className="inline-flex items-center px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50"
+                    >
+                      <Ban className="h-4 w-4 mr-1" />
+                      Void
+                    </button>
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setSelectedInvoice(null)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    Close
+                  </button>
+                  {selectedInvoice.status !== 'void' && (
+                    <button
+                      onClick={handleSaveInvoice}
+                      className="px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700"
+                    >
+                      Save Changes
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
 
-export default Invoices
\ No newline at end of file
+export default Invoices
@@ -1,9 +1,17 @@
 import React, { useState } from 'react'
-import { FileText, Plus, Eye, Send, Check, X, ClipboardList, Download } from 'lucide-react'
-import { useQuotes, type Quote } from '../hooks/useQuotes'
+import { FileText, Plus, Eye, Send, Check, X, ClipboardList, Download, Pencil } from 'lucide-react'
+import { useQuotes, getQuoteBilledItems, getQuoteLineItems, type Quote } from '../hooks/useQuotes'
 import { useBusinessSettings } from '../hooks/useBusinessSettings'
 import { useTechSheets } from '../hooks/useTechSheets'
+import { usePartsCatalog } from '../hooks/usePartsCatalog'
+import VehicleSelect from '../components/VehicleSelect'
+import LineItemsEditor from '../components/LineItemsEditor'
+import type { LineItem } from '../types'
+import { describeVehicle } from '../services/vehicles'
 import { format } from 'date-fns'
+import { formatTaxLabel } from '../utils/tax'
+import { getPricingRules } from '../utils/pricing'
+import { createLineItem, getLineItemTotal } from '../utils/lineItems'
 import toast from 'react-hot-toast'
 
 /**
@@ -13,51 +21,81 @@ import toast from 'react-hot-toast'
  * When quotes are accepted, they can automatically generate tech sheets
  * for the repair work. Features include:
  * 
- * - Quote creation with labor and parts calculation
+ * - Quote creation from labor, part, fee and discount lines, with parts
+ *   picked from the shop's catalog and marked up by the pricing rules
+ * - Draft quotes can have their lines changed before they are sent
  * - Status management (draft, sent, accepted, declined)
  * - Auto-generation of tech sheets from accepted quotes
  * - Professional quote formatting and tracking
  * - Integration with business settings for labor rates
  */
 const Quotes: React.FC = () => {
-  const { quotes, isLoading, createQuote, updateQuoteStatus } = useQuotes()
+  const { quotes, isLoading, createQuote, calculateQuoteTotals, updateQuoteStatus, updateQuoteLineItems } = useQuotes()
   const { settings } = useBusinessSettings()
   const { generateFromQuote, isGenerating, getTechSheetsForQuote, canGenerateTechSheets } = useTechSheets()
+  const { parts: catalog } = usePartsCatalog()
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null)
+  // Lines being changed on the selected draft quote, null when not editing
+  const [editingItems, setEditingItems] = useState<LineItem[] | null>(null)
 
-  const [formData, setFormData] = useState({
+  const laborRate = settings?.labor_rate || 80
+  const pricingRules = getPricingRules(settings)
+
+  const getEmptyForm = () => ({
     customer_name: '',
     customer_phone: '',
     vehicle_info: '',
+    vehicle_id: undefined as string | undefined,
     description: '',
-    labor_hours: 1,
-    parts_cost: 0
+    line_items: [createLineItem({ type: 'labor', description: 'Labor', quantity: 1, unit_price: laborRate })],
+    include_diagnostic_fee: false
   })
 
+  const [formData, setFormData] = useState(getEmptyForm)
+
+  const previewTotals = calculateQuoteTotals(formData)
+  const enteredHours = formData.line_items
+    .filter(item => item.type === 'labor')
+    .reduce((sum, item) => sum + (item.quantity || 0), 0)
+
   const handleCreateQuote = () => {
-    const laborRate = settings?.labor_rate || 80
-    const laborCost = formData.labor_hours * laborRate
-    const totalCost = laborCost + formData.parts_cost
+    if (formData.line_items.length === 0) {
+      toast.error('Add at least one line to the quote')
+      return
+    }
 
-    const newQuote = createQuote({
+    createQuote({
       ...formData,
       labor_rate: laborRate,
-      total_cost: totalCost,
       status: 'draft'
     })
 
     setShowCreateForm(false)
-    setFormData({
-      customer_name: '',
-      customer_phone: '',
-      vehicle_info: '',
-      description: '',
-      labor_hours: 1,
-      parts_cost: 0
-    })
+    setFormData(getEmptyForm())
+  }
+
+  const openQuote = (quote: Quote | null) => {
+    setEditingItems(null)
+    setSelectedQuote(quote)
+  }
+
+  const handleSaveLineItems = () => {
+    if (!selectedQuote || !editingItems) return
+    if (editingItems.length === 0) {
+      toast.error('Add at least one line to the quote')
+      return
+    }
 
-    toast.success('Quote created successfully')
+    const updated = updateQuoteLineItems(selectedQuote.id, editingItems)
+    if (updated) {
+      setSelectedQuote(updated)
+      setEditingItems(null)
+    }
+  }
+
+  const formatAmount = (amount: number) => {
+    return amount < 0 ? `-$${(-amount).toFixed(2)}` : `$${amount.toFixed(2)}`
   }
 
   /**
@@ -152,7 +190,7 @@ const Quotes: React.FC = () => {
       {/* Create Quote Modal */}
       {showCreateForm && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+          <div className="relative top-10 mx-auto p-5 border max-w-3xl shadow-lg rounded-md bg-white">
             <div className="mt-3">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Create New Quote</h3>
               <div className="space-y-4">
@@ -183,6 +221,16 @@ const Quotes: React.FC = () => {
                     onChange={(e) => setFormData({ ...formData, vehicle_info: e.target.value })}
                     className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
                   />
+                  <VehicleSelect
+                    customerPhone={formData.customer_phone}
+                    value={formData.vehicle_id}
+                    onChange={(vehicle) => setFormData({
+                      ...formData,
+                      vehicle_id: vehicle?.id,
+                      vehicle_info: vehicle ? describeVehicle(vehicle) : formData.vehicle_info
+                    })}
+                    className="mt-2 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Description</label>
@@ -194,35 +242,56 @@ const Quotes: React.FC = () => {
                     placeholder="Describe the repair work needed..."
                   />
                 </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">Labor Hours</label>
-                    <input
-                      type="number"
-                      step="0.25"
-                      min="0"
-                      value={formData.labor_hours}
-                      onChange={(e) => setFormData({ ...formData, labor_hours: parseFloat(e.target.value) })}
-                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">Parts Cost</label>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Line Items</label>
+                  <LineItemsEditor
+                    items={formData.line_items}
+                    onChange={(lineItems) => setFormData({ ...formData, line_items: lineItems })}
+                    defaultLaborRate={laborRate}
+                    pricingRules={pricingRules}
+                    catalog={catalog}
+                  />
+                </div>
+                {pricingRules.diagnostic_fee > 0 && (
+                  <div className="flex items-center">
                     <input
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      value={formData.parts_cost}
-                      onChange={(e) => setFormData({ ...formData, parts_cost: parseFloat(e.target.value) })}
-                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      id="include_diagnostic_fee"
+                      type="checkbox"
+                      checked={formData.include_diagnostic_fee}
+                      onChange={(e) => setFormData({ ...formData, include_diagnostic_fee: e.target.checked })}
+                      className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded"
                     />
+                    <label htmlFor="include_diagnostic_fee" className="ml-2 block text-sm text-gray-700">
+                      Include diagnostic fee (${pricingRules.diagnostic_fee.toFixed(2)})
+                    </label>
                   </div>
-                </div>
+                )}
                 <div className="bg-gray-50 p-3 rounded-md">
                   <div className="text-sm text-gray-600">
-                    <p>Labor: {formData.labor_hours} hrs × ${settings?.labor_rate || 80}/hr = ${(formData.labor_hours * (settings?.labor_rate || 80)).toFixed(2)}</p>
-                    <p>Parts: ${formData.parts_cost.toFixed(2)}</p>
-                    <p className="font-medium">Total: ${(formData.labor_hours * (settings?.labor_rate || 80) + formData.parts_cost).toFixed(2)}</p>
+                    <p>Labor: {previewTotals.billable_hours} hrs = ${previewTotals.labor_cost.toFixed(2)}</p>
+                    {previewTotals.billable_hours !== enteredHours && (
+                      <p className="text-xs text-gray-500">
+                        Billed at a {pricingRules.minimum_hours} hr minimum in {pricingRules.billing_increment_minutes}-minute increments
+                      </p>
+                    )}
+                    <p>Parts: ${previewTotals.parts_cost.toFixed(2)}</p>
+                    {previewTotals.fees_cost > 0 && (
+                      <p>Fees: ${previewTotals.fees_cost.toFixed(2)}</p>
+                    )}
+                    {previewTotals.discount > 0 && (
+                      <p className="text-green-700">Discount: -${previewTotals.discount.toFixed(2)}</p>
+                    )}
+                    {previewTotals.diagnostic_fee > 0 && (
+                      <p>Diagnostic fee: ${previewTotals.diagnostic_fee.toFixed(2)}</p>
+                    )}
+                    {previewTotals.shop_supplies > 0 && (
+                      <p>Shop supplies: ${previewTotals.shop_supplies.toFixed(2)}</p>
+                    )}
+                    <p>Subtotal: ${previewTotals.subtotal.toFixed(2)}</p>
+                    {previewTotals.taxes.map(tax => (
+                      <p key={tax.name}>{formatTaxLabel(tax)}: ${tax.amount.toFixed(2)}</p>
+                    ))}
+                    <p className="font-medium">Total: ${previewTotals.total.toFixed(2)}</p>
                   </div>
                 </div>
                 {canGenerateTechSheets() && (
@@ -302,7 +371,7 @@ const Quotes: React.FC = () => {
                       </div>
                       <div className="flex space-x-2">
                         <button
-                          onClick={() => setSelectedQuote(quote)}
+                          onClick={() => openQuote(quote)}
                           className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
                         >
                           <Eye className="h-4 w-4 mr-1" />
@@ -349,7 +418,7 @@ const Quotes: React.FC = () => {
       {/* Quote Detail Modal */}
       {selectedQuote && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+          <div className="relative top-20 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
             <div className="mt-3">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Quote Details</h3>
               <div className="space-y-3">
@@ -366,22 +435,87 @@ const Quotes: React.FC = () => {
                   <label className="block text-sm font-medium text-gray-700">Description</label>
                   <p className="text-sm text-gray-900">{selectedQuote.description}</p>
                 </div>
-                <div className="bg-gray-50 p-3 rounded-md">
-                  <div className="text-sm">
-                    <div className="flex justify-between">
-                      <span>Labor ({selectedQuote.labor_hours} hrs × ${selectedQuote.labor_rate}/hr):</span>
-                      <span>${(selectedQuote.labor_hours * selectedQuote.labor_rate).toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Parts:</span>
-                      <span>${selectedQuote.parts_cost.toFixed(2)}</span>
+                {editingItems ? (
+                  <div>
+                    <LineItemsEditor
+                      items={editingItems}
+                      onChange={setEditingItems}
+                      defaultLaborRate={selectedQuote.labor_rate || laborRate}
+                      pricingRules={pricingRules}
+                      catalog={catalog}
+                    />
+                    <div className="flex justify-end space-x-2 mt-3">
+                      <button
+                        onClick={() => setEditingItems(null)}
+                        className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleSaveLineItems}
+                        className="px-3 py-1 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700"
+                      >
+                        Save Lines
+                      </button>
                     </div>
-                    <div className="flex justify-between font-medium border-t pt-2 mt-2">
-                      <span>Total:</span>
-                      <span>${selectedQuote.total_cost.toFixed(2)}</span>
+                  </div>
+                ) : (
+                  <div className="bg-gray-50 p-3 rounded-md">
+                    <div className="text-sm">
+                      {getQuoteBilledItems(selectedQuote).map(item => (
+                        <div key={item.id} className="flex justify-between">
+                          <span>
+                            {item.description || 'Line item'}
+                            {item.part_number && <span className="font-mono text-gray-500"> {item.part_number}</span>}
+                            {item.type === 'labor'
+                              ? ` (${item.quantity} hrs × $${item.unit_price}/hr)`
+                              : item.quantity !== 1 ? ` (${item.quantity} × $${item.unit_price.toFixed(2)})` : ''}:
+                          </span>
+                          <span className={item.type === 'discount' ? 'text-green-700' : undefined}>
+                            {formatAmount(getLineItemTotal(item))}
+                          </span>
+                        </div>
+                      ))}
+                      {!!selectedQuote.diagnostic_fee && (
+                        <div className="flex justify-between">
+                          <span>Diagnostic fee:</span>
+                          <span>${selectedQuote.diagnostic_fee.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {!!selectedQuote.shop_supplies && (
+                        <div className="flex justify-between">
+                          <span>Shop supplies:</span>
+                          <span>${selectedQuote.shop_supplies.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {selectedQuote.subtotal !== undefined && (
+                        <div className="flex justify-between border-t pt-2 mt-2">
+                          <span>Subtotal:</span>
+                          <span>${selectedQuote.subtotal.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {(selectedQuote.taxes || []).map(tax => (
+                        <div key={tax.name} className="flex justify-between">
+                          <span>{formatTaxLabel(tax)}:</span>
+                          <span>${tax.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between font-medium border-t pt-2 mt-2">
+                        <span>Total:</span>
+                        <span>${selectedQuote.total_cost.toFixed(2)}</span>
+                      </div>
                     </div>
+                    {selectedQuote.status === 'draft' && (
+                      <button
+                        onClick={() => setEditingItems(getQuoteLineItems(selectedQuote))}
+                        className="mt-3 inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Pencil className="h-3 w-3 mr-1" />
+                        Edit lines
+                      </button>
+                    )}
                   </div>
-                </div>
+                )}
                 {selectedQuote.status === 'accepted' && (
                   <div className="bg-green-50 p-3 rounded-md">
                     <p className="text-sm text-green-800">
@@ -396,7 +530,7 @@ const Quotes: React.FC = () => {
               </div>
               <div className="flex justify-end mt-6">
                 <button
-                  onClick={() => setSelectedQuote(null)}
+                  onClick={() => openQuote(null)}
                   className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
                 >
                   Close
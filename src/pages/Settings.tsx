@@ -1,18 +1,91 @@
 import React from 'react'
-import { Settings as SettingsIcon, Save, Key, Phone, CheckCircle, AlertCircle, RefreshCw } from 'lucide-react'
-import { useForm } from 'react-hook-form'
+import { Settings as SettingsIcon, Save, Key, Phone, CheckCircle, AlertCircle, RefreshCw, Plus, Trash2 } from 'lucide-react'
+import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useBusinessSettings } from '../hooks/useBusinessSettings'
 import WebhookStatus from '../components/WebhookStatus'
-import type { BusinessSettings } from '../types'
+import ReplyTemplatesEditor from '../components/ReplyTemplatesEditor'
+import PartsCatalogEditor from '../components/PartsCatalogEditor'
+import type { AppointmentReminderSettings, AutoResponderPolicy, BusinessSettings, EscalationSettings, PricingRules, QuietHours } from '../types'
+import { PROVINCES, HST_RATES, PROVINCIAL_TAXES } from '../utils/tax'
+import { getPricingRules, DEFAULT_PRICING_RULES } from '../utils/pricing'
+import {
+  AUTO_RESPONDER_MODES,
+  CANADIAN_TIMEZONES,
+  DAY_NAMES,
+  DEFAULT_AUTO_RESPONDER_POLICY,
+  getAutoResponderPolicy
+} from '../utils/autoResponder'
+import { DEFAULT_ESCALATION_SETTINGS, getEscalationSettings } from '../services/escalation'
+import { DEFAULT_QUIET_HOURS } from '../utils/quietHours'
+import { DEFAULT_APPOINTMENT_REMINDER_SETTINGS, getAppointmentReminderSettings } from '../services/appointmentReminders'
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM')
+
+const dayScheduleSchema = z.object({
+  enabled: z.boolean(),
+  start: timeSchema,
+  end: timeSchema
+})
+
+const autoResponderSchema = z.object({
+  mode: z.enum(['off', 'always', 'outside_business_hours', 'schedule', 'vacation']),
+  timezone: z.string().min(1, 'Time zone is required'),
+  business_hours: z.array(dayScheduleSchema).length(7),
+  custom_schedule: z.array(dayScheduleSchema).length(7),
+  vacation_start: z.string().optional(),
+  vacation_end: z.string().optional()
+}).refine(
+  policy => policy.mode !== 'vacation' || (!!policy.vacation_start && !!policy.vacation_end && policy.vacation_start <= policy.vacation_end),
+  { message: 'Choose a vacation start date on or before the end date', path: ['vacation_end'] }
+)
+
+const escalationSchema = z.object({
+  enabled: z.boolean(),
+  contacts: z.array(z.object({
+    name: z.string().min(1, 'Name is required'),
+    phone_number: z.string().min(10, 'Enter a full phone number')
+  })),
+  webhook_url: z.string().url('Enter a full URL').or(z.literal('')).optional(),
+  repeat_minutes: z.number().int().min(1, 'Repeat at least every minute'),
+  max_attempts: z.number().int().min(1, 'Send at least one alert').max(20, 'Cannot exceed 20 alerts')
+})
+
+const appointmentRemindersSchema = z.object({
+  enabled: z.boolean(),
+  rules: z.array(z.object({
+    hours_before: z.number().min(0.5, 'Remind at least 30 minutes ahead').max(336, 'Cannot remind more than 2 weeks ahead')
+  })),
+  text: z.string().trim().min(1, 'Reminder text is required').max(1000, 'Keep reminders under 1000 characters')
+})
 
 const settingsSchema = z.object({
   business_name: z.string().min(1, 'Business name is required'),
   labor_rate: z.number().min(1, 'Labor rate must be greater than 0'),
   phone_number: z.string().optional(),
   business_number: z.string().optional(),
+  booking_link: z.string().url('Enter a full URL').or(z.literal('')).optional(),
   gst_setting: z.enum(['parts', 'labor', 'both', 'none']),
+  province: z.enum(['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT']),
+  apply_provincial_tax: z.boolean(),
+  pricing_rules: z.object({
+    minimum_hours: z.number().min(0, 'Minimum cannot be negative'),
+    billing_increment_minutes: z.number().int().min(1, 'Increment must be at least 1 minute').max(60, 'Increment cannot exceed 60 minutes'),
+    diagnostic_fee: z.number().min(0, 'Fee cannot be negative'),
+    shop_supplies_percent: z.number().min(0, 'Percent cannot be negative').max(100, 'Percent cannot exceed 100'),
+    parts_markup: z.array(z.object({
+      min_cost: z.number().min(0, 'Cost cannot be negative'),
+      markup_percent: z.number().min(0, 'Markup cannot be negative').max(1000, 'Markup cannot exceed 1000%')
+    }))
+  }),
+  auto_responder: autoResponderSchema,
+  quiet_hours: dayScheduleSchema,
+  appointment_reminders: appointmentRemindersSchema,
+  reply_mode: z.enum(['auto', 'approval']),
+  draft_auto_send_minutes: z.number().int().min(0, 'Minutes cannot be negative'),
+  ai_image_analysis: z.boolean(),
+  escalation: escalationSchema,
   openai_api_key: z.string().optional(),
   openphone_api_key: z.string().optional()
 })
@@ -22,23 +95,56 @@ type SettingsFormData = z.infer<typeof settingsSchema>
 const Settings: React.FC = () => {
   const { settings, serverSettings, updateSettings, isUpdating, refreshSettings } = useBusinessSettings()
 
-  const { register, handleSubmit, formState: { errors }, watch } = useForm<SettingsFormData>({
+  const { register, handleSubmit, formState: { errors }, watch, control } = useForm<SettingsFormData>({
     resolver: zodResolver(settingsSchema),
     defaultValues: {
       business_name: settings?.business_name || 'Pink Chicken Speed Shop',
       labor_rate: settings?.labor_rate || 80,
       phone_number: settings?.phone_number || '',
       business_number: settings?.business_number || '',
+      booking_link: settings?.booking_link || '',
       gst_setting: settings?.gst_setting || 'parts',
+      province: settings?.province || 'AB',
+      apply_provincial_tax: settings?.apply_provincial_tax || false,
+      pricing_rules: getPricingRules(settings),
+      auto_responder: getAutoResponderPolicy(settings),
+      quiet_hours: { ...DEFAULT_QUIET_HOURS, ...settings?.quiet_hours },
+      appointment_reminders: getAppointmentReminderSettings(settings),
+      reply_mode: settings?.reply_mode || 'auto',
+      draft_auto_send_minutes: settings?.draft_auto_send_minutes || 0,
+      ai_image_analysis: settings?.ai_image_analysis !== false,
+      escalation: getEscalationSettings(settings),
       openai_api_key: settings?.openai_api_key || '',
       openphone_api_key: settings?.openphone_api_key || ''
     }
   })
 
+  const { fields: contactFields, append: appendContact, remove: removeContact } = useFieldArray({
+    control,
+    name: 'escalation.contacts'
+  })
+
+  const { fields: reminderFields, append: appendReminder, remove: removeReminder } = useFieldArray({
+    control,
+    name: 'appointment_reminders.rules'
+  })
+
+  const { fields: markupFields, append: appendMarkup, remove: removeMarkup } = useFieldArray({
+    control,
+    name: 'pricing_rules.parts_markup'
+  })
+
   const watchedValues = watch()
 
   const onSubmit = (data: SettingsFormData) => {
-    updateSettings(data)
+    updateSettings({
+      ...data,
+      pricing_rules: { ...DEFAULT_PRICING_RULES, ...data.pricing_rules } as PricingRules,
+      auto_responder: { ...DEFAULT_AUTO_RESPONDER_POLICY, ...data.auto_responder } as AutoResponderPolicy,
+      quiet_hours: { ...DEFAULT_QUIET_HOURS, ...data.quiet_hours } as QuietHours,
+      appointment_reminders: { ...DEFAULT_APPOINTMENT_REMINDER_SETTINGS, ...data.appointment_reminders } as AppointmentReminderSettings,
+      escalation: { ...DEFAULT_ESCALATION_SETTINGS, ...data.escalation } as EscalationSettings
+    })
   }
 
   const getApiKeyStatus = (apiKey?: string, serverConfigured?: boolean) => {
@@ -51,6 +157,41 @@ const Settings: React.FC = () => {
     return { status: 'local', color: 'text-blue-600', icon: CheckCircle, text: 'Configured locally' }
   }
 
+  /**
+   * Renders a Sunday-to-Saturday table of on/off and start/end times
+   */
+  const renderWeeklySchedule = (field: 'business_hours' | 'custom_schedule') => (
+    <div className="space-y-2">
+      {DAY_NAMES.map((dayName, day) => (
+        <div key={dayName} className="grid grid-cols-12 gap-2 items-center">
+          <label className="col-span-4 flex items-center text-sm text-gray-700">
+            <input
+              {...register(`auto_responder.${field}.${day}.enabled`)}
+              type="checkbox"
+              className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+            />
+            {dayName}
+          </label>
+          <input
+            {...register(`auto_responder.${field}.${day}.start`)}
+            type="time"
+            className="col-span-3 border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+          />
+          <span className="col-span-1 text-center text-sm text-gray-500">to</span>
+          <input
+            {...register(`auto_responder.${field}.${day}.end`)}
+            type="time"
+            className="col-span-3 border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+      ))}
+    </div>
+  )
+
+  const selectedProvince = watchedValues.province
+  const hstRate = HST_RATES[selectedProvince]
+  const provincialTax = PROVINCIAL_TAXES[selectedProvince]
+
   const openaiStatus = getApiKeyStatus(watchedValues.openai_api_key, serverSettings?.openai_configured)
   const openphoneStatus = getApiKeyStatus(watchedValues.openphone_api_key, serverSettings?.openphone_configured)
 
@@ -116,6 +257,12 @@ const Settings: React.FC = () => {
       {/* Webhook Status */}
       <WebhookStatus />
 
+      {/* Saved replies for the reply box and the AI */}
+      <ReplyTemplatesEditor />
+
+      {/* Parts the shop stocks or orders often, for quote lines */}
+      <PartsCatalogEditor />
+
       <div className="bg-white shadow rounded-lg">
         <div className="px-4 py-5 sm:p-6">
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -171,6 +318,541 @@ const Settings: React.FC = () => {
                     className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
                   />
                 </div>
+                <div className="sm:col-span-2">
+                  <label htmlFor="booking_link" className="block text-sm font-medium text-gray-700">
+                    Online Booking Link
+                  </label>
+                  <input
+                    {...register('booking_link')}
+                    type="url"
+                    placeholder="https://example.com/book"
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Used for {'{booking_link}'} in reply templates</p>
+                  {errors.booking_link && (
+                    <p className="mt-1 text-sm text-red-600">{errors.booking_link.message}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Pricing Rules */}
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Pricing Rules</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Used for quotes and for prices the AI gives customers by text
+              </p>
+              <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                <div>
+                  <label htmlFor="minimum_hours" className="block text-sm font-medium text-gray-700">
+                    Minimum Billable Time (hours)
+                  </label>
+                  <input
+                    {...register('pricing_rules.minimum_hours', { valueAsNumber: true })}
+                    id="minimum_hours"
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
+                  {errors.pricing_rules?.minimum_hours && (
+                    <p className="mt-1 text-sm text-red-600">{errors.pricing_rules.minimum_hours.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="billing_increment_minutes" className="block text-sm font-medium text-gray-700">
+                    Billing Increment (minutes)
+                  </label>
+                  <input
+                    {...register('pricing_rules.billing_increment_minutes', { valueAsNumber: true })}
+                    id="billing_increment_minutes"
+                    type="number"
+                    step="1"
+                    min="1"
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
+                  {errors.pricing_rules?.billing_increment_minutes && (
+                    <p className="mt-1 text-sm text-red-600">{errors.pricing_rules.billing_increment_minutes.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="diagnostic_fee" className="block text-sm font-medium text-gray-700">
+                    Diagnostic Fee ($)
+                  </label>
+                  <input
+                    {...register('pricing_rules.diagnostic_fee', { valueAsNumber: true })}
+                    id="diagnostic_fee"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
+                  {errors.pricing_rules?.diagnostic_fee && (
+                    <p className="mt-1 text-sm text-red-600">{errors.pricing_rules.diagnostic_fee.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="shop_supplies_percent" className="block text-sm font-medium text-gray-700">
+                    Shop Supplies (% of labor)
+                  </label>
+                  <input
+                    {...register('pricing_rules.shop_supplies_percent', { valueAsNumber: true })}
+                    id="shop_supplies_percent"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
+                  {errors.pricing_rules?.shop_supplies_percent && (
+                    <p className="mt-1 text-sm text-red-600">{errors.pricing_rules.shop_supplies_percent.message}</p>
+                  )}
+                </div>
+              </div>
+              <div className="mt-6 space-y-2">
+                <span className="block text-sm font-medium text-gray-700">Parts Markup</span>
+                <p className="text-xs text-gray-500">
+                  Parts priced from cost use the highest tier their cost reaches, unless a line sets its own markup
+                </p>
+                {markupFields.length === 0 && (
+                  <p className="text-sm text-gray-500">No markup, parts are billed at cost</p>
+                )}
+                {markupFields.map((field, index) => (
+                  <div key={field.id} className="flex items-start space-x-2">
+                    <div>
+                      <div className="flex items-center space-x-2 text-sm text-gray-700">
+                        <span>Cost from $</span>
+                        <input
+                          {...register(`pricing_rules.parts_markup.${index}.min_cost`, { valueAsNumber: true })}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          className="w-24 border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                        <span>marked up</span>
+                        <input
+                          {...register(`pricing_rules.parts_markup.${index}.markup_percent`, { valueAsNumber: true })}
+                          type="number"
+                          step="1"
+                          min="0"
+                          className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                        <span>%</span>
+                      </div>
+                      {errors.pricing_rules?.parts_markup?.[index]?.min_cost && (
+                        <p className="mt-1 text-sm text-red-600">{errors.pricing_rules.parts_markup[index]?.min_cost?.message}</p>
+                      )}
+                      {errors.pricing_rules?.parts_markup?.[index]?.markup_percent && (
+                        <p className="mt-1 text-sm text-red-600">{errors.pricing_rules.parts_markup[index]?.markup_percent?.message}</p>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeMarkup(index)}
+                      className="pt-2 text-gray-400 hover:text-red-600"
+                      aria-label="Remove markup tier"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => appendMarkup({ min_cost: 0, markup_percent: 30 })}
+                  className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add markup tier
+                </button>
+              </div>
+            </div>
+
+            {/* AI Replies */}
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 mb-4">AI Replies</h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="text-base font-medium text-gray-900">When should the AI reply to texts?</label>
+                  <div className="mt-2 space-y-2">
+                    {AUTO_RESPONDER_MODES.map(mode => (
+                      <div key={mode.value} className="flex items-start">
+                        <input
+                          {...register('auto_responder.mode')}
+                          id={`auto-responder-${mode.value}`}
+                          value={mode.value}
+                          type="radio"
+                          className="mt-0.5 focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300"
+                        />
+                        <label htmlFor={`auto-responder-${mode.value}`} className="ml-3 block text-sm text-gray-700">
+                          <span className="font-medium">{mode.label}</span>
+                          <span className="text-gray-500"> - {mode.description}</span>
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                {watchedValues.auto_responder?.mode !== 'off' && watchedValues.auto_responder?.mode !== 'always' && (
+                  <div className="sm:w-1/2">
+                    <label htmlFor="auto_responder_timezone" className="block text-sm font-medium text-gray-700">
+                      Time Zone
+                    </label>
+                    <select
+                      {...register('auto_responder.timezone')}
+                      id="auto_responder_timezone"
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    >
+                      {CANADIAN_TIMEZONES.map(zone => (
+                        <option key={zone.value} value={zone.value}>{zone.label} ({zone.value})</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {watchedValues.auto_responder?.mode === 'outside_business_hours' && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">Business Hours</p>
+                    {renderWeeklySchedule('business_hours')}
+                  </div>
+                )}
+                {watchedValues.auto_responder?.mode === 'schedule' && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">AI replies during</p>
+                    {renderWeeklySchedule('custom_schedule')}
+                  </div>
+                )}
+                {watchedValues.auto_responder?.mode === 'vacation' && (
+                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                    <div>
+                      <label htmlFor="vacation_start" className="block text-sm font-medium text-gray-700">
+                        Vacation Starts
+                      </label>
+                      <input
+                        {...register('auto_responder.vacation_start')}
+                        id="vacation_start"
+                        type="date"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="vacation_end" className="block text-sm font-medium text-gray-700">
+                        Vacation Ends
+                      </label>
+                      <input
+                        {...register('auto_responder.vacation_end')}
+                        id="vacation_end"
+                        type="date"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      />
+                      {errors.auto_responder?.vacation_end && (
+                        <p className="mt-1 text-sm text-red-600">{errors.auto_responder.vacation_end.message}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <div className="flex items-center">
+                    <input
+                      {...register('reply_mode')}
+                      id="reply-mode-auto"
+                      value="auto"
+                      type="radio"
+                      className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300"
+                    />
+                    <label htmlFor="reply-mode-auto" className="ml-3 block text-sm font-medium text-gray-700">
+                      Send AI replies immediately
+                    </label>
+                  </div>
+                  <div className="flex items-center">
+                    <input
+                      {...register('reply_mode')}
+                      id="reply-mode-approval"
+                      value="approval"
+                      type="radio"
+                      className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300"
+                    />
+                    <label htmlFor="reply-mode-approval" className="ml-3 block text-sm font-medium text-gray-700">
+                      Hold AI replies as drafts until I approve them
+                    </label>
+                  </div>
+                </div>
+                {watchedValues.reply_mode === 'approval' && (
+                  <div className="sm:w-1/2">
+                    <label htmlFor="draft_auto_send_minutes" className="block text-sm font-medium text-gray-700">
+                      Auto-send unreviewed drafts after (minutes)
+                    </label>
+                    <input
+                      {...register('draft_auto_send_minutes', { valueAsNumber: true })}
+                      id="draft_auto_send_minutes"
+                      type="number"
+                      step="1"
+                      min="0"
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Set to 0 to never send a draft without approval</p>
+                    {errors.draft_auto_send_minutes && (
+                      <p className="mt-1 text-sm text-red-600">{errors.draft_auto_send_minutes.message}</p>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center">
+                  <input
+                    {...register('ai_image_analysis')}
+                    id="ai_image_analysis"
+                    type="checkbox"
+                    className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="ai_image_analysis" className="ml-3 block text-sm font-medium text-gray-700">
+                    Let the AI look at photos customers send (warning lights, leaks, damage)
+                  </label>
+                </div>
+              </div>
+            </div>
+
+            {/* Quiet Hours */}
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Quiet Hours</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Scheduled texts and appointment reminders due during quiet hours wait until they end. Uses the AI Replies time zone.
+              </p>
+              <div className="space-y-4">
+                <div className="flex items-center">
+                  <input
+                    {...register('quiet_hours.enabled')}
+                    id="quiet_hours_enabled"
+                    type="checkbox"
+                    className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="quiet_hours_enabled" className="ml-3 block text-sm font-medium text-gray-700">
+                    Don't send scheduled texts or reminders during quiet hours
+                  </label>
+                </div>
+                {watchedValues.quiet_hours?.enabled && (
+                  <div className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>From</span>
+                    <input
+                      {...register('quiet_hours.start')}
+                      type="time"
+                      className="border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                    <span>to</span>
+                    <input
+                      {...register('quiet_hours.end')}
+                      type="time"
+                      className="border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    />
+                  </div>
+                )}
+                {(errors.quiet_hours?.start || errors.quiet_hours?.end) && (
+                  <p className="text-sm text-red-600">
+                    {errors.quiet_hours?.start?.message || errors.quiet_hours?.end?.message}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Appointment Reminders */}
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Appointment Reminders</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Text customers before their appointments. They can reply C to confirm or X to cancel,
+                which updates the appointment.
+              </p>
+              <div className="space-y-4">
+                <div className="flex items-center">
+                  <input
+                    {...register('appointment_reminders.enabled')}
+                    id="appointment_reminders_enabled"
+                    type="checkbox"
+                    className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="appointment_reminders_enabled" className="ml-3 block text-sm font-medium text-gray-700">
+                    Send appointment reminders
+                  </label>
+                </div>
+                {watchedValues.appointment_reminders?.enabled && (
+                  <>
+                    <div className="space-y-2">
+                      <span className="block text-sm font-medium text-gray-700">Send a reminder</span>
+                      {reminderFields.length === 0 && (
+                        <p className="text-sm text-gray-500">No reminders set up yet</p>
+                      )}
+                      {reminderFields.map((field, index) => (
+                        <div key={field.id} className="flex items-start space-x-2">
+                          <div>
+                            <div className="flex items-center space-x-2 text-sm text-gray-700">
+                              <input
+                                {...register(`appointment_reminders.rules.${index}.hours_before`, { valueAsNumber: true })}
+                                type="number"
+                                step="0.5"
+                                min="0.5"
+                                className="w-24 border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                              />
+                              <span>hours before</span>
+                            </div>
+                            {errors.appointment_reminders?.rules?.[index]?.hours_before && (
+                              <p className="mt-1 text-sm text-red-600">{errors.appointment_reminders.rules[index]?.hours_before?.message}</p>
+                            )}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => removeReminder(index)}
+                            className="pt-2 text-gray-400 hover:text-red-600"
+                            aria-label="Remove reminder"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => appendReminder({ hours_before: 24 })}
+                        className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add reminder
+                      </button>
+                    </div>
+                    <div>
+                      <label htmlFor="appointment_reminders_text" className="block text-sm font-medium text-gray-700">
+                        Reminder text
+                      </label>
+                      <textarea
+                        {...register('appointment_reminders.text')}
+                        id="appointment_reminders_text"
+                        rows={3}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        Can use {'{customer_first_name}'}, {'{customer_name}'}, {'{service}'}, {'{vehicle}'}, {'{date}'}, {'{time}'} and {'{business_name}'}.
+                        "Reply C to confirm or X to cancel." is added automatically.
+                      </p>
+                      {errors.appointment_reminders?.text && (
+                        <p className="mt-1 text-sm text-red-600">{errors.appointment_reminders.text.message}</p>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Emergency Escalation */}
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Emergency Escalation</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Text the on-call list when an emergency comes in, repeating until someone acknowledges it
+                on the dashboard or replies ACK.
+              </p>
+              <div className="space-y-4">
+                <div className="flex items-center">
+                  <input
+                    {...register('escalation.enabled')}
+                    id="escalation_enabled"
+                    type="checkbox"
+                    className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="escalation_enabled" className="ml-3 block text-sm font-medium text-gray-700">
+                    Escalate emergency messages
+                  </label>
+                </div>
+                {watchedValues.escalation?.enabled && (
+                  <>
+                    <div className="space-y-2">
+                      <span className="block text-sm font-medium text-gray-700">On-call contacts</span>
+                      {contactFields.length === 0 && (
+                        <p className="text-sm text-gray-500">No one is on call yet</p>
+                      )}
+                      {contactFields.map((field, index) => (
+                        <div key={field.id} className="grid grid-cols-12 gap-2 items-start">
+                          <div className="col-span-5">
+                            <input
+                              {...register(`escalation.contacts.${index}.name`)}
+                              placeholder="Name"
+                              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                            />
+                            {errors.escalation?.contacts?.[index]?.name && (
+                              <p className="mt-1 text-sm text-red-600">{errors.escalation.contacts[index]?.name?.message}</p>
+                            )}
+                          </div>
+                          <div className="col-span-6">
+                            <input
+                              {...register(`escalation.contacts.${index}.phone_number`)}
+                              type="tel"
+                              placeholder="+1 (555) 123-4567"
+                              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                            />
+                            {errors.escalation?.contacts?.[index]?.phone_number && (
+                              <p className="mt-1 text-sm text-red-600">{errors.escalation.contacts[index]?.phone_number?.message}</p>
+                            )}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => removeContact(index)}
+                            className="col-span-1 flex justify-center pt-2 text-gray-400 hover:text-red-600"
+                            aria-label="Remove contact"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => appendContact({ name: '', phone_number: '' })}
+                        className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add contact
+                      </button>
+                    </div>
+                    <div>
+                      <label htmlFor="escalation_webhook_url" className="block text-sm font-medium text-gray-700">
+                        Webhook URL (optional)
+                      </label>
+                      <input
+                        {...register('escalation.webhook_url')}
+                        id="escalation_webhook_url"
+                        type="url"
+                        placeholder="https://hooks.example.com/emergency"
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">Receives a JSON POST for each alert, e.g. to forward to email or Slack</p>
+                      {errors.escalation?.webhook_url && (
+                        <p className="mt-1 text-sm text-red-600">{errors.escalation.webhook_url.message}</p>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                      <div>
+                        <label htmlFor="escalation_repeat_minutes" className="block text-sm font-medium text-gray-700">
+                          Repeat every (minutes)
+                        </label>
+                        <input
+                          {...register('escalation.repeat_minutes', { valueAsNumber: true })}
+                          id="escalation_repeat_minutes"
+                          type="number"
+                          step="1"
+                          min="1"
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                        {errors.escalation?.repeat_minutes && (
+                          <p className="mt-1 text-sm text-red-600">{errors.escalation.repeat_minutes.message}</p>
+                        )}
+                      </div>
+                      <div>
+                        <label htmlFor="escalation_max_attempts" className="block text-sm font-medium text-gray-700">
+                          Maximum alerts
+                        </label>
+                        <input
+                          {...register('escalation.max_attempts', { valueAsNumber: true })}
+                          id="escalation_max_attempts"
+                          type="number"
+                          step="1"
+                          min="1"
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        />
+                        {errors.escalation?.max_attempts && (
+                          <p className="mt-1 text-sm text-red-600">{errors.escalation.max_attempts.message}</p>
+                        )}
+                      </div>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
 
@@ -178,6 +860,37 @@ const Settings: React.FC = () => {
             <div>
               <h3 className="text-lg font-medium text-gray-900 mb-4">GST Settings</h3>
               <div className="space-y-4">
+                <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                  <div>
+                    <label htmlFor="province" className="block text-sm font-medium text-gray-700">
+                      Province / Territory
+                    </label>
+                    <select
+                      {...register('province')}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    >
+                      {PROVINCES.map(province => (
+                        <option key={province.code} value={province.code}>{province.name}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {hstRate ? `HST (${hstRate}%) is charged instead of GST` : 'GST (5%) is charged on taxable items'}
+                    </p>
+                  </div>
+                  {provincialTax && (
+                    <div className="flex items-center mt-6">
+                      <input
+                        {...register('apply_provincial_tax')}
+                        id="apply_provincial_tax"
+                        type="checkbox"
+                        className="focus:ring-primary-500 h-4 w-4 text-primary-600 border-gray-300 rounded"
+                      />
+                      <label htmlFor="apply_provincial_tax" className="ml-3 block text-sm font-medium text-gray-700">
+                        Also charge {provincialTax.name} ({provincialTax.rate}%)
+                      </label>
+                    </div>
+                  )}
+                </div>
                 <div>
                   <label className="text-base font-medium text-gray-900">Apply GST to:</label>
                   <div className="mt-2 space-y-2">
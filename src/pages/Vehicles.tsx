@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react'
+import { Car, Plus, Search, Eye, Pencil, Trash2, User, FileText, Calendar, ClipboardList, Receipt } from 'lucide-react'
+import type { Vehicle, VehicleHistory } from '../types'
+import { describeVehicle, type VehicleDetails } from '../services/vehicles'
+import { useVehicles } from '../hooks/useVehicles'
+import { useCustomers } from '../hooks/useCustomers'
+import { formatPhoneNumber } from '../utils/phone'
+import VehicleForm from '../components/VehicleForm'
+
+/**
+ * Vehicles Component
+ *
+ * The vehicles the shop works on, featuring:
+ * - VIN, year, make, model, engine, trim, mileage and plate for each vehicle
+ * - Offline VIN check and decoding of the year and make
+ * - The owner, linked to the customer database
+ * - Service history: every quote, appointment, tech sheet and invoice for the vehicle
+ * - Search by VIN, plate, owner or description
+ */
+const Vehicles: React.FC = () => {
+  const { vehicles, isLoading, createVehicle, updateVehicle, deleteVehicle, getVehicleHistory, refreshVehicles } = useVehicles()
+  const { customers } = useCustomers()
+  // Looked up from the list so the open vehicle follows live updates
+  const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null)
+  const selectedVehicle = vehicles.find(v => v.id === selectedVehicleId) || null
+  const [history, setHistory] = useState<VehicleHistory | null>(null)
+  // null when the form is closed, 'new' when adding
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+
+  useEffect(() => {
+    setHistory(null)
+    if (selectedVehicleId) {
+      getVehicleHistory(selectedVehicleId).then(setHistory)
+    }
+  }, [selectedVehicleId])
+
+  const getOwner = (vehicle: Vehicle) => customers.find(c => c.id === vehicle.customer_id)
+
+  const describeOwner = (vehicle: Vehicle) => {
+    const owner = getOwner(vehicle)
+    return owner ? owner.full_name || formatPhoneNumber(owner.phone_number) : 'No owner on file'
+  }
+
+  const term = searchTerm.trim().toLowerCase()
+  const filteredVehicles = vehicles.filter(vehicle => !term ||
+    describeVehicle(vehicle).toLowerCase().includes(term) ||
+    vehicle.vin?.toLowerCase().includes(term) ||
+    vehicle.plate?.toLowerCase().includes(term) ||
+    describeOwner(vehicle).toLowerCase().includes(term)
+  )
+
+  const handleSave = async (details: VehicleDetails) => {
+    if (!editingId) return
+    const saved = editingId === 'new'
+      ? await createVehicle(details)
+      : await updateVehicle(editingId, details)
+    if (saved) {
+      setEditingId(null)
+    }
+  }
+
+  const handleDelete = async (vehicle: Vehicle) => {
+    if (!window.confirm(`Delete ${describeVehicle(vehicle)}? Its quotes, appointments and invoices are kept but no longer linked to it.`)) return
+    if (await deleteVehicle(vehicle.id)) {
+      setSelectedVehicleId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Vehicles</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Vehicle details, owners and service history
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={refreshVehicles}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={() => setEditingId('new')}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Vehicle
+          </button>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white shadow rounded-lg p-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search vehicles by VIN, plate, owner, make or model..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+      </div>
+
+      {/* Vehicle List */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          {filteredVehicles.length === 0 ? (
+            <div className="text-center py-12">
+              <Car className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                {vehicles.length === 0 ? 'No vehicles yet' : 'No vehicles match your search'}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {vehicles.length === 0
+                  ? 'Add a vehicle to start tracking its service history.'
+                  : 'Try adjusting your search terms.'
+                }
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {filteredVehicles.map((vehicle) => (
+                <div key={vehicle.id} className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h4 className="text-lg font-medium text-gray-900 mb-2">{describeVehicle(vehicle)}</h4>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
+                        <div className="flex items-center">
+                          <User className="h-4 w-4 mr-2" />
+                          {describeOwner(vehicle)}
+                        </div>
+                        {vehicle.plate && (
+                          <div>
+                            <span className="font-medium">Plate:</span> {vehicle.plate}
+                          </div>
+                        )}
+                        {vehicle.vin && (
+                          <div className="font-mono">{vehicle.vin}</div>
+                        )}
+                        {vehicle.mileage !== undefined && (
+                          <div>{vehicle.mileage.toLocaleString()} km</div>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setSelectedVehicleId(vehicle.id)}
+                      className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      View
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Vehicle Detail Modal */}
+      {selectedVehicle && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-4xl shadow-lg rounded-md bg-white">
+            <div className="mt-3">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-medium text-gray-900">{describeVehicle(selectedVehicle)}</h3>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setEditingId(selectedVehicle.id)}
+                    className="inline-flex items-center text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(selectedVehicle)}
+                    className="inline-flex items-center text-sm text-gray-600 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setSelectedVehicleId(null)}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Left Column - Vehicle Details */}
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Vehicle Details</h4>
+                    <div className="space-y-2 text-sm">
+                      <div><span className="font-medium">Owner:</span> {describeOwner(selectedVehicle)}</div>
+                      <div><span className="font-medium">VIN:</span> <span className="font-mono">{selectedVehicle.vin || 'Not recorded'}</span></div>
+                      <div><span className="font-medium">Year:</span> {selectedVehicle.year || 'Not recorded'}</div>
+                      <div><span className="font-medium">Make:</span> {selectedVehicle.make || 'Not recorded'}</div>
+                      <div><span className="font-medium">Model:</span> {selectedVehicle.model || 'Not recorded'}</div>
+                      {selectedVehicle.engine && <div><span className="font-medium">Engine:</span> {selectedVehicle.engine}</div>}
+                      {selectedVehicle.trim && <div><span className="font-medium">Trim:</span> {selectedVehicle.trim}</div>}
+                      {selectedVehicle.mileage !== undefined && (
+                        <div><span className="font-medium">Mileage:</span> {selectedVehicle.mileage.toLocaleString()} km</div>
+                      )}
+                      {selectedVehicle.plate && <div><span className="font-medium">Plate:</span> {selectedVehicle.plate}</div>}
+                    </div>
+                  </div>
+                  {selectedVehicle.notes && (
+                    <div>
+                      <h4 className="font-medium text-gray-900 mb-2">Notes</h4>
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{selectedVehicle.notes}</p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Right Column - Service History */}
+                <div className="space-y-4">
+                  <h4 className="font-medium text-gray-900">Service History</h4>
+                  {!history ? (
+                    <p className="text-sm text-gray-500">Loading...</p>
+                  ) : (
+                    <>
+                      <div>
+                        <h5 className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                          <Calendar className="h-4 w-4 mr-1" />
+                          Appointments
+                        </h5>
+                        {history.appointments.length === 0 && <p className="text-sm text-gray-500">None</p>}
+                        {history.appointments.map(appointment => (
+                          <div key={appointment.id} className="p-2 bg-gray-50 rounded text-sm mb-1">
+                            <div className="flex justify-between">
+                              <span>{appointment.service_type || 'Appointment'}</span>
+                              <span className="text-gray-500">{appointment.date} {appointment.time}</span>
+                            </div>
+                            <div className="text-xs text-gray-500 capitalize">{appointment.status}</div>
+                          </div>
+                        ))}
+                      </div>
+                      <div>
+                        <h5 className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                          <FileText className="h-4 w-4 mr-1" />
+                          Quotes
+                        </h5>
+                        {history.quotes.length === 0 && <p className="text-sm text-gray-500">None</p>}
+                        {history.quotes.map(quote => (
+                          <div key={quote.id} className="p-2 bg-gray-50 rounded text-sm mb-1">
+                            <div className="flex justify-between">
+                              <span>{quote.description}</span>
+                              <span className="text-gray-500">${quote.total_cost.toFixed(2)}</span>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              <span className="capitalize">{quote.status}</span> · {new Date(quote.created_at).toLocaleDateString()}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <div>
+                        <h5 className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                          <ClipboardList className="h-4 w-4 mr-1" />
+                          Tech Sheets
+                        </h5>
+                        {history.tech_sheets.length === 0 && <p className="text-sm text-gray-500">None</p>}
+                        {history.tech_sheets.map(sheet => (
+                          <div key={sheet.id} className="p-2 bg-gray-50 rounded text-sm mb-1">
+                            <div className="flex justify-between">
+                              <span>{sheet.title}</span>
+                              <span className="text-gray-500">{new Date(sheet.created_at).toLocaleDateString()}</span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <div>
+                        <h5 className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                          <Receipt className="h-4 w-4 mr-1" />
+                          Invoices
+                        </h5>
+                        {history.invoices.length === 0 && <p className="text-sm text-gray-500">None</p>}
+                        {history.invoices.map(invoice => (
+                          <div key={invoice.id} className="p-2 bg-gray-50 rounded text-sm mb-1">
+                            <div className="flex justify-between">
+                              <span>{invoice.invoice_number} · {invoice.description}</span>
+                              <span className="text-gray-500">${invoice.total.toFixed(2)}</span>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              <span className="capitalize">{invoice.status}</span> · {new Date(invoice.issued_at).toLocaleDateString()}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Add / Edit Vehicle Modal */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-medium text-gray-900">
+                {editingId === 'new' ? 'Add Vehicle' : 'Edit Vehicle'}
+              </h3>
+              <button
+                onClick={() => setEditingId(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ×
+              </button>
+            </div>
+            <VehicleForm
+              key={editingId}
+              vehicle={editingId === 'new' ? undefined : vehicles.find(v => v.id === editingId)}
+              customers={customers}
+              onSubmit={handleSave}
+              onCancel={() => setEditingId(null)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Vehicles
@@ -3,14 +3,33 @@ dotenv.config()
 
 import express from 'express'
 import cors from 'cors'
-import { handleOpenPhoneWebhook } from '../api/webhooks/openphone'
+import { allowUnsignedWebhooks, handleOpenPhoneWebhook, openPhoneQueue, type RawBodyRequest } from '../api/webhooks/openphone'
+import { getDeadLetters, retryJob } from '../api/webhooks/jobs'
+import { getMessages, markMessageAsRead, sendReply, approveDraft, discardDraft, acknowledgeEmergency } from '../api/messages'
+import { getConversations, closeConversation, snoozeConversation, reopenConversation, updateConversation } from '../api/conversations'
+import { getScheduledMessages, scheduleMessage, updateScheduledMessage, cancelScheduledMessage } from '../api/scheduledMessages'
+import { getConsents, getConsent, updateConsent } from '../api/consent'
+import { getCustomers, getCustomer, createCustomer, updateCustomer, mergeCustomer, deleteCustomer, acceptExtraction, dismissExtraction, getCustomerDuplicates, markNotDuplicate, linkCustomerRecord } from '../api/customers'
+import { getVehicles, getVehicle, getVehicleHistory, createVehicle, updateVehicle, deleteVehicle } from '../api/vehicles'
+import { messageProcessor } from '../services/messageProcessor'
+import { createCollectionRouter } from '../api/collections'
+import { getPreferences, updatePreferences } from '../api/settings'
+import { getDataStore } from '../services/storage'
+import { uploadMedia } from '../api/media'
+import { streamEvents, getChanges } from '../api/events'
+import { getMediaDir, MAX_MEDIA_BYTES, MEDIA_ROUTE } from '../services/mediaCache'
 
 const app = express()
 const PORT = process.env.PORT || 3001
 
 // Middleware
 app.use(cors())
-app.use(express.json())
+// Keep the raw body so webhook signatures can be checked against it
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as RawBodyRequest).rawBody = buf
+  }
+}))
 app.use(express.urlencoded({ extended: true }))
 
 // Health check endpoint
@@ -18,13 +37,144 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() })
 })
 
+// Live updates: a server-sent event stream, with incremental polling as a fallback
+app.get('/api/events', streamEvents)
+app.get('/api/changes', getChanges)
+
+// Shop preferences (auto-responder, pricing, taxes) shared by every browser
+app.get('/api/settings/preferences', getPreferences)
+app.put('/api/settings/preferences', updatePreferences)
+
+// MMS attachments: cached customer photos and files attached to replies
+app.use(MEDIA_ROUTE, express.static(getMediaDir(), { maxAge: '7d' }))
+app.post('/api/media', express.raw({ type: () => true, limit: MAX_MEDIA_BYTES }), uploadMedia)
+
+// Messages
+app.get('/api/messages', getMessages)
+app.post('/api/messages/:id/read', markMessageAsRead)
+app.post('/api/messages/reply', sendReply)
+app.post('/api/messages/:id/draft/approve', approveDraft)
+app.post('/api/messages/:id/draft/discard', discardDraft)
+app.post('/api/messages/:id/acknowledge', acknowledgeEmergency)
+
+// Texts to send later: edit or cancel until they go out
+app.get('/api/scheduled-messages', getScheduledMessages)
+app.post('/api/scheduled-messages', scheduleMessage)
+app.patch('/api/scheduled-messages/:id', updateScheduledMessage)
+app.post('/api/scheduled-messages/:id/cancel', cancelScheduledMessage)
+
+// Customers: validated create and edit, merge a duplicate into another
+app.get('/api/customers', getCustomers)
+app.get('/api/customers/duplicates', getCustomerDuplicates)
+app.get('/api/customers/:id', getCustomer)
+app.post('/api/customers', createCustomer)
+app.patch('/api/customers/:id', updateCustomer)
+app.post('/api/customers/:id/merge', mergeCustomer)
+app.post('/api/customers/:id/not-duplicate', markNotDuplicate)
+app.delete('/api/customers/:id', deleteCustomer)
+app.post('/api/customers/:id/extractions/:reviewId/accept', acceptExtraction)
+app.post('/api/customers/:id/extractions/:reviewId/dismiss', dismissExtraction)
+
+// Vehicles, with their VIN details and service history
+app.get('/api/vehicles', getVehicles)
+app.get('/api/vehicles/:id', getVehicle)
+app.get('/api/vehicles/:id/history', getVehicleHistory)
+app.post('/api/vehicles', createVehicle)
+app.patch('/api/vehicles/:id', updateVehicle)
+app.delete('/api/vehicles/:id', deleteVehicle)
+
+// SMS consent (opt-outs)
+app.get('/api/consents', getConsents)
+app.get('/api/consents/:phone', getConsent)
+app.put('/api/consents/:phone', updateConsent)
+
+// Conversation threads: close, snooze until a date, reopen, assign and tag
+app.get('/api/conversations', getConversations)
+app.patch('/api/conversations/:id', updateConversation)
+app.post('/api/conversations/:id/close', closeConversation)
+app.post('/api/conversations/:id/snooze', snoozeConversation)
+app.post('/api/conversations/:id/reopen', reopenConversation)
+
+// Stored collections shared by every browser. Quotes, appointments and
+// invoices are linked to the customer with their (normalized) number.
+app.use('/api/quotes', createCollectionRouter(async () => (await getDataStore()).quotes, 'quotes', linkCustomerRecord))
+app.use('/api/appointments', createCollectionRouter(async () => (await getDataStore()).appointments, 'appointments', linkCustomerRecord))
+app.use('/api/tech-sheets', createCollectionRouter(async () => (await getDataStore()).techSheets, 'techSheets'))
+app.use('/api/invoices', createCollectionRouter(async () => (await getDataStore()).invoices, 'invoices', linkCustomerRecord))
+app.use('/api/tasks', createCollectionRouter(async () => (await getDataStore()).tasks, 'tasks'))
+app.use('/api/reply-templates', createCollectionRouter(async () => (await getDataStore()).replyTemplates, 'templates'))
+app.use('/api/parts', createCollectionRouter(async () => (await getDataStore()).parts, 'parts'))
+
 // OpenPhone webhook endpoint
 app.post('/api/webhooks/openphone', handleOpenPhoneWebhook)
 
+// Webhook jobs that failed every retry
+app.get('/api/webhooks/jobs/dead', getDeadLetters)
+app.post('/api/webhooks/jobs/:id/retry', retryJob)
+
+// Background sweep: retry failed webhook jobs, send AI drafts whose approval
+// window has passed and scheduled texts that are due, remind customers of
+// upcoming appointments, repeat emergency alerts nobody has acknowledged and
+// reopen snoozed conversations that are due. A slow pass (OpenPhone or
+// OpenAI lagging) makes the next one skip rather than send everything twice.
+const SWEEP_INTERVAL_MS = 60 * 1000
+let isSweeping = false
+setInterval(async () => {
+  if (isSweeping) return
+  isSweeping = true
+  try {
+    await openPhoneQueue.processDue()
+    await openPhoneQueue.prune()
+
+    await messageProcessor.initialize()
+    const sent = await messageProcessor.sendDueDrafts()
+    if (sent > 0) {
+      console.log(`Auto-sent ${sent} unreviewed draft${sent === 1 ? '' : 's'}`)
+    }
+    const scheduledSent = await messageProcessor.sendDueScheduledMessages()
+    if (scheduledSent > 0) {
+      console.log(`⏰ Sent ${scheduledSent} scheduled text${scheduledSent === 1 ? '' : 's'}`)
+    }
+    const remindersSent = await messageProcessor.sendDueAppointmentReminders()
+    if (remindersSent > 0) {
+      console.log(`🔔 Sent ${remindersSent} appointment reminder${remindersSent === 1 ? '' : 's'}`)
+    }
+    await messageProcessor.processDueEscalations()
+    await messageProcessor.wakeSnoozedConversations()
+  } catch (error) {
+    console.error('Background sweep failed:', error)
+  } finally {
+    isSweeping = false
+  }
+}, SWEEP_INTERVAL_MS)
+
 // Start server
 app.listen(PORT, () => {
   console.log(`Webhook server running on port ${PORT}`)
   console.log(`OpenPhone webhook URL: http://localhost:${PORT}/api/webhooks/openphone`)
+  if (!process.env.OPENPHONE_WEBHOOK_SECRET) {
+    console.warn(allowUnsignedWebhooks()
+      ? '⚠️ OPENPHONE_WEBHOOK_SECRET is not set - accepting UNSIGNED webhooks (ALLOW_UNSIGNED_WEBHOOKS=true)'
+      : '⚠️ OPENPHONE_WEBHOOK_SECRET is not set - all webhooks will be rejected')
+  }
+
+  // Numbers saved before normalization are rewritten to E.164 once per start
+  messageProcessor.initialize()
+    .then(() => messageProcessor.normalizeStoredPhoneNumbers())
+    .then(changed => {
+      if (changed > 0) {
+        console.log(`📞 Normalized phone numbers on ${changed} stored record${changed === 1 ? '' : 's'}`)
+      }
+    })
+    .catch(error => console.error('Failed to normalize stored phone numbers:', error))
+    // Threads are backfilled after, so they're keyed by the normalized numbers
+    .then(() => messageProcessor.backfillConversations())
+    .then(updated => {
+      if (updated > 0) {
+        console.log(`💬 Backfilled ${updated} conversation thread${updated === 1 ? '' : 's'}`)
+      }
+    })
+    .catch(error => console.error('Failed to backfill conversation threads:', error))
 })
 
 export default app
\ No newline at end of file
@@ -0,0 +1,221 @@
+import { format, parseISO } from 'date-fns'
+import type { Repository } from './storage'
+import type { Appointment, AppointmentReminder, AppointmentReminderSettings, Message } from '../types'
+import { getLocalTime, getZonedInstant } from '../utils/autoResponder'
+import { isWithinQuietHours, type QuietHoursWindow } from '../utils/quietHours'
+import { renderTemplate } from '../utils/replyTemplates'
+import { isSamePhoneNumber } from '../utils/phone'
+
+/**
+ * Appointment Reminders
+ *
+ * The server's sweep texts customers before their appointments, once per
+ * reminder rule (e.g. 24 and 2 hours ahead). Each reminder is logged on the
+ * appointment, keyed by the time it reminded about, so moving an appointment
+ * starts its reminders over. If several rules are due at once (the
+ * appointment was booked late) only the closest one is sent.
+ *
+ * Customers reply C to confirm or X to cancel, which updates the
+ * appointment's status and gets a short acknowledgement back. CANCEL is also
+ * a carrier opt-out keyword, so it (like STOP) is handled as an opt-out
+ * first and then cancels the reminded appointment without a reply.
+ */
+
+export const DEFAULT_APPOINTMENT_REMINDER_SETTINGS: AppointmentReminderSettings = {
+  enabled: false,
+  rules: [{ hours_before: 24 }, { hours_before: 2 }],
+  text: 'Hi {customer_first_name}, this is {business_name} reminding you of your {service} appointment on {date} at {time}.'
+}
+
+export const getAppointmentReminderSettings = (
+  settings?: { appointment_reminders?: AppointmentReminderSettings } | null
+): AppointmentReminderSettings => {
+  return { ...DEFAULT_APPOINTMENT_REMINDER_SETTINGS, ...(settings?.appointment_reminders || {}) }
+}
+
+export type AppointmentReminderReplyAction = 'confirmed' | 'cancelled'
+
+const CONFIRM_REPLIES = ['c', 'confirm', 'confirmed']
+const CANCEL_REPLIES = ['x', 'cancel', 'cancelled', 'canceled']
+
+/**
+ * Reads a reply to a reminder. Anything but a bare confirm or cancel
+ * returns null and is handled like any other text.
+ */
+export const parseReminderReply = (body: string): AppointmentReminderReplyAction | null => {
+  const reply = body.trim().toLowerCase().replace(/[.!]+$/, '')
+  if (CONFIRM_REPLIES.includes(reply)) return 'confirmed'
+  if (CANCEL_REPLIES.includes(reply)) return 'cancelled'
+  return null
+}
+
+export type ReminderSend = (phoneNumber: string, body: string) => Promise<Message>
+
+const appointmentTime = (appointment: Appointment) => `${appointment.date} ${appointment.time}`
+
+const describeDate = (appointment: Appointment) => format(parseISO(appointment.date), 'EEE, MMM d')
+
+const describeTime = (appointment: Appointment) => format(parseISO(`${appointment.date}T${appointment.time}`), 'h:mm a')
+
+export class AppointmentReminderService {
+  private getRepository: () => Promise<Repository<Appointment>>
+  private send: ReminderSend
+  private isRunning = false
+
+  constructor(getRepository: () => Promise<Repository<Appointment>>, send: ReminderSend) {
+    this.getRepository = getRepository
+    this.send = send
+  }
+
+  /**
+   * Sends every reminder that is due. Returns the number sent.
+   * Nothing goes out during quiet hours; due reminders wait until they end.
+   */
+  async processDue(settings: AppointmentReminderSettings, quietHours: QuietHoursWindow, businessName: string): Promise<number> {
+    if (!settings.enabled || this.isRunning) return 0
+    const now = new Date()
+    if (isWithinQuietHours(quietHours, now)) return 0
+
+    this.isRunning = true
+    try {
+      const repository = await this.getRepository()
+      const appointments = await repository.list()
+      let sent = 0
+
+      for (const appointment of appointments) {
+        if (appointment.status !== 'scheduled' && appointment.status !== 'confirmed') continue
+
+        const startsAt = getZonedInstant(appointment.date, appointment.time, quietHours.timezone)
+        if (startsAt <= now) continue
+
+        const logged = (appointment.reminders || []).filter(r => r.appointment_time === appointmentTime(appointment))
+        const due = settings.rules
+          .filter(rule => rule.hours_before > 0)
+          .filter(rule => !logged.some(r => r.hours_before === rule.hours_before))
+          .filter(rule => startsAt.getTime() - rule.hours_before * 60 * 60 * 1000 <= now.getTime())
+          .sort((a, b) => a.hours_before - b.hours_before)
+        if (due.length === 0) continue
+
+        const [closest, ...missed] = due
+        const reminder = await this.sendReminder(appointment, closest.hours_before, settings, businessName)
+        const skipped: AppointmentReminder[] = missed.map(rule => ({
+          hours_before: rule.hours_before,
+          appointment_time: appointmentTime(appointment),
+          status: 'skipped',
+          sent_at: reminder.sent_at
+        }))
+
+        await repository.update(appointment.id, {
+          reminders: [...(appointment.reminders || []), reminder, ...skipped]
+        })
+        if (reminder.status === 'sent') sent++
+      }
+      return sent
+    } finally {
+      this.isRunning = false
+    }
+  }
+
+  /**
+   * Confirms or cancels the customer's next reminded appointment when they
+   * text back C or X. Returns the updated appointment, or null if the text
+   * isn't a reminder reply.
+   */
+  async handleReply(phoneNumber: string, body: string, messageId: string, timezone: string): Promise<Appointment | null> {
+    const action = parseReminderReply(body)
+    if (!action) return null
+
+    const repository = await this.getRepository()
+    const appointment = await this.findRemindedAppointment(repository, phoneNumber, timezone)
+    if (!appointment) return null
+
+    const updated = await repository.update(appointment.id, {
+      status: action,
+      reminder_reply: { action, message_id: messageId, received_at: new Date().toISOString() }
+    })
+    console.log(`📅 Appointment ${appointment.id} ${action} by text from ${phoneNumber}`)
+
+    const acknowledgement = action === 'confirmed'
+      ? `Thanks, you're confirmed for ${describeDate(appointment)} at ${describeTime(appointment)}. See you then!`
+      : `Your appointment on ${describeDate(appointment)} at ${describeTime(appointment)} has been cancelled. Text us any time to rebook.`
+    try {
+      await this.send(phoneNumber, acknowledgement)
+    } catch (error) {
+      console.error(`Failed to acknowledge reminder reply for appointment ${appointment.id}:`, error)
+    }
+    return updated
+  }
+
+  /**
+   * Cancels the customer's next reminded appointment when they opt out of
+   * texts, since they can no longer confirm it or be reminded. Nothing is
+   * sent back; the opt-out confirmation is the last text they get. Returns
+   * the cancelled appointment, or null if none was waiting on a reply.
+   */
+  async handleOptOut(phoneNumber: string, keyword: string, messageId: string, timezone: string): Promise<Appointment | null> {
+    const repository = await this.getRepository()
+    const appointment = await this.findRemindedAppointment(repository, phoneNumber, timezone)
+    if (!appointment) return null
+
+    const updated = await repository.update(appointment.id, {
+      status: 'cancelled',
+      reminder_reply: { action: 'cancelled', keyword, message_id: messageId, received_at: new Date().toISOString() }
+    })
+    console.log(`📅 Appointment ${appointment.id} cancelled after ${phoneNumber} texted ${keyword}`)
+    return updated
+  }
+
+  /**
+   * The customer's next upcoming appointment that a reminder was sent for
+   */
+  private async findRemindedAppointment(
+    repository: Repository<Appointment>,
+    phoneNumber: string,
+    timezone: string
+  ): Promise<Appointment | undefined> {
+    const { date, time } = getLocalTime(new Date(), timezone)
+    const now = `${date} ${time}`
+    return (await repository.list())
+      .filter(apt =>
+        isSamePhoneNumber(apt.customer_phone, phoneNumber) &&
+        (apt.status === 'scheduled' || apt.status === 'confirmed') &&
+        appointmentTime(apt) > now &&
+        apt.reminders?.some(r => r.status === 'sent')
+      )
+      .sort((a, b) => appointmentTime(a).localeCompare(appointmentTime(b)))[0]
+  }
+
+  private async sendReminder(
+    appointment: Appointment,
+    hoursBefore: number,
+    settings: AppointmentReminderSettings,
+    businessName: string
+  ): Promise<AppointmentReminder> {
+    const { text } = renderTemplate(settings.text, {
+      customer_first_name: appointment.customer_name.split(' ')[0],
+      customer_name: appointment.customer_name,
+      service: appointment.service_type,
+      vehicle: appointment.vehicle_info,
+      date: describeDate(appointment),
+      time: describeTime(appointment),
+      business_name: businessName
+    })
+    const prompt = appointment.status === 'confirmed' ? 'Reply X to cancel.' : 'Reply C to confirm or X to cancel.'
+
+    const sentAt = new Date().toISOString()
+    try {
+      const message = await this.send(appointment.customer_phone, `${text}\n\n${prompt}`)
+      console.log(`🔔 Sent ${hoursBefore}h reminder for appointment ${appointment.id}`)
+      return { hours_before: hoursBefore, appointment_time: appointmentTime(appointment), status: 'sent', sent_at: sentAt, message_id: message.id }
+    } catch (error) {
+      console.error(`Failed to send reminder for appointment ${appointment.id}:`, error)
+      return {
+        hours_before: hoursBefore,
+        appointment_time: appointmentTime(appointment),
+        status: 'failed',
+        sent_at: sentAt,
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import type { Repository } from './storage'
+import type { BusinessSettings, ConsentEvent, ConsentStatus, SmsConsent } from '../types'
+
+/**
+ * SMS Consent
+ *
+ * The registry of numbers that have opted out of texts. Customers manage it
+ * with the standard carrier keywords (STOP, START, HELP and their
+ * synonyms), and staff can record a request made in person. Every change is
+ * kept in the record's history for compliance.
+ *
+ * `OpenPhoneService.sendSMS` checks the registry before every text, so
+ * nothing reaches an opted-out number except the confirmation of its opt-out.
+ */
+
+export type ConsentKeyword = 'opt_out' | 'opt_in' | 'help'
+
+// CTIA/CWTA keywords, including the French ones Canadian carriers honour
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'ARRET', 'ARRÊT']
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES']
+const HELP_KEYWORDS = ['HELP', 'INFO', 'AIDE']
+
+/**
+ * Reads a carrier keyword. Only a text that is just the keyword counts,
+ * so "stop by Tuesday?" is an ordinary message.
+ */
+export const parseConsentKeyword = (body: string): { type: ConsentKeyword; keyword: string } | null => {
+  const keyword = body.trim().toUpperCase().replace(/[.!]+$/, '')
+  if (OPT_OUT_KEYWORDS.includes(keyword)) return { type: 'opt_out', keyword }
+  if (OPT_IN_KEYWORDS.includes(keyword)) return { type: 'opt_in', keyword }
+  if (HELP_KEYWORDS.includes(keyword)) return { type: 'help', keyword }
+  return null
+}
+
+/**
+ * The confirmation carriers require in reply to each keyword
+ */
+export const getConsentReply = (type: ConsentKeyword, settings?: Pick<BusinessSettings, 'business_name' | 'business_number' | 'phone_number'> | null): string => {
+  const businessName = settings?.business_name || 'our shop'
+  switch (type) {
+    case 'opt_out':
+      return `You have been unsubscribed from ${businessName} texts and will receive no further messages. Reply START to resubscribe.`
+    case 'opt_in':
+      return `You have been resubscribed to ${businessName} texts. Reply STOP to unsubscribe or HELP for help.`
+    default: {
+      const contact = settings?.business_number || settings?.phone_number
+      return `${businessName}: texts about your vehicle and appointments.${contact ? ` For help call ${contact}.` : ''} Msg & data rates may apply. Reply STOP to unsubscribe.`
+    }
+  }
+}
+
+/**
+ * Records are keyed by the last 10 digits, so "+1 (403) 555-1234" and
+ * "4035551234" share one
+ */
+export const getConsentId = (phoneNumber: string) => `${phoneNumber.replace(/\D/g, '').slice(-10)}_consent`
+
+export class ConsentService {
+  private getRepository: () => Promise<Repository<SmsConsent>>
+
+  constructor(getRepository: () => Promise<Repository<SmsConsent>>) {
+    this.getRepository = getRepository
+  }
+
+  async list(): Promise<SmsConsent[]> {
+    const consents = await (await this.getRepository()).list()
+    return consents.sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+  }
+
+  async get(phoneNumber: string): Promise<SmsConsent | null> {
+    return (await this.getRepository()).get(getConsentId(phoneNumber))
+  }
+
+  /**
+   * Checks if a number may be texted
+   */
+  async canText(phoneNumber: string): Promise<boolean> {
+    const consent = await this.get(phoneNumber)
+    return consent?.status !== 'opted_out'
+  }
+
+  /**
+   * Records an opt-out or opt-in and adds it to the number's history
+   */
+  async record(
+    phoneNumber: string,
+    status: ConsentStatus,
+    event: Omit<ConsentEvent, 'status' | 'at'>
+  ): Promise<SmsConsent> {
+    const repository = await this.getRepository()
+    const existing = await repository.get(getConsentId(phoneNumber))
+    const now = new Date().toISOString()
+
+    const consent = await repository.upsert({
+      id: getConsentId(phoneNumber),
+      phone_number: existing?.phone_number || phoneNumber,
+      status,
+      updated_at: now,
+      history: [...(existing?.history || []), { ...event, status, at: now }]
+    })
+    console.log(`📵 ${phoneNumber} ${status === 'opted_out' ? 'opted out of' : 'opted in to'} texts (${event.keyword || event.source})`)
+    return consent
+  }
+}
@@ -0,0 +1,185 @@
+import type { DataStore } from './storage'
+import type { Conversation, Customer, Message } from '../types'
+import { hasPhoneNumber } from './customers'
+import { isSamePhoneNumber } from '../utils/phone'
+
+/**
+ * Conversations
+ *
+ * One Conversation per phone number, updated whenever the processor stores
+ * a message or one is read, so the Messages page lists threads without
+ * grouping every message itself. Staff can close a thread, snooze it until
+ * a date, or assign and tag it. A new inbound text reopens a closed or
+ * snoozed thread, and snoozed threads reopen on their own once the snooze
+ * time passes.
+ */
+
+// Characters of the latest message shown in the thread list
+const PREVIEW_LENGTH = 120
+
+const toPreview = (message: Message) => {
+  if (!message.body && message.media?.length) return '📷 Photo'
+  return message.body.length > PREVIEW_LENGTH ? `${message.body.slice(0, PREVIEW_LENGTH)}…` : message.body
+}
+
+const countUnread = (messages: Message[], phoneNumber: string) =>
+  messages.filter(m => m.phone_number === phoneNumber && m.direction === 'inbound' && !m.read).length
+
+export class ConversationService {
+  private store: DataStore
+
+  constructor(store: DataStore) {
+    this.store = store
+  }
+
+  async findByPhone(phoneNumber: string): Promise<Conversation | null> {
+    const conversations = await this.store.conversations.list()
+    return conversations.find(c => isSamePhoneNumber(c.phone_number, phoneNumber)) || null
+  }
+
+  /**
+   * Updates (or starts) the thread for a stored message
+   */
+  async recordMessage(message: Message, customer?: Customer | null): Promise<Conversation> {
+    const [existing, messages] = await Promise.all([
+      this.findByPhone(message.phone_number),
+      this.store.messages.list()
+    ])
+    const now = new Date().toISOString()
+    // Delivery updates and late echoes can be older than the latest message
+    const isLatest = !existing || message.timestamp >= existing.last_message_at
+    const reopens = message.direction === 'inbound' && !!existing && existing.status !== 'open'
+
+    const conversation: Conversation = {
+      // Keyed by number so threads started in the same instant never collide
+      id: existing?.id || `${message.phone_number.replace(/\D/g, '')}_conversation`,
+      phone_number: message.phone_number,
+      customer_id: customer?.id || existing?.customer_id,
+      customer_name: customer?.full_name || existing?.customer_name,
+      status: reopens ? 'open' : existing?.status || 'open',
+      snoozed_until: reopens ? undefined : existing?.snoozed_until,
+      assignee: existing?.assignee,
+      tags: existing?.tags || [],
+      last_message_at: isLatest ? message.timestamp : existing!.last_message_at,
+      last_message_preview: isLatest ? toPreview(message) : existing!.last_message_preview,
+      last_message_direction: isLatest ? message.direction : existing!.last_message_direction,
+      unread_count: countUnread(messages, message.phone_number),
+      created_at: existing?.created_at || now,
+      updated_at: now,
+      closed_at: reopens ? undefined : existing?.closed_at
+    }
+    return this.store.conversations.upsert(conversation)
+  }
+
+  /**
+   * Recounts unread messages after some were marked read
+   */
+  async refreshUnread(phoneNumber: string): Promise<void> {
+    const conversation = await this.findByPhone(phoneNumber)
+    if (!conversation) return
+
+    const unread = countUnread(await this.store.messages.list(), phoneNumber)
+    if (unread !== conversation.unread_count) {
+      await this.store.conversations.update(conversation.id, { unread_count: unread, updated_at: new Date().toISOString() })
+    }
+  }
+
+  /**
+   * Lists threads newest first, showing each thread's current customer name
+   */
+  async list(): Promise<Conversation[]> {
+    const [conversations, customers] = await Promise.all([
+      this.store.conversations.list(),
+      this.store.customers.list()
+    ])
+
+    return conversations
+      .map(conversation => {
+        const customer = customers.find(c => hasPhoneNumber(c, conversation.phone_number))
+        return customer ? { ...conversation, customer_id: customer.id, customer_name: customer.full_name } : conversation
+      })
+      .sort((a, b) => b.last_message_at.localeCompare(a.last_message_at))
+  }
+
+  /**
+   * Starts threads for messages stored before conversations existed and
+   * saves customer names that changed since. Run once at startup.
+   * Returns the number of threads created or updated.
+   */
+  async backfill(): Promise<number> {
+    const [conversations, messages, customers] = await Promise.all([
+      this.store.conversations.list(),
+      this.store.messages.list(),
+      this.store.customers.list()
+    ])
+
+    const known = new Set(conversations.map(c => c.phone_number))
+    const latestByPhone = new Map<string, Message>()
+    for (const message of messages) {
+      if (known.has(message.phone_number)) continue
+      const latest = latestByPhone.get(message.phone_number)
+      if (!latest || message.timestamp > latest.timestamp) {
+        latestByPhone.set(message.phone_number, message)
+      }
+    }
+    for (const message of latestByPhone.values()) {
+      await this.recordMessage(message, customers.find(c => hasPhoneNumber(c, message.phone_number)))
+    }
+
+    let renamed = 0
+    for (const conversation of conversations) {
+      const customer = customers.find(c => hasPhoneNumber(c, conversation.phone_number))
+      if (customer && (customer.id !== conversation.customer_id || customer.full_name !== conversation.customer_name)) {
+        await this.store.conversations.update(conversation.id, { customer_id: customer.id, customer_name: customer.full_name })
+        renamed++
+      }
+    }
+    return latestByPhone.size + renamed
+  }
+
+  async close(id: string): Promise<Conversation | null> {
+    const now = new Date().toISOString()
+    return this.store.conversations.update(id, { status: 'closed', snoozed_until: undefined, closed_at: now, updated_at: now })
+  }
+
+  async snooze(id: string, until: string): Promise<Conversation | null> {
+    return this.store.conversations.update(id, {
+      status: 'snoozed',
+      snoozed_until: until,
+      closed_at: undefined,
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  async reopen(id: string): Promise<Conversation | null> {
+    return this.store.conversations.update(id, {
+      status: 'open',
+      snoozed_until: undefined,
+      closed_at: undefined,
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  async assign(id: string, updates: { assignee?: string; tags?: string[] }): Promise<Conversation | null> {
+    return this.store.conversations.update(id, {
+      ...(updates.assignee !== undefined ? { assignee: updates.assignee || undefined } : {}),
+      ...(updates.tags !== undefined ? { tags: updates.tags } : {}),
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Reopens snoozed threads whose snooze has run out.
+   * Returns the number reopened.
+   */
+  async wakeSnoozed(): Promise<number> {
+    const now = new Date().toISOString()
+    const conversations = await this.store.conversations.list()
+    const due = conversations.filter(c => c.status === 'snoozed' && (!c.snoozed_until || c.snoozed_until <= now))
+
+    for (const conversation of due) {
+      await this.reopen(conversation.id)
+    }
+    return due.length
+  }
+}
@@ -0,0 +1,67 @@
+import type { Customer, CustomerDuplicate, CustomerVehicle, DuplicateReason } from '../types'
+import { normalizePhoneNumber } from '../utils/phone'
+
+/**
+ * Customer Duplicates
+ *
+ * Finds customer records that may be the same person: the same number in
+ * any format, the same name, or the same vehicle. A shared vehicle alone is
+ * only reported when one of the records has no name yet (a second phone
+ * texting about the same truck), since two named customers can own the
+ * same model. Pairs staff marked as different people are skipped.
+ */
+
+const nameKey = (customer: Customer) => (customer.full_name || '').trim().toLowerCase().replace(/\s+/g, ' ')
+
+const vehicleKey = (vehicle: CustomerVehicle) => (vehicle.make && vehicle.model
+  ? [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ')
+  : vehicle.details
+).trim().toLowerCase().replace(/\s+/g, ' ')
+
+const phoneNumbers = (customer: Customer) =>
+  [customer.phone_number, ...(customer.alternate_phone_numbers || [])].map(normalizePhoneNumber)
+
+const isDistinct = (a: Customer, b: Customer) =>
+  !!a.distinct_from?.includes(b.id) || !!b.distinct_from?.includes(a.id)
+
+/**
+ * Why two customers may be the same person, or an empty list if they
+ * don't look alike
+ */
+export const getDuplicateReasons = (a: Customer, b: Customer): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = []
+
+  const numbers = phoneNumbers(a)
+  if (phoneNumbers(b).some(phone => numbers.includes(phone))) reasons.push('phone')
+
+  const name = nameKey(a)
+  if (name && name === nameKey(b)) reasons.push('name')
+
+  const vehicles = a.vehicles.map(vehicleKey)
+  const sharesVehicle = b.vehicles.some(vehicle => vehicles.includes(vehicleKey(vehicle)))
+  if (sharesVehicle && (reasons.length > 0 || !name || !nameKey(b))) reasons.push('vehicle')
+
+  return reasons
+}
+
+/**
+ * Lists possible duplicate pairs, the strongest (shared number, then most
+ * reasons) first
+ */
+export const findDuplicateCustomers = (customers: Customer[]): CustomerDuplicate[] => {
+  const duplicates: CustomerDuplicate[] = []
+  for (let i = 0; i < customers.length; i++) {
+    for (let j = i + 1; j < customers.length; j++) {
+      const [a, b] = [customers[i], customers[j]]
+      if (isDistinct(a, b)) continue
+      const reasons = getDuplicateReasons(a, b)
+      if (reasons.length > 0) {
+        duplicates.push({ customer_ids: [a.id, b.id], reasons })
+      }
+    }
+  }
+
+  const strength = (duplicate: CustomerDuplicate) =>
+    (duplicate.reasons.includes('phone') ? 10 : 0) + duplicate.reasons.length
+  return duplicates.sort((a, b) => strength(b) - strength(a))
+}
@@ -0,0 +1,107 @@
+import type { Customer, CustomerExtraction, CustomerVehicle, ServiceHistoryEntry } from '../types'
+
+/**
+ * Customer Extraction
+ *
+ * Inbound texts are read by the AI for the client's name, vehicle and
+ * symptoms ("Hi it's Dave, my 2012 F-150 is grinding"). Confident
+ * extractions are saved to the customer straight away; the rest wait on the
+ * customer's profile for staff to accept or dismiss.
+ *
+ * Saved details never overwrite what staff entered: a name is only filled
+ * in when the customer has none, and a vehicle already on file only gains
+ * the year, make or model it was missing.
+ */
+
+// Extractions the AI is less sure of than this are held for review
+export const EXTRACTION_REVIEW_THRESHOLD = 0.7
+
+export const SERVICE_HISTORY_TEXT_TYPE = 'Text message'
+
+const same = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+/**
+ * Checks if an extraction found anything worth saving
+ */
+export const hasExtractedDetails = (extraction: CustomerExtraction): boolean => {
+  return !!(extraction.first_name || extraction.last_name || extraction.vehicle || extraction.symptoms.length > 0)
+}
+
+export const describeExtractedVehicle = (vehicle: CustomerExtraction['vehicle']): string => {
+  return [vehicle?.year, vehicle?.make, vehicle?.model].filter(Boolean).join(' ')
+}
+
+/**
+ * Finds the vehicle on file the extracted one refers to: same make and model
+ * (and year, when both have one), or one whose description mentions the
+ * model (or make, when there's no model)
+ */
+const findVehicle = (vehicles: CustomerVehicle[], vehicle: NonNullable<CustomerExtraction['vehicle']>): number => {
+  return vehicles.findIndex(existing => {
+    if (vehicle.year && existing.year && vehicle.year !== existing.year) return false
+    if (existing.make || existing.model) {
+      return (!vehicle.make || !existing.make || same(vehicle.make, existing.make))
+        && (!vehicle.model || !existing.model || same(vehicle.model, existing.model))
+        && (same(vehicle.make, existing.make) || same(vehicle.model, existing.model))
+    }
+    const name = vehicle.model || vehicle.make
+    return !!name && existing.details.toLowerCase().includes(name.toLowerCase())
+  })
+}
+
+/**
+ * The customer fields to save for an extraction picked up from `messageId`
+ */
+export const applyCustomerExtraction = (
+  customer: Customer,
+  extraction: CustomerExtraction,
+  messageId: string,
+  now: string = new Date().toISOString()
+): Partial<Customer> => {
+  const updates: Partial<Customer> = {}
+
+  if (!customer.first_name && !customer.last_name && (extraction.first_name || extraction.last_name)) {
+    updates.first_name = extraction.first_name
+    updates.last_name = extraction.last_name
+    updates.full_name = [extraction.first_name, extraction.last_name].filter(Boolean).join(' ')
+  }
+
+  if (extraction.vehicle) {
+    const vehicles = [...customer.vehicles]
+    const index = findVehicle(vehicles, extraction.vehicle)
+    if (index === -1) {
+      vehicles.push({ ...extraction.vehicle, details: describeExtractedVehicle(extraction.vehicle), added_at: now })
+    } else {
+      const existing = vehicles[index]
+      vehicles[index] = {
+        ...existing,
+        year: existing.year || extraction.vehicle.year,
+        make: existing.make || extraction.vehicle.make,
+        model: existing.model || extraction.vehicle.model
+      }
+    }
+    updates.vehicles = vehicles
+  }
+
+  if (extraction.symptoms.length > 0) {
+    const vehicle = describeExtractedVehicle(extraction.vehicle)
+    const entry: ServiceHistoryEntry = {
+      date: now,
+      inquiry: `${vehicle ? `${vehicle}: ` : ''}${extraction.symptoms.join('; ')}`,
+      type: SERVICE_HISTORY_TEXT_TYPE,
+      message_id: messageId
+    }
+    updates.service_history = [...customer.service_history, entry]
+  }
+
+  return updates
+}
+
+/**
+ * Checks if a text's details were already saved or held for review, so a
+ * redelivered webhook doesn't record them twice
+ */
+export const hasExtractionFor = (customer: Customer, messageId: string): boolean => {
+  return customer.service_history.some(entry => entry.message_id === messageId)
+    || !!customer.extraction_reviews?.some(review => review.message_id === messageId)
+}
@@ -0,0 +1,351 @@
+import type { DataStore } from './storage'
+import type { ContactMethod, Customer, CustomerDuplicate, CustomerExtraction, CustomerVehicle, ExtractionReview } from '../types'
+import {
+  EXTRACTION_REVIEW_THRESHOLD,
+  applyCustomerExtraction,
+  hasExtractedDetails,
+  hasExtractionFor
+} from './customerExtraction'
+import { findDuplicateCustomers } from './customerDuplicates'
+import { isSamePhoneNumber, normalizePhoneNumber } from '../utils/phone'
+
+/**
+ * Customers
+ *
+ * The shop's customer records. A record is created automatically the first
+ * time a number texts or calls in, and staff can add, edit, merge and delete
+ * them. Merging folds a duplicate into another record and keeps its phone
+ * number as an alternate, so texts from either number find the same
+ * customer. Messages, conversations, quotes, appointments, invoices, tech
+ * sheets and vehicles that belonged to the duplicate are re-linked to the
+ * kept record.
+ */
+
+export interface CustomerDetails {
+  phone_number: string
+  first_name?: string
+  last_name?: string
+  email?: string
+  address?: string
+  preferred_contact_method?: ContactMethod
+  is_repeat_customer?: boolean
+  notes?: string[]
+  vehicles?: (Omit<CustomerVehicle, 'added_at'> & { added_at?: string })[]
+}
+
+/**
+ * Checks if a number is the customer's, including numbers merged in.
+ * Numbers are compared normalized, so any format matches.
+ */
+export const hasPhoneNumber = (customer: Customer, phoneNumber: string): boolean => {
+  return isSamePhoneNumber(customer.phone_number, phoneNumber)
+    || !!customer.alternate_phone_numbers?.some(alternate => isSamePhoneNumber(alternate, phoneNumber))
+}
+
+const unique = <T>(items: T[]): T[] => Array.from(new Set(items))
+
+const buildFullName = (firstName?: string, lastName?: string) =>
+  [firstName, lastName].filter(Boolean).join(' ') || undefined
+
+/**
+ * Combines a duplicate record into the one being kept. The kept record's
+ * details win; the duplicate fills in what it is missing, and vehicles,
+ * history, notes and calls from both are combined.
+ */
+export const mergeCustomerRecords = (target: Customer, source: Customer): Customer => {
+  const vehicles = [...target.vehicles]
+  for (const vehicle of source.vehicles) {
+    if (!vehicles.some(v => v.details.toLowerCase() === vehicle.details.toLowerCase())) {
+      vehicles.push(vehicle)
+    }
+  }
+
+  const alternates = unique([
+    ...(target.alternate_phone_numbers || []),
+    source.phone_number,
+    ...(source.alternate_phone_numbers || [])
+  ].map(normalizePhoneNumber)).filter(phone => !isSamePhoneNumber(phone, target.phone_number))
+  const calls = [...(target.calls || []), ...(source.calls || [])]
+    .filter((call, index, all) => all.findIndex(c => c.call_id === call.call_id) === index)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+  const reviews = [...(target.extraction_reviews || []), ...(source.extraction_reviews || [])]
+
+  const firstName = target.first_name || source.first_name
+  const lastName = target.last_name || source.last_name
+
+  return {
+    ...target,
+    alternate_phone_numbers: alternates.length > 0 ? alternates : undefined,
+    first_name: firstName,
+    last_name: lastName,
+    full_name: target.full_name || buildFullName(firstName, lastName) || source.full_name,
+    email: target.email || source.email,
+    address: target.address || source.address,
+    preferred_contact_method: target.preferred_contact_method || source.preferred_contact_method,
+    is_repeat_customer: target.is_repeat_customer || source.is_repeat_customer,
+    vehicles,
+    service_history: [...target.service_history, ...source.service_history].sort((a, b) => a.date.localeCompare(b.date)),
+    notes: unique([...target.notes, ...source.notes]),
+    calls: calls.length > 0 ? calls : undefined,
+    extraction_reviews: reviews.length > 0 ? reviews : undefined,
+    distinct_from: unique([...(target.distinct_from || []), ...(source.distinct_from || [])])
+      .filter(id => id !== target.id && id !== source.id),
+    created_at: target.created_at < source.created_at ? target.created_at : source.created_at,
+    updated_at: new Date().toISOString()
+  }
+}
+
+export class CustomerService {
+  private store: DataStore
+
+  constructor(store: DataStore) {
+    this.store = store
+  }
+
+  /**
+   * Lists customers, most recently updated first
+   */
+  async list(): Promise<Customer[]> {
+    const customers = await this.store.customers.list()
+    return customers.sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+  }
+
+  async get(id: string): Promise<Customer | null> {
+    return this.store.customers.get(id)
+  }
+
+  async findByPhone(phoneNumber: string): Promise<Customer | null> {
+    const customers = await this.store.customers.list()
+    return customers.find(c => hasPhoneNumber(c, phoneNumber)) || null
+  }
+
+  /**
+   * Returns the customer for a phone number, creating a basic record the
+   * first time the number texts or calls in
+   */
+  async ensure(phoneNumber: string): Promise<Customer> {
+    const existing = await this.findByPhone(phoneNumber)
+    if (existing) return existing
+    return this.create({ phone_number: phoneNumber })
+  }
+
+  async create(details: CustomerDetails): Promise<Customer> {
+    const now = new Date().toISOString()
+    const customer: Customer = {
+      id: Date.now().toString() + '_customer',
+      service_history: [],
+      created_at: now,
+      updated_at: now,
+      ...this.applyDetails(details, now)
+    }
+    return this.store.customers.upsert(customer)
+  }
+
+  /**
+   * Saves edited details. Returns null if the customer doesn't exist.
+   */
+  async update(id: string, details: Partial<CustomerDetails>): Promise<Customer | null> {
+    const existing = await this.store.customers.get(id)
+    if (!existing) return null
+
+    const now = new Date().toISOString()
+    return this.store.customers.update(id, {
+      ...this.applyDetails({ ...existing, ...details }, now, existing),
+      updated_at: now
+    })
+  }
+
+  /**
+   * Lists pairs of customers that may be the same person
+   */
+  async findDuplicates(): Promise<CustomerDuplicate[]> {
+    return findDuplicateCustomers(await this.store.customers.list())
+  }
+
+  /**
+   * Records that two customers are different people, so they stop being
+   * reported as duplicates. Returns null if either doesn't exist.
+   */
+  async markDistinct(id: string, otherId: string): Promise<Customer | null> {
+    const [customer, other] = await Promise.all([
+      this.store.customers.get(id),
+      this.store.customers.get(otherId)
+    ])
+    if (!customer || !other || id === otherId) return null
+    return this.store.customers.update(id, {
+      distinct_from: unique([...(customer.distinct_from || []), otherId])
+    })
+  }
+
+  /**
+   * Folds the duplicate `sourceId` into `targetId` and deletes the
+   * duplicate. Everything linked to it moves to the kept record. Returns
+   * null if either customer doesn't exist.
+   */
+  async merge(targetId: string, sourceId: string): Promise<Customer | null> {
+    if (targetId === sourceId) return null
+    const [target, source] = await Promise.all([
+      this.store.customers.get(targetId),
+      this.store.customers.get(sourceId)
+    ])
+    if (!target || !source) return null
+
+    const merged = await this.store.customers.upsert(mergeCustomerRecords(target, source))
+    await this.store.customers.remove(sourceId)
+    const relinked = await this.relink(source, merged)
+    console.log(`👥 Merged customer ${sourceId} into ${targetId} (${relinked} linked record${relinked === 1 ? '' : 's'} moved)`)
+    return merged
+  }
+
+  /**
+   * Saves details the AI picked out of a text. Confident extractions are
+   * applied; the rest are held on the customer for review. Returns null if
+   * there was nothing to save or the text was already handled.
+   */
+  async recordExtraction(
+    customerId: string,
+    extraction: CustomerExtraction,
+    message: { id: string; body: string }
+  ): Promise<{ customer: Customer; needsReview: boolean } | null> {
+    const customer = await this.store.customers.get(customerId)
+    if (!customer || !hasExtractedDetails(extraction) || hasExtractionFor(customer, message.id)) return null
+
+    const now = new Date().toISOString()
+    if (extraction.confidence < EXTRACTION_REVIEW_THRESHOLD) {
+      const review: ExtractionReview = {
+        id: Date.now().toString() + '_extraction',
+        message_id: message.id,
+        message_body: message.body,
+        extraction,
+        created_at: now
+      }
+      const updated = await this.store.customers.update(customerId, {
+        extraction_reviews: [...(customer.extraction_reviews || []), review]
+      })
+      return updated ? { customer: updated, needsReview: true } : null
+    }
+
+    const updated = await this.store.customers.update(customerId, {
+      ...applyCustomerExtraction(customer, extraction, message.id, now),
+      updated_at: now
+    })
+    return updated ? { customer: updated, needsReview: false } : null
+  }
+
+  /**
+   * Applies (`accept`) or drops a held extraction. Returns null if the
+   * customer or review doesn't exist.
+   */
+  async resolveExtractionReview(customerId: string, reviewId: string, accept: boolean): Promise<Customer | null> {
+    const customer = await this.store.customers.get(customerId)
+    if (!customer) return null
+    const reviews = customer.extraction_reviews || []
+    const review = reviews.find(r => r.id === reviewId)
+    if (!review) return null
+
+    const remaining = reviews.filter(r => r.id !== reviewId)
+    const now = new Date().toISOString()
+    return this.store.customers.update(customerId, {
+      ...(accept ? applyCustomerExtraction(customer, review.extraction, review.message_id, now) : {}),
+      extraction_reviews: remaining.length > 0 ? remaining : undefined,
+      updated_at: now
+    })
+  }
+
+  /**
+   * Deletes a customer. Their conversations stay, without the customer link.
+   */
+  async remove(id: string): Promise<boolean> {
+    const removed = await this.store.customers.remove(id)
+    if (!removed) return false
+
+    const conversations = await this.store.conversations.list()
+    for (const conversation of conversations.filter(c => c.customer_id === id)) {
+      await this.store.conversations.update(conversation.id, { customer_id: undefined, customer_name: undefined })
+    }
+    // The vehicles stay, with their history, until a new owner is set
+    const vehicles = await this.store.vehicles.list()
+    for (const vehicle of vehicles.filter(v => v.customer_id === id)) {
+      await this.store.vehicles.update(vehicle.id, { customer_id: undefined })
+    }
+    return true
+  }
+
+  /**
+   * Moves everything that belonged to a merged-away customer to the kept
+   * one. Records saved before customer links existed are matched by phone
+   * number; tech sheets follow their quote. Returns how many were moved.
+   */
+  private async relink(source: Customer, target: Customer): Promise<number> {
+    const belongsToSource = (record: { customer_id?: string }, phoneNumber: string) =>
+      record.customer_id === source.id || (!record.customer_id && !!phoneNumber && hasPhoneNumber(source, phoneNumber))
+    const link = { customer_id: target.id }
+    let moved = 0
+
+    for (const message of await this.store.messages.list()) {
+      if (!belongsToSource(message, message.phone_number)) continue
+      await this.store.messages.update(message.id, link)
+      moved++
+    }
+    for (const conversation of await this.store.conversations.list()) {
+      if (!belongsToSource(conversation, conversation.phone_number)) continue
+      await this.store.conversations.update(conversation.id, { ...link, customer_name: target.full_name })
+      moved++
+    }
+
+    const movedQuoteIds: string[] = []
+    for (const quote of await this.store.quotes.list()) {
+      if (!belongsToSource(quote, quote.customer_phone)) continue
+      await this.store.quotes.update(quote.id, { ...link, customer_name: target.full_name || quote.customer_name })
+      movedQuoteIds.push(quote.id)
+      moved++
+    }
+    for (const appointment of await this.store.appointments.list()) {
+      if (!belongsToSource(appointment, appointment.customer_phone)) continue
+      await this.store.appointments.update(appointment.id, { ...link, customer_name: target.full_name || appointment.customer_name })
+      moved++
+    }
+    for (const invoice of await this.store.invoices.list()) {
+      if (!belongsToSource(invoice, invoice.customer_phone)) continue
+      await this.store.invoices.update(invoice.id, { ...link, customer_name: target.full_name || invoice.customer_name })
+      moved++
+    }
+    for (const sheet of await this.store.techSheets.list()) {
+      if (sheet.customer_id !== source.id && !(sheet.quote_id && movedQuoteIds.includes(sheet.quote_id))) continue
+      await this.store.techSheets.update(sheet.id, { ...link, customer_name: target.full_name || sheet.customer_name })
+      moved++
+    }
+    for (const vehicle of await this.store.vehicles.list()) {
+      if (vehicle.customer_id !== source.id) continue
+      await this.store.vehicles.update(vehicle.id, link)
+      moved++
+    }
+    return moved
+  }
+
+  /**
+   * The stored fields for a set of details. Vehicles keep the date they were
+   * first added, and a name recorded without first and last names is kept.
+   */
+  private applyDetails(details: CustomerDetails, now: string, existing?: Customer) {
+    const keepsName = existing && !existing.first_name && !existing.last_name
+    return {
+      phone_number: normalizePhoneNumber(details.phone_number),
+      first_name: details.first_name || undefined,
+      last_name: details.last_name || undefined,
+      full_name: buildFullName(details.first_name, details.last_name) || (keepsName ? existing.full_name : undefined),
+      email: details.email || undefined,
+      address: details.address || undefined,
+      preferred_contact_method: details.preferred_contact_method,
+      is_repeat_customer: details.is_repeat_customer,
+      notes: details.notes || [],
+      vehicles: (details.vehicles || []).map(vehicle => ({
+        ...vehicle,
+        added_at: vehicle.added_at
+          || existing?.vehicles.find(v => v.details === vehicle.details)?.added_at
+          || now
+      }))
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import axios from 'axios'
+import type { OpenPhoneService } from './openphone'
+import type { DataStore } from './storage'
+import type { EscalationSettings, Message, MessageEscalation } from '../types'
+import { isSamePhoneNumber } from '../utils/phone'
+
+/**
+ * Emergency Escalation
+ *
+ * When an inbound text is classified as an emergency, everyone on the
+ * on-call list is texted (and the optional webhook is called). The round
+ * repeats every `repeat_minutes` until someone acknowledges the message or
+ * `max_attempts` rounds have gone out. Progress is recorded on the Message
+ * so the dashboard and every browser see the same state. With escalation
+ * off or no one on call, emergencies are closed without alerting anyone and
+ * just wait on the dashboard to be acknowledged.
+ */
+
+export const DEFAULT_ESCALATION_SETTINGS: EscalationSettings = {
+  enabled: false,
+  contacts: [],
+  webhook_url: '',
+  repeat_minutes: 5,
+  max_attempts: 3
+}
+
+// Reply an on-call contact can text back to acknowledge every open emergency
+export const ACKNOWLEDGE_KEYWORD = 'ACK'
+
+export const getEscalationSettings = (settings?: { escalation?: EscalationSettings } | null): EscalationSettings => {
+  return { ...DEFAULT_ESCALATION_SETTINGS, ...(settings?.escalation || {}) }
+}
+
+export class EscalationService {
+  private store: DataStore
+  private openPhone: OpenPhoneService | null
+  private settings: EscalationSettings
+
+  constructor(store: DataStore, openPhone: OpenPhoneService | null, settings: EscalationSettings) {
+    this.store = store
+    this.openPhone = openPhone
+    this.settings = settings
+  }
+
+  get isEnabled(): boolean {
+    return this.settings.enabled && (this.settings.contacts.length > 0 || !!this.settings.webhook_url)
+  }
+
+  isOnCallNumber(phoneNumber: string): boolean {
+    return this.settings.contacts.some(contact => isSamePhoneNumber(contact.phone_number, phoneNumber))
+  }
+
+  /**
+   * Starts escalating a message and sends the first round right away
+   */
+  async start(message: Message): Promise<void> {
+    if (message.escalation) return
+
+    const escalation: MessageEscalation = {
+      status: this.isEnabled ? 'pending' : 'closed',
+      started_at: new Date().toISOString(),
+      attempts: 0
+    }
+    await this.store.messages.update(message.id, { escalation })
+
+    if (!this.isEnabled) {
+      console.warn('🚨 Emergency received but no on-call list is configured')
+      return
+    }
+    await this.notify({ ...message, escalation })
+  }
+
+  /**
+   * Sends the next round for every pending escalation that is due.
+   * Returns the number of rounds sent. If escalation has been turned off
+   * since they started, pending escalations are closed instead.
+   */
+  async processDue(): Promise<number> {
+    const messages = await this.store.messages.list()
+
+    if (!this.isEnabled) {
+      for (const message of messages.filter(m => m.escalation?.status === 'pending')) {
+        await this.store.messages.update(message.id, { escalation: { ...message.escalation!, status: 'closed' } })
+        console.warn(`🚨 Emergency ${message.id} closed: no on-call list is configured`)
+      }
+      return 0
+    }
+
+    const now = Date.now()
+    const repeatMs = this.settings.repeat_minutes * 60 * 1000
+    const due = messages.filter(m =>
+      m.escalation?.status === 'pending' &&
+      (!m.escalation.last_notified_at || now - new Date(m.escalation.last_notified_at).getTime() >= repeatMs)
+    )
+
+    for (const message of due) {
+      await this.notify(message)
+    }
+    return due.length
+  }
+
+  /**
+   * Records that someone has taken responsibility for an emergency.
+   * Returns false if the message isn't being escalated.
+   */
+  async acknowledge(messageId: string, acknowledgedBy: string): Promise<boolean> {
+    const message = await this.store.messages.get(messageId)
+    if (!message?.escalation || message.escalation.status === 'acknowledged') return false
+
+    await this.store.messages.update(messageId, {
+      escalation: {
+        ...message.escalation,
+        status: 'acknowledged',
+        acknowledged_at: new Date().toISOString(),
+        acknowledged_by: acknowledgedBy
+      }
+    })
+    console.log(`✅ Emergency ${messageId} acknowledged by ${acknowledgedBy}`)
+    return true
+  }
+
+  /**
+   * Acknowledges every open emergency, used when an on-call contact texts back
+   */
+  async acknowledgeAll(acknowledgedBy: string): Promise<number> {
+    const messages = await this.store.messages.list()
+    const open = messages.filter(m => m.escalation && m.escalation.status !== 'acknowledged')
+    for (const message of open) {
+      await this.acknowledge(message.id, acknowledgedBy)
+    }
+    return open.length
+  }
+
+  private async notify(message: Message): Promise<void> {
+    const escalation = message.escalation!
+    if (escalation.attempts >= this.settings.max_attempts) {
+      await this.store.messages.update(message.id, { escalation: { ...escalation, status: 'exhausted' } })
+      console.warn(`🚨 Emergency ${message.id} was not acknowledged after ${escalation.attempts} rounds`)
+      return
+    }
+
+    const attempt = escalation.attempts + 1
+    const alert = `🚨 EMERGENCY text from ${message.phone_number}: "${message.body}"\n\nReply ${ACKNOWLEDGE_KEYWORD} to acknowledge (alert ${attempt} of ${this.settings.max_attempts}).`
+
+    for (const contact of this.settings.contacts) {
+      if (!this.openPhone) {
+        console.warn('OpenPhone not configured - cannot text on-call contacts')
+        break
+      }
+      try {
+        await this.openPhone.sendSMS(contact.phone_number, alert)
+      } catch (error) {
+        console.error(`Failed to alert on-call contact ${contact.name}:`, error)
+      }
+    }
+
+    if (this.settings.webhook_url) {
+      try {
+        await axios.post(this.settings.webhook_url, {
+          type: 'emergency',
+          attempt,
+          max_attempts: this.settings.max_attempts,
+          message: {
+            id: message.id,
+            phone_number: message.phone_number,
+            body: message.body,
+            timestamp: message.timestamp
+          },
+          contacts: this.settings.contacts
+        })
+      } catch (error) {
+        console.error('Emergency webhook failed:', error)
+      }
+    }
+
+    await this.store.messages.update(message.id, {
+      escalation: {
+        ...escalation,
+        attempts: attempt,
+        last_notified_at: new Date().toISOString()
+      }
+    })
+    console.log(`🚨 Emergency alert ${attempt} sent for message ${message.id}`)
+  }
+}
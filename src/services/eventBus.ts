@@ -0,0 +1,134 @@
+import type { CollectionName, DataStore, Repository } from './storage/datastore'
+
+/**
+ * Change Events
+ *
+ * Every write to a streamed collection is published as a ChangeEvent so the
+ * server can push it to browsers (`/api/events`) instead of them polling the
+ * full lists. Events carry an increasing `seq` cursor; the most recent ones
+ * are kept in memory so a client that reconnects, or polls
+ * `/api/changes?since=<seq>`, only receives what it missed. A client whose
+ * cursor is older than the buffer (e.g. after a server restart) is told to
+ * reload instead.
+ */
+
+export interface ChangeEvent {
+  seq: number
+  collection: CollectionName
+  type: 'upsert' | 'remove'
+  id: string
+  item?: unknown // the saved item for upserts
+  at: string
+}
+
+export interface ChangesSince {
+  events: ChangeEvent[]
+  cursor: number
+  reset: boolean // the cursor is too old; reload the collections instead
+}
+
+export type ChangeListener = (event: ChangeEvent) => void
+
+// Recent events kept for clients catching up
+const BUFFER_SIZE = 500
+
+export class EventBus {
+  private listeners = new Set<ChangeListener>()
+  private buffer: ChangeEvent[] = []
+  // Seeded from the clock so cursors keep increasing across restarts
+  private seq = Date.now()
+
+  get cursor(): number {
+    return this.seq
+  }
+
+  publish(collection: CollectionName, type: ChangeEvent['type'], id: string, item?: unknown): ChangeEvent {
+    const event: ChangeEvent = { seq: ++this.seq, collection, type, id, item, at: new Date().toISOString() }
+    this.buffer.push(event)
+    if (this.buffer.length > BUFFER_SIZE) {
+      this.buffer.shift()
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Change listener failed:', error)
+      }
+    }
+    return event
+  }
+
+  /**
+   * Subscribes to new events. Returns the unsubscribe function.
+   */
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Returns the events after a cursor, or `reset` if some were already dropped
+   */
+  getChangesSince(since: number): ChangesSince {
+    const oldest = this.buffer[0]?.seq ?? this.seq + 1
+    if (since < oldest - 1 || since > this.seq) {
+      return { events: [], cursor: this.seq, reset: true }
+    }
+    return { events: this.buffer.filter(event => event.seq > since), cursor: this.seq, reset: false }
+  }
+}
+
+export const eventBus = new EventBus()
+
+const observeRepository = <T extends { id: string }>(
+  collection: CollectionName,
+  repository: Repository<T>,
+  bus: EventBus
+): Repository<T> => ({
+  list: () => repository.list(),
+  get: id => repository.get(id),
+  async upsert(item) {
+    const saved = await repository.upsert(item)
+    bus.publish(collection, 'upsert', saved.id, saved)
+    return saved
+  },
+  async insert(item) {
+    const inserted = await repository.insert(item)
+    if (inserted) bus.publish(collection, 'upsert', item.id, item)
+    return inserted
+  },
+  async update(id, updates) {
+    const updated = await repository.update(id, updates)
+    if (updated) bus.publish(collection, 'upsert', updated.id, updated)
+    return updated
+  },
+  async remove(id) {
+    const removed = await repository.remove(id)
+    if (removed) bus.publish(collection, 'remove', id)
+    return removed
+  }
+})
+
+/**
+ * Wraps a data store so writes to the collections browsers keep live copies
+ * of publish change events. Webhook jobs and settings aren't streamed.
+ */
+export const observeDataStore = (store: DataStore, bus: EventBus = eventBus): DataStore => ({
+  ...store,
+  messages: observeRepository('messages', store.messages, bus),
+  customers: observeRepository('customers', store.customers, bus),
+  quotes: observeRepository('quotes', store.quotes, bus),
+  appointments: observeRepository('appointments', store.appointments, bus),
+  techSheets: observeRepository('techSheets', store.techSheets, bus),
+  invoices: observeRepository('invoices', store.invoices, bus),
+  tasks: observeRepository('tasks', store.tasks, bus),
+  conversations: observeRepository('conversations', store.conversations, bus),
+  replyTemplates: observeRepository('replyTemplates', store.replyTemplates, bus),
+  scheduledMessages: observeRepository('scheduledMessages', store.scheduledMessages, bus),
+  consents: observeRepository('consents', store.consents, bus),
+  vehicles: observeRepository('vehicles', store.vehicles, bus),
+  parts: observeRepository('parts', store.parts, bus)
+})
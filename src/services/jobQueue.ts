@@ -0,0 +1,173 @@
+import type { Repository } from './storage'
+import type { WebhookJob } from '../types'
+
+/**
+ * Webhook Job Queue
+ *
+ * Webhook deliveries are acknowledged as soon as they are recorded and the
+ * slow work (AI reply, SMS) runs here afterwards. Jobs are keyed by the
+ * provider's event id, so a redelivered event is recognised and dropped.
+ *
+ * Failed jobs are retried with exponential backoff. After `MAX_JOB_ATTEMPTS`
+ * failures a job moves to the dead-letter list, where it stays until someone
+ * retries it from Settings.
+ */
+
+export const MAX_JOB_ATTEMPTS = 5
+
+// First retry after 30 seconds, doubling each time (30s, 1m, 2m, 4m)
+export const RETRY_BASE_DELAY_MS = 30 * 1000
+
+// A job still "processing" after this long was cut off by a restart
+export const STALE_JOB_MS = 10 * 60 * 1000
+
+// Completed jobs are kept this long so late redeliveries are still recognised
+export const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+export type JobHandler = (job: WebhookJob) => Promise<void>
+
+export const getRetryDelay = (attempts: number): number => {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0))
+}
+
+export class JobQueue {
+  private getRepository: () => Promise<Repository<WebhookJob>>
+  private handler: JobHandler
+  private isRunning = false
+  // Set when jobs arrive during a run, so they're picked up once it ends
+  private rerunRequested = false
+
+  constructor(getRepository: () => Promise<Repository<WebhookJob>>, handler: JobHandler) {
+    this.getRepository = getRepository
+    this.handler = handler
+  }
+
+  /**
+   * Records an event and starts processing it in the background.
+   * Returns false if the event has been seen before.
+   */
+  async enqueue(eventId: string, source: WebhookJob['source'], eventType: string, payload: unknown): Promise<boolean> {
+    const jobs = await this.getRepository()
+    const now = new Date().toISOString()
+    const inserted = await jobs.insert({
+      id: eventId,
+      source,
+      event_type: eventType,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+      created_at: now,
+      updated_at: now
+    })
+    if (!inserted) {
+      console.log(`🔁 Duplicate ${source} event ${eventId} ignored`)
+      return false
+    }
+
+    this.scheduleRun()
+    return true
+  }
+
+  /**
+   * Runs every job that is due, oldest first. Returns the number attempted.
+   * Runs never overlap, so a job is never handled twice at once.
+   */
+  async processDue(): Promise<number> {
+    if (this.isRunning) {
+      this.rerunRequested = true
+      return 0
+    }
+    this.isRunning = true
+    this.rerunRequested = false
+
+    try {
+      const jobs = await this.getRepository()
+      const now = Date.now()
+      const due = (await jobs.list())
+        .filter(job =>
+          (job.status === 'pending' && new Date(job.next_attempt_at).getTime() <= now) ||
+          (job.status === 'processing' && now - new Date(job.updated_at).getTime() >= STALE_JOB_MS)
+        )
+        .reverse()
+
+      for (const job of due) {
+        await this.run(job)
+      }
+      return due.length
+    } finally {
+      this.isRunning = false
+      if (this.rerunRequested) this.scheduleRun()
+    }
+  }
+
+  /**
+   * Starts a run in the background
+   */
+  private scheduleRun(): void {
+    setTimeout(() => {
+      this.processDue().catch(error => console.error('Job queue run failed:', error))
+    }, 0)
+  }
+
+  private async run(job: WebhookJob): Promise<void> {
+    const jobs = await this.getRepository()
+    const attempts = job.attempts + 1
+    await jobs.update(job.id, { status: 'processing', attempts, updated_at: new Date().toISOString() })
+
+    try {
+      await this.handler(job)
+      const now = new Date().toISOString()
+      await jobs.update(job.id, { status: 'completed', last_error: undefined, updated_at: now, completed_at: now })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      const isDead = attempts >= MAX_JOB_ATTEMPTS
+      await jobs.update(job.id, {
+        status: isDead ? 'dead' : 'pending',
+        last_error: reason,
+        next_attempt_at: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+        updated_at: new Date().toISOString()
+      })
+
+      if (isDead) {
+        console.error(`☠️ Job ${job.id} moved to dead letters after ${attempts} attempts: ${reason}`)
+      } else {
+        console.warn(`⏳ Job ${job.id} failed (attempt ${attempts} of ${MAX_JOB_ATTEMPTS}), retrying: ${reason}`)
+      }
+    }
+  }
+
+  /**
+   * Sends a dead job back to the queue with a fresh set of attempts
+   */
+  async retry(jobId: string): Promise<WebhookJob | null> {
+    const jobs = await this.getRepository()
+    const job = await jobs.get(jobId)
+    if (!job || job.status !== 'dead') return null
+
+    const now = new Date().toISOString()
+    const updated = await jobs.update(jobId, { status: 'pending', attempts: 0, next_attempt_at: now, updated_at: now })
+    this.scheduleRun()
+    return updated
+  }
+
+  async getDeadLetters(): Promise<WebhookJob[]> {
+    const jobs = await this.getRepository()
+    return (await jobs.list()).filter(job => job.status === 'dead')
+  }
+
+  /**
+   * Forgets completed jobs past the retention window. Returns the number removed.
+   */
+  async prune(): Promise<number> {
+    const jobs = await this.getRepository()
+    const cutoff = Date.now() - COMPLETED_JOB_RETENTION_MS
+    const expired = (await jobs.list()).filter(job =>
+      job.status === 'completed' && new Date(job.completed_at || job.updated_at).getTime() < cutoff
+    )
+    for (const job of expired) {
+      await jobs.remove(job.id)
+    }
+    return expired.length
+  }
+}
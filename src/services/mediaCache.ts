@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import axios from 'axios'
+import type { MessageMedia } from '../types'
+
+/**
+ * Media Cache
+ *
+ * MMS attachments are copied into `<DATA_DIR>/media` on the webhook server
+ * because OpenPhone's media links expire. The server serves this directory
+ * at `MEDIA_ROUTE`, so a cached file is reachable at `cached_url`.
+ * Photos attached to outgoing replies are stored here too, which gives
+ * OpenPhone a public URL to fetch them from.
+ *
+ * Server only - this module uses `fs`.
+ */
+
+export const MEDIA_ROUTE = '/media'
+
+// Larger files are left at their original URL
+export const MAX_MEDIA_BYTES = 10 * 1024 * 1024
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'audio/mpeg': 'mp3',
+  'application/pdf': 'pdf'
+}
+
+export const getMediaDir = () => path.join(process.env.DATA_DIR || 'data', 'media')
+
+const toFileName = (name: string, type: string) => {
+  const safeName = name.replace(/[^a-zA-Z0-9_-]/g, '_')
+  return `${safeName}.${EXTENSIONS[type] || 'bin'}`
+}
+
+/**
+ * Writes a file into the cache and returns its path under `MEDIA_ROUTE`
+ */
+export const saveMediaFile = async (name: string, type: string, data: Buffer): Promise<string> => {
+  const fileName = toFileName(name, type)
+  await fs.mkdir(getMediaDir(), { recursive: true })
+  await fs.writeFile(path.join(getMediaDir(), fileName), data)
+  return `${MEDIA_ROUTE}/${fileName}`
+}
+
+/**
+ * Downloads a message's attachments into the cache. An attachment that
+ * can't be downloaded keeps only its original URL.
+ */
+export const cacheMessageMedia = async (messageId: string, media: { url: string; type: string }[]): Promise<MessageMedia[]> => {
+  const cached: MessageMedia[] = []
+
+  for (const [index, item] of media.entries()) {
+    const attachment: MessageMedia = { url: item.url, type: item.type || 'application/octet-stream' }
+    try {
+      const response = await axios.get(item.url, {
+        responseType: 'arraybuffer',
+        maxContentLength: MAX_MEDIA_BYTES
+      })
+      const type = item.type || response.headers['content-type'] || attachment.type
+      attachment.type = type
+      attachment.cached_url = await saveMediaFile(`${messageId}-${index}`, type, Buffer.from(response.data))
+    } catch (error) {
+      console.error(`Failed to cache media for message ${messageId}:`, error)
+    }
+    cached.push(attachment)
+  }
+
+  return cached
+}
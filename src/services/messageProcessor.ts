@@ -1,10 +1,42 @@
 import { OpenAIService } from './openai'
 import { OpenPhoneService } from './openphone'
-import type { Message, BusinessSettings, AIResponse } from '../types'
+import { getDataStore, SHOP_PREFERENCES_ID, type DataStore } from './storage'
+import { buildConversationHistory, buildCustomerContext } from '../utils/conversationContext'
+import { DEFAULT_PRICING_RULES, getPricingRules } from '../utils/pricing'
+import { getAutoResponderPolicy, isAutoResponderActive } from '../utils/autoResponder'
+import { queryMessages, type MessageQuery, type MessagePage } from '../utils/messageQuery'
+import { buildTemplateValues, describeCannedReplies } from '../utils/replyTemplates'
+import { EscalationService, getEscalationSettings, DEFAULT_ESCALATION_SETTINGS, ACKNOWLEDGE_KEYWORD } from './escalation'
+import { ConversationService } from './conversations'
+import { CustomerService, hasPhoneNumber, type CustomerDetails } from './customers'
+import { VehicleService, type VehicleDetails } from './vehicles'
+import { MessageScheduler, type ScheduleRequest } from './scheduledMessages'
+import { getQuietHours } from '../utils/quietHours'
+import { AppointmentReminderService, getAppointmentReminderSettings } from './appointmentReminders'
+import { ConsentService, getConsentReply, parseConsentKeyword } from './consent'
+import { normalizePhoneNumber } from '../utils/phone'
+import { normalizeStoredPhoneNumbers } from './phoneNormalization'
+import type { Message, MessageMedia, BusinessSettings, AIResponse, Conversation, Customer, CustomerCall, CustomerDuplicate, DeliveryStatus, FollowUpTask, ReplyDraft, ScheduledMessage, SmsConsent, ConsentStatus, Vehicle, VehicleHistory } from '../types'
 
 // Check if we're in a browser environment
 const isBrowser = typeof window !== 'undefined'
 
+// An echoed text within this long of a matching unsent-id text is the same text
+const ECHO_MATCH_WINDOW_MS = 10 * 60 * 1000
+
+// Inbound call statuses that mean nobody picked up
+const MISSED_CALL_STATUSES = ['missed', 'no-answer', 'unanswered', 'abandoned']
+
+/**
+ * Delivery updates can arrive out of order, so a final status
+ * (delivered or failed) is never replaced by an earlier one
+ */
+const advanceDeliveryStatus = (current: DeliveryStatus | undefined, next: DeliveryStatus): DeliveryStatus => {
+  if (current === 'delivered' || current === 'failed') return current
+  if (current === 'sent' && next === 'queued') return current
+  return next
+}
+
 // Toast function that works in both environments
 const showToast = (message: string, type: 'success' | 'error' = 'success') => {
   if (isBrowser) {
@@ -27,9 +59,25 @@ export class MessageProcessor {
   private openAI: OpenAIService | null = null
   private openPhone: OpenPhoneService | null = null
   private settings: BusinessSettings | null = null
+  private store: DataStore | null = null
+  private escalation: EscalationService | null = null
+  private conversations: ConversationService | null = null
+  private customers: CustomerService | null = null
+  private vehicles: VehicleService | null = null
+  private scheduler = new MessageScheduler(
+    async () => (await this.getStore()).scheduledMessages,
+    (phoneNumber, body, media) => this.sendManualReply(phoneNumber, body, media)
+  )
+  private consent = new ConsentService(async () => (await this.getStore()).consents)
+  private appointmentReminders = new AppointmentReminderService(
+    async () => (await this.getStore()).appointments,
+    (phoneNumber, body) => this.sendManualReply(phoneNumber, body)
+  )
 
   async initialize() {
     try {
+      this.store = await getDataStore()
+
       if (isBrowser) {
         // Browser environment - use localStorage
         const savedSettings = localStorage.getItem('business-settings')
@@ -42,18 +90,52 @@ export class MessageProcessor {
           }
           
           if (this.settings?.openphone_api_key && this.settings?.phone_number) {
-            this.openPhone = new OpenPhoneService(this.settings.openphone_api_key, this.settings.phone_number)
+            this.openPhone = new OpenPhoneService(
+              this.settings.openphone_api_key,
+              this.settings.phone_number,
+              phoneNumber => this.consent.canText(phoneNumber)
+            )
           }
         }
       } else {
-        // Server environment - use environment variables
-        this.settings = {
+        // Server environment - environment variables, overridden by the
+        // preferences saved from the app (API keys and phone number stay from env)
+        const envSettings = {
           business_name: process.env.BUSINESS_NAME || 'Pink Chicken Speed Shop',
           labor_rate: parseInt(process.env.LABOR_RATE || '80'),
           openai_api_key: process.env.OPENAI_API_KEY || '',
           openphone_api_key: process.env.OPENPHONE_API_KEY || '',
           phone_number: process.env.OPENPHONE_PHONE_NUMBER || '',
-          dnd_enabled: process.env.DND_ENABLED === 'true'
+          dnd_enabled: process.env.DND_ENABLED === 'true',
+          reply_mode: process.env.REPLY_MODE === 'approval' ? 'approval' : 'auto',
+          draft_auto_send_minutes: parseInt(process.env.DRAFT_AUTO_SEND_MINUTES || '0'),
+          ai_image_analysis: process.env.AI_IMAGE_ANALYSIS !== 'false',
+          escalation: {
+            ...DEFAULT_ESCALATION_SETTINGS,
+            enabled: !!(process.env.ESCALATION_PHONE_NUMBERS || process.env.ESCALATION_WEBHOOK_URL),
+            contacts: (process.env.ESCALATION_PHONE_NUMBERS || '')
+              .split(',')
+              .map(phone => phone.trim())
+              .filter(Boolean)
+              .map(phone => ({ name: phone, phone_number: phone })),
+            webhook_url: process.env.ESCALATION_WEBHOOK_URL || ''
+          },
+          pricing_rules: {
+            minimum_hours: parseFloat(process.env.MINIMUM_LABOR_HOURS || `${DEFAULT_PRICING_RULES.minimum_hours}`),
+            billing_increment_minutes: parseInt(process.env.BILLING_INCREMENT_MINUTES || `${DEFAULT_PRICING_RULES.billing_increment_minutes}`),
+            diagnostic_fee: parseFloat(process.env.DIAGNOSTIC_FEE || `${DEFAULT_PRICING_RULES.diagnostic_fee}`),
+            shop_supplies_percent: parseFloat(process.env.SHOP_SUPPLIES_PERCENT || `${DEFAULT_PRICING_RULES.shop_supplies_percent}`),
+            parts_markup: DEFAULT_PRICING_RULES.parts_markup
+          }
+        } as BusinessSettings
+        const preferences = await this.store.settings.get(SHOP_PREFERENCES_ID)
+
+        this.settings = {
+          ...envSettings,
+          ...preferences,
+          openai_api_key: envSettings.openai_api_key,
+          openphone_api_key: envSettings.openphone_api_key,
+          phone_number: envSettings.phone_number || preferences?.phone_number || ''
         }
         
         // Initialize services if API keys are available
@@ -62,34 +144,97 @@ export class MessageProcessor {
         }
         
         if (this.settings.openphone_api_key && this.settings.phone_number) {
-          this.openPhone = new OpenPhoneService(this.settings.openphone_api_key, this.settings.phone_number)
+          this.openPhone = new OpenPhoneService(
+            this.settings.openphone_api_key,
+            this.settings.phone_number,
+            phoneNumber => this.consent.canText(phoneNumber)
+          )
         }
       }
+
+      this.escalation = new EscalationService(this.store, this.openPhone, getEscalationSettings(this.settings))
     } catch (error) {
       console.error('Failed to initialize MessageProcessor:', error)
     }
   }
 
-  async processIncomingMessage(phoneNumber: string, messageBody: string): Promise<void> {
+  /**
+   * Stores an inbound text and replies to it. Pass the provider's message id
+   * so a redelivered or retried webhook doesn't handle the same text twice.
+   * Errors are rethrown so the webhook job queue can retry.
+   */
+  async processIncomingMessage(
+    phoneNumber: string,
+    messageBody: string,
+    messageId: string = Date.now().toString(),
+    media: MessageMedia[] = []
+  ): Promise<void> {
+    phoneNumber = normalizePhoneNumber(phoneNumber)
     try {
+      const store = await this.getStore()
+      const existing = await store.messages.get(messageId)
+      if (existing && (existing.processed || existing.draft)) {
+        console.log(`Message ${messageId} was already handled, skipping`)
+        return
+      }
+
       // Create new message object
       const message: Message = {
-        id: Date.now().toString(),
+        id: messageId,
         phone_number: phoneNumber,
         body: messageBody,
         direction: 'inbound',
         timestamp: new Date().toISOString(),
         processed: false,
-        created_at: new Date().toISOString()
+        created_at: new Date().toISOString(),
+        media: media.length > 0 ? media : undefined
       }
 
       // Store message
-      this.storeMessage(message)
+      const customer = await this.storeMessage(message)
 
-      // Check if Do Not Disturb is enabled
-      const isDndEnabled = await this.isDndEnabled()
-      
-      if (!isDndEnabled) {
+      // Carrier keywords (STOP, START, HELP) are answered before anything else
+      if (await this.handleConsentKeyword(phoneNumber, messageBody, message.id)) {
+        return
+      }
+
+      // On-call staff acknowledge open emergencies by texting back
+      if (this.escalation?.isOnCallNumber(phoneNumber) && messageBody.trim().toUpperCase() === ACKNOWLEDGE_KEYWORD) {
+        const acknowledged = await this.escalation.acknowledgeAll(phoneNumber)
+        showToast(`${acknowledged} emergenc${acknowledged === 1 ? 'y' : 'ies'} acknowledged`)
+        return
+      }
+
+      // Customers answer appointment reminders with C or X
+      const appointment = await this.appointmentReminders.handleReply(
+        phoneNumber,
+        messageBody,
+        message.id,
+        getAutoResponderPolicy(this.settings).timezone
+      )
+      if (appointment) {
+        showToast(`${appointment.customer_name} ${appointment.status} their appointment by text`)
+        return
+      }
+
+      // Save the name, vehicle and symptoms the customer mentions
+      await this.extractCustomerDetails(message, customer)
+
+      // Escalate obvious emergencies right away, whether or not the AI replies
+      const mentionsEmergency = this.isEmergency(messageBody)
+      if (mentionsEmergency) {
+        showToast('Emergency message received!', 'error')
+        await this.escalate(message.id)
+      }
+
+      // Nobody replies to a number that has opted out, not even the AI
+      if (!(await this.consent.canText(phoneNumber))) {
+        showToast('New message from a number that opted out - no reply sent')
+        return
+      }
+
+      // Check if the auto-responder policy allows an AI reply right now
+      if (!this.shouldAutoRespond()) {
         // Just store the message, don't auto-respond
         showToast('New message received')
         return
@@ -97,58 +242,338 @@ export class MessageProcessor {
 
       // Process with AI if services are available
       if (this.openAI && this.openPhone && this.settings) {
-        const aiResponse = await this.openAI.processMessage(
-          messageBody, 
-          this.settings.business_name
-        )
-
-        // Check if it's an emergency
-        if (this.isEmergency(aiResponse.intent)) {
-          // Override DND for emergencies
+        const { history, customerContext, cannedReplies } = await this.getConversationContext(phoneNumber, message.id)
+        const aiResponse = await this.openAI.processMessage(messageBody, {
+          businessName: this.settings.business_name,
+          laborRate: this.settings.labor_rate,
+          pricingRules: getPricingRules(this.settings),
+          history,
+          customerContext,
+          cannedReplies,
+          imageUrls: this.settings.ai_image_analysis === false
+            ? []
+            : media.filter(item => item.type.startsWith('image/')).map(item => item.url)
+        })
+
+        // Check if the AI classified it as an emergency
+        if (!mentionsEmergency && this.isEmergency(aiResponse.intent)) {
           showToast('Emergency message received!', 'error')
-          
-          // Still send AI response but also alert
-          await this.sendResponse(phoneNumber, aiResponse, message.id)
-        } else {
-          // Send AI response
-          await this.sendResponse(phoneNumber, aiResponse, message.id)
+          await this.escalate(message.id)
+        }
+
+        // In approval mode the reply waits for someone to approve, edit or discard it
+        if (this.settings.reply_mode === 'approval') {
+          await this.saveDraft(message.id, aiResponse)
+          showToast('AI reply drafted - waiting for approval')
+          return
         }
+
+        // The model output was unusable; a holding reply goes out and a person should follow up
+        if (aiResponse.fallback) {
+          showToast('AI could not draft a reply - sent a holding message, please follow up', 'error')
+        }
+
+        // Send AI response
+        await this.sendResponse(phoneNumber, aiResponse, message.id)
       }
     } catch (error) {
       console.error('Error processing message:', error)
       showToast('Failed to process incoming message', 'error')
+      throw error
+    }
+  }
+
+  /**
+   * Handles STOP/START/HELP keywords and sends the confirmation carriers
+   * require. Returns false if the text isn't a keyword. START and YES only
+   * count from a number that opted out, so an ordinary "yes" is still a
+   * normal message.
+   */
+  private async handleConsentKeyword(phoneNumber: string, body: string, messageId: string): Promise<boolean> {
+    const parsed = parseConsentKeyword(body)
+    if (!parsed) return false
+    if (parsed.type === 'opt_in' && await this.consent.canText(phoneNumber)) return false
+
+    if (parsed.type !== 'help') {
+      const status: ConsentStatus = parsed.type === 'opt_out' ? 'opted_out' : 'opted_in'
+      await this.consent.record(phoneNumber, status, { source: 'keyword', keyword: parsed.keyword, message_id: messageId })
+      showToast(`${phoneNumber} ${status === 'opted_out' ? 'opted out of' : 'opted back in to'} texts`)
+    }
+    // An opt-out in answer to a reminder (e.g. "Cancel") also cancels the appointment
+    if (parsed.type === 'opt_out') {
+      const appointment = await this.appointmentReminders.handleOptOut(
+        phoneNumber,
+        parsed.keyword,
+        messageId,
+        getAutoResponderPolicy(this.settings).timezone
+      )
+      if (appointment) {
+        showToast(`${appointment.customer_name} cancelled their appointment by texting ${parsed.keyword}`)
+      }
+    }
+    // Marked handled so a redelivered webhook doesn't confirm twice
+    await (await this.getStore()).messages.update(messageId, { processed: true })
+
+    if (!this.openPhone) {
+      console.warn('OpenPhone not configured - cannot confirm consent keyword')
+      return true
+    }
+    const reply = getConsentReply(parsed.type, this.settings)
+    try {
+      const externalId = await this.openPhone.sendSMS(phoneNumber, reply, [], { isConsentReply: true })
+      await this.storeSentMessage(Date.now().toString() + '_consent', phoneNumber, reply, externalId)
+    } catch (error) {
+      console.error(`Failed to confirm ${parsed.keyword} to ${phoneNumber}:`, error)
+    }
+    return true
+  }
+
+  private async getStore(): Promise<DataStore> {
+    if (!this.store) {
+      this.store = await getDataStore()
+    }
+    return this.store
+  }
+
+  private async getConversations(): Promise<ConversationService> {
+    if (!this.conversations) {
+      this.conversations = new ConversationService(await this.getStore())
+    }
+    return this.conversations
+  }
+
+  private async getCustomers(): Promise<CustomerService> {
+    if (!this.customers) {
+      this.customers = new CustomerService(await this.getStore())
+    }
+    return this.customers
+  }
+
+  private async getVehicles(): Promise<VehicleService> {
+    if (!this.vehicles) {
+      this.vehicles = new VehicleService(await this.getStore())
     }
+    return this.vehicles
+  }
+
+  private async storeMessage(message: Message): Promise<Customer> {
+    const store = await this.getStore()
+    const customer = await this.ensureCustomer(message.phone_number)
+    message.customer_id = customer.id
+    await store.messages.upsert(message)
+    await (await this.getConversations()).recordMessage(message, customer)
+    return customer
   }
 
-  private storeMessage(message: Message): void {
-    if (isBrowser) {
-      // Browser environment - use localStorage
-      const savedMessages = localStorage.getItem('messages')
-      const messages = savedMessages ? JSON.parse(savedMessages) : []
-      messages.unshift(message)
-      localStorage.setItem('messages', JSON.stringify(messages))
-    } else {
-      // Server environment - just log for now
-      console.log('Message stored:', message)
+  /**
+   * Has the AI pick the customer's name, vehicle and symptoms out of a text
+   * and saves them, holding low-confidence ones for review. Failures are
+   * logged only; the text is still answered.
+   */
+  private async extractCustomerDetails(message: Message, customer: Customer): Promise<void> {
+    if (!this.openAI || !message.body.trim()) return
+    try {
+      const extraction = await this.openAI.extractCustomerDetails(message.body, buildCustomerContext(customer))
+      if (!extraction) return
+
+      const result = await (await this.getCustomers()).recordExtraction(customer.id, extraction, message)
+      if (result?.needsReview) {
+        showToast(`Check the details picked up from ${result.customer.full_name || message.phone_number}'s text`)
+      } else if (result) {
+        console.log(`🧾 Saved details from text ${message.id} to customer ${customer.id}`)
+      }
+    } catch (error) {
+      console.error('Error extracting customer details:', error)
     }
   }
 
-  private updateMessages(messages: Message[]): void {
-    if (isBrowser) {
-      localStorage.setItem('messages', JSON.stringify(messages))
-    } else {
-      console.log('Messages updated:', messages.length, 'total messages')
+  /**
+   * Returns the customer for a phone number, creating a basic record the
+   * first time the number texts or calls in
+   */
+  private async ensureCustomer(phoneNumber: string): Promise<Customer> {
+    return (await this.getCustomers()).ensure(phoneNumber)
+  }
+
+  /**
+   * Collects the recent thread, known customer details and the shop's
+   * approved answers for the AI
+   */
+  private async getConversationContext(phoneNumber: string, currentMessageId: string) {
+    const store = await this.getStore()
+    const [messages, customers, quotes, templates] = await Promise.all([
+      store.messages.list(),
+      store.customers.list(),
+      store.quotes.list(),
+      store.replyTemplates.list()
+    ])
+    const customer = customers.find(c => hasPhoneNumber(c, phoneNumber))
+
+    return {
+      history: buildConversationHistory(messages, phoneNumber, { excludeMessageId: currentMessageId }),
+      customerContext: buildCustomerContext(customer),
+      cannedReplies: describeCannedReplies(templates, buildTemplateValues({ phoneNumber, customer, quotes, settings: this.settings }))
     }
   }
 
-  private getMessages(): Message[] {
-    if (isBrowser) {
-      const savedMessages = localStorage.getItem('messages')
-      return savedMessages ? JSON.parse(savedMessages) : []
-    } else {
-      // Server environment - return empty array for now
-      return []
+  // API methods for the REST endpoints
+
+  async getMessages(query: MessageQuery = {}): Promise<MessagePage> {
+    const store = await this.getStore()
+    const messages = await store.messages.list()
+    return queryMessages(messages, query, getAutoResponderPolicy(this.settings).timezone)
+  }
+
+  async markMessageAsRead(messageId: string): Promise<boolean> {
+    const store = await this.getStore()
+    const updated = await store.messages.update(messageId, { read: true })
+    if (updated) {
+      await (await this.getConversations()).refreshUnread(updated.phone_number)
     }
+    return updated !== null
+  }
+
+  async sendManualReply(phoneNumber: string, body: string, media: MessageMedia[] = []): Promise<Message> {
+    phoneNumber = normalizePhoneNumber(phoneNumber)
+    if (!this.openPhone) {
+      throw new Error('OpenPhone service not initialized')
+    }
+
+    const externalId = await this.openPhone.sendSMS(phoneNumber, body, media.map(item => item.url))
+    return this.storeSentMessage(Date.now().toString() + '_manual', phoneNumber, body, externalId, media)
+  }
+
+  /**
+   * Stores a text we just sent. OpenPhone echoes every sent text back as a
+   * webhook; if that echo was handled first, the echoed message is reused.
+   */
+  private async storeSentMessage(
+    id: string,
+    phoneNumber: string,
+    body: string,
+    externalId: string | null,
+    media: MessageMedia[] = []
+  ): Promise<Message> {
+    const store = await this.getStore()
+    if (externalId) {
+      const echoed = (await store.messages.list()).find(m => m.external_id === externalId)
+      if (echoed) return echoed
+    }
+
+    const customer = await (await this.getCustomers()).findByPhone(phoneNumber)
+    const outboundMessage: Message = {
+      id,
+      phone_number: phoneNumber,
+      customer_id: customer?.id,
+      body,
+      direction: 'outbound',
+      timestamp: new Date().toISOString(),
+      processed: true,
+      created_at: new Date().toISOString(),
+      external_id: externalId || undefined,
+      status: 'sent',
+      media: media.length > 0 ? media : undefined
+    }
+    await store.messages.upsert(outboundMessage)
+    await (await this.getConversations()).recordMessage(outboundMessage)
+    return outboundMessage
+  }
+
+  /**
+   * Holds an AI reply on the inbound message until someone approves it.
+   * If the shop set an auto-send window, the draft is sent when it expires.
+   */
+  private async saveDraft(messageId: string, aiResponse: AIResponse): Promise<void> {
+    const now = new Date()
+    const autoSendMinutes = this.settings?.draft_auto_send_minutes || 0
+    const draft: ReplyDraft = {
+      body: aiResponse.reply,
+      intent: aiResponse.intent,
+      action: aiResponse.action,
+      status: 'pending',
+      created_at: now.toISOString(),
+      auto_send_at: autoSendMinutes > 0
+        ? new Date(now.getTime() + autoSendMinutes * 60 * 1000).toISOString()
+        : undefined
+    }
+
+    const store = await this.getStore()
+    await store.messages.update(messageId, {
+      draft,
+      intent: aiResponse.intent,
+      action: aiResponse.action
+    })
+  }
+
+  /**
+   * Sends a pending draft, optionally with edits.
+   * Returns the outbound message, or null if the message has no pending draft.
+   */
+  async approveDraft(messageId: string, editedBody?: string): Promise<Message | null> {
+    const store = await this.getStore()
+    const message = await store.messages.get(messageId)
+    if (!message?.draft || message.draft.status !== 'pending') return null
+
+    return this.sendDraft(message, editedBody?.trim() || message.draft.body, 'approved')
+  }
+
+  /**
+   * Discards a pending draft without sending anything.
+   * Returns false if the message has no pending draft.
+   */
+  async discardDraft(messageId: string): Promise<boolean> {
+    const store = await this.getStore()
+    const message = await store.messages.get(messageId)
+    if (!message?.draft || message.draft.status !== 'pending') return false
+
+    await store.messages.update(messageId, {
+      processed: true,
+      draft: { ...message.draft, status: 'discarded', resolved_at: new Date().toISOString() }
+    })
+    return true
+  }
+
+  /**
+   * Sends pending drafts whose auto-send time has passed.
+   * Returns the number of drafts sent.
+   */
+  async sendDueDrafts(): Promise<number> {
+    const store = await this.getStore()
+    const now = new Date().toISOString()
+    const messages = await store.messages.list()
+    const dueMessages = messages.filter(m =>
+      m.draft?.status === 'pending' && m.draft.auto_send_at && m.draft.auto_send_at <= now
+    )
+
+    let sent = 0
+    for (const message of dueMessages) {
+      // Stays pending so staff can see it; it would only be refused
+      if (!(await this.consent.canText(message.phone_number))) continue
+      try {
+        await this.sendDraft(message, message.draft!.body, 'auto_sent')
+        sent++
+      } catch (error) {
+        console.error(`Failed to auto-send draft for message ${message.id}:`, error)
+      }
+    }
+    return sent
+  }
+
+  private async sendDraft(message: Message, body: string, status: 'approved' | 'auto_sent'): Promise<Message> {
+    if (!this.openPhone) {
+      throw new Error('OpenPhone service not initialized')
+    }
+
+    const externalId = await this.openPhone.sendSMS(message.phone_number, body)
+    const outboundMessage = await this.storeSentMessage(Date.now().toString() + '_out', message.phone_number, body, externalId)
+
+    const store = await this.getStore()
+    await store.messages.update(message.id, {
+      processed: true,
+      ai_response: body,
+      draft: { ...message.draft!, body, status, resolved_at: new Date().toISOString() }
+    })
+    return outboundMessage
   }
 
   private async sendResponse(phoneNumber: string, aiResponse: AIResponse, messageId: string): Promise<void> {
@@ -158,68 +583,398 @@ export class MessageProcessor {
 
     try {
       // Send SMS response
-      await this.openPhone.sendSMS(phoneNumber, aiResponse.reply)
+      const externalId = await this.openPhone.sendSMS(phoneNumber, aiResponse.reply)
 
-      // Create outbound message
-      const outboundMessage: Message = {
-        id: Date.now().toString() + '_out',
-        phone_number: phoneNumber,
-        body: aiResponse.reply,
-        direction: 'outbound',
-        timestamp: new Date().toISOString(),
-        processed: true,
-        created_at: new Date().toISOString()
-      }
-
-      // Update messages
-      const messages = this.getMessages()
-      
       // Add outbound message
-      messages.unshift(outboundMessage)
-      
+      await this.storeSentMessage(Date.now().toString() + '_out', phoneNumber, aiResponse.reply, externalId)
+
+      const store = await this.getStore()
+
       // Update original message with AI response data
-      const messageIndex = messages.findIndex((m: Message) => m.id === messageId)
-      if (messageIndex !== -1) {
-        messages[messageIndex] = {
-          ...messages[messageIndex],
-          processed: true,
-          ai_response: aiResponse.reply,
-          intent: aiResponse.intent,
-          action: aiResponse.action
-        }
-      }
+      await store.messages.update(messageId, {
+        processed: true,
+        ai_response: aiResponse.reply,
+        intent: aiResponse.intent,
+        action: aiResponse.action
+      })
 
-      this.updateMessages(messages)
       showToast('AI response sent successfully')
     } catch (error) {
       console.error('Error sending response:', error)
       showToast('Failed to send AI response', 'error')
+      throw error
     }
   }
 
-  private isEmergency(intent: string): boolean {
+  private isEmergency(text: string): boolean {
     const emergencyKeywords = ['emergency', 'urgent', 'breakdown', 'stranded', 'accident']
     return emergencyKeywords.some(keyword => 
-      intent.toLowerCase().includes(keyword)
+      text.toLowerCase().includes(keyword)
     )
   }
 
-  private async isDndEnabled(): Promise<boolean> {
-    try {
-      if (isBrowser) {
-        const savedSettings = localStorage.getItem('business-settings')
-        if (savedSettings) {
-          const settings = JSON.parse(savedSettings)
-          return settings?.dnd_enabled || false
-        }
-      } else {
-        // Server environment - use environment variable
-        return process.env.DND_ENABLED === 'true'
+  /**
+   * Starts the on-call escalation for a message (once per message)
+   */
+  private async escalate(messageId: string): Promise<void> {
+    if (!this.escalation) return
+    const store = await this.getStore()
+    const message = await store.messages.get(messageId)
+    if (message) {
+      await this.escalation.start(message)
+    }
+  }
+
+  /**
+   * Records that someone is handling an emergency, stopping further alerts
+   */
+  async acknowledgeEmergency(messageId: string, acknowledgedBy: string): Promise<boolean> {
+    if (!this.escalation) return false
+    return this.escalation.acknowledge(messageId, acknowledgedBy)
+  }
+
+  /**
+   * Re-sends alerts for emergencies nobody has acknowledged yet.
+   * Returns the number of alert rounds sent.
+   */
+  async processDueEscalations(): Promise<number> {
+    if (!this.escalation) return 0
+    return this.escalation.processDue()
+  }
+
+  // OpenPhone event handling
+
+  /**
+   * Records an outbound text reported by OpenPhone: either a delivery update
+   * for a text the app sent, or a text sent from the OpenPhone app itself,
+   * which is added to the thread. Texts sent before OpenPhone ids were kept
+   * are matched by recipient and body instead.
+   */
+  async recordOutboundMessage(
+    externalId: string,
+    phoneNumber: string,
+    body: string,
+    status: DeliveryStatus,
+    timestamp: string,
+    media: MessageMedia[] = []
+  ): Promise<Message> {
+    phoneNumber = normalizePhoneNumber(phoneNumber)
+    const store = await this.getStore()
+    const messages = await store.messages.list()
+    const sentAt = new Date(timestamp).getTime()
+    const existing = messages.find(m => m.external_id === externalId) ||
+      messages.find(m =>
+        m.direction === 'outbound' &&
+        !m.external_id &&
+        m.phone_number === phoneNumber &&
+        m.body === body &&
+        Math.abs(new Date(m.timestamp).getTime() - sentAt) <= ECHO_MATCH_WINDOW_MS
+      )
+
+    if (existing) {
+      const updated = await store.messages.update(existing.id, {
+        external_id: externalId,
+        status: advanceDeliveryStatus(existing.status, status)
+      })
+      if (status === 'failed' && existing.status !== 'failed') {
+        showToast(`Text to ${phoneNumber} could not be delivered`, 'error')
       }
-      return false
-    } catch {
-      return false
+      return updated!
+    }
+
+    const customer = await (await this.getCustomers()).findByPhone(phoneNumber)
+    const message: Message = {
+      id: externalId,
+      phone_number: phoneNumber,
+      customer_id: customer?.id,
+      body,
+      direction: 'outbound',
+      timestamp,
+      processed: true,
+      read: true,
+      created_at: new Date().toISOString(),
+      external_id: externalId,
+      status,
+      media: media.length > 0 ? media : undefined
+    }
+    await store.messages.upsert(message)
+    await (await this.getConversations()).recordMessage(message)
+    console.log(`📤 Recorded text sent from OpenPhone to ${phoneNumber}`)
+    return message
+  }
+
+  /**
+   * Adds a call to the customer's call log. Missed inbound calls and
+   * voicemails also get a follow-up task, which is returned.
+   */
+  async recordCall(call: {
+    callId: string
+    phoneNumber: string
+    direction: 'inbound' | 'outbound'
+    status: string
+    duration?: number
+    createdAt: string
+    voicemailUrl?: string
+    voicemailTranscript?: string
+  }): Promise<FollowUpTask | null> {
+    call = { ...call, phoneNumber: normalizePhoneNumber(call.phoneNumber) }
+    const store = await this.getStore()
+    const customer = await this.ensureCustomer(call.phoneNumber)
+
+    const entry: CustomerCall = {
+      call_id: call.callId,
+      direction: call.direction,
+      status: call.status,
+      duration: call.duration,
+      created_at: call.createdAt
     }
+    const calls = customer.calls || []
+    const known = calls.find(c => c.call_id === call.callId)
+    await store.customers.update(customer.id, {
+      calls: known
+        ? calls.map(c => (c.call_id === call.callId ? { ...c, ...entry } : c))
+        : [entry, ...calls],
+      updated_at: new Date().toISOString()
+    })
+
+    const isMissed = call.direction === 'inbound' && MISSED_CALL_STATUSES.includes(call.status)
+    if (!call.voicemailUrl && !isMissed) return null
+
+    const taskId = `${call.callId}_task`
+    const existingTask = await store.tasks.get(taskId)
+    if (existingTask) return existingTask
+
+    const caller = customer.full_name || call.phoneNumber
+    const task: FollowUpTask = {
+      id: taskId,
+      type: call.voicemailUrl ? 'voicemail' : 'missed_call',
+      phone_number: call.phoneNumber,
+      title: call.voicemailUrl ? `Listen to voicemail from ${caller}` : `Call back ${caller}`,
+      details: call.voicemailTranscript,
+      voicemail_url: call.voicemailUrl,
+      call_id: call.callId,
+      status: 'open',
+      created_at: new Date().toISOString()
+    }
+    await store.tasks.upsert(task)
+    showToast(call.voicemailUrl ? `New voicemail from ${caller}` : `Missed call from ${caller}`)
+    return task
+  }
+
+  /**
+   * Attaches OpenPhone's call summary to the customer's call log.
+   * Returns false if the call hasn't been recorded yet.
+   */
+  async attachCallSummary(callId: string, summary: string[], nextSteps: string[]): Promise<boolean> {
+    const store = await this.getStore()
+    const customers = await store.customers.list()
+    const customer = customers.find(c => c.calls?.some(call => call.call_id === callId))
+    if (!customer) return false
+
+    await store.customers.update(customer.id, {
+      calls: customer.calls!.map(call =>
+        call.call_id === callId ? { ...call, summary, next_steps: nextSteps } : call
+      ),
+      updated_at: new Date().toISOString()
+    })
+    console.log(`📝 Call summary saved for ${customer.phone_number}`)
+    return true
+  }
+
+  // Conversation threads
+
+  async getConversationList(): Promise<Conversation[]> {
+    return (await this.getConversations()).list()
+  }
+
+  async closeConversation(id: string): Promise<Conversation | null> {
+    return (await this.getConversations()).close(id)
+  }
+
+  async snoozeConversation(id: string, until: string): Promise<Conversation | null> {
+    return (await this.getConversations()).snooze(id, until)
+  }
+
+  async reopenConversation(id: string): Promise<Conversation | null> {
+    return (await this.getConversations()).reopen(id)
+  }
+
+  async updateConversation(id: string, updates: { assignee?: string; tags?: string[] }): Promise<Conversation | null> {
+    return (await this.getConversations()).assign(id, updates)
+  }
+
+  /**
+   * Brings stored threads up to date with the messages and customers
+   */
+  async backfillConversations(): Promise<number> {
+    return (await this.getConversations()).backfill()
+  }
+
+  /**
+   * Reopens snoozed threads whose snooze has run out
+   */
+  async wakeSnoozedConversations(): Promise<number> {
+    return (await this.getConversations()).wakeSnoozed()
+  }
+
+  // Scheduled texts
+
+  async getScheduledMessages(phoneNumber?: string): Promise<ScheduledMessage[]> {
+    return this.scheduler.list(phoneNumber && normalizePhoneNumber(phoneNumber))
+  }
+
+  /**
+   * Queues a text to send later; a time inside quiet hours moves to when they end
+   */
+  async scheduleMessage(request: ScheduleRequest): Promise<ScheduledMessage> {
+    return this.scheduler.schedule({ ...request, phoneNumber: normalizePhoneNumber(request.phoneNumber) }, getQuietHours(this.settings))
+  }
+
+  async updateScheduledMessage(id: string, updates: { body?: string; sendAt?: Date }): Promise<ScheduledMessage | null> {
+    return this.scheduler.update(id, updates, getQuietHours(this.settings))
+  }
+
+  async cancelScheduledMessage(id: string): Promise<ScheduledMessage | null> {
+    return this.scheduler.cancel(id)
+  }
+
+  /**
+   * Sends scheduled texts that are due, unless it's quiet hours.
+   * Returns the number sent.
+   */
+  async sendDueScheduledMessages(): Promise<number> {
+    return this.scheduler.processDue(getQuietHours(this.settings))
+  }
+
+  // Customers
+
+  async getCustomerList(): Promise<Customer[]> {
+    return (await this.getCustomers()).list()
+  }
+
+  async getCustomer(id: string): Promise<Customer | null> {
+    return (await this.getCustomers()).get(id)
+  }
+
+  async findCustomerByPhone(phoneNumber: string): Promise<Customer | null> {
+    return (await this.getCustomers()).findByPhone(phoneNumber)
+  }
+
+  async createCustomer(details: CustomerDetails): Promise<Customer> {
+    return (await this.getCustomers()).create(details)
+  }
+
+  async updateCustomer(id: string, details: Partial<CustomerDetails>): Promise<Customer | null> {
+    return (await this.getCustomers()).update(id, details)
+  }
+
+  /**
+   * Folds a duplicate customer into another and deletes the duplicate
+   */
+  async mergeCustomers(targetId: string, sourceId: string): Promise<Customer | null> {
+    return (await this.getCustomers()).merge(targetId, sourceId)
+  }
+
+  async deleteCustomer(id: string): Promise<boolean> {
+    return (await this.getCustomers()).remove(id)
+  }
+
+  async findCustomerDuplicates(): Promise<CustomerDuplicate[]> {
+    return (await this.getCustomers()).findDuplicates()
+  }
+
+  /**
+   * Stops reporting two customers as possible duplicates
+   */
+  async markCustomersDistinct(id: string, otherId: string): Promise<Customer | null> {
+    return (await this.getCustomers()).markDistinct(id, otherId)
+  }
+
+  /**
+   * Rewrites numbers stored before they were normalized to E.164
+   */
+  async normalizeStoredPhoneNumbers(): Promise<number> {
+    return normalizeStoredPhoneNumbers(await this.getStore())
+  }
+
+  /**
+   * Applies or dismisses details from a text that were held for review
+   */
+  async resolveExtractionReview(customerId: string, reviewId: string, accept: boolean): Promise<Customer | null> {
+    return (await this.getCustomers()).resolveExtractionReview(customerId, reviewId, accept)
+  }
+
+  // Vehicles
+
+  async getVehicleList(customerId?: string): Promise<Vehicle[]> {
+    return (await this.getVehicles()).list(customerId)
+  }
+
+  async getVehicle(id: string): Promise<Vehicle | null> {
+    return (await this.getVehicles()).get(id)
+  }
+
+  async findVehicleByVin(vin: string): Promise<Vehicle | null> {
+    return (await this.getVehicles()).findByVin(vin)
+  }
+
+  async createVehicle(details: VehicleDetails): Promise<Vehicle> {
+    return (await this.getVehicles()).create(details)
+  }
+
+  async updateVehicle(id: string, details: Partial<VehicleDetails>): Promise<Vehicle | null> {
+    return (await this.getVehicles()).update(id, details)
+  }
+
+  async deleteVehicle(id: string): Promise<boolean> {
+    return (await this.getVehicles()).remove(id)
+  }
+
+  /**
+   * The quotes, appointments, tech sheets and invoices for one vehicle
+   */
+  async getVehicleHistory(id: string): Promise<VehicleHistory | null> {
+    return (await this.getVehicles()).getHistory(id)
+  }
+
+  // SMS consent
+
+  async getConsents(): Promise<SmsConsent[]> {
+    return this.consent.list()
+  }
+
+  async getConsent(phoneNumber: string): Promise<SmsConsent | null> {
+    return this.consent.get(phoneNumber)
+  }
+
+  async canText(phoneNumber: string): Promise<boolean> {
+    return this.consent.canText(phoneNumber)
+  }
+
+  /**
+   * Records an opt-out or opt-in staff took down, e.g. asked in person
+   */
+  async setConsent(phoneNumber: string, status: ConsentStatus, note?: string): Promise<SmsConsent> {
+    return this.consent.record(phoneNumber, status, { source: 'staff', note })
+  }
+
+  // Appointment reminders
+
+  /**
+   * Texts customers whose appointments are coming up, per the reminder rules.
+   * Returns the number of reminders sent.
+   */
+  async sendDueAppointmentReminders(): Promise<number> {
+    if (!this.openPhone) return 0
+    return this.appointmentReminders.processDue(
+      getAppointmentReminderSettings(this.settings),
+      getQuietHours(this.settings),
+      this.settings?.business_name || ''
+    )
+  }
+
+  private shouldAutoRespond(): boolean {
+    return isAutoResponderActive(getAutoResponderPolicy(this.settings))
   }
 }
 
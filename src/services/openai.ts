@@ -1,8 +1,117 @@
 import axios from 'axios'
-import type { OpenAIMessage, AIResponse } from '../types'
+import { z } from 'zod'
+import type { OpenAIMessage, AIResponse, AIIntent, CustomerExtraction, PricingRules } from '../types'
+import { DEFAULT_PRICING_RULES, describePricingRules } from '../utils/pricing'
 
 const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions'
 
+// Attempts at getting a valid structured reply before falling back
+const MAX_ATTEMPTS = 2
+
+export const AI_INTENTS: AIIntent[] = [
+  'Quote Request',
+  'Booking',
+  'Booking Confirmation',
+  'Quote Acceptance',
+  'Service Inquiry',
+  'Status Update',
+  'Emergency',
+  'General Inquiry'
+]
+
+/**
+ * Shape the model must return. Replies that still contain the old
+ * "Reply:/Intent:" template or separators are rejected so they never reach a customer.
+ */
+export const aiResponseSchema = z.object({
+  reply: z
+    .string()
+    .trim()
+    .min(1, 'Reply is empty')
+    .max(1000, 'Reply is too long for a text message')
+    .refine(reply => !/^-{3,}/m.test(reply) && !/^(reply|intent|action):/im.test(reply), 'Reply contains template markers'),
+  intent: z.enum(AI_INTENTS as [AIIntent, ...AIIntent[]]),
+  action: z.string().trim().min(1),
+  confidence: z.number().min(0).max(1),
+  vehicle: z.string().trim().optional().nullable().transform(value => value || undefined),
+  service: z.string().trim().optional().nullable().transform(value => value || undefined)
+})
+
+// Sent when the model never produced a valid reply
+export const FALLBACK_AI_RESPONSE: AIResponse = {
+  reply: "Thanks for your message! We've received it and someone from the shop will get back to you shortly.",
+  intent: 'General Inquiry',
+  action: 'Mark for review',
+  confidence: 0,
+  fallback: true
+}
+
+const RESPONSE_FORMAT_INSTRUCTIONS = `Respond with a single JSON object and nothing else:
+{
+  "reply": "the text message to send back to the client",
+  "intent": one of ${AI_INTENTS.map(intent => `"${intent}"`).join(', ')},
+  "action": "the next step for the shop, e.g. Send booking link, Ask for more info, Mark for review",
+  "confidence": number from 0 to 1 for how sure you are about the intent,
+  "vehicle": "year make model if the client mentioned one, otherwise null",
+  "service": "the service or repair requested, otherwise null"
+}`
+
+const optionalText = z.string().trim().optional().nullable().transform(value => value || undefined)
+
+/**
+ * Shape the model must return when picking customer details out of a text.
+ * Years that aren't 4 digits are dropped rather than failing the extraction.
+ */
+export const customerExtractionSchema = z.object({
+  first_name: optionalText,
+  last_name: optionalText,
+  vehicle: z.object({
+    year: z.union([z.string(), z.number()]).optional().nullable()
+      .transform(value => /^\d{4}$/.test(String(value ?? '').trim()) ? String(value).trim() : undefined),
+    make: optionalText,
+    model: optionalText
+  }).optional().nullable().transform(value => value && (value.year || value.make || value.model) ? value : undefined),
+  symptoms: z.array(z.string().trim().min(1)).max(5).default([]),
+  confidence: z.number().min(0).max(1)
+})
+
+const EXTRACTION_INSTRUCTIONS = `You read text messages sent to an auto repair shop and pick out details about the client who sent them.
+Respond with a single JSON object and nothing else:
+{
+  "first_name": "the client's first name if they give it, otherwise null",
+  "last_name": "the client's last name if they give it, otherwise null",
+  "vehicle": { "year": "4-digit year or null", "make": "e.g. Ford or null", "model": "e.g. F-150 or null" } or null,
+  "symptoms": ["short descriptions of problems or work requested, e.g. grinding noise when braking"],
+  "confidence": number from 0 to 1 for how sure you are these details are right and belong to the client
+}
+Only include a name the client gives for themselves, never the shop's or someone else's. Only include a vehicle the client refers to in this message; known details may be used to fill in a vehicle they refer to indirectly ("the truck"). Leave out anything you are guessing.`
+
+const MODEL = 'gpt-4o'
+
+// gpt-4o accepts images; set to false if MODEL is switched to a text-only model
+const MODEL_SUPPORTS_IMAGES = true
+
+/**
+ * Builds message content with the photos attached, or plain text if there are none
+ */
+const withImages = (text: string, imageUrls: string[]): OpenAIMessage['content'] => {
+  if (imageUrls.length === 0) return text
+  return [
+    { type: 'text', text },
+    ...imageUrls.map(url => ({ type: 'image_url' as const, image_url: { url } }))
+  ]
+}
+
+export interface ReplyContext {
+  businessName?: string
+  laborRate?: number
+  pricingRules?: PricingRules
+  history?: OpenAIMessage[] // earlier turns in the thread, oldest first
+  customerContext?: string // known customer details for the system prompt
+  imageUrls?: string[] // photos attached to the latest message
+  cannedReplies?: string // the shop's approved answers, see describeCannedReplies
+}
+
 export class OpenAIService {
   private apiKey: string
 
@@ -10,24 +119,121 @@ export class OpenAIService {
     this.apiKey = apiKey
   }
 
-  async processMessage(messageBody: string, businessName: string = 'Pink Chicken Speed Shop'): Promise<AIResponse> {
+  /**
+   * Generates a reply to the latest customer message.
+   * The earlier thread and known customer details keep the reply consistent
+   * with the whole conversation, and the shop's pricing rules are included so
+   * quoted prices match quotes created in the app.
+   *
+   * The model is asked for JSON and the result is validated. Invalid output is
+   * retried once with the validation errors; if it is still invalid a safe
+   * fallback reply is returned (with `fallback: true`) instead of raw model text.
+   */
+  async processMessage(messageBody: string, context: ReplyContext = {}): Promise<AIResponse> {
+    const {
+      businessName = 'Pink Chicken Speed Shop',
+      laborRate = 80,
+      pricingRules = DEFAULT_PRICING_RULES,
+      history = [],
+      customerContext = '',
+      imageUrls = [],
+      cannedReplies = ''
+    } = context
+    const images = MODEL_SUPPORTS_IMAGES ? imageUrls : []
+
+    let systemPrompt = `You are a professional, friendly assistant for ${businessName}. Use the rules provided to give quotes, book jobs, or respond to client requests.`
+    if (history.length > 0) {
+      systemPrompt += ' Earlier texts in this conversation are included; use them so you never ask for details the client already gave.'
+    }
+    systemPrompt += `\n\nPRICING RULES:\n${describePricingRules(laborRate, pricingRules)}`
+    if (customerContext) {
+      systemPrompt += `\n\n${customerContext}`
+    }
+    if (cannedReplies) {
+      systemPrompt += `\n\n${cannedReplies}`
+    }
+    if (images.length > 0) {
+      systemPrompt += '\n\nThe client attached photos. Describe what you can see that matters for the repair (warning lights, leaks, damage), but never diagnose with certainty from a photo alone.'
+    }
+    systemPrompt += `\n\n${RESPONSE_FORMAT_INSTRUCTIONS}`
+
+    const messages: OpenAIMessage[] = [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      ...history,
+      {
+        role: 'user',
+        content: withImages(
+          `Here is the client message:\n\n"${messageBody}"\n\nYour job is to identify what the client wants, estimate time using basic mechanical repair knowledge, price it using the pricing rules, and reply with a friendly, useful message.`,
+          images
+        )
+      }
+    ]
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const content = await this.requestCompletion(messages)
+      const { data, error } = this.parseAIResponse(content)
+
+      if (data) {
+        return data
+      }
+
+      console.warn(`Invalid AI response (attempt ${attempt}/${MAX_ATTEMPTS}):`, error)
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `That response was invalid: ${error}. Reply again with only the JSON object in the required format.` }
+      )
+    }
+
+    console.error('AI response failed validation, using fallback reply')
+    return { ...FALLBACK_AI_RESPONSE }
+  }
+
+  /**
+   * Picks the client's name, vehicle and symptoms out of an inbound text.
+   * Known customer details help with indirect references ("the truck").
+   * Returns null if the model output is invalid; nothing is retried since
+   * the next text is another chance.
+   */
+  async extractCustomerDetails(messageBody: string, customerContext = ''): Promise<CustomerExtraction | null> {
+    const messages: OpenAIMessage[] = [
+      {
+        role: 'system',
+        content: customerContext ? `${EXTRACTION_INSTRUCTIONS}\n\n${customerContext}` : EXTRACTION_INSTRUCTIONS
+      },
+      {
+        role: 'user',
+        content: `Here is the client message:\n\n"${messageBody}"`
+      }
+    ]
+
+    const content = await this.requestCompletion(messages, 0)
+    let json: unknown
     try {
-      const messages: OpenAIMessage[] = [
-        {
-          role: 'system',
-          content: `You are a professional, friendly assistant for ${businessName}. Use the rules provided to give quotes, book jobs, or respond to client requests.`
-        },
-        {
-          role: 'user',
-          content: `Here is the client message:\n\n"${messageBody}"\n\nYour job is to identify what the client wants, estimate time using basic mechanical repair knowledge, apply $80/hr rate (1 hour minimum, $20 per 15 min extra), and reply with a friendly, useful message.\n\nFormat like this:\n---\nReply: [The message to text back]\nIntent: [e.g. Quote Request, Booking, Emergency]\nAction: [e.g. Send booking link, Ask for more info, Mark for review]\n---`
-        }
-      ]
+      json = JSON.parse(content)
+    } catch {
+      console.warn('Invalid customer extraction: response was not valid JSON')
+      return null
+    }
 
+    const result = customerExtractionSchema.safeParse(json)
+    if (!result.success) {
+      console.warn('Invalid customer extraction:', result.error.issues.map(issue => issue.message).join('; '))
+      return null
+    }
+    return result.data as CustomerExtraction
+  }
+
+  private async requestCompletion(messages: OpenAIMessage[], temperature = 0.6): Promise<string> {
+    try {
       const response = await axios.post(
         OPENAI_API_URL,
         {
-          model: 'gpt-4o',
-          temperature: 0.6,
+          model: MODEL,
+          temperature,
+          response_format: { type: 'json_object' },
           messages
         },
         {
@@ -38,30 +244,32 @@ export class OpenAIService {
         }
       )
 
-      const fullResponse = response.data?.choices?.[0]?.message?.content || ''
-      
-      return this.parseAIResponse(fullResponse)
+      return response.data?.choices?.[0]?.message?.content || ''
     } catch (error) {
       console.error('OpenAI API Error:', error)
       throw new Error('Failed to process message with AI')
     }
   }
 
-  private parseAIResponse(fullResponse: string): AIResponse {
-    const lines = fullResponse.split('\n')
-    
-    // Extract Reply line
-    const replyLine = lines.find(line => line.toLowerCase().startsWith('reply:'))
-    const reply = replyLine ? replyLine.replace(/^reply:\s*/i, '').trim() : fullResponse
-    
-    // Extract Intent line
-    const intentLine = lines.find(line => line.toLowerCase().startsWith('intent:'))
-    const intent = intentLine ? intentLine.replace(/^intent:\s*/i, '').trim() : 'General Inquiry'
-    
-    // Extract Action line
-    const actionLine = lines.find(line => line.toLowerCase().startsWith('action:'))
-    const action = actionLine ? actionLine.replace(/^action:\s*/i, '').trim() : 'Reply sent'
-
-    return { reply, intent, action }
+  /**
+   * Parses and validates the model output, returning either the response or why it was rejected
+   */
+  private parseAIResponse(content: string): { data?: AIResponse; error?: string } {
+    let json: unknown
+    try {
+      json = JSON.parse(content)
+    } catch {
+      return { error: 'Response was not valid JSON' }
+    }
+
+    const result = aiResponseSchema.safeParse(json)
+    if (!result.success) {
+      const error = result.error.issues
+        .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+        .join('; ')
+      return { error }
+    }
+
+    return { data: result.data as AIResponse }
   }
-}
\ No newline at end of file
+}
@@ -2,23 +2,59 @@ import axios from 'axios'
 
 const OPENPHONE_API_URL = 'https://api.openphone.com/v1'
 
+export interface OpenPhoneMessageQuery {
+  participants?: string[] // the other side's phone numbers
+  maxResults?: number // 1-100
+  createdAfter?: string // ISO date
+  createdBefore?: string // ISO date
+  pageToken?: string
+}
+
+export interface OpenPhoneMessagePage {
+  messages: any[]
+  nextPageToken: string | null
+}
+
+// Decides if a number may be texted (false once it has opted out)
+export type ConsentCheck = (phoneNumber: string) => Promise<boolean>
+
 export class OpenPhoneService {
   private apiKey: string
   private phoneNumber: string
+  private canText: ConsentCheck | null
 
-  constructor(apiKey: string, phoneNumber: string) {
+  constructor(apiKey: string, phoneNumber: string, canText: ConsentCheck | null = null) {
     this.apiKey = apiKey
     this.phoneNumber = phoneNumber
+    this.canText = canText
   }
 
-  async sendSMS(to: string, message: string): Promise<boolean> {
+  /**
+   * Sends a text and returns OpenPhone's id for it (null if the response
+   * didn't include one), so delivery updates can be matched to the message.
+   * Passing public media URLs sends it as an MMS.
+   *
+   * Texts to opted-out numbers are refused. Only the reply confirming a
+   * STOP/START/HELP keyword is sent regardless (`isConsentReply`).
+   */
+  async sendSMS(
+    to: string,
+    message: string,
+    mediaUrls: string[] = [],
+    options: { isConsentReply?: boolean } = {}
+  ): Promise<string | null> {
+    if (this.canText && !options.isConsentReply && !(await this.canText(to))) {
+      throw new Error(`${to} has opted out of texts`)
+    }
+
     try {
       const response = await axios.post(
         `${OPENPHONE_API_URL}/messages`,
         {
           to: [to],
           text: message,
-          from: this.phoneNumber
+          from: this.phoneNumber,
+          ...(mediaUrls.length > 0 ? { media: mediaUrls } : {})
         },
         {
           headers: {
@@ -28,17 +64,31 @@ export class OpenPhoneService {
         }
       )
 
-      return response.status === 200 || response.status === 201
+      return response.data?.data?.id || null
     } catch (error) {
       console.error('OpenPhone SMS Error:', error)
       throw new Error('Failed to send SMS')
     }
   }
 
-  async getMessages(limit: number = 50): Promise<any[]> {
+  /**
+   * Lists messages from OpenPhone one page at a time. Pass the returned
+   * `nextPageToken` as `pageToken` to fetch the next page; it is null on the
+   * last page.
+   */
+  async getMessages(options: OpenPhoneMessageQuery = {}): Promise<OpenPhoneMessagePage> {
+    const params = new URLSearchParams({
+      phoneNumberId: this.phoneNumber,
+      maxResults: String(Math.min(options.maxResults || 50, 100))
+    })
+    options.participants?.forEach(participant => params.append('participants[]', participant))
+    if (options.createdAfter) params.set('createdAfter', options.createdAfter)
+    if (options.createdBefore) params.set('createdBefore', options.createdBefore)
+    if (options.pageToken) params.set('pageToken', options.pageToken)
+
     try {
       const response = await axios.get(
-        `${OPENPHONE_API_URL}/messages?limit=${limit}`,
+        `${OPENPHONE_API_URL}/messages?${params.toString()}`,
         {
           headers: {
             'Authorization': `Bearer ${this.apiKey}`
@@ -46,7 +96,10 @@ export class OpenPhoneService {
         }
       )
 
-      return response.data?.data || []
+      return {
+        messages: response.data?.data || [],
+        nextPageToken: response.data?.nextPageToken || null
+      }
     } catch (error) {
       console.error('OpenPhone Get Messages Error:', error)
       throw new Error('Failed to fetch messages')
@@ -0,0 +1,102 @@
+import type { DataStore, Repository } from './storage'
+import type { Conversation } from '../types'
+import { normalizePhoneNumber } from '../utils/phone'
+
+/**
+ * Phone Number Normalization
+ *
+ * Records saved before numbers were normalized can hold the same number in
+ * different formats, which split one person into several threads. This
+ * rewrites every stored number to E.164 and folds conversation threads that
+ * turn out to be the same number into one. Customers that now share a
+ * number are left alone; they show up in the duplicate report for staff to
+ * merge.
+ */
+
+/**
+ * Normalizes one phone field on every record. Returns how many changed.
+ */
+const normalizeField = async <T extends { id: string }>(
+  repository: Repository<T>,
+  field: keyof T & string
+): Promise<number> => {
+  let changed = 0
+  for (const item of await repository.list()) {
+    const value = item[field]
+    if (typeof value !== 'string') continue
+    const normalized = normalizePhoneNumber(value)
+    if (normalized !== value) {
+      await repository.update(item.id, { [field]: normalized } as unknown as Partial<T>)
+      changed++
+    }
+  }
+  return changed
+}
+
+/**
+ * Keeps the oldest thread for a number and drops the rest. The kept thread
+ * shows the latest message of any of them, adds up their unread counts and
+ * carries over tags, the assignee and whether any was open.
+ */
+const foldConversations = async (store: DataStore, phoneNumber: string, threads: Conversation[]): Promise<void> => {
+  const [kept, ...rest] = [...threads].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const latest = [...threads].sort((a, b) => b.last_message_at.localeCompare(a.last_message_at))[0]
+  const isOpen = threads.some(thread => thread.status === 'open')
+
+  await store.conversations.update(kept.id, {
+    phone_number: phoneNumber,
+    tags: Array.from(new Set(threads.flatMap(thread => thread.tags))),
+    assignee: kept.assignee || rest.find(thread => thread.assignee)?.assignee,
+    status: isOpen ? 'open' : kept.status,
+    snoozed_until: isOpen ? undefined : kept.snoozed_until,
+    closed_at: isOpen ? undefined : kept.closed_at,
+    last_message_at: latest.last_message_at,
+    last_message_preview: latest.last_message_preview,
+    last_message_direction: latest.last_message_direction,
+    unread_count: threads.reduce((sum, thread) => sum + thread.unread_count, 0)
+  })
+  for (const thread of rest) {
+    await store.conversations.remove(thread.id)
+  }
+}
+
+/**
+ * Rewrites stored numbers to E.164. Returns how many records changed.
+ */
+export const normalizeStoredPhoneNumbers = async (store: DataStore): Promise<number> => {
+  let changed = 0
+  changed += await normalizeField(store.messages, 'phone_number')
+  changed += await normalizeField(store.quotes, 'customer_phone')
+  changed += await normalizeField(store.appointments, 'customer_phone')
+  changed += await normalizeField(store.invoices, 'customer_phone')
+  changed += await normalizeField(store.scheduledMessages, 'phone_number')
+  changed += await normalizeField(store.tasks, 'phone_number')
+  changed += await normalizeField(store.customers, 'phone_number')
+
+  for (const customer of await store.customers.list()) {
+    if (!customer.alternate_phone_numbers?.length) continue
+    const alternates = Array.from(new Set(customer.alternate_phone_numbers.map(normalizePhoneNumber)))
+      .filter(phone => phone !== customer.phone_number)
+    if (alternates.join() !== customer.alternate_phone_numbers.join()) {
+      await store.customers.update(customer.id, { alternate_phone_numbers: alternates.length > 0 ? alternates : undefined })
+      changed++
+    }
+  }
+
+  const threadsByPhone = new Map<string, Conversation[]>()
+  for (const conversation of await store.conversations.list()) {
+    const phoneNumber = normalizePhoneNumber(conversation.phone_number)
+    threadsByPhone.set(phoneNumber, [...(threadsByPhone.get(phoneNumber) || []), conversation])
+  }
+  for (const [phoneNumber, threads] of threadsByPhone) {
+    if (threads.length > 1) {
+      await foldConversations(store, phoneNumber, threads)
+      changed += threads.length
+    } else if (threads[0].phone_number !== phoneNumber) {
+      await store.conversations.update(threads[0].id, { phone_number: phoneNumber })
+      changed++
+    }
+  }
+
+  return changed
+}
@@ -0,0 +1,148 @@
+import type { Repository } from './storage'
+import type { Message, MessageMedia, ScheduledMessage } from '../types'
+import { getNextSendTime, isWithinQuietHours, type QuietHoursWindow } from '../utils/quietHours'
+
+/**
+ * Scheduled Messages
+ *
+ * Texts staff want to go out later. They are stored like any other
+ * collection, so pending texts survive a restart, and the server's sweep
+ * sends the ones that are due. Until then a text can be edited or cancelled.
+ *
+ * A send time inside quiet hours is moved to when they end, and a text that
+ * comes due while quiet hours are on (e.g. the window changed) waits too.
+ * A failed send is retried on the next sweeps, up to `MAX_SEND_ATTEMPTS`.
+ */
+
+export const MAX_SEND_ATTEMPTS = 3
+
+export type ScheduledSend = (phoneNumber: string, body: string, media: MessageMedia[]) => Promise<Message>
+
+export interface ScheduleRequest {
+  phoneNumber: string
+  body: string
+  media?: MessageMedia[]
+  sendAt: Date
+}
+
+export class MessageScheduler {
+  private getRepository: () => Promise<Repository<ScheduledMessage>>
+  private send: ScheduledSend
+  private isRunning = false
+
+  constructor(getRepository: () => Promise<Repository<ScheduledMessage>>, send: ScheduledSend) {
+    this.getRepository = getRepository
+    this.send = send
+  }
+
+  /**
+   * Pending and past scheduled texts, soonest first, optionally for one number
+   */
+  async list(phoneNumber?: string): Promise<ScheduledMessage[]> {
+    const scheduled = await (await this.getRepository()).list()
+    return scheduled
+      .filter(item => !phoneNumber || item.phone_number === phoneNumber)
+      .sort((a, b) => a.send_at.localeCompare(b.send_at))
+  }
+
+  async schedule(request: ScheduleRequest, quietHours: QuietHoursWindow): Promise<ScheduledMessage> {
+    const sendAt = getNextSendTime(quietHours, request.sendAt)
+    const now = new Date().toISOString()
+    const item: ScheduledMessage = {
+      id: Date.now().toString() + '_scheduled',
+      phone_number: request.phoneNumber,
+      body: request.body,
+      media: request.media && request.media.length > 0 ? request.media : undefined,
+      send_at: sendAt.toISOString(),
+      status: 'scheduled',
+      deferred_for_quiet_hours: sendAt.getTime() !== request.sendAt.getTime() || undefined,
+      attempts: 0,
+      created_at: now,
+      updated_at: now
+    }
+    return (await this.getRepository()).upsert(item)
+  }
+
+  /**
+   * Changes the text or send time of a text that hasn't gone out.
+   * Returns null if there is no such text waiting to be sent.
+   */
+  async update(id: string, updates: { body?: string; sendAt?: Date }, quietHours: QuietHoursWindow): Promise<ScheduledMessage | null> {
+    const repository = await this.getRepository()
+    const existing = await repository.get(id)
+    if (!existing || existing.status !== 'scheduled') return null
+
+    const sendAt = updates.sendAt ? getNextSendTime(quietHours, updates.sendAt) : null
+    return repository.update(id, {
+      ...(updates.body !== undefined ? { body: updates.body } : {}),
+      ...(sendAt
+        ? { send_at: sendAt.toISOString(), deferred_for_quiet_hours: sendAt.getTime() !== updates.sendAt!.getTime() || undefined }
+        : {}),
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Cancels a text that hasn't gone out.
+   * Returns null if there is no such text waiting to be sent.
+   */
+  async cancel(id: string): Promise<ScheduledMessage | null> {
+    const repository = await this.getRepository()
+    const existing = await repository.get(id)
+    if (!existing || existing.status !== 'scheduled') return null
+
+    return repository.update(id, { status: 'cancelled', updated_at: new Date().toISOString() })
+  }
+
+  /**
+   * Sends every scheduled text that is due. Returns the number sent.
+   * Runs never overlap, so a text is never sent twice at once.
+   */
+  async processDue(quietHours: QuietHoursWindow): Promise<number> {
+    if (this.isRunning) return 0
+    const now = new Date()
+    if (isWithinQuietHours(quietHours, now)) return 0
+
+    this.isRunning = true
+    try {
+      const repository = await this.getRepository()
+      const due = (await repository.list())
+        .filter(item => item.status === 'scheduled' && item.send_at <= now.toISOString())
+        .sort((a, b) => a.send_at.localeCompare(b.send_at))
+
+      let sent = 0
+      for (const item of due) {
+        // It may have been cancelled or edited while earlier texts were sending
+        const current = await repository.get(item.id)
+        if (!current || current.status !== 'scheduled') continue
+
+        try {
+          const message = await this.send(current.phone_number, current.body, current.media || [])
+          const sentAt = new Date().toISOString()
+          await repository.update(current.id, {
+            status: 'sent',
+            attempts: current.attempts + 1,
+            sent_message_id: message.id,
+            sent_at: sentAt,
+            updated_at: sentAt,
+            last_error: undefined
+          })
+          sent++
+        } catch (error) {
+          const attempts = current.attempts + 1
+          const lastError = error instanceof Error ? error.message : String(error)
+          console.error(`Failed to send scheduled text ${current.id} (attempt ${attempts}):`, error)
+          await repository.update(current.id, {
+            status: attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'scheduled',
+            attempts,
+            last_error: lastError,
+            updated_at: new Date().toISOString()
+          })
+        }
+      }
+      return sent
+    } finally {
+      this.isRunning = false
+    }
+  }
+}
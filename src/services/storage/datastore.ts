@@ -0,0 +1,146 @@
+import type { Message, Customer, Quote, Appointment, TechSheet, Invoice, BusinessSettings, WebhookJob, FollowUpTask, Conversation, ReplyTemplate, ScheduledMessage, SmsConsent, Vehicle, CatalogPart } from '../../types'
+
+/**
+ * Storage Layer
+ * 
+ * Every persisted collection is accessed through a Repository so the
+ * processor, webhook handler and REST API never care where data lives.
+ * Two implementations ship with the app:
+ * 
+ * - File-backed JSON (server) - survives restarts, works fully offline
+ * - localStorage (browser) - used when the processor runs client-side
+ * 
+ * Items are kept newest first, matching how the UI lists them.
+ */
+
+export interface Repository<T extends { id: string }> {
+  list(): Promise<T[]>
+  get(id: string): Promise<T | null>
+  upsert(item: T): Promise<T>
+  insert(item: T): Promise<boolean> // false if an item with the same id exists
+  update(id: string, updates: Partial<T>): Promise<T | null>
+  remove(id: string): Promise<boolean>
+}
+
+export interface DataStore {
+  messages: Repository<Message>
+  customers: Repository<Customer>
+  quotes: Repository<Quote>
+  appointments: Repository<Appointment>
+  techSheets: Repository<TechSheet>
+  invoices: Repository<Invoice>
+  settings: Repository<BusinessSettings>
+  webhookJobs: Repository<WebhookJob>
+  tasks: Repository<FollowUpTask>
+  conversations: Repository<Conversation>
+  replyTemplates: Repository<ReplyTemplate>
+  scheduledMessages: Repository<ScheduledMessage>
+  consents: Repository<SmsConsent>
+  vehicles: Repository<Vehicle>
+  parts: Repository<CatalogPart>
+}
+
+export type CollectionName = keyof DataStore
+
+/**
+ * Where each collection is stored. `storageKey` matches the localStorage
+ * keys the hooks have always used, so existing browser data is picked up.
+ */
+export const COLLECTIONS: Record<CollectionName, { file: string; storageKey: string }> = {
+  messages: { file: 'messages.json', storageKey: 'messages' },
+  customers: { file: 'customers.json', storageKey: 'customers' },
+  quotes: { file: 'quotes.json', storageKey: 'quotes' },
+  appointments: { file: 'appointments.json', storageKey: 'appointments' },
+  techSheets: { file: 'tech-sheets.json', storageKey: 'tech-sheets' },
+  invoices: { file: 'invoices.json', storageKey: 'invoices' },
+  settings: { file: 'settings.json', storageKey: 'shop-preferences' },
+  webhookJobs: { file: 'webhook-jobs.json', storageKey: 'webhook-jobs' },
+  tasks: { file: 'tasks.json', storageKey: 'follow-up-tasks' },
+  conversations: { file: 'conversations.json', storageKey: 'conversations' },
+  replyTemplates: { file: 'reply-templates.json', storageKey: 'reply-templates' },
+  scheduledMessages: { file: 'scheduled-messages.json', storageKey: 'scheduled-messages' },
+  consents: { file: 'consents.json', storageKey: 'sms-consents' },
+  vehicles: { file: 'vehicles.json', storageKey: 'vehicles' },
+  parts: { file: 'parts.json', storageKey: 'parts-catalog' }
+}
+
+// Shop preferences shared by every browser are kept as a single settings record
+export const SHOP_PREFERENCES_ID = 'shop'
+
+/**
+ * Shared in-memory logic for repositories that load and save a whole
+ * collection at once. Subclasses only decide how to read and write.
+ * If a write fails the in-memory copy is dropped and read again, so it
+ * never holds changes the store didn't get.
+ */
+export abstract class SnapshotRepository<T extends { id: string }> implements Repository<T> {
+  // Shared by every caller, including those that arrive while the first read is running
+  private items: Promise<T[]> | null = null
+
+  protected abstract read(): Promise<T[]>
+  protected abstract write(items: T[]): Promise<void>
+
+  private load(): Promise<T[]> {
+    if (!this.items) {
+      this.items = this.read()
+    }
+    return this.items
+  }
+
+  private async save(items: T[]): Promise<void> {
+    try {
+      await this.write(items)
+    } catch (error) {
+      this.items = null
+      throw error
+    }
+  }
+
+  async list(): Promise<T[]> {
+    return [...(await this.load())]
+  }
+
+  async get(id: string): Promise<T | null> {
+    const items = await this.load()
+    return items.find(item => item.id === id) || null
+  }
+
+  async upsert(item: T): Promise<T> {
+    const items = await this.load()
+    const index = items.findIndex(existing => existing.id === item.id)
+    if (index === -1) {
+      items.unshift(item)
+    } else {
+      items[index] = item
+    }
+    await this.save(items)
+    return item
+  }
+
+  /**
+   * Adds an item unless its id is taken. The check and the add happen in one
+   * step, so two callers racing with the same id can't both add it.
+   */
+  async insert(item: T): Promise<boolean> {
+    const items = await this.load()
+    if (items.some(existing => existing.id === item.id)) return false
+    items.unshift(item)
+    await this.save(items)
+    return true
+  }
+
+  async update(id: string, updates: Partial<T>): Promise<T | null> {
+    const existing = await this.get(id)
+    if (!existing) return null
+    return this.upsert({ ...existing, ...updates, id })
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const items = await this.load()
+    const index = items.findIndex(item => item.id === id)
+    if (index === -1) return false
+    items.splice(index, 1)
+    await this.save(items)
+    return true
+  }
+}
@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { COLLECTIONS, SnapshotRepository, type CollectionName, type DataStore } from './datastore'
+
+/**
+ * Stores a collection as a JSON file on disk.
+ * Writes go to a temp file first and are renamed into place, and are
+ * queued so concurrent updates never interleave. A failed write rejects so
+ * the caller (e.g. the webhook job queue) can retry.
+ */
+export class FileRepository<T extends { id: string }> extends SnapshotRepository<T> {
+  private filePath: string
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string) {
+    super()
+    this.filePath = filePath
+  }
+
+  protected async read(): Promise<T[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8')
+      const parsed = JSON.parse(raw)
+      return Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read ${this.filePath}:`, error)
+      }
+      return []
+    }
+  }
+
+  protected write(items: T[]): Promise<void> {
+    const snapshot = JSON.stringify(items, null, 2)
+    const tempPath = `${this.filePath}.tmp`
+
+    const written = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      await fs.writeFile(tempPath, snapshot, 'utf8')
+      await fs.rename(tempPath, this.filePath)
+    })
+    // A failed write doesn't block the ones queued after it
+    this.writeQueue = written.catch(() => undefined)
+
+    return written.catch(error => {
+      console.error(`Failed to write ${this.filePath}:`, error)
+      throw error
+    })
+  }
+}
+
+export const createFileDataStore = (dataDir: string): DataStore => {
+  const repository = <T extends { id: string }>(name: CollectionName) =>
+    new FileRepository<T>(path.join(dataDir, COLLECTIONS[name].file))
+
+  return {
+    messages: repository('messages'),
+    customers: repository('customers'),
+    quotes: repository('quotes'),
+    appointments: repository('appointments'),
+    techSheets: repository('techSheets'),
+    invoices: repository('invoices'),
+    settings: repository('settings'),
+    webhookJobs: repository('webhookJobs'),
+    tasks: repository('tasks'),
+    conversations: repository('conversations'),
+    replyTemplates: repository('replyTemplates'),
+    scheduledMessages: repository('scheduledMessages'),
+    consents: repository('consents'),
+    vehicles: repository('vehicles'),
+    parts: repository('parts')
+  }
+}
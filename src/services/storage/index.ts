@@ -0,0 +1,28 @@
+import type { DataStore } from './datastore'
+
+export * from './datastore'
+
+let dataStorePromise: Promise<DataStore> | null = null
+
+/**
+ * Returns the shared data store, creating it on first use.
+ * The file-backed store is loaded lazily so browser bundles never pull in `fs`.
+ */
+export const getDataStore = (): Promise<DataStore> => {
+  if (!dataStorePromise) {
+    dataStorePromise = (async () => {
+      if (typeof window !== 'undefined') {
+        const { createLocalStorageDataStore } = await import('./localStorageStore')
+        return createLocalStorageDataStore()
+      }
+
+      const { createFileDataStore } = await import('./fileStore')
+      const { observeDataStore } = await import('../eventBus')
+      const dataDir = process.env.DATA_DIR || 'data'
+      console.log(`💾 Using file data store in ${dataDir}`)
+      // Writes are published so connected browsers get them straight away
+      return observeDataStore(createFileDataStore(dataDir))
+    })()
+  }
+  return dataStorePromise
+}
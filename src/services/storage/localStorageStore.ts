@@ -0,0 +1,50 @@
+import { COLLECTIONS, SnapshotRepository, type CollectionName, type DataStore } from './datastore'
+
+/**
+ * Stores a collection under a localStorage key (browser only)
+ */
+export class LocalStorageRepository<T extends { id: string }> extends SnapshotRepository<T> {
+  private key: string
+
+  constructor(key: string) {
+    super()
+    this.key = key
+  }
+
+  protected async read(): Promise<T[]> {
+    try {
+      const saved = localStorage.getItem(this.key)
+      return saved ? JSON.parse(saved) : []
+    } catch (error) {
+      console.error(`Failed to read ${this.key} from localStorage:`, error)
+      return []
+    }
+  }
+
+  protected async write(items: T[]): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(items))
+  }
+}
+
+export const createLocalStorageDataStore = (): DataStore => {
+  const repository = <T extends { id: string }>(name: CollectionName) =>
+    new LocalStorageRepository<T>(COLLECTIONS[name].storageKey)
+
+  return {
+    messages: repository('messages'),
+    customers: repository('customers'),
+    quotes: repository('quotes'),
+    appointments: repository('appointments'),
+    techSheets: repository('techSheets'),
+    invoices: repository('invoices'),
+    settings: repository('settings'),
+    webhookJobs: repository('webhookJobs'),
+    tasks: repository('tasks'),
+    conversations: repository('conversations'),
+    replyTemplates: repository('replyTemplates'),
+    scheduledMessages: repository('scheduledMessages'),
+    consents: repository('consents'),
+    vehicles: repository('vehicles'),
+    parts: repository('parts')
+  }
+}
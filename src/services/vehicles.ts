@@ -0,0 +1,144 @@
+import type { DataStore } from './storage'
+import type { Vehicle, VehicleHistory } from '../types'
+import { cleanVin, decodeVin } from '../utils/vin'
+
+/**
+ * Vehicles
+ *
+ * The vehicles the shop works on, each linked to its owner. Quotes,
+ * appointments, tech sheets and invoices point at a vehicle with
+ * `vehicle_id`, which gives every vehicle its own service history even when
+ * it changes owners. A VIN, when given, fills in the year and make it
+ * decodes to if those were left blank.
+ */
+
+export interface VehicleDetails {
+  customer_id?: string
+  vin?: string
+  year?: string
+  make?: string
+  model?: string
+  engine?: string
+  trim?: string
+  mileage?: number
+  plate?: string
+  notes?: string
+}
+
+/**
+ * Short description for lists and records, e.g. "2012 Ford F-150"
+ */
+export const describeVehicle = (vehicle: Pick<Vehicle, 'year' | 'make' | 'model' | 'trim' | 'vin'>): string => {
+  const description = [vehicle.year, vehicle.make, vehicle.model, vehicle.trim].filter(Boolean).join(' ')
+  return description || (vehicle.vin ? `VIN ${vehicle.vin}` : 'Vehicle')
+}
+
+const newestFirst = <T extends { created_at: string }>(items: T[]): T[] =>
+  items.sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+export class VehicleService {
+  private store: DataStore
+
+  constructor(store: DataStore) {
+    this.store = store
+  }
+
+  /**
+   * Lists vehicles, or one customer's vehicles, most recently updated first
+   */
+  async list(customerId?: string): Promise<Vehicle[]> {
+    const vehicles = await this.store.vehicles.list()
+    return vehicles
+      .filter(vehicle => !customerId || vehicle.customer_id === customerId)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+  }
+
+  async get(id: string): Promise<Vehicle | null> {
+    return this.store.vehicles.get(id)
+  }
+
+  async findByVin(vin: string): Promise<Vehicle | null> {
+    const cleaned = cleanVin(vin)
+    const vehicles = await this.store.vehicles.list()
+    return vehicles.find(vehicle => vehicle.vin === cleaned) || null
+  }
+
+  async create(details: VehicleDetails): Promise<Vehicle> {
+    const now = new Date().toISOString()
+    const vehicle: Vehicle = {
+      id: Date.now().toString() + '_vehicle',
+      ...this.applyVin(details),
+      created_at: now,
+      updated_at: now
+    }
+    return this.store.vehicles.upsert(vehicle)
+  }
+
+  /**
+   * Saves edits to a vehicle. Only the fields given are changed.
+   */
+  async update(id: string, details: Partial<VehicleDetails>): Promise<Vehicle | null> {
+    const existing = await this.store.vehicles.get(id)
+    if (!existing) return null
+    return this.store.vehicles.update(id, {
+      ...this.applyVin({ ...existing, ...details }),
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Deletes a vehicle. Records that pointed at it keep their vehicle
+   * description but are no longer linked.
+   */
+  async remove(id: string): Promise<boolean> {
+    const removed = await this.store.vehicles.remove(id)
+    if (!removed) return false
+
+    const unlink = { vehicle_id: undefined }
+    for (const quote of (await this.store.quotes.list()).filter(q => q.vehicle_id === id)) {
+      await this.store.quotes.update(quote.id, unlink)
+    }
+    for (const appointment of (await this.store.appointments.list()).filter(a => a.vehicle_id === id)) {
+      await this.store.appointments.update(appointment.id, unlink)
+    }
+    for (const sheet of (await this.store.techSheets.list()).filter(s => s.vehicle_id === id)) {
+      await this.store.techSheets.update(sheet.id, unlink)
+    }
+    for (const invoice of (await this.store.invoices.list()).filter(i => i.vehicle_id === id)) {
+      await this.store.invoices.update(invoice.id, unlink)
+    }
+    return true
+  }
+
+  /**
+   * Everything linked to the vehicle, newest first
+   */
+  async getHistory(id: string): Promise<VehicleHistory | null> {
+    const vehicle = await this.store.vehicles.get(id)
+    if (!vehicle) return null
+
+    const isLinked = (record: { vehicle_id?: string }) => record.vehicle_id === id
+    return {
+      vehicle,
+      quotes: newestFirst((await this.store.quotes.list()).filter(isLinked)),
+      appointments: newestFirst((await this.store.appointments.list()).filter(isLinked)),
+      tech_sheets: newestFirst((await this.store.techSheets.list()).filter(isLinked)),
+      invoices: newestFirst((await this.store.invoices.list()).filter(isLinked))
+    }
+  }
+
+  /**
+   * Stores the VIN cleaned up and fills in the year and make it decodes to
+   * when they are blank
+   */
+  private applyVin<T extends VehicleDetails>(details: T): T {
+    if (!details.vin) return { ...details, vin: undefined }
+    const decoded = decodeVin(details.vin)
+    return {
+      ...details,
+      vin: decoded.vin,
+      year: details.year || (decoded.model_year ? String(decoded.model_year) : undefined),
+      make: details.make || decoded.make
+    }
+  }
+}
@@ -1,6 +1,7 @@
 export interface Message {
   id: string
-  phone_number: string
+  phone_number: string // E.164, see utils/phone
+  customer_id?: string
   body: string
   direction: 'inbound' | 'outbound'
   timestamp: string
@@ -11,6 +12,38 @@ export interface Message {
   created_at: string
   read?: boolean
   notified?: boolean
+  draft?: ReplyDraft
+  escalation?: MessageEscalation
+  external_id?: string // OpenPhone message id, used to match delivery updates and echoes
+  status?: DeliveryStatus // outbound messages only
+  media?: MessageMedia[] // MMS attachments
+}
+
+export interface MessageMedia {
+  url: string // where OpenPhone (or our upload) serves the file; may expire
+  type: string // MIME type, e.g. image/jpeg
+  cached_url?: string // path of our own copy on the webhook server, e.g. /media/abc-0.jpg
+}
+
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed'
+
+export interface MessageEscalation {
+  status: 'pending' | 'acknowledged' | 'exhausted' | 'closed' // closed: escalation off or no one on call
+  started_at: string
+  attempts: number // notification rounds sent to the on-call list
+  last_notified_at?: string
+  acknowledged_at?: string
+  acknowledged_by?: string
+}
+
+export interface ReplyDraft {
+  body: string
+  intent: string
+  action: string
+  status: 'pending' | 'approved' | 'discarded' | 'auto_sent'
+  created_at: string
+  auto_send_at?: string // pending drafts are sent automatically after this time
+  resolved_at?: string
 }
 
 export interface BusinessSettings {
@@ -20,33 +53,154 @@ export interface BusinessSettings {
   phone_number: string
   business_number?: string
   gst_setting: 'parts' | 'labor' | 'both' | 'none'
+  province?: Province
+  apply_provincial_tax?: boolean
+  pricing_rules?: PricingRules
   openai_api_key?: string
   openphone_api_key?: string
-  dnd_enabled?: boolean
+  dnd_enabled?: boolean // legacy flag, replaced by auto_responder (true meant "AI replies to everything")
+  auto_responder?: AutoResponderPolicy
+  escalation?: EscalationSettings
+  reply_mode?: 'auto' | 'approval' // send AI replies immediately or hold them as drafts for approval
+  draft_auto_send_minutes?: number // send unreviewed drafts after this many minutes, 0 to never
+  ai_image_analysis?: boolean // let the AI look at photos customers text in (on unless set to false)
+  booking_link?: string // online booking page, offered in replies as {booking_link}
+  quiet_hours?: QuietHours
+  appointment_reminders?: AppointmentReminderSettings
   created_at: string
   updated_at: string
 }
 
+/**
+ * Hours when scheduled texts are held back, in the auto-responder's time
+ * zone. Windows that end before they start (e.g. 21:00-08:00) run overnight.
+ */
+export interface QuietHours {
+  enabled: boolean
+  start: string // HH:mm
+  end: string // HH:mm
+}
+
+/**
+ * Texts sent before each appointment, e.g. 24 and 2 hours ahead. Customers
+ * reply C to confirm or X to cancel.
+ */
+export interface AppointmentReminderSettings {
+  enabled: boolean
+  rules: AppointmentReminderRule[]
+  text: string // may use {customer_first_name}, {customer_name}, {service}, {vehicle}, {date}, {time}, {business_name}
+}
+
+export interface AppointmentReminderRule {
+  hours_before: number
+}
+
+export interface OnCallContact {
+  name: string
+  phone_number: string
+}
+
+export interface EscalationSettings {
+  enabled: boolean
+  contacts: OnCallContact[] // texted in order on every round
+  webhook_url?: string // optional POST for each round, e.g. to relay an email
+  repeat_minutes: number // time between rounds until someone acknowledges
+  max_attempts: number // rounds before giving up
+}
+
+export interface DaySchedule {
+  enabled: boolean
+  start: string // HH:mm, shop local time
+  end: string // HH:mm, shop local time
+}
+
+export interface AutoResponderPolicy {
+  /**
+   * When the AI replies to incoming texts:
+   * - off: never, messages are only stored
+   * - always: every message
+   * - outside_business_hours: only when the shop is closed
+   * - schedule: only during the custom weekly schedule
+   * - vacation: only between the vacation start and end dates
+   */
+  mode: 'off' | 'always' | 'outside_business_hours' | 'schedule' | 'vacation'
+  timezone: string // IANA zone the hours are in, e.g. America/Edmonton
+  business_hours: DaySchedule[] // indexed by day of week, Sunday first
+  custom_schedule: DaySchedule[] // indexed by day of week, Sunday first
+  vacation_start?: string // YYYY-MM-DD
+  vacation_end?: string // YYYY-MM-DD, inclusive
+}
+
+export interface PricingRules {
+  minimum_hours: number // smallest billable labor time, e.g. 1
+  billing_increment_minutes: number // labor beyond the minimum is rounded up to this, e.g. 15
+  diagnostic_fee: number // flat fee for diagnosing a problem, 0 for none
+  shop_supplies_percent: number // percent of labor charged for shop supplies, 0 for none
+  parts_markup: PartsMarkupTier[] // default markup on part cost, by cost
+}
+
+// Parts costing at least `min_cost` are marked up by `markup_percent`,
+// up to the next tier
+export interface PartsMarkupTier {
+  min_cost: number
+  markup_percent: number
+}
+
+export type Province = 'AB' | 'BC' | 'MB' | 'NB' | 'NL' | 'NS' | 'NT' | 'NU' | 'ON' | 'PE' | 'QC' | 'SK' | 'YT'
+
+export interface TaxLine {
+  name: string
+  rate: number // percent, e.g. 5 for 5%
+  amount: number
+}
+
+export type AIIntent =
+  | 'Quote Request'
+  | 'Booking'
+  | 'Booking Confirmation'
+  | 'Quote Acceptance'
+  | 'Service Inquiry'
+  | 'Status Update'
+  | 'Emergency'
+  | 'General Inquiry'
+
 export interface AIResponse {
   reply: string
-  intent: string
+  intent: AIIntent
   action: string
+  confidence: number // 0-1, how sure the model is about the intent
+  vehicle?: string
+  service?: string
+  fallback?: boolean // true when the model output was unusable and a safe reply was substituted
 }
 
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
 export interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant'
-  content: string
+  content: string | OpenAIContentPart[]
 }
 
 export interface Quote {
   id: string
   customer_name: string
-  customer_phone: string
-  vehicle_info: string
+  customer_phone: string // E.164, see utils/phone
+  customer_id?: string
+  vehicle_info: string // shown on the record; see vehicle_id for the vehicle itself
+  vehicle_id?: string
   description: string
-  labor_hours: number
-  labor_rate: number
-  parts_cost: number
+  line_items?: LineItem[] // priced lines; quotes saved before line items have none
+  labor_hours: number // billable hours of all labor lines
+  labor_rate: number // the shop rate new labor lines start at
+  parts_cost: number // total of all part lines
+  minimum_labor?: LineItem // time added to reach the minimum, kept out of line_items
+  diagnostic_fee?: number
+  shop_supplies?: number
+  subtotal?: number
+  taxes?: TaxLine[]
+  tax_total?: number
   total_cost: number
   status: 'draft' | 'sent' | 'accepted' | 'declined'
   created_at: string
@@ -63,12 +217,253 @@ export interface ServerSettings {
   openphone_key_preview?: string
 }
 
+export interface Appointment {
+  id: string
+  customer_name: string
+  customer_phone: string // E.164, see utils/phone
+  customer_id?: string
+  vehicle_info: string // shown on the record; see vehicle_id for the vehicle itself
+  vehicle_id?: string
+  service_type: string
+  date: string
+  time: string
+  duration: number // in hours
+  status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled'
+  notes?: string
+  created_at: string
+  quote_id?: string
+  reminders?: AppointmentReminder[] // every reminder sent (or attempted) for this appointment
+  reminder_reply?: AppointmentReminderReply // the customer's last confirm/cancel reply
+}
+
+export interface AppointmentReminder {
+  hours_before: number // the rule it was sent for
+  appointment_time: string // "yyyy-MM-dd HH:mm" it reminded about, so a rescheduled appointment is reminded again
+  status: 'sent' | 'failed' | 'skipped' // skipped: a later rule was already due, so only that one went out
+  sent_at: string
+  message_id?: string
+  error?: string
+}
+
+export interface AppointmentReminderReply {
+  action: 'confirmed' | 'cancelled'
+  keyword?: string // the opt-out keyword (e.g. STOP) when the reply also stopped texts
+  message_id: string
+  received_at: string
+}
+
+export interface CustomerVehicle {
+  year?: string
+  make?: string
+  model?: string
+  details: string
+  added_at: string
+}
+
+export interface ServiceHistoryEntry {
+  date: string
+  inquiry: string
+  type: string
+  message_id?: string // the text it was picked up from
+}
+
+export interface CustomerCall {
+  call_id: string
+  direction: 'inbound' | 'outbound'
+  status: string // as reported by OpenPhone, e.g. completed, missed, no-answer
+  duration?: number // seconds
+  created_at: string
+  summary?: string[]
+  next_steps?: string[]
+}
+
+export type ContactMethod = 'sms' | 'call' | 'email'
+
+/**
+ * Details the AI picked out of an inbound text ("Hi it's Dave, my 2012
+ * F-150 is grinding")
+ */
+export interface CustomerExtraction {
+  first_name?: string
+  last_name?: string
+  vehicle?: {
+    year?: string
+    make?: string
+    model?: string
+  }
+  symptoms: string[]
+  confidence: number // 0 to 1
+}
+
+// A low-confidence extraction waiting for staff to accept or dismiss it
+export interface ExtractionReview {
+  id: string
+  message_id: string
+  message_body: string
+  extraction: CustomerExtraction
+  created_at: string
+}
+
+export interface Customer {
+  id: string
+  phone_number: string
+  alternate_phone_numbers?: string[] // numbers from duplicate records merged into this one
+  first_name?: string
+  last_name?: string
+  full_name?: string
+  email?: string
+  address?: string
+  preferred_contact_method?: ContactMethod
+  is_repeat_customer?: boolean
+  vehicles: CustomerVehicle[]
+  service_history: ServiceHistoryEntry[]
+  notes: string[]
+  calls?: CustomerCall[] // newest first
+  extraction_reviews?: ExtractionReview[]
+  distinct_from?: string[] // customers staff said are not duplicates of this one
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A customer's vehicle as the shop keeps it. Quotes, appointments, tech
+ * sheets and invoices link to it with `vehicle_id`.
+ */
+export interface Vehicle {
+  id: string
+  customer_id?: string // the owner
+  vin?: string // 17 characters, validated with utils/vin
+  year?: string
+  make?: string
+  model?: string
+  engine?: string
+  trim?: string
+  mileage?: number // km, as of the last visit
+  plate?: string
+  notes?: string
+  created_at: string
+  updated_at: string
+}
+
+// Everything the shop has done or booked for one vehicle, newest first
+export interface VehicleHistory {
+  vehicle: Vehicle
+  quotes: Quote[]
+  appointments: Appointment[]
+  tech_sheets: TechSheet[]
+  invoices: Invoice[]
+}
+
+export type DuplicateReason = 'phone' | 'name' | 'vehicle'
+
+// Two customer records that may be the same person
+export interface CustomerDuplicate {
+  customer_ids: [string, string]
+  reasons: DuplicateReason[]
+}
+
+export interface FollowUpTask {
+  id: string
+  type: 'missed_call' | 'voicemail'
+  phone_number: string
+  title: string
+  details?: string // voicemail transcript when OpenPhone provides one
+  voicemail_url?: string
+  call_id?: string
+  status: 'open' | 'done'
+  created_at: string
+  completed_at?: string
+}
+
+/**
+ * A text queued to go out later. The webhook server sends it once `send_at`
+ * passes, holding it until quiet hours end if needed.
+ */
+export interface ScheduledMessage {
+  id: string
+  phone_number: string
+  body: string
+  media?: MessageMedia[]
+  send_at: string
+  status: 'scheduled' | 'sent' | 'failed' | 'cancelled'
+  deferred_for_quiet_hours?: boolean // send_at was moved past quiet hours
+  attempts: number
+  last_error?: string
+  sent_message_id?: string
+  created_at: string
+  updated_at: string
+  sent_at?: string
+}
+
+export type ConsentStatus = 'opted_in' | 'opted_out'
+
+/**
+ * Whether a phone number may be texted. Numbers without a record may be;
+ * one that texts STOP (or is opted out by staff) is never texted again until
+ * it texts START.
+ */
+export interface SmsConsent {
+  id: string
+  phone_number: string
+  status: ConsentStatus
+  updated_at: string
+  history: ConsentEvent[] // oldest first
+}
+
+export interface ConsentEvent {
+  status: ConsentStatus
+  source: 'keyword' | 'staff'
+  keyword?: string // the word the customer texted, e.g. STOP
+  message_id?: string
+  note?: string // staff's reason, e.g. "asked in person"
+  at: string
+}
+
+/**
+ * A saved answer staff can insert into a reply. `{variables}` in the body
+ * are filled from the customer, their latest quote and the shop settings.
+ */
+export interface ReplyTemplate {
+  id: string
+  name: string
+  body: string
+  use_in_ai: boolean // offer it to the AI as an approved answer
+  created_at: string
+  updated_at: string
+}
+
+export type ConversationStatus = 'open' | 'snoozed' | 'closed'
+
+/**
+ * A text thread with one phone number, kept up to date by the message
+ * processor as messages are stored and read
+ */
+export interface Conversation {
+  id: string
+  phone_number: string // the other participant
+  customer_id?: string
+  customer_name?: string // copied from the customer for the list view
+  status: ConversationStatus
+  snoozed_until?: string // snoozed threads reopen at this time
+  assignee?: string
+  tags: string[]
+  last_message_at: string
+  last_message_preview: string
+  last_message_direction: Message['direction']
+  unread_count: number // inbound messages not read yet
+  created_at: string
+  updated_at: string
+  closed_at?: string
+}
+
 export interface TechSheet {
   id: string
   title: string
   description: string
   vehicle_info?: string
+  vehicle_id?: string
   customer_name?: string
+  customer_id?: string
   estimated_time: number
   difficulty: 'Easy' | 'Medium' | 'Hard'
   tools_required: string[]
@@ -79,4 +474,82 @@ export interface TechSheet {
   created_at: string
   generated_by: 'ai' | 'manual'
   source?: 'booking' | 'manual'
-}
\ No newline at end of file
+  quote_id?: string
+}
+export interface LineItem {
+  id: string
+  type: 'labor' | 'part' | 'fee' | 'discount'
+  description: string
+  quantity: number // hours for labor
+  unit_price: number // rate for labor; a discount's amount is subtracted
+  // Parts only: what the shop pays and the markup on it. When a cost is set
+  // the price is the cost plus markup (see utils/pricing).
+  part_number?: string
+  unit_cost?: number
+  markup_percent?: number
+  catalog_part_id?: string
+}
+
+/**
+ * A part in the shop's catalog, picked when adding parts to a quote
+ */
+export interface CatalogPart {
+  id: string
+  part_number: string
+  description: string
+  brand?: string
+  unit_cost: number // what the shop pays
+  markup_percent?: number // overrides the pricing rules' markup for this part
+  created_at: string
+  updated_at: string
+}
+
+export interface InvoicePayment {
+  id: string
+  amount: number
+  method: 'cash' | 'card' | 'e-transfer' | 'cheque' | 'other'
+  paid_at: string
+  note?: string
+}
+
+export interface Invoice {
+  id: string
+  invoice_number: string
+  customer_name: string
+  customer_phone: string // E.164, see utils/phone
+  customer_id?: string
+  vehicle_info: string // shown on the record; see vehicle_id for the vehicle itself
+  vehicle_id?: string
+  description: string
+  line_items: LineItem[]
+  subtotal: number
+  taxes: TaxLine[]
+  tax_total: number
+  total: number
+  // The tax settings when it was issued, so later changes to the shop's settings don't change it
+  tax_settings?: Pick<BusinessSettings, 'gst_setting' | 'province' | 'apply_provincial_tax'>
+  amount_paid: number
+  payments: InvoicePayment[]
+  status: 'unpaid' | 'partial' | 'paid' | 'void'
+  issued_at: string
+  due_date: string
+  notes?: string
+  quote_id?: string
+  appointment_id?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookJob {
+  id: string // the provider's event id, so a redelivered event maps to the same job
+  source: 'openphone'
+  event_type: string
+  payload: unknown // the event as the provider sent it; handlers check its shape
+  status: 'pending' | 'processing' | 'completed' | 'dead'
+  attempts: number
+  next_attempt_at: string
+  last_error?: string
+  created_at: string
+  updated_at: string
+  completed_at?: string
+}
@@ -0,0 +1,159 @@
+import type { AutoResponderPolicy, BusinessSettings, DaySchedule } from '../types'
+
+/**
+ * Auto-Responder Policy
+ *
+ * Decides whether the AI should reply to an incoming text right now.
+ * Replaces the old `dnd_enabled` flag, which only auto-responded when
+ * "Do Not Disturb" was ON. Times are evaluated in the shop's time zone so
+ * the server gives the same answer no matter where it runs.
+ */
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export const AUTO_RESPONDER_MODES: { value: AutoResponderPolicy['mode']; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'Messages are stored, the AI never replies' },
+  { value: 'always', label: 'Always', description: 'The AI replies to every message' },
+  { value: 'outside_business_hours', label: 'Outside business hours', description: 'The AI replies only while the shop is closed' },
+  { value: 'schedule', label: 'Custom schedule', description: 'The AI replies only during the hours you choose' },
+  { value: 'vacation', label: 'Vacation', description: 'The AI replies only between the vacation dates' }
+]
+
+export const CANADIAN_TIMEZONES: { value: string; label: string }[] = [
+  { value: 'America/St_Johns', label: 'Newfoundland' },
+  { value: 'America/Halifax', label: 'Atlantic' },
+  { value: 'America/Toronto', label: 'Eastern' },
+  { value: 'America/Winnipeg', label: 'Central' },
+  { value: 'America/Regina', label: 'Saskatchewan' },
+  { value: 'America/Edmonton', label: 'Mountain' },
+  { value: 'America/Vancouver', label: 'Pacific' },
+  { value: 'America/Whitehorse', label: 'Yukon' }
+]
+
+const weekdays = (start: string, end: string): DaySchedule[] =>
+  DAY_NAMES.map((_, day) => ({ enabled: day >= 1 && day <= 5, start, end }))
+
+export const DEFAULT_AUTO_RESPONDER_POLICY: AutoResponderPolicy = {
+  mode: 'always',
+  timezone: 'America/Edmonton',
+  business_hours: weekdays('08:00', '17:00'),
+  custom_schedule: weekdays('17:00', '22:00')
+}
+
+/**
+ * Returns the shop's policy, migrating the legacy `dnd_enabled` flag
+ * (true meant the AI replied to everything) when no policy is saved yet
+ */
+export const getAutoResponderPolicy = (
+  settings?: Pick<BusinessSettings, 'auto_responder' | 'dnd_enabled'> | null
+): AutoResponderPolicy => {
+  if (settings?.auto_responder) {
+    return { ...DEFAULT_AUTO_RESPONDER_POLICY, ...settings.auto_responder }
+  }
+  if (settings?.dnd_enabled === false) {
+    return { ...DEFAULT_AUTO_RESPONDER_POLICY, mode: 'off' }
+  }
+  return { ...DEFAULT_AUTO_RESPONDER_POLICY }
+}
+
+export interface LocalTime {
+  day: number // 0 = Sunday
+  time: string // HH:MM, 24-hour
+  date: string // YYYY-MM-DD
+}
+
+/**
+ * Day of week, time and date at an instant in the given time zone
+ */
+export const getLocalTime = (date: Date, timeZone: string): LocalTime => {
+  let parts: Intl.DateTimeFormatPart[]
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date)
+  } catch {
+    // Unknown time zone - fall back to the machine's local time
+    return getLocalTime(date, Intl.DateTimeFormat().resolvedOptions().timeZone)
+  }
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || ''
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'))
+
+  return {
+    day: weekday,
+    time: `${get('hour')}:${get('minute')}`,
+    date: `${get('year')}-${get('month')}-${get('day')}`
+  }
+}
+
+/**
+ * The instant a local date and time (e.g. "2024-03-01" and "09:30") happen
+ * in the given time zone, the reverse of `getLocalTime`
+ */
+export const getZonedInstant = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wanted = Date.UTC(year, month - 1, day, hour, minute)
+
+  // Correct by the zone's offset; a second pass settles daylight saving changes
+  let instant = wanted
+  for (let pass = 0; pass < 2; pass++) {
+    const local = getLocalTime(new Date(instant), timeZone)
+    const [localYear, localMonth, localDay] = local.date.split('-').map(Number)
+    const [localHour, localMinute] = local.time.split(':').map(Number)
+    instant += wanted - Date.UTC(localYear, localMonth - 1, localDay, localHour, localMinute)
+  }
+  return new Date(instant)
+}
+
+/**
+ * Checks if a time falls in the day's window. Windows that end before they
+ * start (e.g. 22:00-06:00) run past midnight.
+ */
+const isWithinDay = (schedule: DaySchedule | undefined, time: string): boolean => {
+  if (!schedule?.enabled) return false
+  if (schedule.start <= schedule.end) {
+    return time >= schedule.start && time < schedule.end
+  }
+  return time >= schedule.start || time < schedule.end
+}
+
+/**
+ * Checks if the shop is open at the given instant
+ */
+export const isWithinBusinessHours = (policy: AutoResponderPolicy, date: Date = new Date()): boolean => {
+  const { day, time } = getLocalTime(date, policy.timezone)
+  return isWithinDay(policy.business_hours[day], time)
+}
+
+/**
+ * Checks if the AI should reply to a message received at the given instant
+ */
+export const isAutoResponderActive = (policy: AutoResponderPolicy, date: Date = new Date()): boolean => {
+  switch (policy.mode) {
+    case 'off':
+      return false
+    case 'always':
+      return true
+    case 'outside_business_hours':
+      return !isWithinBusinessHours(policy, date)
+    case 'schedule': {
+      const { day, time } = getLocalTime(date, policy.timezone)
+      return isWithinDay(policy.custom_schedule[day], time)
+    }
+    case 'vacation': {
+      if (!policy.vacation_start || !policy.vacation_end) return false
+      const { date: today } = getLocalTime(date, policy.timezone)
+      return today >= policy.vacation_start && today <= policy.vacation_end
+    }
+    default:
+      return false
+  }
+}
@@ -0,0 +1,94 @@
+import type { Customer, Message, OpenAIMessage } from '../types'
+
+/**
+ * Conversation Context
+ *
+ * Builds the chat history sent to the AI so replies stay coherent across a
+ * text thread. Recent messages for the phone number are mapped to chat turns
+ * (inbound → user, outbound → assistant) and trimmed to a token budget:
+ *
+ * - The newest messages are kept first, older ones are dropped once the budget runs out
+ * - A single oversized message is cut short rather than dropped, so the latest context survives
+ * - Known customer details (name, vehicles) are summarized separately and always included
+ */
+
+export interface ConversationContextOptions {
+  maxTokens?: number
+  maxMessages?: number
+  excludeMessageId?: string
+}
+
+export const DEFAULT_CONTEXT_MAX_TOKENS = 1500
+export const DEFAULT_CONTEXT_MAX_MESSAGES = 20
+
+// Rough average for English text; close enough for budgeting without a tokenizer
+const CHARS_PER_TOKEN = 4
+
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+const truncateToTokens = (text: string, maxTokens: number): string => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN
+  if (text.length <= maxChars) return text
+  return `…${text.slice(text.length - maxChars + 1)}`
+}
+
+/**
+ * Returns the thread for a phone number as chat turns, oldest first,
+ * within the token budget
+ */
+export const buildConversationHistory = (
+  messages: Message[],
+  phoneNumber: string,
+  options: ConversationContextOptions = {}
+): OpenAIMessage[] => {
+  const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_MAX_TOKENS
+  const maxMessages = options.maxMessages ?? DEFAULT_CONTEXT_MAX_MESSAGES
+
+  const thread = messages
+    .filter(m => m.phone_number === phoneNumber && m.id !== options.excludeMessageId && m.body.trim())
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .slice(0, maxMessages)
+
+  const history: OpenAIMessage[] = []
+  let remaining = maxTokens
+
+  for (const message of thread) {
+    if (remaining <= 0) break
+
+    let content = message.body.trim()
+    const tokens = estimateTokens(content)
+    if (tokens > remaining) {
+      if (history.length > 0) break
+      content = truncateToTokens(content, remaining)
+    }
+
+    history.unshift({
+      role: message.direction === 'inbound' ? 'user' : 'assistant',
+      content
+    })
+    remaining -= estimateTokens(content)
+  }
+
+  return history
+}
+
+/**
+ * Summarizes what we already know about the customer for the system prompt
+ */
+export const buildCustomerContext = (customer: Customer | null | undefined): string => {
+  if (!customer) return ''
+
+  const lines: string[] = []
+  const name = customer.full_name || [customer.first_name, customer.last_name].filter(Boolean).join(' ')
+  if (name) lines.push(`Name: ${name}`)
+  if (customer.is_repeat_customer) lines.push('Repeat customer')
+
+  const vehicles = customer.vehicles
+    .map(v => [v.year, v.make, v.model].filter(Boolean).join(' ') || v.details)
+    .filter(Boolean)
+  if (vehicles.length > 0) lines.push(`Vehicles on file: ${vehicles.join('; ')}`)
+
+  return lines.length > 0 ? `KNOWN CUSTOMER DETAILS:\n${lines.join('\n')}` : ''
+}
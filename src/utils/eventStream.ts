@@ -0,0 +1,196 @@
+import { API_BASE_URL } from './api'
+import type { ChangeEvent } from '../services/eventBus'
+import type { CollectionName } from '../services/storage/datastore'
+
+/**
+ * Event Stream
+ *
+ * One shared connection to the server's change stream (`/api/events`) for
+ * the whole app. Hooks subscribe to the collections they show and apply each
+ * change to their list instead of re-downloading it.
+ *
+ * - Dropped connections reconnect with exponential backoff and resume from
+ *   the last cursor, so no change is missed
+ * - After repeated failures (or without EventSource support) it falls back to
+ *   polling `/api/changes?since=<cursor>` and keeps trying the stream
+ * - When the server no longer has the missed changes, subscribers are told
+ *   to reload
+ */
+
+type ChangeHandler = (event: ChangeEvent) => void
+type ResetHandler = () => void
+
+interface Subscription {
+  collection: CollectionName
+  onChange: ChangeHandler
+  onReset: ResetHandler
+}
+
+const INITIAL_RETRY_MS = 1000
+const MAX_RETRY_MS = 30 * 1000
+// Consecutive stream failures before falling back to polling
+const MAX_STREAM_FAILURES = 3
+const POLL_INTERVAL_MS = 5000
+// While polling, how often to try the stream again
+const STREAM_RETRY_WHILE_POLLING_MS = 60 * 1000
+
+/**
+ * Applies a change event to a newest-first list
+ */
+export const applyChange = <T extends { id: string }>(items: T[], event: ChangeEvent): T[] => {
+  if (event.type === 'remove') {
+    return items.filter(item => item.id !== event.id)
+  }
+  const item = event.item as T
+  return items.some(existing => existing.id === event.id)
+    ? items.map(existing => (existing.id === event.id ? item : existing))
+    : [item, ...items]
+}
+
+class EventStream {
+  private subscriptions = new Set<Subscription>()
+  private source: EventSource | null = null
+  private cursor: number | null = null
+  private failures = 0
+  private retryDelay = INITIAL_RETRY_MS
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private pollTimer: ReturnType<typeof setInterval> | null = null
+  private streamRetryTimer: ReturnType<typeof setTimeout> | null = null
+
+  /**
+   * Listens for changes to a collection. Returns the unsubscribe function.
+   */
+  subscribe(collection: CollectionName, onChange: ChangeHandler, onReset: ResetHandler): () => void {
+    const subscription = { collection, onChange, onReset }
+    this.subscriptions.add(subscription)
+    if (this.subscriptions.size === 1) {
+      this.start()
+    }
+
+    return () => {
+      this.subscriptions.delete(subscription)
+      if (this.subscriptions.size === 0) {
+        this.stop()
+      }
+    }
+  }
+
+  private start() {
+    if (typeof EventSource === 'undefined') {
+      this.startPolling()
+    } else {
+      this.connect()
+    }
+  }
+
+  private stop() {
+    this.closeStream()
+    this.stopPolling()
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    if (this.streamRetryTimer) clearTimeout(this.streamRetryTimer)
+    this.reconnectTimer = null
+    this.streamRetryTimer = null
+  }
+
+  private connect() {
+    this.closeStream()
+    const query = this.cursor !== null ? `?since=${this.cursor}` : ''
+    const source = new EventSource(`${API_BASE_URL}/api/events${query}`)
+    this.source = source
+
+    source.addEventListener('ready', (e) => {
+      const { cursor } = JSON.parse((e as MessageEvent).data)
+      this.cursor = cursor
+      this.failures = 0
+      this.retryDelay = INITIAL_RETRY_MS
+      // The stream is healthy again, so polling can stop
+      this.stopPolling()
+      if (this.streamRetryTimer) clearTimeout(this.streamRetryTimer)
+      this.streamRetryTimer = null
+    })
+
+    source.addEventListener('change', (e) => {
+      this.dispatch(JSON.parse((e as MessageEvent).data))
+    })
+
+    source.addEventListener('reset', (e) => {
+      const { cursor } = JSON.parse((e as MessageEvent).data)
+      this.cursor = cursor
+      this.failures = 0
+      this.retryDelay = INITIAL_RETRY_MS
+      this.stopPolling()
+      this.resetAll()
+    })
+
+    source.onerror = () => {
+      // Take over reconnecting so the delay backs off and the cursor is resent
+      this.closeStream()
+      this.failures++
+
+      if (this.failures >= MAX_STREAM_FAILURES) {
+        console.warn('📡 Live updates unavailable, falling back to polling')
+        this.startPolling()
+        this.streamRetryTimer = setTimeout(() => this.connect(), STREAM_RETRY_WHILE_POLLING_MS)
+        return
+      }
+
+      this.reconnectTimer = setTimeout(() => this.connect(), this.retryDelay)
+      this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS)
+    }
+  }
+
+  private closeStream() {
+    if (this.source) {
+      this.source.close()
+      this.source = null
+    }
+  }
+
+  private startPolling() {
+    if (this.pollTimer) return
+    this.poll()
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS)
+  }
+
+  private stopPolling() {
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    this.pollTimer = null
+  }
+
+  private async poll() {
+    try {
+      const since = this.cursor ?? ''
+      const response = await fetch(`${API_BASE_URL}/api/changes?since=${since}`)
+      if (!response.ok) return
+
+      const { events, cursor, reset } = await response.json()
+      const hadCursor = this.cursor !== null
+      this.cursor = cursor
+      if (reset) {
+        // A first poll only establishes the cursor; the hooks already loaded their data
+        if (hadCursor) this.resetAll()
+        return
+      }
+      events.forEach((event: ChangeEvent) => this.dispatch(event))
+    } catch (error) {
+      console.error('Error polling for changes:', error)
+    }
+  }
+
+  private dispatch(event: ChangeEvent) {
+    this.cursor = Math.max(this.cursor ?? 0, event.seq)
+    for (const subscription of this.subscriptions) {
+      if (subscription.collection === event.collection) {
+        subscription.onChange(event)
+      }
+    }
+  }
+
+  private resetAll() {
+    for (const subscription of this.subscriptions) {
+      subscription.onReset()
+    }
+  }
+}
+
+export const eventStream = new EventStream()
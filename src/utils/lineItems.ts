@@ -0,0 +1,61 @@
+import type { LineItem } from '../types'
+import type { TaxableAmounts } from './tax'
+
+/**
+ * Line Item Helpers
+ * 
+ * Shared math for anything billed as a list of labor, parts, fee and
+ * discount lines. Discount lines are subtracted. All amounts are rounded to
+ * cents so stored totals match what is printed.
+ */
+
+export const roundCurrency = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+export const createLineItem = (item: Omit<LineItem, 'id'>): LineItem => {
+  return {
+    ...item,
+    id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+  }
+}
+
+export const getLineItemTotal = (item: LineItem): number => {
+  const total = roundCurrency((item.quantity || 0) * (item.unit_price || 0))
+  return item.type === 'discount' ? -total : total
+}
+
+export const getLineItemsSubtotal = (items: LineItem[]): number => {
+  return roundCurrency(items.reduce((sum, item) => sum + getLineItemTotal(item), 0))
+}
+
+/**
+ * Sums line items of a single type, e.g. all labor or all parts
+ */
+export const getLineItemsTotalByType = (items: LineItem[], type: LineItem['type']): number => {
+  return getLineItemsSubtotal(items.filter(item => item.type === type))
+}
+
+/**
+ * Splits the lines into labor, parts and fees for tax. Discounts come off
+ * each in proportion to its share, so a discount on a job reduces the tax
+ * the same way whichever part of it is taxable.
+ */
+export const getTaxableAmounts = (items: LineItem[]): TaxableAmounts => {
+  const labor = getLineItemsTotalByType(items, 'labor')
+  const parts = getLineItemsTotalByType(items, 'part')
+  const fees = getLineItemsTotalByType(items, 'fee')
+  const beforeDiscount = labor + parts + fees
+  const discount = Math.min(-getLineItemsTotalByType(items, 'discount'), beforeDiscount)
+  if (discount <= 0 || beforeDiscount <= 0) return { labor, parts, fees }
+
+  const share = (amount: number) => roundCurrency(amount - discount * amount / beforeDiscount)
+  const discountedLabor = share(labor)
+  const discountedParts = share(parts)
+  // Fees take any rounding difference so the parts add up to the subtotal
+  return {
+    labor: discountedLabor,
+    parts: discountedParts,
+    fees: roundCurrency(beforeDiscount - discount - discountedLabor - discountedParts)
+  }
+}
@@ -0,0 +1,12 @@
+import { API_BASE_URL } from './api'
+import type { MessageMedia } from '../types'
+
+/**
+ * Returns the URL to show an attachment from, preferring the copy cached on
+ * the webhook server since OpenPhone's links expire
+ */
+export const getMediaUrl = (media: MessageMedia): string => {
+  return media.cached_url ? `${API_BASE_URL}${media.cached_url}` : media.url
+}
+
+export const isImageMedia = (media: Pick<MessageMedia, 'type'>): boolean => media.type.startsWith('image/')
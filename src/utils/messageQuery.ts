@@ -0,0 +1,121 @@
+import type { Message } from '../types'
+import { getZonedInstant } from './autoResponder'
+
+/**
+ * Message Search
+ *
+ * Filtering and cursor pagination for the messages API. Messages are
+ * ordered newest first (by timestamp, then id so the order is stable) and
+ * the cursor names the last message of the previous page, so new messages
+ * arriving while someone pages back never shift or repeat results.
+ * Plain dates in the from/to filters are days in the shop's time zone.
+ */
+
+export interface MessageQuery {
+  cursor?: string // nextCursor from the previous page
+  limit?: number
+  search?: string // every word must appear in the message body
+  phone?: string // matched on digits, so any formatting works
+  intent?: string
+  direction?: Message['direction']
+  read?: boolean // inbound messages only
+  from?: string // YYYY-MM-DD or ISO date, inclusive
+  to?: string // YYYY-MM-DD or ISO date, inclusive
+}
+
+export interface MessagePage {
+  messages: Message[]
+  nextCursor: string | null
+  total: number // messages matching the filters across all pages
+}
+
+export const DEFAULT_PAGE_SIZE = 100
+export const MAX_PAGE_SIZE = 500
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '')
+
+const compareNewestFirst = (a: Message, b: Message) =>
+  b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id)
+
+export const encodeCursor = (message: Pick<Message, 'timestamp' | 'id'>) => `${message.timestamp}|${message.id}`
+
+const decodeCursor = (cursor: string): Pick<Message, 'timestamp' | 'id'> | null => {
+  const separator = cursor.indexOf('|')
+  if (separator === -1) return null
+  return { timestamp: cursor.slice(0, separator), id: cursor.slice(separator + 1) }
+}
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10)
+}
+
+/**
+ * Turns a date filter into an ISO bound. Plain dates cover the whole day
+ * in the given time zone.
+ */
+const toBound = (value: string, endOfDay: boolean, timezone: string): string | null => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    if (isNaN(new Date(value).getTime())) return null
+    // The day ends just before the next one starts, which DST can make other than 24 hours
+    const date = endOfDay
+      ? new Date(getZonedInstant(nextDay(value), '00:00', timezone).getTime() - 1)
+      : getZonedInstant(value, '00:00', timezone)
+    return date.toISOString()
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Returns true if the message passes every filter in the query
+ */
+export const matchesMessageQuery = (message: Message, query: MessageQuery, timezone: string): boolean => {
+  if (query.direction && message.direction !== query.direction) return false
+  if (query.intent && message.intent?.toLowerCase() !== query.intent.toLowerCase()) return false
+  if (query.read !== undefined && (message.direction !== 'inbound' || !!message.read !== query.read)) return false
+
+  if (query.phone) {
+    const digits = digitsOnly(query.phone)
+    if (!digits || !digitsOnly(message.phone_number).includes(digits)) return false
+  }
+
+  if (query.search) {
+    const body = message.body.toLowerCase()
+    const words = query.search.toLowerCase().split(/\s+/).filter(Boolean)
+    if (!words.every(word => body.includes(word))) return false
+  }
+
+  if (query.from || query.to) {
+    const sentAt = new Date(message.timestamp)
+    if (isNaN(sentAt.getTime())) return false
+    const from = query.from ? toBound(query.from, false, timezone) : null
+    const to = query.to ? toBound(query.to, true, timezone) : null
+    if (from && sentAt.toISOString() < from) return false
+    if (to && sentAt.toISOString() > to) return false
+  }
+
+  return true
+}
+
+/**
+ * Filters messages and returns one page, newest first. `timezone` is the
+ * shop's, used to read plain from/to dates.
+ */
+export const queryMessages = (messages: Message[], query: MessageQuery, timezone: string): MessagePage => {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const matching = messages.filter(message => matchesMessageQuery(message, query, timezone)).sort(compareNewestFirst)
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null
+  const start = after
+    ? matching.findIndex(message => compareNewestFirst(message, after as Message) > 0)
+    : 0
+  const page = start === -1 ? [] : matching.slice(start, start + limit)
+  const hasMore = start !== -1 && start + limit < matching.length
+
+  return {
+    messages: page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    total: matching.length
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Phone Numbers
+ *
+ * Numbers arrive as `+15551234567`, `(555) 123-4567`, `555.123.4567` and so
+ * on. Everything stored is normalized to E.164 (`+15551234567`) so the same
+ * person is always the same number. The shop is in Canada, so 10-digit
+ * numbers are taken as North American (+1): `+1234567890` and
+ * `(123) 456-7890` are the same number.
+ */
+
+const DEFAULT_COUNTRY_CODE = '1'
+
+/**
+ * Returns the number in E.164 form. Numbers that can't be read as a full
+ * phone number (short codes, typos) are returned trimmed but otherwise as
+ * given, so nothing is lost.
+ */
+export const normalizePhoneNumber = (value: string): string => {
+  const trimmed = (value || '').trim()
+  const digits = trimmed.replace(/\D/g, '')
+
+  // Ten digits is a North American number even with a stray "+" in front
+  if (digits.length === 10) return `+${DEFAULT_COUNTRY_CODE}${digits}`
+  if (digits.length === 11 && digits.startsWith(DEFAULT_COUNTRY_CODE)) return `+${digits}`
+  if (trimmed.startsWith('+') && digits.length >= 8 && digits.length <= 15) return `+${digits}`
+  return trimmed
+}
+
+/**
+ * Checks if two numbers are the same once normalized
+ */
+export const isSamePhoneNumber = (a?: string, b?: string): boolean => {
+  return !!a && !!b && normalizePhoneNumber(a) === normalizePhoneNumber(b)
+}
+
+/**
+ * Formats a North American number for display, e.g. (555) 123-4567.
+ * Other numbers are shown in E.164.
+ */
+export const formatPhoneNumber = (value: string): string => {
+  const normalized = normalizePhoneNumber(value)
+  const match = normalized.match(/^\+1(\d{3})(\d{3})(\d{4})$/)
+  return match ? `(${match[1]}) ${match[2]}-${match[3]}` : normalized
+}
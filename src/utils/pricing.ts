@@ -0,0 +1,162 @@
+import type { BusinessSettings, LineItem, PricingRules } from '../types'
+import { getLineItemsTotalByType, roundCurrency } from './lineItems'
+
+/**
+ * Pricing Rules
+ *
+ * The shop's billing rules, shared by the AI prompt and quote calculations so
+ * a price quoted by text matches one created by hand:
+ *
+ * - Labor is billed at the shop rate with a minimum billable time
+ * - Time beyond the minimum is rounded up to the billing increment
+ * - An optional flat diagnostic fee
+ * - An optional shop supplies charge as a percent of labor
+ * - Parts are marked up from cost, by default on a sliding scale where
+ *   cheaper parts get a higher markup
+ */
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  minimum_hours: 1,
+  billing_increment_minutes: 15,
+  diagnostic_fee: 0,
+  shop_supplies_percent: 0,
+  parts_markup: [
+    { min_cost: 0, markup_percent: 50 },
+    { min_cost: 50, markup_percent: 35 },
+    { min_cost: 200, markup_percent: 25 }
+  ]
+}
+
+export interface QuotePricingInput {
+  line_items: LineItem[]
+  include_diagnostic_fee?: boolean
+}
+
+export interface QuotePricing {
+  line_items: LineItem[] // with rounded hours and marked-up part prices
+  minimum_labor: LineItem | null // labor time added to reach the minimum, never saved as a line
+  billable_hours: number
+  labor_cost: number
+  parts_cost: number
+  fees_cost: number
+  discount: number
+  diagnostic_fee: number
+  shop_supplies: number
+}
+
+/**
+ * Returns the shop's pricing rules, filling in defaults for anything not set
+ */
+export const getPricingRules = (settings?: Pick<BusinessSettings, 'pricing_rules'> | null): PricingRules => {
+  return { ...DEFAULT_PRICING_RULES, ...(settings?.pricing_rules || {}) }
+}
+
+/**
+ * Rounds up to the billing increment
+ */
+const roundUpToIncrement = (hours: number, rules: PricingRules): number => {
+  if (!hours || hours <= 0) return 0
+
+  const increment = rules.billing_increment_minutes > 0 ? rules.billing_increment_minutes : 1
+  const roundedMinutes = Math.ceil(Math.round(hours * 60 * 100) / 100 / increment) * increment
+  return roundedMinutes / 60
+}
+
+/**
+ * The default markup for a part that costs the shop `unitCost`
+ */
+export const getPartsMarkupPercent = (unitCost: number, rules: PricingRules = DEFAULT_PRICING_RULES): number => {
+  const tier = [...(rules.parts_markup || [])]
+    .sort((a, b) => b.min_cost - a.min_cost)
+    .find(t => unitCost >= t.min_cost)
+  return tier ? tier.markup_percent : 0
+}
+
+/**
+ * The price charged for a part: its cost plus markup
+ */
+export const getPartPrice = (unitCost: number, markupPercent: number): number => {
+  return roundCurrency(unitCost * (1 + markupPercent / 100))
+}
+
+/**
+ * Applies the pricing rules to quote lines. Each labor line is rounded up
+ * to the billing increment. Parts with a cost are priced at cost plus their
+ * markup, or the default markup when they have none. Pricing lines that
+ * were already priced gives the same lines back.
+ */
+export const priceLineItems = (items: LineItem[], rules: PricingRules = DEFAULT_PRICING_RULES): LineItem[] => {
+  return items.map(item => {
+    if (item.type === 'labor') {
+      return { ...item, quantity: roundUpToIncrement(item.quantity, rules) }
+    }
+    if (item.type === 'part' && item.unit_cost !== undefined) {
+      const markupPercent = item.markup_percent ?? getPartsMarkupPercent(item.unit_cost, rules)
+      return { ...item, unit_price: getPartPrice(item.unit_cost, markupPercent) }
+    }
+    return item
+  })
+}
+
+/**
+ * The labor time needed to bring priced lines up to the minimum, billed at
+ * the first labor line's rate. Kept apart from the lines so the hours that
+ * were entered are never changed.
+ */
+export const getMinimumLaborLine = (items: LineItem[], rules: PricingRules = DEFAULT_PRICING_RULES): LineItem | null => {
+  const laborLines = items.filter(item => item.type === 'labor' && item.quantity > 0)
+  const laborHours = laborLines.reduce((sum, item) => sum + item.quantity, 0)
+  if (laborLines.length === 0 || laborHours >= rules.minimum_hours) return null
+
+  return {
+    id: 'minimum_labor',
+    type: 'labor',
+    description: 'Minimum labor charge',
+    quantity: rules.minimum_hours - laborHours,
+    unit_price: laborLines[0].unit_price
+  }
+}
+
+/**
+ * Prices the lines, diagnostic fee and shop supplies for a quote
+ */
+export const calculateQuotePricing = (input: QuotePricingInput, rules: PricingRules = DEFAULT_PRICING_RULES): QuotePricing => {
+  const lineItems = priceLineItems(input.line_items, rules)
+  const minimumLabor = getMinimumLaborLine(lineItems, rules)
+  const billedItems = minimumLabor ? [...lineItems, minimumLabor] : lineItems
+  const laborCost = getLineItemsTotalByType(billedItems, 'labor')
+
+  return {
+    line_items: lineItems,
+    minimum_labor: minimumLabor,
+    billable_hours: billedItems
+      .filter(item => item.type === 'labor')
+      .reduce((sum, item) => sum + item.quantity, 0),
+    labor_cost: laborCost,
+    parts_cost: getLineItemsTotalByType(lineItems, 'part'),
+    fees_cost: getLineItemsTotalByType(lineItems, 'fee'),
+    discount: -getLineItemsTotalByType(lineItems, 'discount'),
+    diagnostic_fee: input.include_diagnostic_fee ? roundCurrency(rules.diagnostic_fee) : 0,
+    shop_supplies: roundCurrency(laborCost * rules.shop_supplies_percent / 100)
+  }
+}
+
+/**
+ * Describes the pricing rules in plain language for the AI prompt
+ */
+export const describePricingRules = (laborRate: number, rules: PricingRules = DEFAULT_PRICING_RULES): string => {
+  const incrementPrice = roundCurrency(laborRate * rules.billing_increment_minutes / 60)
+  const lines = [
+    `- Labor rate: $${laborRate}/hr`,
+    `- Minimum charge: ${rules.minimum_hours} hour${rules.minimum_hours === 1 ? '' : 's'} of labor ($${roundCurrency(laborRate * rules.minimum_hours).toFixed(2)})`,
+    `- Extra time is billed in ${rules.billing_increment_minutes}-minute increments ($${incrementPrice.toFixed(2)} each)`
+  ]
+  if (rules.diagnostic_fee > 0) {
+    lines.push(`- Diagnostic fee: $${rules.diagnostic_fee.toFixed(2)} when the problem needs to be diagnosed`)
+  }
+  if (rules.shop_supplies_percent > 0) {
+    lines.push(`- Shop supplies: ${rules.shop_supplies_percent}% of labor`)
+  }
+  lines.push('- Parts are extra and quoted separately')
+  return lines.join('\n')
+}
@@ -0,0 +1,55 @@
+import type { BusinessSettings, QuietHours } from '../types'
+import { getAutoResponderPolicy, getLocalTime } from './autoResponder'
+
+/**
+ * Quiet Hours
+ *
+ * Scheduled texts and appointment reminders never go out during the shop's
+ * quiet hours. A text due inside the window waits until it ends. Times use the auto-responder's time
+ * zone so the server and every browser agree.
+ */
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '21:00',
+  end: '08:00'
+}
+
+export interface QuietHoursWindow extends QuietHours {
+  timezone: string
+}
+
+export const getQuietHours = (
+  settings?: Pick<BusinessSettings, 'quiet_hours' | 'auto_responder' | 'dnd_enabled'> | null
+): QuietHoursWindow => ({
+  ...DEFAULT_QUIET_HOURS,
+  ...(settings?.quiet_hours || {}),
+  timezone: getAutoResponderPolicy(settings).timezone
+})
+
+/**
+ * Checks if an instant falls inside quiet hours
+ */
+export const isWithinQuietHours = (window: QuietHoursWindow, date: Date = new Date()): boolean => {
+  if (!window.enabled || window.start === window.end) return false
+  const { time } = getLocalTime(date, window.timezone)
+  if (window.start < window.end) {
+    return time >= window.start && time < window.end
+  }
+  return time >= window.start || time < window.end
+}
+
+// Quiet hours last under a day, so this always finds the end
+const MAX_STEPS = 24 * 60
+
+/**
+ * Returns the first instant at or after `date` outside quiet hours
+ */
+export const getNextSendTime = (window: QuietHoursWindow, date: Date): Date => {
+  let candidate = new Date(date)
+  for (let step = 0; step < MAX_STEPS && isWithinQuietHours(window, candidate); step++) {
+    // Jump to the start of the next minute
+    candidate = new Date(Math.floor(candidate.getTime() / 60000) * 60000 + 60000)
+  }
+  return candidate
+}
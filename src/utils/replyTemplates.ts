@@ -0,0 +1,96 @@
+import type { BusinessSettings, Customer, Quote, ReplyTemplate } from '../types'
+import { getPricingRules } from './pricing'
+import { isSamePhoneNumber } from './phone'
+
+/**
+ * Reply Templates
+ *
+ * Saved answers (hours, diagnostic fees, pickup) with `{variables}` that are
+ * filled in for the customer being texted. A variable with no value - say
+ * `{quote_total}` for a customer without a quote - is left in place so it's
+ * obvious it still needs filling in before sending.
+ */
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'customer_first_name', description: "Customer's first name" },
+  { name: 'customer_name', description: "Customer's full name" },
+  { name: 'vehicle', description: 'Most recently added vehicle' },
+  { name: 'quote_total', description: 'Total of their latest quote' },
+  { name: 'business_name', description: 'Shop name' },
+  { name: 'shop_phone', description: 'Shop phone number' },
+  { name: 'labor_rate', description: 'Hourly labor rate' },
+  { name: 'diagnostic_fee', description: 'Diagnostic fee' },
+  { name: 'booking_link', description: 'Online booking link' }
+]
+
+export type TemplateValues = Record<string, string | undefined>
+
+export interface RenderedTemplate {
+  text: string
+  missing: string[] // variables that had no value
+}
+
+const money = (amount: number) => `$${amount.toFixed(2)}`
+
+const describeVehicle = (customer?: Customer | null) => {
+  const vehicle = [...(customer?.vehicles || [])].sort((a, b) => b.added_at.localeCompare(a.added_at))[0]
+  if (!vehicle) return undefined
+  return [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ') || vehicle.details || undefined
+}
+
+/**
+ * Collects variable values for the customer at a phone number. Their latest
+ * quote that wasn't declined supplies `{quote_total}`.
+ */
+export const buildTemplateValues = ({ phoneNumber, customer, quotes = [], settings }: {
+  phoneNumber: string
+  customer?: Customer | null
+  quotes?: Quote[]
+  settings?: BusinessSettings | null
+}): TemplateValues => {
+  const fullName = customer?.full_name || [customer?.first_name, customer?.last_name].filter(Boolean).join(' ')
+  const quote = quotes
+    .filter(q => q.status !== 'declined' && isSamePhoneNumber(q.customer_phone, phoneNumber))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))[0]
+  const rules = getPricingRules(settings)
+
+  return {
+    customer_first_name: customer?.first_name || fullName.split(' ')[0] || undefined,
+    customer_name: fullName || undefined,
+    vehicle: describeVehicle(customer),
+    quote_total: quote ? money(quote.total_cost) : undefined,
+    business_name: settings?.business_name,
+    shop_phone: settings?.phone_number || undefined,
+    labor_rate: settings?.labor_rate ? money(settings.labor_rate) : undefined,
+    diagnostic_fee: rules.diagnostic_fee > 0 ? money(rules.diagnostic_fee) : undefined,
+    booking_link: settings?.booking_link || undefined
+  }
+}
+
+/**
+ * Fills in a template's variables
+ */
+export const renderTemplate = (body: string, values: TemplateValues): RenderedTemplate => {
+  const missing: string[] = []
+  const text = body.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name]
+    if (value) return value
+    if (!missing.includes(name)) missing.push(name)
+    return placeholder
+  })
+  return { text, missing }
+}
+
+/**
+ * Lists the approved answers the AI may reuse, filled in for this customer
+ */
+export const describeCannedReplies = (templates: ReplyTemplate[], values: TemplateValues): string => {
+  const approved = templates.filter(template => template.use_in_ai)
+  if (approved.length === 0) return ''
+
+  const lines = approved.map(template => `- ${template.name}: "${renderTemplate(template.body, values).text}"`)
+  return [
+    "APPROVED ANSWERS (the shop's own wording; when the client asks about one of these topics, reply with it, adapting only as needed. Leave out any {placeholder} you don't know):",
+    ...lines
+  ].join('\n')
+}
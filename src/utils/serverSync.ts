@@ -0,0 +1,227 @@
+import { API_BASE_URL } from './api'
+import type { BusinessSettings } from '../types'
+
+/**
+ * Server Sync
+ *
+ * Keeps the localStorage-backed hooks in step with the server datastore so
+ * every browser the shop uses sees the same quotes, appointments, tech sheets
+ * and invoices. localStorage stays the working copy, which keeps the app
+ * usable offline; the server copy is the shared source of truth.
+ *
+ * Changes that don't reach the server are remembered per collection and
+ * kept over the server copy until a later sync gets them through.
+ *
+ * A browser uploads its local data only the first time it connects. After
+ * that an empty server collection means everything was deleted, so a stale
+ * local copy never brings deleted items back.
+ */
+
+/**
+ * Fetches a stored collection from the server.
+ * Returns null when the server can't be reached so callers can keep local data.
+ */
+export const fetchCollection = async <T>(route: string, responseKey: string): Promise<T[] | null> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}${route}`)
+    if (!response.ok) {
+      console.error(`Failed to load ${route} from server:`, response.status)
+      return null
+    }
+    const data = await response.json()
+    return Array.isArray(data[responseKey]) ? data[responseKey] : []
+  } catch (error) {
+    console.error(`Error loading ${route} from server:`, error)
+    return null
+  }
+}
+
+const putItem = <T extends { id: string }>(route: string, item: T) =>
+  fetch(`${API_BASE_URL}${route}/${encodeURIComponent(item.id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(item)
+  })
+
+const deleteItem = (route: string, id: string) =>
+  fetch(`${API_BASE_URL}${route}/${encodeURIComponent(id)}`, { method: 'DELETE' })
+
+const pendingKey = (route: string) => `sync-pending:${route}`
+
+// Set once a browser's local copy of a collection has been handed to the server
+const migratedKey = (route: string) => `sync-migrated:${route}`
+
+/**
+ * Ids of items changed or deleted locally that the server hasn't confirmed
+ */
+const loadPendingIds = (route: string): string[] => {
+  try {
+    const saved = localStorage.getItem(pendingKey(route))
+    return saved ? JSON.parse(saved) : []
+  } catch (error) {
+    console.error(`Error reading unsynced ${route} changes:`, error)
+    return []
+  }
+}
+
+const updatePendingIds = (route: string, add: string[], remove: string[] = []) => {
+  const pending = new Set(loadPendingIds(route))
+  remove.forEach(id => pending.delete(id))
+  add.forEach(id => pending.add(id))
+  if (pending.size > 0) {
+    localStorage.setItem(pendingKey(route), JSON.stringify([...pending]))
+  } else {
+    localStorage.removeItem(pendingKey(route))
+  }
+}
+
+/**
+ * Loads the server copy of a collection, uploading the local copy the first
+ * time a browser with existing data connects to an empty server. Local
+ * changes the server never got are kept and sent again.
+ * Returns null when the server is unavailable.
+ */
+export const loadSyncedCollection = async <T extends { id: string }>(
+  route: string,
+  responseKey: string,
+  localItems: T[]
+): Promise<T[] | null> => {
+  const serverItems = await fetchCollection<T>(route, responseKey)
+  if (serverItems === null) return null
+
+  const isFirstConnection = !localStorage.getItem(migratedKey(route))
+  localStorage.setItem(migratedKey(route), new Date().toISOString())
+
+  if (isFirstConnection && serverItems.length === 0 && localItems.length > 0) {
+    console.log(`☁️ Uploading ${localItems.length} local ${responseKey} to server`)
+    // Upload oldest first so the server keeps the newest-first order
+    await syncCollection(route, [], localItems)
+    return localItems
+  }
+
+  const pendingIds = loadPendingIds(route)
+  if (pendingIds.length === 0) return serverItems
+
+  // Unsynced local versions win; items deleted locally stay deleted
+  const localById = new Map(localItems.map(item => [item.id, item]))
+  const serverIds = new Set(serverItems.map(item => item.id))
+  const merged = [
+    ...localItems.filter(item => pendingIds.includes(item.id) && !serverIds.has(item.id)),
+    ...serverItems
+      .filter(item => !pendingIds.includes(item.id) || localById.has(item.id))
+      .map(item => (pendingIds.includes(item.id) ? localById.get(item.id)! : item))
+  ]
+
+  // Anything already matching the server went through after all
+  const serverById = new Map(serverItems.map(item => [item.id, JSON.stringify(item)]))
+  const settled = pendingIds.filter(id => {
+    const local = localById.get(id)
+    return local ? serverById.get(id) === JSON.stringify(local) : !serverById.has(id)
+  })
+  updatePendingIds(route, [], settled)
+
+  if (settled.length < pendingIds.length) {
+    console.log(`☁️ Retrying ${pendingIds.length - settled.length} unsynced ${responseKey}`)
+    await syncCollection(route, serverItems, merged)
+  }
+  return merged
+}
+
+/**
+ * Refreshes a hook's collection from the server: the synced copy replaces
+ * the one in localStorage and the hook's state, even when it's empty.
+ * Nothing changes when the server is unavailable.
+ */
+export const refreshCollection = async <T extends { id: string }>(
+  route: string,
+  responseKey: string,
+  storageKey: string,
+  localItems: T[],
+  setItems: (items: T[]) => void
+): Promise<void> => {
+  const serverItems = await loadSyncedCollection(route, responseKey, localItems)
+  if (!serverItems) return
+  localStorage.setItem(storageKey, JSON.stringify(serverItems))
+  setItems(serverItems)
+}
+
+/**
+ * Pushes the difference between two versions of a collection to the server:
+ * new or changed items are saved and missing items are deleted. Items are
+ * marked pending until the server accepts them, so a failed sync is retried
+ * the next time the collection loads.
+ */
+export const syncCollection = async <T extends { id: string }>(
+  route: string,
+  previous: T[],
+  next: T[]
+): Promise<void> => {
+  const previousById = new Map(previous.map(item => [item.id, JSON.stringify(item)]))
+  const nextIds = new Set(next.map(item => item.id))
+
+  const changed = next.filter(item => previousById.get(item.id) !== JSON.stringify(item))
+  const removed = previous.filter(item => !nextIds.has(item.id))
+
+  if (changed.length === 0 && removed.length === 0) return
+
+  updatePendingIds(route, [...changed, ...removed].map(item => item.id))
+  const synced: string[] = []
+  try {
+    for (const item of [...changed].reverse()) {
+      const response = await putItem(route, item)
+      if (!response.ok) throw new Error(`Server responded with status: ${response.status}`)
+      synced.push(item.id)
+    }
+    for (const item of removed) {
+      const response = await deleteItem(route, item.id)
+      // Already gone counts as deleted
+      if (!response.ok && response.status !== 404) throw new Error(`Server responded with status: ${response.status}`)
+      synced.push(item.id)
+    }
+  } catch (error) {
+    console.error(`Error syncing ${route} to server:`, error)
+  } finally {
+    updatePendingIds(route, [], synced)
+  }
+}
+
+/**
+ * Fetches the shop preferences saved on the server.
+ * Returns undefined when the server can't be reached and null when nothing is saved yet.
+ */
+export const fetchPreferences = async (): Promise<BusinessSettings | null | undefined> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/settings/preferences`)
+    if (!response.ok) {
+      console.error('Failed to load shop preferences from server:', response.status)
+      return undefined
+    }
+    const data = await response.json()
+    return data.preferences || null
+  } catch (error) {
+    console.error('Error loading shop preferences from server:', error)
+    return undefined
+  }
+}
+
+/**
+ * Saves shop preferences to the server so the processor and other browsers use them.
+ * API keys are never sent.
+ */
+export const savePreferences = async (settings: BusinessSettings): Promise<boolean> => {
+  const preferences: Partial<BusinessSettings> = { ...settings }
+  delete preferences.openai_api_key
+  delete preferences.openphone_api_key
+
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/settings/preferences`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(preferences)
+    })
+    return response.ok
+  } catch (error) {
+    console.error('Error saving shop preferences to server:', error)
+    return false
+  }
+}
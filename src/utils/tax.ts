@@ -0,0 +1,131 @@
+import type { BusinessSettings, Province, TaxLine } from '../types'
+import { roundCurrency } from './lineItems'
+
+/**
+ * Sales Tax Calculation
+ *
+ * Canadian sales tax for quotes and invoices. The shop's `gst_setting`
+ * decides which components are taxable (parts, labor, both or none) and the
+ * province decides which taxes apply:
+ *
+ * - HST provinces charge a single harmonized tax instead of GST
+ * - PST/QST provinces charge GST plus an optional provincial tax
+ * - Everywhere else charges GST only
+ *
+ * Shop fees (supplies, disposal, etc.) are taxed whenever tax is charged at all.
+ */
+
+export interface TaxBreakdown {
+  subtotal: number
+  taxable_amount: number
+  taxes: TaxLine[]
+  tax_total: number
+  total: number
+}
+
+export interface TaxableAmounts {
+  labor: number
+  parts: number
+  fees?: number
+}
+
+export type TaxSettings = Pick<BusinessSettings, 'gst_setting' | 'province' | 'apply_provincial_tax'>
+
+export const GST_RATE = 5
+
+export const HST_RATES: Partial<Record<Province, number>> = {
+  ON: 13,
+  NB: 15,
+  NL: 15,
+  NS: 14,
+  PE: 15
+}
+
+export const PROVINCIAL_TAXES: Partial<Record<Province, { name: string; rate: number }>> = {
+  BC: { name: 'PST', rate: 7 },
+  MB: { name: 'RST', rate: 7 },
+  SK: { name: 'PST', rate: 6 },
+  QC: { name: 'QST', rate: 9.975 }
+}
+
+export const PROVINCES: { code: Province; name: string }[] = [
+  { code: 'AB', name: 'Alberta' },
+  { code: 'BC', name: 'British Columbia' },
+  { code: 'MB', name: 'Manitoba' },
+  { code: 'NB', name: 'New Brunswick' },
+  { code: 'NL', name: 'Newfoundland and Labrador' },
+  { code: 'NS', name: 'Nova Scotia' },
+  { code: 'NT', name: 'Northwest Territories' },
+  { code: 'NU', name: 'Nunavut' },
+  { code: 'ON', name: 'Ontario' },
+  { code: 'PE', name: 'Prince Edward Island' },
+  { code: 'QC', name: 'Quebec' },
+  { code: 'SK', name: 'Saskatchewan' },
+  { code: 'YT', name: 'Yukon' }
+]
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  gst_setting: 'parts',
+  province: 'AB',
+  apply_provincial_tax: false
+}
+
+/**
+ * Returns the tax rates that apply for the shop's province
+ */
+export const getApplicableRates = (settings: TaxSettings): { name: string; rate: number }[] => {
+  const province = settings.province || DEFAULT_TAX_SETTINGS.province!
+  const hstRate = HST_RATES[province]
+  if (hstRate) {
+    return [{ name: 'HST', rate: hstRate }]
+  }
+
+  const rates = [{ name: 'GST', rate: GST_RATE }]
+  const provincialTax = PROVINCIAL_TAXES[province]
+  if (provincialTax && settings.apply_provincial_tax) {
+    rates.push(provincialTax)
+  }
+  return rates
+}
+
+/**
+ * Calculates subtotal, per-tax amounts and total for labor, parts and fees
+ */
+export const calculateTaxes = (amounts: TaxableAmounts, settings: TaxSettings = DEFAULT_TAX_SETTINGS): TaxBreakdown => {
+  const labor = amounts.labor || 0
+  const parts = amounts.parts || 0
+  const fees = amounts.fees || 0
+  const subtotal = roundCurrency(labor + parts + fees)
+
+  const gstSetting = settings.gst_setting || DEFAULT_TAX_SETTINGS.gst_setting
+  let taxableAmount = 0
+  if (gstSetting === 'parts' || gstSetting === 'both') taxableAmount += parts
+  if (gstSetting === 'labor' || gstSetting === 'both') taxableAmount += labor
+  if (gstSetting !== 'none') taxableAmount += fees
+  taxableAmount = roundCurrency(taxableAmount)
+
+  const taxes: TaxLine[] = taxableAmount > 0
+    ? getApplicableRates(settings).map(({ name, rate }) => ({
+        name,
+        rate,
+        amount: roundCurrency(taxableAmount * rate / 100)
+      }))
+    : []
+
+  const taxTotal = roundCurrency(taxes.reduce((sum, tax) => sum + tax.amount, 0))
+
+  return {
+    subtotal,
+    taxable_amount: taxableAmount,
+    taxes,
+    tax_total: taxTotal,
+    total: roundCurrency(subtotal + taxTotal)
+  }
+}
+
+/**
+ * Formats a tax line for display, e.g. "GST (5%)"
+ */
+export const formatTaxLabel = (tax: Pick<TaxLine, 'name' | 'rate'>): string => {
+  return `${tax.name} (${tax.rate}%)`
+}
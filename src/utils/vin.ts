@@ -0,0 +1,156 @@
+/**
+ * VIN Decoding
+ *
+ * Validates and decodes 17-character VINs offline (no lookup service):
+ *
+ * - Characters 1-3 (WMI) identify the manufacturer and country
+ * - Character 9 is a check digit computed from the rest; it is required on
+ *   North American vehicles, so a mismatch there means a typo. Vehicles
+ *   built elsewhere often don't use it, so a mismatch is only a warning.
+ * - Character 10 is the model year, which repeats every 30 years. For cars
+ *   and light trucks character 7 tells the cycles apart: a digit means
+ *   1980-2009, a letter means 2010-2039.
+ */
+
+const VIN_LENGTH = 17
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+}
+
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2]
+
+// Model year codes in order, starting at 1980 (and again at 2010)
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789'
+
+// Most common manufacturer codes on Canadian roads; others decode without a make
+const WMI_MAKES: Record<string, string> = {
+  '1FA': 'Ford', '1FD': 'Ford', '1FM': 'Ford', '1FT': 'Ford', '2FA': 'Ford', '2FM': 'Ford', '2FT': 'Ford', '3FA': 'Ford', '3FT': 'Ford',
+  '1LN': 'Lincoln', '5LM': 'Lincoln',
+  '1G1': 'Chevrolet', '1GC': 'Chevrolet', '1GN': 'Chevrolet', '2G1': 'Chevrolet', '2GN': 'Chevrolet', '3G1': 'Chevrolet', '3GC': 'Chevrolet', '3GN': 'Chevrolet', 'KL1': 'Chevrolet',
+  '1GT': 'GMC', '2GT': 'GMC', '3GT': 'GMC', '1GK': 'GMC', '2GK': 'GMC',
+  '1G4': 'Buick', '2G4': 'Buick', '1G6': 'Cadillac', '1GY': 'Cadillac',
+  '1C3': 'Chrysler', '2C3': 'Chrysler', '1C4': 'Jeep', '1J4': 'Jeep', '1J8': 'Jeep', '1C6': 'Ram', '3C6': 'Ram', '3C7': 'Ram',
+  '1B3': 'Dodge', '1D7': 'Dodge', '2B3': 'Dodge', '2C4': 'Dodge', '2D4': 'Dodge', '3D7': 'Dodge',
+  '1HG': 'Honda', '2HG': 'Honda', '2HK': 'Honda', '5FN': 'Honda', '5J6': 'Honda', 'JHM': 'Honda', 'SHH': 'Honda',
+  '19U': 'Acura', '2HN': 'Acura', 'JH4': 'Acura',
+  '2T1': 'Toyota', '2T3': 'Toyota', '4T1': 'Toyota', '4T3': 'Toyota', '5TD': 'Toyota', '5TF': 'Toyota', 'JTD': 'Toyota', 'JTE': 'Toyota', 'JTM': 'Toyota', 'JTN': 'Toyota',
+  '2T2': 'Lexus', 'JTH': 'Lexus', 'JTJ': 'Lexus',
+  '1N4': 'Nissan', '1N6': 'Nissan', '3N1': 'Nissan', '5N1': 'Nissan', 'JN1': 'Nissan', 'JN8': 'Nissan',
+  'JM1': 'Mazda', 'JM3': 'Mazda', '3MZ': 'Mazda',
+  'JF1': 'Subaru', 'JF2': 'Subaru', '4S3': 'Subaru', '4S4': 'Subaru',
+  'JA3': 'Mitsubishi', 'JA4': 'Mitsubishi',
+  'KMH': 'Hyundai', '5NP': 'Hyundai', '5NM': 'Hyundai',
+  'KNA': 'Kia', 'KND': 'Kia', '5XX': 'Kia', '5XY': 'Kia',
+  '3VW': 'Volkswagen', '1VW': 'Volkswagen', 'WVW': 'Volkswagen', 'WVG': 'Volkswagen',
+  'WAU': 'Audi', 'WA1': 'Audi',
+  'WBA': 'BMW', 'WBS': 'BMW', '5UX': 'BMW',
+  'WDD': 'Mercedes-Benz', 'WDC': 'Mercedes-Benz', '4JG': 'Mercedes-Benz', 'W1K': 'Mercedes-Benz', 'W1N': 'Mercedes-Benz',
+  'WP0': 'Porsche', 'WP1': 'Porsche',
+  'YV1': 'Volvo', 'YV4': 'Volvo',
+  'SAL': 'Land Rover', 'SAJ': 'Jaguar',
+  '5YJ': 'Tesla', '7SA': 'Tesla'
+}
+
+const REGIONS: [RegExp, string][] = [
+  [/^[1-5]/, 'North America'],
+  [/^[6-7]/, 'Oceania'],
+  [/^[8-9]/, 'South America'],
+  [/^[A-H]/, 'Africa'],
+  [/^[J-R]/, 'Asia'],
+  [/^[S-Z]/, 'Europe']
+]
+
+const COUNTRIES: [RegExp, string][] = [
+  [/^[145]/, 'United States'],
+  [/^2/, 'Canada'],
+  [/^3/, 'Mexico'],
+  [/^J/, 'Japan'],
+  [/^K[L-R]/, 'South Korea'],
+  [/^L/, 'China'],
+  [/^S[A-M]/, 'United Kingdom'],
+  [/^W/, 'Germany'],
+  [/^Y[S-W]/, 'Sweden'],
+  [/^Z[A-R]/, 'Italy']
+]
+
+export interface VinDecodeResult {
+  vin: string // cleaned up: uppercase, no spaces or dashes
+  valid: boolean // false when the VIN can't be right (see error)
+  error?: string
+  warning?: string // check digit mismatch on a VIN from outside North America
+  wmi?: string
+  make?: string
+  region?: string
+  country?: string
+  model_year?: number
+}
+
+export const cleanVin = (vin: string): string => vin.toUpperCase().replace(/[\s-]/g, '')
+
+/**
+ * The check digit (character 9) a VIN should have, '0'-'9' or 'X'
+ */
+export const computeVinCheckDigit = (vin: string): string => {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] || 0
+    return total + value * WEIGHTS[index]
+  }, 0)
+  const remainder = sum % 11
+  return remainder === 10 ? 'X' : String(remainder)
+}
+
+/**
+ * Decodes the model year from characters 7 and 10. A year more than a
+ * year in the future falls back to the earlier cycle.
+ */
+const decodeModelYear = (vin: string): number | undefined => {
+  const index = YEAR_CODES.indexOf(vin[9])
+  if (index === -1) return undefined
+
+  const earlier = 1980 + index
+  const later = earlier + 30
+  const latestPossible = new Date().getFullYear() + 1
+  if (/[A-Z]/.test(vin[6]) && later <= latestPossible) return later
+  return earlier
+}
+
+/**
+ * Validates a VIN and decodes what it can offline
+ */
+export const decodeVin = (input: string): VinDecodeResult => {
+  const vin = cleanVin(input)
+
+  if (vin.length !== VIN_LENGTH) {
+    return { vin, valid: false, error: `A VIN has ${VIN_LENGTH} characters (this one has ${vin.length})` }
+  }
+  if (/[IOQ]/.test(vin)) {
+    return { vin, valid: false, error: 'VINs never use the letters I, O or Q (check for 1 and 0)' }
+  }
+  if (!/^[A-HJ-NPR-Z0-9]+$/.test(vin)) {
+    return { vin, valid: false, error: 'VINs only use letters and numbers' }
+  }
+
+  const wmi = vin.slice(0, 3)
+  const region = REGIONS.find(([pattern]) => pattern.test(vin))?.[1]
+  const decoded: VinDecodeResult = {
+    vin,
+    valid: true,
+    wmi,
+    make: WMI_MAKES[wmi],
+    region,
+    country: COUNTRIES.find(([pattern]) => pattern.test(vin))?.[1],
+    model_year: decodeModelYear(vin)
+  }
+
+  const expected = computeVinCheckDigit(vin)
+  if (vin[8] !== expected) {
+    if (region === 'North America') {
+      return { ...decoded, valid: false, error: `Check digit doesn't match (expected ${expected} in position 9) - check for a typo` }
+    }
+    return { ...decoded, warning: "Check digit doesn't match; that's normal for some vehicles built outside North America" }
+  }
+  return decoded
+}